@@ -0,0 +1,321 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { AddressType, getAddressInfo } from 'bitcoin-address-validation';
+import { crypto, networks } from 'bitcoinjs-lib';
+import type { SupportedAddressType } from '../transactions/bitcoin/types';
+import { Account, AccountType, NetworkType } from '../types';
+import { bip32 } from '../utils/bip32';
+import { getBitcoinDerivationPath, getSegwitDerivationPath, getTaprootDerivationPath } from '../wallet';
+import { createWatchOnlyAccount } from './watchOnly';
+
+/**
+ * Output descriptors as described in BIP-380, for the sh(wpkh()) (BIP-381/382), wpkh() (BIP-382) and key path only
+ * tr() (BIP-386) scripts used by our accounts.
+ */
+
+const INPUT_CHARSET =
+  '0123456789()[],\'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [0xf5dee51989n, 0xa9fdca3312n, 0x1bab10e32dn, 0x3706b1677an, 0x644d626ffdn];
+
+const KEY_EXPRESSION_REGEX = /^(?:\[([0-9a-fA-F]{8})((?:\/\d+['h]?)*)\])?([0-9a-zA-Z]+)((?:\/\d+['h]?)*(?:\/\*)?)$/;
+
+export type DescriptorKeyOrigin = {
+  /** The fingerprint of the master key as 8 hex characters */
+  fingerprint: string;
+  /** The derivation path from the master key, e.g. m/84'/0'/0'/0/0 */
+  path: string;
+};
+
+export type DescriptorKey = {
+  /** A hex encoded public key or an extended public key */
+  key: string;
+  origin?: DescriptorKeyOrigin;
+  /** The unhardened path to derive from an extended public key, e.g. 0/* */
+  derivationPath?: string;
+};
+
+export type Descriptor = {
+  type: SupportedAddressType;
+  key: DescriptorKey;
+};
+
+const polymod = (symbols: number[]) => {
+  let chk = 1n;
+  for (const value of symbols) {
+    const top = chk >> 35n;
+    chk = ((chk & 0x7ffffffffn) << 5n) ^ BigInt(value);
+    for (let i = 0; i < 5; i++) {
+      if ((top >> BigInt(i)) & 1n) {
+        chk ^= GENERATOR[i];
+      }
+    }
+  }
+  return chk;
+};
+
+/**
+ * Computes the 8 character checksum of a descriptor without its checksum
+ */
+export const getDescriptorChecksum = (descriptor: string): string => {
+  const symbols: number[] = [];
+  let groups: number[] = [];
+
+  for (const char of descriptor) {
+    const value = INPUT_CHARSET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid character in descriptor: ${char}`);
+    }
+
+    symbols.push(value & 31);
+    groups.push(value >> 5);
+    if (groups.length === 3) {
+      symbols.push(groups[0] * 9 + groups[1] * 3 + groups[2]);
+      groups = [];
+    }
+  }
+
+  if (groups.length === 1) {
+    symbols.push(groups[0]);
+  } else if (groups.length === 2) {
+    symbols.push(groups[0] * 3 + groups[1]);
+  }
+
+  const checksum = polymod([...symbols, 0, 0, 0, 0, 0, 0, 0, 0]) ^ 1n;
+
+  let result = '';
+  for (let i = 0; i < 8; i++) {
+    result += CHECKSUM_CHARSET[Number((checksum >> BigInt(5 * (7 - i))) & 31n)];
+  }
+  return result;
+};
+
+const stripPathPrefix = (path: string) => path.replace(/^m\//, '');
+
+const formatKeyExpression = ({ key, origin, derivationPath }: DescriptorKey) => {
+  const originPrefix = origin ? `[${origin.fingerprint.toLowerCase()}/${stripPathPrefix(origin.path)}]` : '';
+  const derivationSuffix = derivationPath ? `/${derivationPath}` : '';
+
+  return `${originPrefix}${key}${derivationSuffix}`;
+};
+
+/**
+ * Creates a descriptor with its checksum
+ */
+export const createDescriptor = ({ type, key }: Descriptor): string => {
+  const keyExpression = formatKeyExpression(key);
+
+  let descriptor: string;
+  if (type === 'p2sh') {
+    descriptor = `sh(wpkh(${keyExpression}))`;
+  } else if (type === 'p2wpkh') {
+    descriptor = `wpkh(${keyExpression})`;
+  } else {
+    descriptor = `tr(${keyExpression})`;
+  }
+
+  return `${descriptor}#${getDescriptorChecksum(descriptor)}`;
+};
+
+/**
+ * Parses a descriptor, verifying its checksum if present
+ */
+export const parseDescriptor = (descriptorWithChecksum: string): Descriptor => {
+  const [descriptor, checksum, ...rest] = descriptorWithChecksum.trim().split('#');
+
+  if (rest.length > 0 || (checksum !== undefined && checksum !== getDescriptorChecksum(descriptor))) {
+    throw new Error('Invalid descriptor checksum');
+  }
+
+  let type: SupportedAddressType;
+  let keyExpression: string;
+
+  if (descriptor.startsWith('sh(wpkh(') && descriptor.endsWith('))')) {
+    type = 'p2sh';
+    keyExpression = descriptor.slice(8, -2);
+  } else if (descriptor.startsWith('wpkh(') && descriptor.endsWith(')')) {
+    type = 'p2wpkh';
+    keyExpression = descriptor.slice(5, -1);
+  } else if (descriptor.startsWith('tr(') && descriptor.endsWith(')')) {
+    type = 'p2tr';
+    keyExpression = descriptor.slice(3, -1);
+  } else {
+    throw new Error(`Unsupported descriptor: ${descriptor}`);
+  }
+
+  const match = KEY_EXPRESSION_REGEX.exec(keyExpression);
+  if (!match) {
+    throw new Error(`Invalid key expression: ${keyExpression}`);
+  }
+
+  const [, fingerprint, originPath, key, derivationPath] = match;
+
+  return {
+    type,
+    key: {
+      key,
+      origin: fingerprint ? { fingerprint: fingerprint.toLowerCase(), path: `m${originPath}` } : undefined,
+      derivationPath: derivationPath ? derivationPath.slice(1) : undefined,
+    },
+  };
+};
+
+/**
+ * Gets the public key of a descriptor. For ranged descriptors, the wildcard is replaced with the index.
+ */
+export const getDescriptorPublicKey = ({ type, key }: Descriptor, network: NetworkType, index = 0): Uint8Array => {
+  let publicKey: Uint8Array;
+
+  if (/^[0-9a-fA-F]+$/.test(key.key)) {
+    publicKey = hex.decode(key.key.toLowerCase());
+  } else {
+    let node = bip32.fromBase58(key.key, network === 'Mainnet' ? networks.bitcoin : networks.testnet);
+
+    for (const segment of key.derivationPath?.split('/') ?? []) {
+      if (segment.endsWith("'") || segment.endsWith('h')) {
+        throw new Error('Hardened derivation is not possible from an extended public key');
+      }
+      node = node.derive(segment === '*' ? index : Number(segment));
+    }
+
+    publicKey = node.publicKey;
+  }
+
+  if (type === 'p2tr') {
+    // taproot keys are x-only
+    return publicKey.length === 33 ? publicKey.slice(1) : publicKey;
+  }
+
+  if (publicKey.length !== 33) {
+    throw new Error('Segwit descriptors require a compressed public key');
+  }
+
+  return publicKey;
+};
+
+export const getDescriptorAddress = (descriptor: Descriptor, network: NetworkType, index = 0): string => {
+  const btcNetwork = network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK;
+  const publicKey = getDescriptorPublicKey(descriptor, network, index);
+
+  let address: string | undefined;
+  if (descriptor.type === 'p2sh') {
+    address = btc.p2sh(btc.p2wpkh(publicKey, btcNetwork), btcNetwork).address;
+  } else if (descriptor.type === 'p2wpkh') {
+    address = btc.p2wpkh(publicKey, btcNetwork).address;
+  } else {
+    address = btc.p2tr(publicKey, undefined, btcNetwork).address;
+  }
+
+  if (!address) {
+    throw new Error('Failed to derive address from descriptor');
+  }
+
+  return address;
+};
+
+const getAddressDescriptorType = (address: string): SupportedAddressType => {
+  const { type } = getAddressInfo(address);
+
+  if (type === AddressType.p2sh) {
+    return 'p2sh';
+  }
+  if (type === AddressType.p2wpkh) {
+    return 'p2wpkh';
+  }
+  if (type === AddressType.p2tr) {
+    return 'p2tr';
+  }
+
+  throw new Error(`Unsupported address type for descriptors: ${type}`);
+};
+
+const getDerivationPath = (type: SupportedAddressType, index: number, network: NetworkType) => {
+  if (type === 'p2sh') {
+    return getBitcoinDerivationPath({ index, network });
+  }
+  if (type === 'p2wpkh') {
+    return getSegwitDerivationPath({ index, network });
+  }
+  return getTaprootDerivationPath({ index, network });
+};
+
+/**
+ * Exports the payment and ordinals addresses of an account as descriptors. The key origin is included if the master
+ * fingerprint is known, either passed in or computed from the master public key of software accounts.
+ */
+export const getAccountDescriptors = (
+  account: Account,
+  network: NetworkType,
+  masterFingerprint?: string,
+): { payment: string; ordinals: string } => {
+  const fingerprint =
+    masterFingerprint ??
+    (account.masterPubKey ? hex.encode(crypto.hash160(Buffer.from(account.masterPubKey, 'hex')).slice(0, 4)) : '');
+  const addressIndex = account.accountType === 'ledger' ? account.deviceAccountIndex : account.id;
+
+  const toDescriptor = (address: string, publicKey: string) => {
+    const type = getAddressDescriptorType(address);
+    const descriptor: Descriptor = {
+      type,
+      key: {
+        key: publicKey,
+        origin:
+          fingerprint && addressIndex !== undefined
+            ? { fingerprint, path: getDerivationPath(type, addressIndex, network) }
+            : undefined,
+      },
+    };
+
+    if (getDescriptorAddress(descriptor, network) !== address) {
+      throw new Error(`Public key does not match address ${address}`);
+    }
+
+    return createDescriptor(descriptor);
+  };
+
+  return {
+    payment: toDescriptor(account.btcAddress, account.btcPublicKey),
+    ordinals: toDescriptor(account.ordinalsAddress, account.ordinalsPublicKey),
+  };
+};
+
+/**
+ * Creates a watch-only account from a payment and an ordinals descriptor. For ranged descriptors, the account id is
+ * used as the address index, as done for software accounts. Descriptors exported by an air-gapped device can be
+ * imported as an air-gapped account instead.
+ */
+export const createAccountFromDescriptors = ({
+  id,
+  network,
+  payment,
+  ordinals,
+  accountName,
+  accountType,
+}: {
+  id: number;
+  network: NetworkType;
+  payment: string;
+  ordinals: string;
+  accountName?: string;
+  accountType?: Extract<AccountType, 'watch-only' | 'air-gapped'>;
+}): Account => {
+  const paymentDescriptor = parseDescriptor(payment);
+  const ordinalsDescriptor = parseDescriptor(ordinals);
+
+  if (paymentDescriptor.type === 'p2tr') {
+    throw new Error('Payment descriptor must be sh(wpkh()) or wpkh()');
+  }
+  if (ordinalsDescriptor.type !== 'p2tr') {
+    throw new Error('Ordinals descriptor must be tr()');
+  }
+
+  return createWatchOnlyAccount({
+    id,
+    network,
+    payment: { publicKey: hex.encode(getDescriptorPublicKey(paymentDescriptor, network, id)) },
+    ordinals: { publicKey: hex.encode(getDescriptorPublicKey(ordinalsDescriptor, network, id)) },
+    paymentAddressType: paymentDescriptor.type,
+    accountName,
+    accountType,
+  });
+};
@@ -15,6 +15,9 @@ import { BIP32Interface, bip32 } from '../utils/bip32';
 import { getWalletFromRootNode, walletFromSeedPhrase } from '../wallet';
 import { GAIA_HUB_URL } from './../constant';
 
+export * from './descriptors';
+export * from './watchOnly';
+
 const getActiveAccountsFromRootNode = async ({
   networkObject,
   currentAccounts,
@@ -0,0 +1,69 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { networks } from 'bitcoinjs-lib';
+import { Account, AccountType, NetworkType } from '../types';
+import { bip32 } from '../utils/bip32';
+
+export type WatchOnlyKey = { xpub: string } | { publicKey: string };
+
+const getWatchOnlyPublicKey = (key: WatchOnlyKey, index: number, network: NetworkType): Uint8Array => {
+  if ('publicKey' in key) {
+    return hex.decode(key.publicKey);
+  }
+
+  // the extended key is expected at the account level, so we derive the same path as software accounts do
+  const node = bip32.fromBase58(key.xpub, network === 'Mainnet' ? networks.bitcoin : networks.testnet);
+  return node.derive(0).derive(index).publicKey;
+};
+
+/**
+ * Creates an account from public keys only. It can be used to build and review transactions, but not to sign them.
+ * Extended public keys should be at the account level (e.g. m/84'/0'/0') and the address key is derived at
+ * 0/{id}, as done for software accounts.
+ * Air-gapped accounts are created the same way, but their transactions are signed by an offline device over QR codes.
+ */
+export function createWatchOnlyAccount({
+  id,
+  network,
+  payment,
+  ordinals,
+  paymentAddressType = 'p2sh',
+  accountName,
+  accountType = 'watch-only',
+}: {
+  id: number;
+  network: NetworkType;
+  payment: WatchOnlyKey;
+  ordinals: WatchOnlyKey;
+  paymentAddressType?: 'p2sh' | 'p2wpkh';
+  accountName?: string;
+  accountType?: Extract<AccountType, 'watch-only' | 'air-gapped'>;
+}): Account {
+  const btcNetwork = network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK;
+
+  const btcPublicKey = getWatchOnlyPublicKey(payment, id, network);
+  const p2wpkh = btc.p2wpkh(btcPublicKey, btcNetwork);
+  const btcAddress = paymentAddressType === 'p2sh' ? btc.p2sh(p2wpkh, btcNetwork).address : p2wpkh.address;
+
+  const ordinalsKey = getWatchOnlyPublicKey(ordinals, id, network);
+  const ordinalsPublicKey = ordinalsKey.length === 33 ? ordinalsKey.slice(1) : ordinalsKey;
+  const ordinalsAddress = btc.p2tr(ordinalsPublicKey, undefined, btcNetwork).address;
+
+  if (!btcAddress || !ordinalsAddress) {
+    throw new Error('Failed to derive watch-only addresses');
+  }
+
+  return {
+    id,
+    // watch-only accounts don't hold any stacks keys
+    stxAddress: '',
+    stxPublicKey: '',
+    masterPubKey: '',
+    btcAddress,
+    btcPublicKey: hex.encode(btcPublicKey),
+    ordinalsAddress,
+    ordinalsPublicKey: hex.encode(ordinalsPublicKey),
+    accountType,
+    accountName,
+  };
+}
@@ -2,6 +2,7 @@ import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { BTC_BASE_URI_MAINNET, BTC_BASE_URI_SIGNET, BTC_BASE_URI_TESTNET } from '../../constant';
 import {
   Address,
+  Block,
   BtcAddressBalanceResponse,
   BtcAddressMempool,
   BtcTransactionBroadcastResponse,
@@ -176,6 +177,28 @@ export class BitcoinEsploraApiProvider {
     const data = await this.httpGet<string>(`/block-height/${height}`);
     return data;
   }
+
+  async getBlock(blockHash: string): Promise<Block> {
+    return this.httpGet<Block>(`/block/${blockHash}`);
+  }
+
+  async getBlockTransactions(blockHash: string): Promise<EsploraTransaction[]> {
+    const { tx_count: txCount } = await this.getBlock(blockHash);
+    const transactions: EsploraTransaction[] = [];
+
+    // esplora returns the transactions of a block in pages of 25
+    while (transactions.length < txCount) {
+      const page = await this.httpGet<EsploraTransaction[]>(`/block/${blockHash}/txs/${transactions.length}`);
+
+      if (page.length === 0) {
+        break;
+      }
+
+      transactions.push(...page);
+    }
+
+    return transactions;
+  }
 }
 
 export default BitcoinEsploraApiProvider;
@@ -1,11 +1,13 @@
 import * as secp256k1 from '@noble/secp256k1';
-import { hex } from '@scure/base';
+import { base64, hex } from '@scure/base';
 import * as btc from '@scure/btc-signer';
 import * as bip39 from 'bip39';
 import { AddressType, getAddressInfo } from 'bitcoin-address-validation';
 import { crypto } from 'bitcoinjs-lib';
 import { signAsync } from 'bitcoinjs-message';
 import { encode } from 'varuint-bitcoin';
+import { SignOptions, TransactionContext } from '../transactions/bitcoin/context';
+import { finalizeTransaction } from '../transactions/bitcoin/utils';
 import { BitcoinNetwork, getBtcNetwork } from '../transactions/btcNetwork';
 import { getSigningDerivationPath } from '../transactions/psbt';
 import { Account, NetworkType } from '../types';
@@ -25,6 +27,27 @@ export function bip0322Hash(message: string) {
   return result.toString('hex');
 }
 
+/**
+ * Builds the virtual to_spend transaction of BIP-322, whose only output is spent by the signature
+ */
+export function getBip322ToSpendTransaction(scriptPubKey: Uint8Array, message: string) {
+  const txToSpend = new btc.Transaction({
+    allowUnknownOutputs: true,
+    version: 0,
+  });
+  txToSpend.addOutput({
+    amount: BigInt(0),
+    script: scriptPubKey,
+  });
+  txToSpend.addInput({
+    txid: hex.decode('0000000000000000000000000000000000000000000000000000000000000000'),
+    index: 4294967295,
+    sequence: 0,
+    finalScriptSig: btc.Script.encode(['OP_0', hex.decode(bip0322Hash(message))]),
+  });
+  return txToSpend;
+}
+
 function encodeVarString(b: Uint8Array) {
   return Buffer.concat([encode(b.byteLength), b]);
 }
@@ -95,26 +118,10 @@ export const signBip322Message = async ({
     const privateKey = child.privateKey?.toString('hex');
     const publicKey = getSigningPk(type, privateKey);
     const txScript = getSignerScript(type, publicKey, getBtcNetwork(network));
-    const inputHash = hex.decode('0000000000000000000000000000000000000000000000000000000000000000');
     const txVersion = 0;
-    const inputIndex = 4294967295;
     const sequence = 0;
-    const scriptSig = btc.Script.encode(['OP_0', hex.decode(bip0322Hash(message))]);
     // tx-to-spend
-    const txToSpend = new btc.Transaction({
-      allowUnknownOutputs: true,
-      version: txVersion,
-    });
-    txToSpend.addOutput({
-      amount: BigInt(0),
-      script: txScript.script,
-    });
-    txToSpend.addInput({
-      txid: inputHash,
-      index: inputIndex,
-      sequence,
-      finalScriptSig: scriptSig,
-    });
+    const txToSpend = getBip322ToSpendTransaction(txScript.script, message);
     // tx-to-sign
     const txToSign = new btc.Transaction({
       allowUnknownOutputs: true,
@@ -148,3 +155,81 @@ export const signBip322Message = async ({
     throw new Error("Couldn't sign Message");
   }
 };
+
+interface SignBip322ProofOfFundsOptions {
+  context: TransactionContext;
+  signatureAddress: string;
+  message: string;
+  /** The outpoints of the wallet UTXOs to prove control of */
+  outpoints: string[];
+  options?: SignOptions;
+}
+
+/**
+ * Creates a BIP-322 full signature whose to_sign transaction also spends the given wallet UTXOs, proving control of
+ * those coins in addition to the signature address. Signing goes through the address contexts, so software, Ledger and
+ * air-gapped wallets are all supported.
+ */
+export const signBip322ProofOfFunds = async ({
+  context,
+  signatureAddress,
+  message,
+  outpoints,
+  options = {},
+}: SignBip322ProofOfFundsOptions): Promise<string> => {
+  const addressContext = [context.paymentAddress, context.ordinalsAddress].find(
+    (candidate) => candidate.address === signatureAddress,
+  );
+
+  if (!addressContext) {
+    throw new Error(`Signature address is not part of the wallet: ${signatureAddress}`);
+  }
+
+  const network = context.network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK;
+  const scriptPubKey = btc.OutScript.encode(btc.Address(network).decode(signatureAddress));
+  const txToSpend = getBip322ToSpendTransaction(scriptPubKey, message);
+
+  const txToSign = new btc.Transaction({
+    allowUnknownOutputs: true,
+    version: 0,
+  });
+
+  const toSpendUtxo = await addressContext.constructUtxo(
+    {
+      txid: txToSpend.id,
+      vout: 0,
+      value: 0,
+      status: { confirmed: false },
+    },
+    hex.encode(txToSpend.toBytes(true, true)),
+  );
+  await addressContext.addInput(txToSign, toSpendUtxo);
+
+  const usedOutpoints = new Set<string>();
+  for (const outpoint of outpoints) {
+    if (usedOutpoints.has(outpoint)) {
+      throw new Error(`UTXO already used: ${outpoint}`);
+    }
+    usedOutpoints.add(outpoint);
+
+    const { extendedUtxo, addressContext: utxoAddressContext } = await context.getUtxo(outpoint);
+
+    if (!extendedUtxo || !utxoAddressContext) {
+      throw new Error(`UTXO for outpoint not found: ${outpoint}`);
+    }
+
+    await utxoAddressContext.addInput(txToSign, extendedUtxo);
+  }
+
+  // the address contexts set a final sequence, but BIP-322 requires all to_sign inputs to have a sequence of 0
+  for (let i = 0; i < txToSign.inputsLength; i++) {
+    txToSign.updateInput(i, { sequence: 0 });
+  }
+
+  txToSign.addOutput({ script: btc.Script.encode(['RETURN']), amount: BigInt(0) });
+
+  await context.signTransaction(txToSign, options);
+  finalizeTransaction(txToSign);
+
+  return base64.encode(txToSign.toBytes(true, true));
+};
@@ -0,0 +1,415 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { base64, hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { crypto } from 'bitcoinjs-lib';
+import { verify as verifyBitcoinMessage } from 'bitcoinjs-message';
+import { areByteArraysEqual } from '../transactions/bitcoin/utils';
+import { getBtcNetwork } from '../transactions/btcNetwork';
+import { NetworkType } from '../types';
+import { getBip322ToSpendTransaction } from './bip322Signature';
+
+/**
+ * simple: the witness stack of the to_sign input
+ * full: the fully signed to_sign transaction
+ * legacy: a Bitcoin Signed Message (BIP-137) signature
+ */
+export type Bip322SignatureFormat = 'simple' | 'full' | 'legacy';
+
+export type Bip322VerificationFailure =
+  | 'invalidAddress'
+  | 'unsupportedAddressType'
+  | 'invalidSignatureEncoding'
+  | 'invalidToSignTransaction'
+  | 'invalidWitness'
+  | 'unsupportedSigHash'
+  | 'publicKeyMismatch'
+  | 'missingPrevouts'
+  | 'invalidSignature';
+
+export type Bip322VerificationResult =
+  | { valid: true; format: Bip322SignatureFormat }
+  | {
+      valid: false;
+      format?: Bip322SignatureFormat;
+      reason: Bip322VerificationFailure;
+      /** The additional input of a full signature which failed verification */
+      inputIndex?: number;
+    };
+
+export interface VerifyBip322MessageOptions {
+  address: string;
+  message: string;
+  /** The base64 encoded signature */
+  signature: string;
+  network: NetworkType;
+  /** The outputs spent by the additional inputs of a full signature, in order. The signatures of those inputs are
+   * verified too, so they are needed to verify proofs of funds. */
+  prevouts?: { script: Uint8Array; amount: bigint }[];
+}
+
+type SignatureCheck = Bip322VerificationFailure | undefined;
+
+type InputSignature = { witness: Uint8Array[]; scriptSig?: Uint8Array };
+
+const OP_RETURN_SCRIPT = btc.Script.encode(['RETURN']);
+
+// BIP-137 header bytes go from 27 to 42 depending on the address type and public key compression
+const LEGACY_SIGNATURE_LENGTH = 65;
+const LEGACY_HEADER_MIN = 27;
+const LEGACY_HEADER_MAX = 42;
+
+const failure = (
+  reason: Bip322VerificationFailure,
+  format?: Bip322SignatureFormat,
+  inputIndex?: number,
+): Bip322VerificationResult => ({
+  valid: false,
+  format,
+  reason,
+  ...(inputIndex ? { inputIndex } : {}),
+});
+
+const isLegacySignature = (signature: Uint8Array) =>
+  signature.length === LEGACY_SIGNATURE_LENGTH &&
+  signature[0] >= LEGACY_HEADER_MIN &&
+  signature[0] <= LEGACY_HEADER_MAX;
+
+const decodeSimpleSignature = (signature: Uint8Array) => {
+  try {
+    return btc.RawWitness.decode(signature);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const decodeFullSignature = (signature: Uint8Array) => {
+  try {
+    return btc.Transaction.fromRaw(signature, { allowUnknownOutputs: true, disableScriptCheck: true });
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const createToSignTransaction = (toSpendId: string) => {
+  const txToSign = new btc.Transaction({ allowUnknownOutputs: true, version: 0 });
+  txToSign.addInput({ txid: toSpendId, index: 0, sequence: 0 });
+  txToSign.addOutput({ script: OP_RETURN_SCRIPT, amount: BigInt(0) });
+  return txToSign;
+};
+
+const isValidToSignTransaction = (txToSign: btc.Transaction, toSpendId: string) => {
+  if (txToSign.inputsLength === 0 || txToSign.outputsLength !== 1) {
+    return false;
+  }
+
+  const input = txToSign.getInput(0);
+  const output = txToSign.getOutput(0);
+
+  return (
+    !!input.txid &&
+    hex.encode(input.txid) === toSpendId &&
+    input.index === 0 &&
+    output.amount === BigInt(0) &&
+    areByteArraysEqual(output.script, OP_RETURN_SCRIPT)
+  );
+};
+
+/**
+ * Splits an ECDSA signature into its DER encoding and sighash type, only accepting SIGHASH_ALL
+ */
+const splitEcdsaSignature = (signature: Uint8Array) => {
+  if (signature.length < 2 || signature[signature.length - 1] !== btc.SigHash.ALL) {
+    return undefined;
+  }
+  return signature.slice(0, -1);
+};
+
+const verifyEcdsa = (signature: Uint8Array, sigHash: Uint8Array, publicKey: Uint8Array) => {
+  try {
+    // high S values are valid by consensus, so we don't enforce low S
+    return secp256k1.verify(signature, sigHash, publicKey, { strict: false });
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Computes the legacy SIGHASH_ALL hash of an input, as the signer doesn't expose it
+ */
+const getLegacySigHash = (txToSign: btc.Transaction, inputIndex: number, prevOutScript: Uint8Array) => {
+  const inputs = Array.from({ length: txToSign.inputsLength }, (_, index) => {
+    const input = txToSign.getInput(index);
+    return {
+      txid: input.txid,
+      index: input.index,
+      sequence: input.sequence,
+      finalScriptSig: index === inputIndex ? prevOutScript : new Uint8Array(),
+    };
+  });
+  const outputs = Array.from({ length: txToSign.outputsLength }, (_, outputIndex) => {
+    const { amount, script } = txToSign.getOutput(outputIndex);
+    return { amount, script };
+  });
+
+  const rawTransaction = btc.RawTx.encode({
+    version: txToSign.version,
+    segwitFlag: false,
+    inputs,
+    outputs,
+    lockTime: txToSign.lockTime,
+  });
+  const sigHashType = new Uint8Array([btc.SigHash.ALL, 0, 0, 0]);
+
+  return crypto.hash256(Buffer.concat([rawTransaction, sigHashType]));
+};
+
+const checkSegwitV0Signature = (
+  txToSign: btc.Transaction,
+  inputIndex: number,
+  witness: Uint8Array[],
+  publicKeyHash: Uint8Array,
+  amount: bigint,
+): SignatureCheck => {
+  if (witness.length !== 2) {
+    return 'invalidWitness';
+  }
+
+  const [signature, publicKey] = witness;
+  if (!areByteArraysEqual(crypto.hash160(Buffer.from(publicKey)), publicKeyHash)) {
+    return 'publicKeyMismatch';
+  }
+
+  const derSignature = splitEcdsaSignature(signature);
+  if (!derSignature) {
+    return 'unsupportedSigHash';
+  }
+
+  const scriptCode = btc.OutScript.encode({ type: 'pkh', hash: publicKeyHash });
+  const sigHash = txToSign.preimageWitnessV0(inputIndex, scriptCode, btc.SigHash.ALL, amount);
+
+  return verifyEcdsa(derSignature, sigHash, publicKey) ? undefined : 'invalidSignature';
+};
+
+const checkTaprootSignature = async (
+  txToSign: btc.Transaction,
+  inputIndex: number,
+  witness: Uint8Array[],
+  outputKey: Uint8Array,
+  prevOutScripts: Uint8Array[],
+  prevOutAmounts: bigint[],
+): Promise<SignatureCheck> => {
+  // script path spends are not supported, only key path spends with a single signature
+  if (witness.length !== 1 || (witness[0].length !== 64 && witness[0].length !== 65)) {
+    return 'invalidWitness';
+  }
+
+  const [signature] = witness;
+  const sigHashType = signature.length === 65 ? signature[64] : btc.SigHash.DEFAULT;
+  if (sigHashType !== btc.SigHash.DEFAULT && sigHashType !== btc.SigHash.ALL) {
+    return 'unsupportedSigHash';
+  }
+
+  const sigHash = txToSign.preimageWitnessV1(inputIndex, prevOutScripts, sigHashType, prevOutAmounts);
+
+  const isValid = await secp256k1.schnorr.verify(signature.slice(0, 64), sigHash, outputKey);
+
+  return isValid ? undefined : 'invalidSignature';
+};
+
+const checkLegacySignature = (
+  txToSign: btc.Transaction,
+  inputIndex: number,
+  scriptSig: Uint8Array,
+  publicKeyHash: Uint8Array,
+  scriptPubKey: Uint8Array,
+): SignatureCheck => {
+  let scriptSigItems: ReturnType<typeof btc.Script.decode>;
+  try {
+    scriptSigItems = btc.Script.decode(scriptSig);
+  } catch (e) {
+    return 'invalidWitness';
+  }
+
+  const [signature, publicKey] = scriptSigItems;
+  if (scriptSigItems.length !== 2 || !(signature instanceof Uint8Array) || !(publicKey instanceof Uint8Array)) {
+    return 'invalidWitness';
+  }
+
+  if (!areByteArraysEqual(crypto.hash160(Buffer.from(publicKey)), publicKeyHash)) {
+    return 'publicKeyMismatch';
+  }
+
+  const derSignature = splitEcdsaSignature(signature);
+  if (!derSignature) {
+    return 'unsupportedSigHash';
+  }
+
+  const sigHash = getLegacySigHash(txToSign, inputIndex, scriptPubKey);
+
+  return verifyEcdsa(derSignature, sigHash, publicKey) ? undefined : 'invalidSignature';
+};
+
+/**
+ * Checks the signature of an input of the to_sign transaction against the output it spends. The first input spends
+ * the to_spend transaction, and any others are the UTXOs of a proof of funds.
+ */
+const checkToSignInput = async (
+  txToSign: btc.Transaction,
+  inputIndex: number,
+  { witness, scriptSig }: InputSignature,
+  prevOutScripts: Uint8Array[],
+  prevOutAmounts: bigint[],
+): Promise<SignatureCheck> => {
+  const scriptPubKey = prevOutScripts[inputIndex];
+
+  let decodedScript: ReturnType<typeof btc.OutScript.decode>;
+  try {
+    decodedScript = btc.OutScript.decode(scriptPubKey);
+  } catch (e) {
+    return 'unsupportedAddressType';
+  }
+
+  if (decodedScript.type === 'wpkh') {
+    if (scriptSig?.length) {
+      return 'invalidWitness';
+    }
+    return checkSegwitV0Signature(txToSign, inputIndex, witness, decodedScript.hash, prevOutAmounts[inputIndex]);
+  }
+
+  if (decodedScript.type === 'sh') {
+    // only p2sh-p2wpkh is supported, the redeem script is derived from the public key of the witness
+    if (witness.length !== 2) {
+      return 'invalidWitness';
+    }
+
+    const redeemScript = btc.p2wpkh(witness[1]).script;
+    if (!areByteArraysEqual(crypto.hash160(Buffer.from(redeemScript)), decodedScript.hash)) {
+      return 'publicKeyMismatch';
+    }
+    if (scriptSig !== undefined && !areByteArraysEqual(scriptSig, btc.Script.encode([redeemScript]))) {
+      return 'invalidWitness';
+    }
+
+    return checkSegwitV0Signature(
+      txToSign,
+      inputIndex,
+      witness,
+      crypto.hash160(Buffer.from(witness[1])),
+      prevOutAmounts[inputIndex],
+    );
+  }
+
+  if (decodedScript.type === 'tr') {
+    if (scriptSig?.length) {
+      return 'invalidWitness';
+    }
+
+    return checkTaprootSignature(txToSign, inputIndex, witness, decodedScript.pubkey, prevOutScripts, prevOutAmounts);
+  }
+
+  if (decodedScript.type === 'pkh') {
+    if (witness.length || !scriptSig) {
+      return 'invalidWitness';
+    }
+    return checkLegacySignature(txToSign, inputIndex, scriptSig, decodedScript.hash, scriptPubKey);
+  }
+
+  return 'unsupportedAddressType';
+};
+
+const verifyLegacyMessage = (address: string, message: string, signature: string): Bip322VerificationResult => {
+  try {
+    // segwit signatures created by wallets that don't follow the BIP-137 header ranges are also accepted
+    if (verifyBitcoinMessage(message, address, signature, undefined, true)) {
+      return { valid: true, format: 'legacy' };
+    }
+  } catch (e) {
+    // the library throws on addresses it doesn't support, e.g. taproot
+  }
+  return failure('invalidSignature', 'legacy');
+};
+
+/**
+ * Verifies a BIP-322 signature in the simple or full format, or a legacy Bitcoin Signed Message (BIP-137) signature.
+ * Supports p2tr (key path), p2wpkh, p2sh-p2wpkh and p2pkh addresses.
+ */
+export const verifyBip322Message = async ({
+  address,
+  message,
+  signature,
+  network,
+  prevouts = [],
+}: VerifyBip322MessageOptions): Promise<Bip322VerificationResult> => {
+  let scriptPubKey: Uint8Array;
+  try {
+    scriptPubKey = btc.OutScript.encode(btc.Address(getBtcNetwork(network)).decode(address));
+  } catch (e) {
+    return failure('invalidAddress');
+  }
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = base64.decode(signature);
+  } catch (e) {
+    return failure('invalidSignatureEncoding');
+  }
+
+  if (isLegacySignature(signatureBytes)) {
+    return verifyLegacyMessage(address, message, signature);
+  }
+
+  const toSpendId = getBip322ToSpendTransaction(scriptPubKey, message).id;
+
+  let format: Bip322SignatureFormat;
+  let txToSign: btc.Transaction;
+  let inputSignatures: InputSignature[];
+
+  const simpleWitness = decodeSimpleSignature(signatureBytes);
+  if (simpleWitness) {
+    format = 'simple';
+    txToSign = createToSignTransaction(toSpendId);
+    inputSignatures = [{ witness: simpleWitness }];
+  } else {
+    const fullTransaction = decodeFullSignature(signatureBytes);
+    if (!fullTransaction) {
+      return failure('invalidSignatureEncoding');
+    }
+
+    format = 'full';
+    txToSign = fullTransaction;
+    if (!isValidToSignTransaction(txToSign, toSpendId)) {
+      return failure('invalidToSignTransaction', format);
+    }
+
+    inputSignatures = Array.from({ length: txToSign.inputsLength }, (_, inputIndex) => {
+      const input = txToSign.getInput(inputIndex);
+      return { witness: input.finalScriptWitness ?? [], scriptSig: input.finalScriptSig ?? new Uint8Array() };
+    });
+  }
+
+  // the additional inputs of a full signature can only be verified against the outputs they spend
+  const inputPrevouts = format === 'simple' ? [] : prevouts;
+  if (inputPrevouts.length !== txToSign.inputsLength - 1) {
+    return failure('missingPrevouts', format);
+  }
+
+  const prevOutScripts = [scriptPubKey, ...inputPrevouts.map(({ script }) => script)];
+  const prevOutAmounts = [BigInt(0), ...inputPrevouts.map(({ amount }) => amount)];
+
+  // the to_spend input comes first, so a message signed for another address fails before any of the funds
+  for (let inputIndex = 0; inputIndex < inputSignatures.length; inputIndex++) {
+    const signatureFailure = await checkToSignInput(
+      txToSign,
+      inputIndex,
+      inputSignatures[inputIndex],
+      prevOutScripts,
+      prevOutAmounts,
+    );
+
+    if (signatureFailure) {
+      return failure(signatureFailure, format, inputIndex);
+    }
+  }
+
+  return { valid: true, format };
+};
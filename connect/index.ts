@@ -1,5 +1,6 @@
 export * from './auth';
 export * from './bip322Signature';
+export * from './bip322Verification';
 export * from './signature';
 export * from './transactionRequest';
 export * from './manifest';
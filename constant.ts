@@ -15,6 +15,10 @@ export const BTC_SEGWIT_PATH_PURPOSE = `m/84'/`;
 
 export const BTC_TAPROOT_PATH_PURPOSE = `m/86'/`;
 
+export const BTC_SILENT_PAYMENT_PATH_PURPOSE = `m/352'/`;
+
+export const BTC_MULTISIG_PATH_PURPOSE = `m/87'/`;
+
 export const BTC_PATH_WITHOUT_INDEX = `m/49'/0'/0'/0/`;
 
 export const BTC_TESTNET_PATH_WITHOUT_INDEX = `m/49'/1'/0'/0/`;
@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { rbf } from '../../transactions';
+import { TransactionContext } from '../../transactions/bitcoin/context';
 import { Account, BtcTransactionData, SettingsNetwork } from '../../types';
 import { BitcoinEsploraApiProvider, mempoolApi } from '../../api';
 import { RbfData, sortFees } from './helpers';
@@ -10,9 +11,18 @@ type Props = {
   btcNetwork: SettingsNetwork;
   esploraProvider: BitcoinEsploraApiProvider;
   isLedgerAccount: boolean;
+  /** The transaction context of the account, which lets replacements spend any of its UTXOs */
+  context?: TransactionContext;
 };
 
-const useBtcRbfTransactionData = ({ account, transaction, btcNetwork, esploraProvider, isLedgerAccount }: Props) => {
+const useBtcRbfTransactionData = ({
+  account,
+  transaction,
+  btcNetwork,
+  esploraProvider,
+  isLedgerAccount,
+  context,
+}: Props) => {
   const fetchRbfData = async (): Promise<RbfData | undefined> => {
     if (!account || !transaction) {
       return;
@@ -24,6 +34,7 @@ const useBtcRbfTransactionData = ({ account, transaction, btcNetwork, esploraPro
       accountId: isLedgerAccount && account.deviceAccountIndex ? account.deviceAccountIndex : account.id,
       network: btcNetwork.type,
       esploraProvider,
+      context,
     });
 
     const mempoolFees = await mempoolApi.getRecommendedFees(btcNetwork.type);
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createAccountFromDescriptors,
+  createDescriptor,
+  getAccountDescriptors,
+  getDescriptorAddress,
+  getDescriptorChecksum,
+  parseDescriptor,
+} from '../../account';
+import { Account } from '../../types';
+import { addresses, rootKeyPair } from '../transactions/bitcoin/helpers';
+
+const paymentDescriptor =
+  "sh(wpkh([e0c595c5/49'/0'/0'/0/0]03449642532ff90cc0b2d8bbc56c6fefb4ef3f4b387a70ba77eb9787c825db50fb))#qnq4vfp0";
+const ordinalsDescriptor =
+  "tr([e0c595c5/86'/0'/0'/0/0]cdaa9d72d179e41b0b3c8df66b9a07df6cda38d48134fbee7d09f518f27845f1)#dy2dzlcn";
+const nativeSegwitXpub = rootKeyPair.derivePath("m/84'/0'/0'").neutered().toBase58();
+const rangedDescriptor = `wpkh([e0c595c5/84'/0'/0']${nativeSegwitXpub}/0/*)#l4nwhleu`;
+
+describe('getDescriptorChecksum', () => {
+  it.each([
+    ['raw(deadbeef)', '89f8spxm'],
+    [
+      // eslint-disable-next-line max-len
+      "pkh([d34db33f/44'/0'/0']xpub6ERApfZwUNrhLCkDtcHTcxd75RbzS1ed54G1LkBUHQVHQKqhMkhgbmJbZRkrgZw4koxb5JaHWkY4ALHY2grBGRjaDMzQLcgJvLJuZZvRcEL/1/*)",
+      'ml40v0wf',
+    ],
+  ])('computes the checksum of %s', (descriptor, checksum) => {
+    expect(getDescriptorChecksum(descriptor)).toEqual(checksum);
+  });
+});
+
+describe('parseDescriptor', () => {
+  it('parses a single key descriptor with origin', () => {
+    expect(parseDescriptor(paymentDescriptor)).toEqual({
+      type: 'p2sh',
+      key: {
+        key: addresses[0].nestedSegwitPubKey,
+        origin: { fingerprint: 'e0c595c5', path: "m/49'/0'/0'/0/0" },
+        derivationPath: undefined,
+      },
+    });
+  });
+
+  it('parses a ranged descriptor', () => {
+    const descriptor = parseDescriptor(rangedDescriptor);
+
+    expect(descriptor.key.derivationPath).toEqual('0/*');
+    expect(getDescriptorAddress(descriptor, 'Mainnet', 0)).toEqual(addresses[0].nativeSegwit);
+    expect(getDescriptorAddress(descriptor, 'Mainnet', 1)).toEqual(addresses[1].nativeSegwit);
+  });
+
+  it('accepts descriptors without a checksum', () => {
+    expect(parseDescriptor(`tr(${addresses[0].taprootPubKey})`).type).toEqual('p2tr');
+  });
+
+  it('throws on an invalid checksum', () => {
+    expect(() => parseDescriptor(paymentDescriptor.replace('#qnq4vfp0', '#qnq4vfp1'))).toThrow(
+      'Invalid descriptor checksum',
+    );
+  });
+
+  it('throws on unsupported descriptors', () => {
+    expect(() => parseDescriptor(`pkh(${addresses[0].nativeSegwitPubKey})`)).toThrow('Unsupported descriptor');
+  });
+
+  it('round trips with createDescriptor', () => {
+    expect(createDescriptor(parseDescriptor(rangedDescriptor))).toEqual(rangedDescriptor);
+  });
+});
+
+describe('getAccountDescriptors', () => {
+  const account: Account = {
+    id: 0,
+    btcAddress: addresses[0].nestedSegwit,
+    btcPublicKey: addresses[0].nestedSegwitPubKey,
+    ordinalsAddress: addresses[0].taproot,
+    ordinalsPublicKey: addresses[0].taprootPubKey,
+    masterPubKey: rootKeyPair.publicKey.toString('hex'),
+    accountType: 'software',
+    stxAddress: '',
+    stxPublicKey: '',
+  };
+
+  it('exports descriptors with key origin from the master public key', () => {
+    expect(getAccountDescriptors(account, 'Mainnet')).toEqual({
+      payment: paymentDescriptor,
+      ordinals: ordinalsDescriptor,
+    });
+  });
+
+  it('exports descriptors without key origin if the fingerprint is unknown', () => {
+    const { payment } = getAccountDescriptors({ ...account, masterPubKey: '' }, 'Mainnet');
+
+    expect(payment).toEqual(
+      `sh(wpkh(${addresses[0].nestedSegwitPubKey}))#${getDescriptorChecksum(payment.slice(0, -9))}`,
+    );
+  });
+
+  it('throws if the public key does not match the address', () => {
+    expect(() =>
+      getAccountDescriptors({ ...account, btcPublicKey: addresses[1].nestedSegwitPubKey }, 'Mainnet'),
+    ).toThrow(`Public key does not match address ${addresses[0].nestedSegwit}`);
+  });
+});
+
+describe('createAccountFromDescriptors', () => {
+  it('creates a watch-only account from exported descriptors', () => {
+    const account = createAccountFromDescriptors({
+      id: 0,
+      network: 'Mainnet',
+      payment: paymentDescriptor,
+      ordinals: ordinalsDescriptor,
+    });
+
+    expect(account.btcAddress).toEqual(addresses[0].nestedSegwit);
+    expect(account.ordinalsAddress).toEqual(addresses[0].taproot);
+    expect(account.accountType).toEqual('watch-only');
+  });
+
+  it('uses the account id as the index of ranged descriptors', () => {
+    const account = createAccountFromDescriptors({
+      id: 1,
+      network: 'Mainnet',
+      payment: rangedDescriptor,
+      ordinals: ordinalsDescriptor,
+    });
+
+    expect(account.btcAddress).toEqual(addresses[1].nativeSegwit);
+    expect(account.btcPublicKey).toEqual(addresses[1].nativeSegwitPubKey);
+  });
+
+  it('throws if the ordinals descriptor is not taproot', () => {
+    expect(() =>
+      createAccountFromDescriptors({
+        id: 0,
+        network: 'Mainnet',
+        payment: paymentDescriptor,
+        ordinals: paymentDescriptor,
+      }),
+    ).toThrow('Ordinals descriptor must be tr()');
+  });
+});
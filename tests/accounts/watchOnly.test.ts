@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createWatchOnlyAccount } from '../../account';
+import { addresses, rootKeyPair } from '../transactions/bitcoin/helpers';
+
+describe('createWatchOnlyAccount', () => {
+  it('derives the account addresses from extended public keys', () => {
+    const account = createWatchOnlyAccount({
+      id: 1,
+      network: 'Mainnet',
+      payment: { xpub: rootKeyPair.derivePath("m/49'/0'/0'").neutered().toBase58() },
+      ordinals: { xpub: rootKeyPair.derivePath("m/86'/0'/0'").neutered().toBase58() },
+    });
+
+    expect(account).toEqual({
+      id: 1,
+      stxAddress: '',
+      stxPublicKey: '',
+      masterPubKey: '',
+      btcAddress: addresses[1].nestedSegwit,
+      btcPublicKey: addresses[1].nestedSegwitPubKey,
+      ordinalsAddress: addresses[1].taproot,
+      ordinalsPublicKey: addresses[1].taprootPubKey,
+      accountType: 'watch-only',
+      accountName: undefined,
+    });
+  });
+
+  it('creates the account from public keys', () => {
+    const account = createWatchOnlyAccount({
+      id: 0,
+      network: 'Mainnet',
+      payment: { publicKey: addresses[0].nativeSegwitPubKey },
+      ordinals: { publicKey: addresses[0].taprootPubKey },
+      paymentAddressType: 'p2wpkh',
+      accountName: 'Cold storage',
+    });
+
+    expect(account.btcAddress).toEqual(addresses[0].nativeSegwit);
+    expect(account.ordinalsAddress).toEqual(addresses[0].taproot);
+    expect(account.accountType).toEqual('watch-only');
+    expect(account.accountName).toEqual('Cold storage');
+  });
+
+  it('creates air-gapped accounts', () => {
+    const account = createWatchOnlyAccount({
+      id: 0,
+      network: 'Mainnet',
+      payment: { publicKey: addresses[0].nestedSegwitPubKey },
+      ordinals: { publicKey: addresses[0].taprootPubKey },
+      accountType: 'air-gapped',
+    });
+
+    expect(account.btcAddress).toEqual(addresses[0].nestedSegwit);
+    expect(account.accountType).toEqual('air-gapped');
+  });
+});
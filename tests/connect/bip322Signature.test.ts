@@ -1,11 +1,24 @@
 /* eslint-disable max-len */
-import { describe, expect, it } from 'vitest';
+import { base64 } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { describe, expect, it, vi } from 'vitest';
 
 import { Verifier } from 'bip322-js';
 import { verify } from 'bitcoinjs-message';
+import AppClient from 'ledger-bitcoin';
 
-import { bip0322Hash, signBip322Message } from '../../connect/bip322Signature';
+import { bip0322Hash, signBip322Message, signBip322ProofOfFunds } from '../../connect/bip322Signature';
+import { verifyBip322Message } from '../../connect/bip322Verification';
 import { testSeed, walletAccounts } from '../mocks/restore.mock';
+import { Transport } from '../../ledger/types';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createTestTransactionContext,
+  fundingTxid,
+  rootKeyPair,
+} from '../transactions/bitcoin/helpers';
 
 describe('bip0322Hash', () => {
   it('should return the BIP0322 message hash', () => {
@@ -78,3 +91,163 @@ describe('Bip322 Signatures', () => {
     await expect(signBip322Message(options)).rejects.toThrow('List of Accounts are required');
   });
 });
+
+describe('Bip322 proof of funds signatures', () => {
+  // Ledger accounts pay from a native segwit address
+  const createContext = (accountType: 'software' | 'ledger' = 'software') =>
+    createTestTransactionContext({
+      paymentType: accountType === 'ledger' ? 'nativeSegwit' : 'nestedSegwit',
+      accountType,
+      esploraApiProvider: createEsploraApiProvider((address) => [
+        address === addresses[0].taproot
+          ? createFundingUtxo({ value: 546 })
+          : createFundingUtxo({ vout: 1, value: 10000 }),
+      ]),
+    });
+
+  it('signs the chosen wallet UTXOs as extra to_sign inputs', async () => {
+    const signature = await signBip322ProofOfFunds({
+      context: createContext(),
+      signatureAddress: addresses[0].taproot,
+      message: 'Hello world',
+      outpoints: [`${fundingTxid}:1`, `${fundingTxid}:0`],
+    });
+
+    const txToSign = btc.Transaction.fromRaw(Buffer.from(signature, 'base64'), { allowUnknownOutputs: true });
+    expect(txToSign.inputsLength).toEqual(3);
+    expect(txToSign.getInput(1).index).toEqual(1);
+    expect(txToSign.getInput(2).index).toEqual(0);
+
+    const prevouts = [
+      { script: btc.OutScript.encode(btc.Address(btc.NETWORK).decode(addresses[0].nestedSegwit)), amount: 10000n },
+      { script: btc.OutScript.encode(btc.Address(btc.NETWORK).decode(addresses[0].taproot)), amount: 546n },
+    ];
+
+    await expect(
+      verifyBip322Message({
+        address: addresses[0].taproot,
+        message: 'Hello world',
+        signature,
+        network: 'Mainnet',
+        prevouts,
+      }),
+    ).resolves.toEqual({ valid: true, format: 'full' });
+    await expect(
+      verifyBip322Message({
+        address: addresses[0].taproot,
+        message: 'Hello world!',
+        signature,
+        network: 'Mainnet',
+        prevouts,
+      }),
+    ).resolves.toEqual({ valid: false, format: 'full', reason: 'invalidToSignTransaction' });
+  });
+
+  it('signs with a nested segwit address', async () => {
+    const signature = await signBip322ProofOfFunds({
+      context: createContext(),
+      signatureAddress: addresses[0].nestedSegwit,
+      message: 'Hello world',
+      outpoints: [`${fundingTxid}:1`],
+    });
+
+    await expect(
+      verifyBip322Message({
+        address: addresses[0].nestedSegwit,
+        message: 'Hello world',
+        signature,
+        network: 'Mainnet',
+        prevouts: [
+          { script: btc.OutScript.encode(btc.Address(btc.NETWORK).decode(addresses[0].nestedSegwit)), amount: 10000n },
+        ],
+      }),
+    ).resolves.toEqual({ valid: true, format: 'full' });
+  });
+
+  it('signs through the Ledger app', async () => {
+    // the device signs with the keys of the test seed, like the software contexts do
+    const signingKeys: Record<string, Uint8Array> = {
+      'wpkh(@0/**)': rootKeyPair.derivePath("m/84'/0'/0'/0/0").privateKey as Uint8Array,
+      'tr(@0/**)': rootKeyPair.derivePath("m/86'/0'/0'/0/0").privateKey as Uint8Array,
+    };
+    vi.spyOn(AppClient.prototype, 'getMasterFingerprint').mockResolvedValue('00000000');
+    vi.spyOn(AppClient.prototype, 'getExtendedPubkey').mockResolvedValue('xpub');
+    const signPsbt = vi.spyOn(AppClient.prototype, 'signPsbt').mockImplementation(async (psbt, walletPolicy) => {
+      const psbtTransaction = btc.Transaction.fromPSBT(base64.decode(psbt.toString()));
+      const signatures: Awaited<ReturnType<AppClient['signPsbt']>> = [];
+
+      // the software signer doesn't sign taproot inputs with derivation paths, so those are left out of its copy
+      const transaction = new btc.Transaction({ allowUnknownOutputs: true, version: psbtTransaction.version });
+      for (let i = 0; i < psbtTransaction.inputsLength; i++) {
+        const { tapBip32Derivation, partialSig, ...input } = psbtTransaction.getInput(i);
+        transaction.addInput(input);
+      }
+      transaction.addOutput(psbtTransaction.getOutput(0));
+
+      for (let i = 0; i < transaction.inputsLength; i++) {
+        try {
+          transaction.signIdx(signingKeys[walletPolicy.descriptorTemplate], i);
+        } catch (e) {
+          // the input belongs to the other account of the wallet
+          continue;
+        }
+
+        const { partialSig, tapKeySig, tapInternalKey } = transaction.getInput(i);
+        const [pubkey, signature] = partialSig?.[0] ?? [tapInternalKey, tapKeySig];
+        signatures.push([i, { pubkey: Buffer.from(pubkey ?? []), signature: Buffer.from(signature ?? []) }]);
+      }
+
+      return signatures;
+    });
+
+    const signature = await signBip322ProofOfFunds({
+      context: createContext('ledger'),
+      signatureAddress: addresses[0].taproot,
+      message: 'Hello world',
+      outpoints: [`${fundingTxid}:1`],
+      options: { ledgerTransport: {} as Transport },
+    });
+
+    expect(signPsbt).toHaveBeenCalledTimes(2);
+    await expect(
+      verifyBip322Message({
+        address: addresses[0].taproot,
+        message: 'Hello world',
+        signature,
+        network: 'Mainnet',
+        prevouts: [
+          { script: btc.OutScript.encode(btc.Address(btc.NETWORK).decode(addresses[0].nativeSegwit)), amount: 10000n },
+        ],
+      }),
+    ).resolves.toEqual({ valid: true, format: 'full' });
+  });
+
+  it('rejects unknown addresses and outpoints', async () => {
+    await expect(
+      signBip322ProofOfFunds({
+        context: createContext(),
+        signatureAddress: addresses[1].taproot,
+        message: 'Hello world',
+        outpoints: [],
+      }),
+    ).rejects.toThrow(`Signature address is not part of the wallet: ${addresses[1].taproot}`);
+
+    await expect(
+      signBip322ProofOfFunds({
+        context: createContext(),
+        signatureAddress: addresses[0].taproot,
+        message: 'Hello world',
+        outpoints: [`${fundingTxid}:2`],
+      }),
+    ).rejects.toThrow(`UTXO for outpoint not found: ${fundingTxid}:2`);
+
+    await expect(
+      signBip322ProofOfFunds({
+        context: createContext(),
+        signatureAddress: addresses[0].taproot,
+        message: 'Hello world',
+        outpoints: [`${fundingTxid}:0`, `${fundingTxid}:0`],
+      }),
+    ).rejects.toThrow(`UTXO already used: ${fundingTxid}:0`);
+  });
+});
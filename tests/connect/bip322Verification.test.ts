@@ -0,0 +1,252 @@
+/* eslint-disable max-len */
+import * as secp256k1 from '@noble/secp256k1';
+import { base64, hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { Signer } from 'bip322-js';
+import { describe, expect, it } from 'vitest';
+
+import { getBip322ToSpendTransaction, signBip322Message } from '../../connect/bip322Signature';
+import { verifyBip322Message } from '../../connect/bip322Verification';
+import { testSeed, walletAccounts } from '../mocks/restore.mock';
+
+// test vector key and address from BIP-322
+const privateKeyWif = 'L3VFeEujGtevx9w18HD1fhRbCH67Az2dpCymeRE1SoPK6XQtaN2k';
+const nativeSegwitAddress = 'bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l';
+
+const privateKey = btc.WIF().decode(privateKeyWif);
+const publicKey = secp256k1.getPublicKey(privateKey, true);
+const legacyAddress = btc.p2pkh(publicKey).address as string;
+
+const nestedSegwitPayment = btc.p2sh(btc.p2wpkh(publicKey));
+const nestedSegwitAddress = nestedSegwitPayment.address as string;
+
+/**
+ * Signs the to_sign transaction of the test key for a p2pkh or nested segwit address
+ */
+const signToSign = (type: 'p2pkh' | 'p2sh', message: string, extraInputs: { txid: string; index: number }[] = []) => {
+  const payment = type === 'p2pkh' ? btc.p2pkh(publicKey) : nestedSegwitPayment;
+  const txToSpend = getBip322ToSpendTransaction(payment.script, message);
+
+  const txToSign = new btc.Transaction({ allowUnknownOutputs: true, version: 0 });
+  txToSign.addInput({
+    txid: txToSpend.id,
+    index: 0,
+    sequence: 0,
+    ...(type === 'p2pkh'
+      ? { nonWitnessUtxo: txToSpend.toBytes(true, true) }
+      : { witnessUtxo: { script: payment.script, amount: BigInt(0) }, redeemScript: nestedSegwitPayment.redeemScript }),
+  });
+  extraInputs.forEach((input) =>
+    txToSign.addInput({ ...input, sequence: 0, witnessUtxo: { script: btc.p2wpkh(publicKey).script, amount: 1000n } }),
+  );
+  txToSign.addOutput({ script: btc.Script.encode(['RETURN']), amount: BigInt(0) });
+  txToSign.sign(privateKey);
+  txToSign.finalize();
+
+  return txToSign;
+};
+
+const signFull = (type: 'p2pkh' | 'p2sh', message: string, extraInputs: { txid: string; index: number }[] = []) =>
+  base64.encode(signToSign(type, message, extraInputs).toBytes(true, true));
+
+describe('verifyBip322Message', () => {
+  it('verifies the simple p2wpkh test vectors', async () => {
+    await expect(
+      verifyBip322Message({
+        address: nativeSegwitAddress,
+        message: '',
+        signature:
+          'AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+        network: 'Mainnet',
+      }),
+    ).resolves.toEqual({ valid: true, format: 'simple' });
+
+    await expect(
+      verifyBip322Message({
+        address: nativeSegwitAddress,
+        message: 'Hello World',
+        signature:
+          'AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+        network: 'Mainnet',
+      }),
+    ).resolves.toEqual({ valid: true, format: 'simple' });
+  });
+
+  it('verifies taproot signatures created by the wallet', async () => {
+    const address = walletAccounts[0].ordinalsAddress;
+    const signature = await signBip322Message({
+      accounts: walletAccounts,
+      message: 'Hello world',
+      network: 'Mainnet',
+      signatureAddress: address,
+      seedPhrase: testSeed,
+    });
+
+    await expect(
+      verifyBip322Message({ address, message: 'Hello world', signature, network: 'Mainnet' }),
+    ).resolves.toEqual({ valid: true, format: 'simple' });
+    await expect(
+      verifyBip322Message({ address, message: 'Hello world!', signature, network: 'Mainnet' }),
+    ).resolves.toEqual({ valid: false, format: 'simple', reason: 'invalidSignature' });
+  });
+
+  it('verifies legacy signatures of nested segwit and p2pkh addresses', async () => {
+    const address = walletAccounts[0].btcAddress;
+    const signature = await signBip322Message({
+      accounts: walletAccounts,
+      message: 'Hello world',
+      network: 'Mainnet',
+      signatureAddress: address,
+      seedPhrase: testSeed,
+    });
+
+    await expect(
+      verifyBip322Message({ address, message: 'Hello world', signature, network: 'Mainnet' }),
+    ).resolves.toEqual({ valid: true, format: 'legacy' });
+    await expect(
+      verifyBip322Message({
+        address: walletAccounts[1].btcAddress,
+        message: 'Hello world',
+        signature,
+        network: 'Mainnet',
+      }),
+    ).resolves.toEqual({ valid: false, format: 'legacy', reason: 'invalidSignature' });
+
+    const legacySignature = Signer.sign(privateKeyWif, legacyAddress, 'Hello world').toString('base64');
+    await expect(
+      verifyBip322Message({
+        address: legacyAddress,
+        message: 'Hello world',
+        signature: legacySignature,
+        network: 'Mainnet',
+      }),
+    ).resolves.toEqual({ valid: true, format: 'legacy' });
+  });
+
+  it('verifies simple and full nested segwit signatures', async () => {
+    const witness = signToSign('p2sh', 'Hello world').getInput(0).finalScriptWitness as Uint8Array[];
+    const simpleSignature = base64.encode(btc.RawWitness.encode(witness));
+
+    await expect(
+      verifyBip322Message({
+        address: nestedSegwitAddress,
+        message: 'Hello world',
+        signature: simpleSignature,
+        network: 'Mainnet',
+      }),
+    ).resolves.toEqual({ valid: true, format: 'simple' });
+    await expect(
+      verifyBip322Message({
+        address: nestedSegwitAddress,
+        message: 'Hello world',
+        signature: signFull('p2sh', 'Hello world'),
+        network: 'Mainnet',
+      }),
+    ).resolves.toEqual({ valid: true, format: 'full' });
+    await expect(
+      verifyBip322Message({
+        address: nestedSegwitAddress,
+        message: 'Goodbye world',
+        signature: simpleSignature,
+        network: 'Mainnet',
+      }),
+    ).resolves.toEqual({ valid: false, format: 'simple', reason: 'invalidSignature' });
+  });
+
+  it('verifies full p2pkh signatures', async () => {
+    const signature = signFull('p2pkh', 'Hello world');
+
+    await expect(
+      verifyBip322Message({ address: legacyAddress, message: 'Hello world', signature, network: 'Mainnet' }),
+    ).resolves.toEqual({ valid: true, format: 'full' });
+    await expect(
+      verifyBip322Message({ address: legacyAddress, message: 'Hello world!', signature, network: 'Mainnet' }),
+    ).resolves.toEqual({ valid: false, format: 'full', reason: 'invalidToSignTransaction' });
+
+    const proofOfFunds = signFull('p2pkh', 'Hello world', [{ txid: hex.encode(new Uint8Array(32).fill(1)), index: 3 }]);
+    const prevouts = [{ script: btc.p2wpkh(publicKey).script, amount: 1000n }];
+    await expect(
+      verifyBip322Message({
+        address: legacyAddress,
+        message: 'Hello world',
+        signature: proofOfFunds,
+        network: 'Mainnet',
+        prevouts,
+      }),
+    ).resolves.toEqual({ valid: true, format: 'full' });
+
+    // the funds can't be verified without the outputs they spend
+    await expect(
+      verifyBip322Message({
+        address: legacyAddress,
+        message: 'Hello world',
+        signature: proofOfFunds,
+        network: 'Mainnet',
+      }),
+    ).resolves.toEqual({ valid: false, format: 'full', reason: 'missingPrevouts' });
+  });
+
+  it('verifies every input of a proof of funds', async () => {
+    const txToSign = signToSign('p2sh', 'Hello world', [
+      { txid: hex.encode(new Uint8Array(32).fill(1)), index: 3 },
+      { txid: hex.encode(new Uint8Array(32).fill(2)), index: 0 },
+    ]);
+    const prevouts = Array(2).fill({ script: btc.p2wpkh(publicKey).script, amount: 1000n });
+
+    // the signature of the last input is swapped for the one of the first extra input
+    const [tamperedSignature] = txToSign.getInput(1).finalScriptWitness as Uint8Array[];
+    const rawTransaction = btc.RawTx.decode(txToSign.toBytes(true, true));
+    rawTransaction.witnesses?.[2].splice(0, 1, tamperedSignature);
+    const signature = base64.encode(btc.RawTx.encode(rawTransaction));
+
+    await expect(
+      verifyBip322Message({
+        address: nestedSegwitAddress,
+        message: 'Hello world',
+        signature,
+        network: 'Mainnet',
+        prevouts,
+      }),
+    ).resolves.toEqual({ valid: false, format: 'full', reason: 'invalidSignature', inputIndex: 2 });
+    await expect(
+      verifyBip322Message({
+        address: nestedSegwitAddress,
+        message: 'Hello world',
+        signature: base64.encode(txToSign.toBytes(true, true)),
+        network: 'Mainnet',
+        prevouts,
+      }),
+    ).resolves.toEqual({ valid: true, format: 'full' });
+  });
+
+  it('explains why verification failed', async () => {
+    await expect(
+      verifyBip322Message({ address: 'not an address', message: '', signature: '', network: 'Mainnet' }),
+    ).resolves.toEqual({ valid: false, reason: 'invalidAddress' });
+
+    await expect(
+      verifyBip322Message({ address: nativeSegwitAddress, message: '', signature: 'AQID', network: 'Mainnet' }),
+    ).resolves.toEqual({ valid: false, reason: 'invalidSignatureEncoding' });
+
+    // a valid signature of the test vector key presented for another address
+    await expect(
+      verifyBip322Message({
+        address: walletAccounts[0].ordinalsAddress,
+        message: '',
+        signature:
+          'AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+        network: 'Mainnet',
+      }),
+    ).resolves.toEqual({ valid: false, format: 'simple', reason: 'invalidWitness' });
+
+    await expect(
+      verifyBip322Message({
+        address: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq',
+        message: '',
+        signature:
+          'AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+        network: 'Mainnet',
+      }),
+    ).resolves.toEqual({ valid: false, format: 'simple', reason: 'publicKeyMismatch' });
+  });
+});
@@ -2,12 +2,14 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { btcTransaction } from '../../../transactions';
 import { applySendBtcActionsAndFee } from '../../../transactions/bitcoin/actionProcessors';
+import { smallestFirstStrategy } from '../../../transactions/bitcoin/coinSelection';
 import {
   extractUsedOutpoints,
   getSortedAvailablePaymentUtxos,
   getTransactionTotals,
   getTransactionVSize,
 } from '../../../transactions/bitcoin/utils';
+import { SendBtcAction } from '../../../transactions/bitcoin/types';
 
 vi.mock('../../../transactions/bitcoin/utils');
 
@@ -35,6 +37,7 @@ describe('applySendBtcActionsAndFee', () => {
     vi.mocked(extractUsedOutpoints).mockReturnValueOnce(new Set(['f00d:0', 'f00d:1']));
     vi.mocked(getSortedAvailablePaymentUtxos).mockResolvedValue([]);
     vi.mocked(getTransactionTotals).mockResolvedValueOnce({ inputValue: 3000n, outputValue: 2000n });
+    vi.mocked(getTransactionVSize).mockReturnValue(200);
 
     await expect(() =>
       applySendBtcActionsAndFee(
@@ -380,4 +383,139 @@ describe('applySendBtcActionsAndFee', () => {
     expect(context.addOutputAddress).toHaveBeenCalledWith(transaction, 'address2', 2500n);
     expect(context.addOutputAddress).toHaveBeenCalledWith(transaction, 'paymentAddress', 2500n);
   });
+
+  it('adds inputs in the order of the coin selection strategy and reports the waste', async () => {
+    const transaction = {
+      inputsLength: 2,
+      outputsLength: 1,
+    } as any;
+
+    transaction.clone = () => transaction;
+
+    const dummyUtxo1 = {
+      outpoint: 'f00d:2',
+      utxo: {
+        value: 990,
+        status: {
+          confirmed: true,
+        },
+      },
+    };
+    const dummyUtxo2 = {
+      outpoint: 'f00d:3',
+      utxo: {
+        value: 10000,
+        status: {
+          confirmed: true,
+        },
+      },
+    };
+
+    vi.mocked(extractUsedOutpoints).mockReturnValueOnce(new Set(['f00d:0', 'f00d:1']));
+    vi.mocked(getSortedAvailablePaymentUtxos).mockResolvedValueOnce([dummyUtxo1, dummyUtxo2] as any);
+    vi.mocked(getTransactionTotals).mockResolvedValueOnce({ inputValue: 3000n, outputValue: 2000n });
+    vi.mocked(getTransactionVSize).mockReturnValue(210);
+
+    const { inputs, outputs, actualFee, coinSelection } = await applySendBtcActionsAndFee(
+      context as any,
+      {},
+      transaction,
+      { coinSelectionStrategy: smallestFirstStrategy, longTermFeeRate: 5 },
+      [],
+      10,
+    );
+
+    expect(actualFee).toEqual(2100n);
+    expect(inputs).toEqual([dummyUtxo1, dummyUtxo2]);
+    expect(outputs).toEqual([{ amount: 9890, address: 'paymentAddress', type: 'address' }]);
+    // 2 inputs * 91 vbytes * (10 - 5) sats/vbyte + change cost of 32 * 10 + 91 * 5
+    expect(coinSelection).toEqual({ strategy: 'smallestFirst', waste: 1685 });
+  });
+
+  describe('with fee subtraction', () => {
+    const createTransaction = () => {
+      const transaction = {
+        inputsLength: 2,
+        outputsLength: 1,
+        updateOutput: vi.fn(),
+      } as any;
+
+      transaction.clone = () => transaction;
+      context.addOutputAddress.mockImplementation(() => transaction.outputsLength++);
+
+      return transaction;
+    };
+
+    const actions: SendBtcAction[] = [
+      {
+        type: btcTransaction.ActionType.SEND_BTC,
+        toAddress: 'address1',
+        amount: 10000n,
+        combinable: false,
+        subtractFee: true,
+      },
+      {
+        type: btcTransaction.ActionType.SEND_BTC,
+        toAddress: 'address2',
+        amount: 1000n,
+        combinable: true,
+      },
+      {
+        type: btcTransaction.ActionType.SEND_BTC,
+        toAddress: 'address3',
+        amount: 5000n,
+        combinable: true,
+        subtractFee: true,
+      },
+    ];
+
+    beforeEach(() => {
+      vi.mocked(extractUsedOutpoints).mockReturnValueOnce(new Set(['f00d:0', 'f00d:1']));
+      vi.mocked(getSortedAvailablePaymentUtxos).mockResolvedValue([]);
+      vi.mocked(getTransactionTotals).mockResolvedValueOnce({ inputValue: 21000n, outputValue: 16000n });
+      vi.mocked(getTransactionVSize).mockReturnValue(200);
+    });
+
+    it('splits the fee proportionally between the flagged outputs and leaves the change untouched', async () => {
+      const transaction = createTransaction();
+
+      const { outputs, actualFee } = await applySendBtcActionsAndFee(context as any, {}, transaction, {}, actions, 10);
+
+      expect(actualFee).toEqual(2000n);
+      expect(outputs).toEqual([
+        { amount: 1000, address: 'address2', type: 'address' },
+        { amount: 8666, address: 'address1', type: 'address', subtractedFee: 1334 },
+        { amount: 4334, address: 'address3', type: 'address', subtractedFee: 666 },
+        { amount: 5000, address: 'paymentAddress', type: 'address' },
+      ]);
+      expect(transaction.updateOutput).toHaveBeenCalledWith(2, { amount: 8666n });
+      expect(transaction.updateOutput).toHaveBeenCalledWith(3, { amount: 4334n });
+    });
+
+    it('splits the fee equally between the flagged outputs', async () => {
+      const transaction = createTransaction();
+
+      const { outputs } = await applySendBtcActionsAndFee(
+        context as any,
+        {},
+        transaction,
+        { feeSubtraction: 'equal' },
+        actions,
+        10,
+      );
+
+      expect(outputs.slice(1, 3)).toEqual([
+        { amount: 9000, address: 'address1', type: 'address', subtractedFee: 1000 },
+        { amount: 4000, address: 'address3', type: 'address', subtractedFee: 1000 },
+      ]);
+    });
+
+    it('throws if an output falls below dust after subtracting the fee', async () => {
+      const transaction = createTransaction();
+
+      await expect(() =>
+        applySendBtcActionsAndFee(context as any, {}, transaction, {}, actions, 70),
+      ).rejects.toThrowError('Output to address3 is below dust after subtracting the fee');
+    });
+  });
 });
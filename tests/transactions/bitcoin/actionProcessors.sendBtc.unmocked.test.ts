@@ -2,6 +2,7 @@ import * as btc from '@scure/btc-signer';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { ActionType } from '../../../transactions/bitcoin';
 import { applySendBtcActionsAndFee } from '../../../transactions/bitcoin/actionProcessors';
+import { branchAndBoundStrategy, smallestFirstStrategy } from '../../../transactions/bitcoin/coinSelection';
 import { addresses, rootKeyPair } from './helpers';
 
 const testP2WPKH = btc.p2wpkh(rootKeyPair.publicKey);
@@ -141,6 +142,102 @@ describe('applySendBtcActionsAndFee', () => {
     expect(transaction.getOutput(1).amount).toEqual(17900n);
   });
 
+  it('Rounds fees of fractional fee rates up to whole sats', async () => {
+    transaction.addOutputAddress(addresses[1].nativeSegwit, 180000n);
+
+    const { outputs, actualFee } = await applySendBtcActionsAndFee(context as any, {}, transaction, {}, [], 10.25);
+
+    expect(actualFee).toEqual(2153n);
+    expect(outputs).toEqual([{ address: paymentAddress, amount: 17847, type: 'address' }]);
+  });
+
+  it('Pays for unconfirmed ancestors without change when using the effective fee rate', async () => {
+    transaction.addOutputAddress(addresses[1].nativeSegwit, 197650n);
+
+    const unconfirmedOutpoint = '0000000000000000000000000000000000000000000000000000000000000000:0';
+    const getUtxo = context.getUtxo.getMockImplementation();
+    context.getUtxo.mockImplementation(async (outpoint: string) => {
+      if (outpoint !== unconfirmedOutpoint) {
+        return getUtxo?.(outpoint);
+      }
+
+      return {
+        extendedUtxo: {
+          utxo: { status: { confirmed: false } },
+          getUnconfirmedUtxoFeeData: async () => ({ totalVsize: 100, totalFee: 500 }),
+        },
+        addressContext: context.paymentAddress,
+      };
+    });
+
+    const { inputs, outputs, actualFee, effectiveFeeRate } = await applySendBtcActionsAndFee(
+      context as any,
+      {},
+      transaction,
+      { useEffectiveFeeRate: true },
+      [],
+      10,
+    );
+
+    // the 2350 sats left cover the 2300 sats needed for the package, but not a change output on top of them
+    expect(inputs).toEqual([]);
+    expect(outputs).toEqual([]);
+    expect(actualFee).toEqual(2350n);
+    expect(effectiveFeeRate).toBeCloseTo(2850 / 278);
+  });
+
+  it('Gives the excess of a branch and bound match to the fee instead of adding change', async () => {
+    transaction.addOutputAddress(addresses[1].nativeSegwit, 216500n);
+
+    const { inputs, outputs, actualFee } = await applySendBtcActionsAndFee(
+      context as any,
+      {},
+      transaction,
+      { coinSelectionStrategy: branchAndBoundStrategy },
+      [],
+      10,
+    );
+
+    // the 790 sats excess is above dust, but change would cost more than that to create and spend
+    expect(inputs).toEqual([mockUtxos.confirmed20k]);
+    expect(outputs).toEqual([]);
+    expect(actualFee).toEqual(3500n);
+  });
+
+  it('Consolidates UTXOs with smallest first while the fee rate is below the long term fee rate', async () => {
+    transaction.addOutputAddress(addresses[1].nativeSegwit, 180000n);
+
+    const { inputs, outputs, coinSelection } = await applySendBtcActionsAndFee(
+      context as any,
+      {},
+      transaction,
+      { coinSelectionStrategy: smallestFirstStrategy, longTermFeeRate: 10 },
+      [],
+      2,
+    );
+
+    // the inputs already cover the output, but spending the UTXOs now is cheaper than later
+    expect(inputs).toEqual([mockUtxos.confirmed20k, mockUtxos.confirmed40k, mockUtxos.confirmed50k]);
+    expect(outputs).toEqual([{ address: paymentAddress, amount: expect.any(Number), type: 'address' }]);
+    // 3 inputs * 91 vbytes * (2 - 10) sats/vbyte + change cost of 32 * 2 + 91 * 10
+    expect(coinSelection).toEqual({ strategy: 'smallestFirst', waste: -1210 });
+  });
+
+  it('Does not consolidate UTXOs while the fee rate is above the long term fee rate', async () => {
+    transaction.addOutputAddress(addresses[1].nativeSegwit, 180000n);
+
+    const { inputs } = await applySendBtcActionsAndFee(
+      context as any,
+      {},
+      transaction,
+      { coinSelectionStrategy: smallestFirstStrategy, longTermFeeRate: 10 },
+      [],
+      20,
+    );
+
+    expect(inputs).toEqual([]);
+  });
+
   it('Sends change to override address if specified', async () => {
     transaction.addOutputAddress(addresses[1].nativeSegwit, 180000n);
 
@@ -0,0 +1,152 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { describe, expect, it, vi } from 'vitest';
+import { ExtendedUtxo } from '../../../transactions/bitcoin';
+import { decodePsbtFrames, encodePsbtFrames } from '../../../transactions/bitcoin/airGap';
+import {
+  AirGappedP2shAddressContext,
+  AirGappedP2trAddressContext,
+  TransactionContext,
+} from '../../../transactions/bitcoin/context';
+import { finalizeTransaction } from '../../../transactions/bitcoin/utils';
+import { encodeUr } from '../../../utils/ur';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createTestTransactionContext,
+  createUtxoCache,
+  rootKeyPair,
+} from './helpers';
+
+const masterFingerprint = hex.encode(rootKeyPair.fingerprint);
+
+const createContext = () => createTestTransactionContext({ paymentType: 'nestedSegwit', accountType: 'air-gapped' });
+
+const createUtxo = (context: TransactionContext, address: string, vout: number) =>
+  new ExtendedUtxo(
+    { ...createFundingUtxo({ vout, value: 10000 }), address },
+    address,
+    createUtxoCache(),
+    createEsploraApiProvider(),
+  );
+
+// acts as the air-gapped device, signing every input it has a key origin for
+const deviceSign = (frames: string[], format: 'ur' | 'bbqr', finalize = false) => {
+  const transaction = btc.Transaction.fromPSBT(decodePsbtFrames(frames));
+
+  for (let i = 0; i < transaction.inputsLength; i++) {
+    const input = transaction.getInput(i);
+    const path = input.bip32Derivation?.[0][1].path ?? input.tapBip32Derivation?.[0][1].der.path;
+    if (!path) {
+      throw new Error(`Input ${i} has no key origin`);
+    }
+
+    const { privateKey } = rootKeyPair.derivePath(
+      `m/${path.map((index: number) => (index >= 0x80000000 ? `${index - 0x80000000}'` : index)).join('/')}`,
+    );
+    if (!privateKey) {
+      throw new Error(`Input ${i} has no private key`);
+    }
+    if (input.tapBip32Derivation) {
+      // the scure signer refuses taproot inputs with key origins, which real devices use to find the key
+      transaction.updateInput(i, { tapBip32Derivation: undefined }, true);
+    }
+    transaction.signIdx(privateKey, i);
+    if (finalize) {
+      transaction.finalizeIdx(i);
+    }
+  }
+
+  return encodePsbtFrames(transaction.toPSBT(), format);
+};
+
+describe('air-gapped address contexts', () => {
+  it('creates air-gapped contexts for air-gapped accounts', () => {
+    const context = createContext();
+
+    expect(context.paymentAddress).toBeInstanceOf(AirGappedP2shAddressContext);
+    expect(context.ordinalsAddress).toBeInstanceOf(AirGappedP2trAddressContext);
+  });
+
+  it.each(['ur', 'bbqr'] as const)('signs through %s frames', async (format) => {
+    const context = createContext();
+    const transaction = new btc.Transaction();
+    await context.paymentAddress.addInput(transaction, createUtxo(context, addresses[0].nestedSegwit, 0));
+    await context.ordinalsAddress.addInput(transaction, createUtxo(context, addresses[0].taproot, 1));
+    transaction.addOutputAddress(addresses[1].nativeSegwit, 19000n);
+
+    const exchangeFrames = vi.fn(async (frames: string[]) => deviceSign(frames, format));
+
+    await context.signTransaction(transaction, {
+      airGappedSigner: { masterFingerprint, format, exchangeFrames },
+    });
+
+    // the device signs the inputs of the payment and the ordinals address in one exchange
+    expect(exchangeFrames).toHaveBeenCalledTimes(1);
+    expect(exchangeFrames.mock.calls[0][0][0].startsWith(format === 'ur' ? 'ur:crypto-psbt/' : 'B$2P')).toEqual(true);
+    expect(transaction.getInput(0).bip32Derivation?.[0][1]).toEqual({
+      fingerprint: parseInt(masterFingerprint, 16),
+      path: btc.bip32Path("m/49'/0'/0'/0/0"),
+    });
+    expect(() => transaction.finalize()).not.toThrow();
+  });
+
+  it('accepts inputs finalized by the device', async () => {
+    const context = createContext();
+    const transaction = new btc.Transaction();
+    await context.paymentAddress.addInput(transaction, createUtxo(context, addresses[0].nestedSegwit, 0));
+    await context.ordinalsAddress.addInput(transaction, createUtxo(context, addresses[0].taproot, 1));
+    transaction.addOutputAddress(addresses[1].nativeSegwit, 19000n);
+
+    await context.signTransaction(transaction, {
+      airGappedSigner: {
+        masterFingerprint,
+        format: 'bbqr',
+        exchangeFrames: async (frames) => deviceSign(frames, 'bbqr', true),
+      },
+    });
+
+    expect(transaction.getInput(0).finalScriptSig).toBeDefined();
+    expect(transaction.getInput(1).finalScriptWitness).toBeDefined();
+    expect(() => finalizeTransaction(transaction)).not.toThrow();
+    expect(transaction.isFinal).toEqual(true);
+  });
+
+  it('throws without an air-gapped signer', async () => {
+    const context = createContext();
+    const transaction = new btc.Transaction();
+    await context.paymentAddress.addInput(transaction, createUtxo(context, addresses[0].nestedSegwit, 0));
+
+    await expect(context.signTransaction(transaction, {})).rejects.toThrow(
+      'Air-gapped signer is required for air-gapped signing',
+    );
+  });
+
+  it('throws if the signed PSBT is for another transaction', async () => {
+    const context = createContext();
+    const transaction = new btc.Transaction();
+    await context.paymentAddress.addInput(transaction, createUtxo(context, addresses[0].nestedSegwit, 0));
+    transaction.addOutputAddress(addresses[1].nativeSegwit, 9000n);
+
+    const otherTransaction = new btc.Transaction();
+    await context.paymentAddress.addInput(otherTransaction, createUtxo(context, addresses[0].nestedSegwit, 1));
+    otherTransaction.addOutputAddress(addresses[1].nativeSegwit, 9000n);
+
+    await expect(
+      context.signTransaction(transaction, {
+        airGappedSigner: {
+          masterFingerprint,
+          format: 'ur',
+          exchangeFrames: async () => encodePsbtFrames(otherTransaction.toPSBT(), 'bbqr'),
+        },
+      }),
+    ).rejects.toThrow('Signed PSBT does not match the transaction');
+  });
+});
+
+describe('decodePsbtFrames', () => {
+  it('throws on URs of other types', () => {
+    expect(() => decodePsbtFrames(encodeUr('bytes', new Uint8Array([0x41, 1, 2])))).toThrow('Unexpected UR type bytes');
+  });
+});
@@ -0,0 +1,177 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BroadcastQueue } from '../../../transactions/bitcoin/broadcastQueue';
+import { sendBtc } from '../../../transactions/bitcoin/index';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createStorageAdapter,
+  createTestTransactionContext,
+  tipHeight,
+} from './helpers';
+
+const decodeTransaction = (transactionHex: string) => btc.Transaction.fromRaw(hex.decode(transactionHex));
+
+describe('anti fee sniping', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('locks transactions to the tip height with non-final sequences', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const context = createTestTransactionContext();
+
+    const transaction = await sendBtc(context, [{ toAddress: addresses[1].nativeSegwit, amount: 20000n }], 2);
+    const signedTransaction = decodeTransaction((await transaction.getTransactionHexAndId()).hex);
+
+    expect(signedTransaction.lockTime).toEqual(tipHeight);
+    expect(signedTransaction.getInput(0).sequence).toEqual(0xfffffffe);
+  });
+
+  it('sometimes moves the lock time back', async () => {
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.05).mockReturnValueOnce(0.5);
+    const context = createTestTransactionContext();
+
+    const transaction = await sendBtc(context, [{ toAddress: addresses[1].nativeSegwit, amount: 20000n }], 2);
+    const signedTransaction = decodeTransaction((await transaction.getTransactionHexAndId()).hex);
+
+    expect(signedTransaction.lockTime).toEqual(tipHeight - 50);
+  });
+
+  it('can be disabled', async () => {
+    const context = createTestTransactionContext();
+
+    const transaction = await sendBtc(context, [{ toAddress: addresses[1].nativeSegwit, amount: 20000n }], 2, {
+      lockTime: 0,
+    });
+    const signedTransaction = decodeTransaction((await transaction.getTransactionHexAndId()).hex);
+
+    expect(signedTransaction.lockTime).toEqual(0);
+    expect(signedTransaction.getInput(0).sequence).toEqual(0xffffffff);
+  });
+});
+
+describe('BroadcastQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('broadcasts scheduled transactions once the tip reaches their lock time', async () => {
+    const esploraApiProvider = createEsploraApiProvider();
+    const storageAdapter = createStorageAdapter();
+    const queue = new BroadcastQueue({
+      network: 'Mainnet',
+      storageAdapter,
+      esploraApiProvider,
+    });
+    const context = createTestTransactionContext({ esploraApiProvider });
+
+    const transaction = await sendBtc(context, [{ toAddress: addresses[1].nativeSegwit, amount: 20000n }], 2, {
+      lockTime: tipHeight + 10,
+    });
+    const scheduledTransaction = await transaction.schedule(queue);
+
+    expect(scheduledTransaction.lockHeight).toEqual(tipHeight + 10);
+    // the queue is persisted, so it is picked up by other instances
+    const restoredQueue = new BroadcastQueue({
+      network: 'Mainnet',
+      storageAdapter,
+      esploraApiProvider,
+    });
+    expect(await restoredQueue.getScheduledTransactions()).toEqual([scheduledTransaction]);
+
+    esploraApiProvider.getLatestBlockHeight.mockResolvedValue(tipHeight + 9);
+    expect(await restoredQueue.broadcastDue()).toEqual([]);
+    expect(esploraApiProvider.sendRawTransaction).not.toHaveBeenCalled();
+
+    esploraApiProvider.getLatestBlockHeight.mockResolvedValue(tipHeight + 10);
+    expect(await restoredQueue.broadcastDue()).toEqual([scheduledTransaction]);
+    expect(esploraApiProvider.sendRawTransaction).toHaveBeenCalledWith(scheduledTransaction.hex);
+    expect(await restoredQueue.getScheduledTransactions()).toEqual([]);
+  });
+
+  it('keeps transactions which fail to broadcast with the error', async () => {
+    const esploraApiProvider = createEsploraApiProvider();
+    esploraApiProvider.sendRawTransaction.mockRejectedValue(new Error('bad-txns-inputs-missingorspent'));
+    const queue = new BroadcastQueue({
+      network: 'Mainnet',
+      storageAdapter: createStorageAdapter(),
+      esploraApiProvider,
+    });
+    const context = createTestTransactionContext({ esploraApiProvider });
+
+    const transaction = await sendBtc(context, [{ toAddress: addresses[1].nativeSegwit, amount: 20000n }], 2, {
+      lockTime: tipHeight,
+    });
+    const { id } = await transaction.schedule(queue);
+
+    expect(await queue.broadcastDue()).toEqual([]);
+    expect(await queue.getScheduledTransactions()).toEqual([
+      expect.objectContaining({ id, lastError: 'bad-txns-inputs-missingorspent' }),
+    ]);
+
+    await queue.remove(id);
+    expect(await queue.getScheduledTransactions()).toEqual([]);
+  });
+
+  it('reports the results of polling through callbacks', async () => {
+    vi.useFakeTimers();
+    const esploraApiProvider = createEsploraApiProvider();
+    const onBroadcast = vi.fn();
+    const onError = vi.fn();
+    const queue = new BroadcastQueue({
+      network: 'Mainnet',
+      storageAdapter: createStorageAdapter(),
+      esploraApiProvider,
+      onBroadcast,
+      onError,
+    });
+    const context = createTestTransactionContext({ esploraApiProvider });
+
+    const transaction = await sendBtc(context, [{ toAddress: addresses[1].nativeSegwit, amount: 20000n }], 2, {
+      lockTime: tipHeight,
+    });
+    const scheduledTransaction = await transaction.schedule(queue);
+
+    queue.start(1000);
+    esploraApiProvider.getLatestBlockHeight.mockRejectedValueOnce(new Error('Network error'));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onError).toHaveBeenCalledWith(new Error('Network error'));
+    expect(onBroadcast).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    queue.stop();
+
+    expect(onBroadcast).toHaveBeenCalledWith([scheduledTransaction]);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('only schedules transactions locked to a block height', async () => {
+    const esploraApiProvider = createEsploraApiProvider();
+    const queue = new BroadcastQueue({
+      network: 'Mainnet',
+      storageAdapter: createStorageAdapter(),
+      esploraApiProvider,
+    });
+    const context = createTestTransactionContext({ esploraApiProvider });
+
+    const unlockedTransaction = await sendBtc(context, [{ toAddress: addresses[1].nativeSegwit, amount: 20000n }], 2, {
+      lockTime: 0,
+    });
+    await expect(unlockedTransaction.schedule(queue)).rejects.toThrow(
+      'Only transactions locked to a block height can be scheduled',
+    );
+
+    const timeLockedTransaction = await sendBtc(
+      context,
+      [{ toAddress: addresses[1].nativeSegwit, amount: 20000n }],
+      2,
+      { lockTime: 1718000000 },
+    );
+    await expect(timeLockedTransaction.schedule(queue)).rejects.toThrow(
+      'Only transactions locked to a block height can be scheduled',
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  branchAndBoundStrategy,
+  getCoinSelectionStrategy,
+  isWorthConsolidating,
+  largestFirstStrategy,
+  privacyStrategy,
+  smallestFirstStrategy,
+} from '../../../transactions/bitcoin/coinSelection';
+import { CoinSelectionParams } from '../../../transactions/bitcoin/types';
+import { createExtendedUtxo } from './helpers';
+
+const createUtxo = (value: number, outpoint: string, address = 'address1') => {
+  const [txid, vout] = outpoint.split(':');
+  return createExtendedUtxo({ txid, vout: +vout, value }, address);
+};
+
+const utxo1 = createUtxo(1000, 'f00d:1');
+const utxo2 = createUtxo(5000, 'f00d:2');
+const utxo3 = createUtxo(12000, 'f00d:3', 'address2');
+const utxo4 = createUtxo(3000, 'f00d:4', 'address2');
+const utxo5 = createUtxo(20000, 'f00d:5');
+
+const getParams = (target: bigint, overrides: Partial<CoinSelectionParams> = {}): CoinSelectionParams => ({
+  utxos: [utxo1, utxo4, utxo2, utxo3, utxo5],
+  target,
+  feeRate: 1,
+  longTermFeeRate: 10,
+  inputSize: 68,
+  costOfChange: 31 + 68 * 10,
+  ancestorFees: {},
+  ...overrides,
+});
+
+describe('largestFirstStrategy', () => {
+  it('orders utxos from biggest to smallest', async () => {
+    expect(await largestFirstStrategy.select(getParams(100n))).toEqual([utxo5, utxo3, utxo2, utxo4, utxo1]);
+  });
+
+  it('orders utxos of the same value by outpoint', async () => {
+    const utxoA = createUtxo(1000, 'a:0');
+    const utxoB = createUtxo(1000, 'b:0');
+
+    expect(await largestFirstStrategy.select(getParams(100n, { utxos: [utxoA, utxoB] }))).toEqual([utxoB, utxoA]);
+  });
+});
+
+describe('smallestFirstStrategy', () => {
+  it('orders utxos from smallest to biggest', async () => {
+    expect(await smallestFirstStrategy.select(getParams(100n))).toEqual([utxo1, utxo4, utxo2, utxo3, utxo5]);
+  });
+
+  it('consolidates utxos', () => {
+    expect(smallestFirstStrategy.consolidate).toEqual(true);
+  });
+});
+
+describe('isWorthConsolidating', () => {
+  it('consolidates utxos while the fee rate is below the long term fee rate', () => {
+    expect(isWorthConsolidating(utxo1, getParams(100n))).toEqual(true);
+    expect(isWorthConsolidating(utxo1, getParams(100n, { feeRate: 10 }))).toEqual(false);
+    expect(isWorthConsolidating(utxo1, getParams(100n, { feeRate: 20 }))).toEqual(false);
+  });
+
+  it('does not consolidate utxos whose unconfirmed ancestors cost more than the savings', () => {
+    // 68 vbytes * (1 - 10) sats/vbyte saved, but 700 sats to bring the ancestors up to the fee rate
+    expect(isWorthConsolidating(utxo1, getParams(100n, { ancestorFees: { 'f00d:1': 700 } }))).toEqual(false);
+  });
+
+  it('does not consolidate utxos worth less than the fee to spend them', () => {
+    expect(isWorthConsolidating(createUtxo(60, 'f00d:6'), getParams(100n))).toEqual(false);
+  });
+});
+
+describe('branchAndBoundStrategy', () => {
+  it('finds a changeless match', async () => {
+    // 5000 + 3000 with 68 sats fee per input
+    const selected = await branchAndBoundStrategy.select(getParams(7800n));
+
+    expect(selected.slice(0, 2)).toEqual([utxo2, utxo4]);
+    // the rest are kept as a fallback
+    expect(selected.slice(2)).toEqual([utxo5, utxo3, utxo1]);
+  });
+
+  it('prefers the match with the least waste', async () => {
+    // 20000 alone is also a match, but it gives away far more in excess fees than 12000 + 5000
+    const selected = await branchAndBoundStrategy.select(
+      getParams(14000n, { feeRate: 20, longTermFeeRate: 5, costOfChange: 5000 }),
+    );
+
+    expect(selected.slice(0, 2)).toEqual([utxo3, utxo2]);
+  });
+
+  it('counts the fees of unconfirmed ancestors', async () => {
+    // bumping the ancestors of the 3000 UTXO takes 1000 sats, so 5000 + 3000 no longer covers the target
+    const params = getParams(7800n, { ancestorFees: { 'f00d:4': 1000 } });
+
+    expect(await branchAndBoundStrategy.select(params)).toEqual([utxo5, utxo3, utxo2, utxo4, utxo1]);
+  });
+
+  it('falls back to largest first if there is no changeless match', async () => {
+    expect(await branchAndBoundStrategy.select(getParams(19990n, { costOfChange: 0 }))).toEqual([
+      utxo5,
+      utxo3,
+      utxo2,
+      utxo4,
+      utxo1,
+    ]);
+  });
+});
+
+describe('privacyStrategy', () => {
+  it('prefers the smallest single utxo covering the target', async () => {
+    const selected = await privacyStrategy.select(getParams(4000n));
+
+    expect(selected[0]).toEqual(utxo2);
+  });
+
+  it('prefers utxos from a single address', async () => {
+    const params = getParams(14000n, { utxos: [utxo1, utxo2, utxo3, utxo4, createUtxo(9000, 'f00d:6')] });
+
+    // address2 needs 2 inputs while address1 needs 3
+    expect((await privacyStrategy.select(params)).slice(0, 2)).toEqual([utxo3, utxo4]);
+  });
+
+  it('mixes addresses if there is no other option', async () => {
+    const params = getParams(20000n, { utxos: [utxo1, utxo2, utxo3, utxo4] });
+
+    expect(await privacyStrategy.select(params)).toEqual([utxo3, utxo2, utxo4, utxo1]);
+  });
+});
+
+describe('getCoinSelectionStrategy', () => {
+  it('defaults to largest first', () => {
+    expect(getCoinSelectionStrategy()).toBe(largestFirstStrategy);
+  });
+
+  it('wraps custom selectors', async () => {
+    const strategy = getCoinSelectionStrategy(({ utxos }) => utxos.slice(0, 1));
+
+    expect(strategy.name).toEqual('custom');
+    expect(await strategy.select(getParams(100n))).toEqual([utxo1]);
+  });
+});
@@ -8,10 +8,17 @@ import {
   P2trAddressContext,
   P2wpkhAddressContext,
   TransactionContext,
+  WatchOnlyP2shAddressContext,
+  WatchOnlyP2trAddressContext,
+  WatchOnlyP2wpkhAddressContext,
 } from '../../../transactions/bitcoin/context';
-import { createTransactionContext } from '../../../transactions/bitcoin/contextFactory';
-import { TestAddressContext, addresses } from './helpers';
+import {
+  createAddressContextFromDescriptor,
+  createTransactionContext,
+} from '../../../transactions/bitcoin/contextFactory';
+import { TestAddressContext, addresses, rootKeyPair } from './helpers';
 import { ExtendedUtxo } from '../../../transactions/bitcoin';
+import { WatchOnlySigningError } from '../../../types';
 
 vi.mock('../../../api/esplora/esploraAPiProvider');
 
@@ -463,4 +470,54 @@ describe('createTransactionContext', () => {
     expect(context.paymentAddress instanceof LedgerP2wpkhAddressContext).toEqual(true);
     expect(context.ordinalsAddress instanceof LedgerP2trAddressContext).toEqual(true);
   });
+  it('creates transaction context with correct addresses - watch-only p2sh + p2tr', async () => {
+    const esploraApiProvider = new EsploraProvider({ network: 'Mainnet' });
+    const context = createTransactionContext({
+      esploraApiProvider,
+      account: {
+        id: 0,
+        btcAddress: addresses[0].nestedSegwit,
+        btcPublicKey: addresses[0].nestedSegwitPubKey,
+        ordinalsAddress: addresses[0].taproot,
+        ordinalsPublicKey: addresses[0].taprootPubKey,
+        accountType: 'watch-only',
+        stxAddress: '',
+        masterPubKey: '',
+        stxPublicKey: '',
+      },
+      network: 'Mainnet',
+      seedVault,
+      utxoCache,
+    });
+
+    expect(context.paymentAddress instanceof WatchOnlyP2shAddressContext).toEqual(true);
+    expect(context.ordinalsAddress instanceof WatchOnlyP2trAddressContext).toEqual(true);
+
+    const transaction = new btc.Transaction();
+    await expect(context.signTransaction(transaction, {})).rejects.toThrow(WatchOnlySigningError);
+    await expect(context.signTransaction(transaction, {})).rejects.toThrow(
+      `Cannot sign for watch-only address ${addresses[0].nestedSegwit}`,
+    );
+  });
+});
+
+describe('createAddressContextFromDescriptor', () => {
+  const seedVault = vi.fn() as any;
+  const utxoCache = vi.fn() as any;
+
+  it('creates a watch-only address context at the given index of a ranged descriptor', () => {
+    const xpub = rootKeyPair.derivePath("m/84'/0'/0'").neutered().toBase58();
+    const addressContext = createAddressContextFromDescriptor({
+      descriptor: `wpkh(${xpub}/0/*)`,
+      addressIndex: 1,
+      esploraApiProvider: new EsploraProvider({ network: 'Mainnet' }),
+      network: 'Mainnet',
+      accountIndex: 0,
+      seedVault,
+      utxoCache,
+    });
+
+    expect(addressContext instanceof WatchOnlyP2wpkhAddressContext).toEqual(true);
+    expect(addressContext.address).toEqual(addresses[1].nativeSegwit);
+  });
 });
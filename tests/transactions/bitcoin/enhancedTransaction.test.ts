@@ -1,21 +1,23 @@
 import * as btc from '@scure/btc-signer';
 import BigNumber from 'bignumber.js';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { getRunesClient } from '../../../api/runes/provider';
 import {
+  applyReplacedTransaction,
   applyScriptActions,
   applySendBtcActionsAndFee,
   applySendUtxoActions,
   applySplitUtxoActions,
+  applyTimelockActions,
 } from '../../../transactions/bitcoin/actionProcessors';
 import { TransactionContext } from '../../../transactions/bitcoin/context';
 import { EnhancedTransaction } from '../../../transactions/bitcoin/enhancedTransaction';
 import { ActionType } from '../../../transactions/bitcoin/types';
+import { decodeRunestone } from '../../../utils/runestone';
 import { TestAddressContext, addresses } from './helpers';
 
 vi.mock('../../../transactions/bitcoin/actionProcessors');
 vi.mock('../../../transactions/bitcoin/context');
-vi.mock('../../../api/runes/provider');
+vi.mock('../../../utils/runestone');
 
 describe('EnhancedTransaction constructor', () => {
   const seedVault = vi.fn() as any;
@@ -74,6 +76,13 @@ describe('EnhancedTransaction summary', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(ctx.getLatestBlockHeight).mockResolvedValue(850000);
+    vi.mocked(applyReplacedTransaction).mockResolvedValue({
+      inputs: [],
+      outputs: [],
+      replacedFee: undefined,
+      splitsRunes: false,
+    });
   });
 
   it('does not swallow errors', async () => {
@@ -94,6 +103,40 @@ describe('EnhancedTransaction summary', () => {
     await expect(() => txn.getSummary()).rejects.toThrow('Not enough utxos at desired fee rate');
   });
 
+  it('exports an unsigned psbt without signing', async () => {
+    const txn = new EnhancedTransaction(
+      ctx,
+      [
+        {
+          type: ActionType.SEND_BTC,
+          toAddress: addresses[0].nativeSegwit,
+          amount: 1000n,
+          combinable: true,
+        },
+      ],
+      1,
+    );
+
+    vi.mocked(applyScriptActions).mockResolvedValueOnce({ outputs: [] });
+    vi.mocked(applySendUtxoActions).mockResolvedValueOnce({ inputs: [], outputs: [] });
+    vi.mocked(applySplitUtxoActions).mockResolvedValueOnce({ inputs: [], outputs: [] });
+    vi.mocked(applyTimelockActions).mockResolvedValueOnce({ outputs: [] });
+    vi.mocked(applySendBtcActionsAndFee).mockResolvedValueOnce({
+      inputs: [],
+      outputs: [],
+      actualFee: 0n,
+      actualFeeRate: 1,
+      effectiveFeeRate: undefined,
+      dustValue: 68n,
+      coinSelection: { strategy: 'largestFirst', waste: 0 },
+    });
+
+    const psbtBase64 = await txn.getUnsignedPsbtBase64();
+
+    expect(ctx.signTransaction).not.toHaveBeenCalled();
+    expect(btc.Transaction.fromPSBT(Buffer.from(psbtBase64, 'base64')).inputsLength).toEqual(0);
+  });
+
   it('compiles transaction and summary correctly', async () => {
     const txn = new EnhancedTransaction(
       ctx,
@@ -216,6 +259,8 @@ describe('EnhancedTransaction summary', () => {
       ],
     });
 
+    vi.mocked(applyTimelockActions).mockResolvedValueOnce({ outputs: [] });
+
     const sendBtcInputs = [
       {
         address: 'myAddress',
@@ -283,21 +328,20 @@ describe('EnhancedTransaction summary', () => {
       actualFeeRate: 50,
       effectiveFeeRate: 50,
       dustValue: 2n,
+      coinSelection: { strategy: 'largestFirst', waste: 1200 },
     });
 
-    vi.mocked(getRunesClient).mockReturnValue({
-      getDecodedRuneScript: vi.fn().mockResolvedValueOnce({
-        Runestone: {
-          edicts: [
-            {
-              id: 'runeId',
-              amount: BigNumber(100),
-              output: BigNumber(99),
-            },
-          ],
-        },
-      }),
-    } as any);
+    vi.mocked(decodeRunestone).mockReturnValueOnce({
+      Runestone: {
+        edicts: [
+          {
+            id: 'runeId',
+            amount: BigNumber(100),
+            output: BigNumber(99),
+          },
+        ],
+      },
+    });
 
     // ==========================
     // actual thing we're testing
@@ -459,6 +503,7 @@ describe('EnhancedTransaction summary', () => {
         ],
       },
       dustValue: 2n,
+      coinSelection: { strategy: 'largestFirst', waste: 1200 },
     });
 
     expect(applyScriptActions).toHaveBeenCalledWith(expect.any(btc.Transaction), [
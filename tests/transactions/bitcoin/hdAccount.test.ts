@@ -0,0 +1,261 @@
+import * as btc from '@scure/btc-signer';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExtendedUtxo } from '../../../transactions/bitcoin';
+import { HdAddressContext } from '../../../transactions/bitcoin/context';
+import { createHdTransactionContext } from '../../../transactions/bitcoin/contextFactory';
+import {
+  HdChain,
+  deriveHdAddress,
+  getHdAccountPath,
+  getHdPayment,
+  scanHdChain,
+} from '../../../transactions/bitcoin/hdAccount';
+import type { BtcAddressBalanceResponse } from '../../../types';
+import { getBitcoinDerivationPath, getTaprootDerivationPath } from '../../../wallet';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createSeedVault,
+  createUtxoCache,
+  fundingTxid,
+  rootKeyPair,
+} from './helpers';
+
+const nestedSegwitAccountNode = rootKeyPair.derivePath("m/49'/0'/0'").neutered();
+const hdAccountNodes = {
+  p2sh: rootKeyPair.derivePath(getHdAccountPath('p2sh', 'Mainnet', 1)).neutered(),
+  p2tr: rootKeyPair.derivePath(getHdAccountPath('p2tr', 'Mainnet', 1)).neutered(),
+};
+
+const getAddress = (chain: HdChain, index: number) =>
+  deriveHdAddress('p2sh', nestedSegwitAccountNode, 'Mainnet', chain, index).address;
+
+const getHdAccountAddress = (type: 'p2sh' | 'p2tr', chain: HdChain, index: number) =>
+  deriveHdAddress(type, hdAccountNodes[type], 'Mainnet', chain, index).address;
+
+const getAddressStats = (txCount: number) => ({
+  funded_txo_count: txCount,
+  funded_txo_sum: 0,
+  spent_txo_count: 0,
+  spent_txo_sum: 0,
+  tx_count: txCount,
+});
+
+const createEsploraProvider = (usedAddresses: string[]) =>
+  Object.assign(
+    createEsploraApiProvider((address) => [
+      createFundingUtxo({ vout: address === getHdAccountAddress('p2sh', HdChain.RECEIVE, 0) ? 0 : 1, value: 10000 }),
+    ]),
+    {
+      getAddressData: vi
+        .fn<[address: string], Promise<BtcAddressBalanceResponse>>()
+        .mockImplementation(async (address) => ({
+          address,
+          chain_stats: getAddressStats(usedAddresses.includes(address) ? 1 : 0),
+          mempool_stats: getAddressStats(0),
+        })),
+    },
+  );
+
+describe('scanHdChain', () => {
+  it('stops once gapLimit consecutive addresses are unused', async () => {
+    const esploraApiProvider = createEsploraProvider([getAddress(HdChain.RECEIVE, 0), getAddress(HdChain.RECEIVE, 3)]);
+
+    const hdAddresses = await scanHdChain({
+      type: 'p2sh',
+      accountNode: nestedSegwitAccountNode,
+      network: 'Mainnet',
+      chain: HdChain.RECEIVE,
+      esploraApiProvider,
+      gapLimit: 5,
+    });
+
+    // index 3 is used, so indexes 4 to 8 need to be unused
+    expect(esploraApiProvider.getAddressData).toHaveBeenCalledTimes(9);
+    expect(hdAddresses.map(({ index, used }) => ({ index, used }))).toEqual([
+      { index: 0, used: true },
+      { index: 1, used: false },
+      { index: 2, used: false },
+      { index: 3, used: true },
+      { index: 4, used: false },
+    ]);
+    expect(hdAddresses[0].address).toEqual(addresses[0].nestedSegwit);
+    expect(hdAddresses[1].address).toEqual(addresses[1].nestedSegwit);
+  });
+
+  it('returns the first address of an unused chain', async () => {
+    const esploraApiProvider = createEsploraProvider([]);
+
+    const hdAddresses = await scanHdChain({
+      type: 'p2tr',
+      accountNode: rootKeyPair.derivePath("m/86'/0'/0'").neutered(),
+      network: 'Mainnet',
+      chain: HdChain.RECEIVE,
+      esploraApiProvider,
+      gapLimit: 3,
+    });
+
+    expect(esploraApiProvider.getAddressData).toHaveBeenCalledTimes(3);
+    expect(hdAddresses).toEqual([
+      {
+        address: addresses[0].taproot,
+        publicKey: addresses[0].taprootPubKey,
+        chain: HdChain.RECEIVE,
+        index: 0,
+        used: false,
+      },
+    ]);
+  });
+});
+
+describe('createHdTransactionContext', () => {
+  const seedVault = createSeedVault();
+  const utxoCache = createUtxoCache();
+
+  const usedAddresses = [
+    getHdAccountAddress('p2sh', HdChain.RECEIVE, 0),
+    getHdAccountAddress('p2sh', HdChain.CHANGE, 0),
+  ];
+
+  let esploraApiProvider: ReturnType<typeof createEsploraProvider>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    esploraApiProvider = createEsploraProvider(usedAddresses);
+  });
+
+  const createContext = () =>
+    createHdTransactionContext({
+      esploraApiProvider,
+      seedVault,
+      utxoCache,
+      network: 'Mainnet',
+      accountIndex: 1,
+      gapLimit: 3,
+    });
+
+  it('hands out fresh receive and change addresses', async () => {
+    const context = await createContext();
+
+    expect(context.paymentAddress).toBeInstanceOf(HdAddressContext);
+    expect(context.paymentAddress.address).toEqual(getHdAccountAddress('p2sh', HdChain.RECEIVE, 1));
+    expect(context.changeAddress).toEqual(getHdAccountAddress('p2sh', HdChain.CHANGE, 1));
+    expect(context.ordinalsAddress.address).toEqual(getHdAccountAddress('p2tr', HdChain.RECEIVE, 0));
+  });
+
+  it('aggregates utxos of all used addresses', async () => {
+    const context = await createContext();
+
+    const utxos = await context.paymentAddress.getUtxos();
+
+    expect(esploraApiProvider.getUnspentUtxos).toHaveBeenCalledTimes(2);
+    expect(utxos.map((utxo) => utxo.address)).toEqual(usedAddresses);
+    expect(utxos.map((utxo) => utxo.outpoint)).toEqual([`${fundingTxid}:0`, `${fundingTxid}:1`]);
+  });
+
+  it('signs inputs from different addresses with their own keys', async () => {
+    const context = await createContext();
+    const utxos = await context.paymentAddress.getUtxos();
+
+    const transaction = new btc.Transaction();
+    for (const utxo of utxos) {
+      await context.paymentAddress.addInput(transaction, utxo);
+    }
+    transaction.addOutputAddress(addresses[0].nativeSegwit, 19000n);
+
+    await context.signTransaction(transaction, {});
+
+    expect(() => transaction.finalize()).not.toThrow();
+  });
+
+  it('throws when adding a utxo of an address outside the account', async () => {
+    const context = await createContext();
+    const [utxo] = await esploraApiProvider.getUnspentUtxos(addresses[0].taproot);
+    const externalUtxo = new ExtendedUtxo(utxo, addresses[0].taproot, utxoCache, esploraApiProvider);
+
+    await expect(context.paymentAddress.addInput(new btc.Transaction(), externalUtxo)).rejects.toThrow(
+      `Address ${addresses[0].taproot} is not part of the account`,
+    );
+  });
+
+  it('rotates addresses once outputs pay to them', async () => {
+    const context = await createContext();
+    const changeAddress = context.changeAddress;
+
+    const transaction = new btc.Transaction();
+    transaction.addOutputAddress(changeAddress, 1000n);
+    transaction.addOutputAddress(context.paymentAddress.address, 1000n);
+
+    context.markOutputsUsed(transaction);
+
+    expect(context.changeAddress).toEqual(getHdAccountAddress('p2sh', HdChain.CHANGE, 2));
+    expect(context.paymentAddress.address).toEqual(getHdAccountAddress('p2sh', HdChain.RECEIVE, 2));
+    expect((context.paymentAddress as HdAddressContext).addresses.filter((a) => a.used)).toHaveLength(4);
+  });
+
+  it('does not derive the addresses of standard accounts from other accounts', async () => {
+    const hdAddresses = (['p2sh', 'p2tr'] as const).flatMap((type) =>
+      [HdChain.RECEIVE, HdChain.CHANGE].flatMap((chain) =>
+        Array.from({ length: 20 }, (_, index) => getHdAccountAddress(type, chain, index)),
+      ),
+    );
+    const standardAddresses = Array.from({ length: 20 }, (_, index) => [
+      getHdPayment(
+        'p2sh',
+        rootKeyPair.derivePath(getBitcoinDerivationPath({ index, network: 'Mainnet' })).publicKey,
+        'Mainnet',
+      ).address,
+      getHdPayment(
+        'p2tr',
+        rootKeyPair.derivePath(getTaprootDerivationPath({ index, network: 'Mainnet' })).publicKey.slice(1),
+        'Mainnet',
+      ).address,
+    ]).flat();
+
+    expect(standardAddresses.slice(0, 2)).toEqual([addresses[0].nestedSegwit, addresses[0].taproot]);
+    expect(hdAddresses.filter((address) => standardAddresses.includes(address))).toEqual([]);
+  });
+
+  it('treats the standard accounts as the receive chain of account 0', async () => {
+    const standardAccountProvider = createEsploraProvider([
+      addresses[0].nestedSegwit,
+      addresses[1].nestedSegwit,
+      getAddress(HdChain.CHANGE, 0),
+    ]);
+    const context = await createHdTransactionContext({
+      esploraApiProvider: standardAccountProvider,
+      seedVault,
+      utxoCache,
+      network: 'Mainnet',
+      accountIndex: 0,
+      gapLimit: 3,
+    });
+
+    const utxos = await context.paymentAddress.getUtxos();
+
+    expect(context.paymentAddress.address).toEqual(getAddress(HdChain.RECEIVE, 2));
+    expect(context.changeAddress).toEqual(getAddress(HdChain.CHANGE, 1));
+    expect(utxos.map((utxo) => utxo.address)).toEqual([
+      addresses[0].nestedSegwit,
+      addresses[1].nestedSegwit,
+      getAddress(HdChain.CHANGE, 0),
+    ]);
+
+    const transaction = new btc.Transaction();
+    for (const utxo of utxos) {
+      await context.paymentAddress.addInput(transaction, utxo);
+    }
+    transaction.addOutputAddress(addresses[0].nativeSegwit, 29000n);
+
+    await context.signTransaction(transaction, {});
+
+    expect(() => transaction.finalize()).not.toThrow();
+  });
+
+  it('rejects invalid account indexes', async () => {
+    await expect(
+      createHdTransactionContext({ esploraApiProvider, seedVault, utxoCache, network: 'Mainnet', accountIndex: -1 }),
+    ).rejects.toThrow('Invalid HD account index: -1');
+  });
+});
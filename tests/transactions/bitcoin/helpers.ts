@@ -1,13 +1,43 @@
+import { hex } from '@scure/base';
+import BigNumber from 'bignumber.js';
 import { vi } from 'vitest';
 import { UtxoCache } from '../../../api';
 import EsploraProvider from '../../../api/esplora/esploraAPiProvider';
-import SeedVault from '../../../seedVault';
+import { SeedVault } from '../../../seedVault';
 import { AddressContext } from '../../../transactions/bitcoin/context';
+import { createTransactionContext } from '../../../transactions/bitcoin/contextFactory';
+import { ExtendedUtxo } from '../../../transactions/bitcoin/extendedUtxo';
 import type { SupportedAddressType } from '../../../transactions/bitcoin/types';
+import type {
+  AccountType,
+  BtcTransactionBroadcastResponse,
+  EsploraTransaction,
+  Rune,
+  StorageAdapter,
+  TxStatus,
+  UTXO,
+  UtxoOrdinalBundle,
+  UtxoRuneEntry,
+  Vin,
+  Vout,
+} from '../../../types';
 import { bip32, bip39 } from '../../../utils';
 
 export const seedPhrase = 'action action action action action action action action action action action action';
 export const rootKeyPair = bip32.fromSeed(bip39.mnemonicToSeedSync(seedPhrase));
+/**
+ * Derives the private key at a path of the test seed
+ */
+export const derivePrivateKey = (path: string): Uint8Array => {
+  const { privateKey } = rootKeyPair.derivePath(path);
+
+  if (!privateKey) {
+    throw new Error(`No private key at ${path}`);
+  }
+
+  return privateKey;
+};
+
 export const addresses = [
   {
     nativeSegwit: 'bc1qx4kug8qk3npq2te0jattrwdpjutz3x5866e5qc',
@@ -60,3 +90,213 @@ export class TestAddressContext extends AddressContext {
 
   getIOSizes = vi.fn();
 }
+
+// the UTXOs of the mocked accounts are all outputs of this transaction unless stated otherwise
+export const fundingTxid = '8b1d3e2a4a1ef67e0c4c7d49a8e20a0f64a0c8bd5f2d1bb3b6e4e1c2b1e0f9a8';
+export const tipHeight = 850000;
+
+export type MockUtxo = Omit<UTXO, 'address'> & { blockHeight?: number };
+
+export const createFundingUtxo = (utxo: Partial<MockUtxo> = {}): MockUtxo => ({
+  txid: fundingTxid,
+  vout: 0,
+  value: 100000,
+  status: { confirmed: true },
+  ...utxo,
+});
+
+export const createStorageAdapter = () => {
+  const storage = new Map<string, string>();
+
+  return {
+    get: vi.fn((key: string) => storage.get(key) ?? null),
+    set: vi.fn((key: string, value: string) => {
+      storage.set(key, value);
+    }),
+    remove: vi.fn((key: string) => {
+      storage.delete(key);
+    }),
+  } satisfies StorageAdapter;
+};
+
+/**
+ * Creates an Esplora provider with the requests made while building and broadcasting transactions mocked. By
+ * default, only the native segwit address of the first account holds a UTXO.
+ */
+export const createEsploraApiProvider = (
+  getUtxos: (address: string) => MockUtxo[] = (address) =>
+    address === addresses[0].nativeSegwit ? [createFundingUtxo()] : [],
+) =>
+  Object.assign(new EsploraProvider({ network: 'Mainnet' }), {
+    getTransactionHex: vi.fn<[txid: string], Promise<string | undefined>>().mockResolvedValue(undefined),
+    getLatestBlockHeight: vi.fn<[], Promise<number>>().mockResolvedValue(tipHeight),
+    sendRawTransaction: vi
+      .fn<[rawTransaction: string], Promise<BtcTransactionBroadcastResponse>>()
+      .mockResolvedValue({ tx: { hash: fundingTxid } }),
+    getUnspentUtxos: vi
+      .fn<[address: string], Promise<(UTXO & { blockHeight?: number })[]>>()
+      .mockImplementation(async (address) => getUtxos(address).map((utxo) => ({ ...utxo, address }))),
+  });
+
+export const createSeedVault = () =>
+  Object.assign(
+    new SeedVault({
+      secureStorageAdapter: createStorageAdapter(),
+      commonStorageAdapter: createStorageAdapter(),
+      cryptoUtilsAdapter: { encrypt: vi.fn(), decrypt: vi.fn(), hash: vi.fn(), generateRandomBytes: vi.fn() },
+    }),
+    { getSeed: vi.fn<[], Promise<string>>().mockResolvedValue(seedPhrase) },
+  );
+
+/**
+ * Creates the bundle the UTXO cache holds for an outpoint, with the inscription on the first sat of the UTXO if one
+ * is given
+ */
+export const createUtxoBundle = (
+  outpoint: string,
+  { inscriptionId, runes = [] }: { inscriptionId?: string; runes?: UtxoRuneEntry<BigNumber>[] } = {},
+): UtxoOrdinalBundle => {
+  const [txid, vout] = outpoint.split(':');
+
+  return {
+    txid,
+    vout: +vout,
+    value: 546,
+    sat_ranges: inscriptionId
+      ? [
+          {
+            offset: 0,
+            range: { start: '0', end: '546' },
+            year_mined: 2009,
+            block: 0,
+            satributes: [],
+            inscriptions: [{ id: inscriptionId, inscription_number: 1, content_type: 'text/plain' }],
+          },
+        ]
+      : [],
+    runes,
+  };
+};
+
+/**
+ * Creates a UTXO cache which knows the inscriptions, rare sats and runes returned by getBundle, and nothing about
+ * other UTXOs
+ */
+export const createUtxoCache = (getBundle: (outpoint: string) => UtxoOrdinalBundle | undefined = () => undefined) =>
+  Object.assign(new UtxoCache({ cacheStorageController: createStorageAdapter(), network: 'Mainnet' }), {
+    getUtxoByOutpoint: vi
+      .fn<[outpoint: string, address: string, skipCache?: boolean], Promise<UtxoOrdinalBundle | undefined>>()
+      .mockImplementation(async (outpoint) => getBundle(outpoint)),
+  });
+
+/**
+ * Creates a UTXO of an address as the address contexts return it, backed by an empty UTXO cache unless one is given
+ */
+export const createExtendedUtxo = (
+  utxo: Partial<MockUtxo> = {},
+  address: string = addresses[0].nativeSegwit,
+  utxoCache: UtxoCache = createUtxoCache(),
+) => new ExtendedUtxo({ ...createFundingUtxo(utxo), address }, address, utxoCache, createEsploraApiProvider());
+
+/**
+ * Creates the info the runes API returns for a rune, which has no premine or mint terms unless given
+ */
+export const createRune = (id: string, entry: Partial<Rune['entry']> = {}): Rune => ({
+  entry: {
+    block: BigNumber(840000),
+    burned: BigNumber(0),
+    divisibility: BigNumber(0),
+    etching: '',
+    mints: BigNumber(0),
+    number: BigNumber(1),
+    premine: BigNumber(0),
+    spaced_rune: '',
+    symbol: '¤',
+    terms: { amount: null, cap: null, height: [null, null], offset: [null, null] },
+    timestamp: BigNumber(0),
+    ...entry,
+  },
+  id,
+  mintable: !!entry.terms,
+  parent: null,
+});
+
+export const createEsploraVout = (script: Uint8Array, value: number): Vout => ({
+  scriptpubkey: hex.encode(script),
+  scriptpubkey_asm: '',
+  scriptpubkey_type: '',
+  value,
+});
+
+/**
+ * Creates a transaction in the format Esplora serves it. Only the fields read while spending and indexing are filled
+ * in, the sizes and fee are left at 0.
+ */
+export const createEsploraTransaction = ({
+  txid,
+  vin = [],
+  vout = [],
+  status = { confirmed: true },
+}: {
+  txid: string;
+  vin?: (Pick<Vin, 'txid' | 'vout' | 'prevout'> & Partial<Vin>)[];
+  vout?: Vout[];
+  status?: TxStatus;
+}): EsploraTransaction => ({
+  txid,
+  version: 2,
+  locktime: 0,
+  vin: vin.map((input) => ({
+    scriptsig: '',
+    scriptsig_asm: '',
+    is_coinbase: false,
+    sequence: 0xfffffffd,
+    ...input,
+  })),
+  vout,
+  size: 0,
+  weight: 0,
+  fee: 0,
+  status,
+});
+
+export type TestTransactionContextOptions = {
+  /** The index of the account in the test addresses */
+  accountIndex?: number;
+  paymentType?: 'nativeSegwit' | 'nestedSegwit' | 'taproot';
+  accountType?: AccountType;
+  esploraApiProvider?: EsploraProvider;
+  utxoCache?: UtxoCache;
+  storageAdapter?: StorageAdapter;
+};
+
+/**
+ * Creates the transaction context of a test account, which pays from its native segwit address by default
+ */
+export const createTestTransactionContext = ({
+  accountIndex = 0,
+  paymentType = 'nativeSegwit',
+  accountType = 'software',
+  esploraApiProvider = createEsploraApiProvider(),
+  utxoCache = createUtxoCache(),
+  storageAdapter,
+}: TestTransactionContextOptions = {}) =>
+  createTransactionContext({
+    account: {
+      id: accountIndex,
+      deviceAccountIndex: accountIndex,
+      stxAddress: '',
+      stxPublicKey: '',
+      masterPubKey: '',
+      btcAddress: addresses[accountIndex][paymentType],
+      btcPublicKey: addresses[accountIndex][`${paymentType}PubKey`],
+      ordinalsAddress: addresses[accountIndex].taproot,
+      ordinalsPublicKey: addresses[accountIndex].taprootPubKey,
+      accountType,
+    },
+    esploraApiProvider,
+    network: 'Mainnet',
+    seedVault: createSeedVault(),
+    utxoCache,
+    storageAdapter,
+  });
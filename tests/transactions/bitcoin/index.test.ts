@@ -1,5 +1,13 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { ActionType, combineUtxos, sendBtc, sendMaxBtc, sendOrdinals } from '../../../transactions/bitcoin';
+import {
+  ActionType,
+  bumpFeeWithCpfp,
+  combineUtxos,
+  sendBtc,
+  sendMaxBtc,
+  sendOrdinals,
+  TransactionSummary,
+} from '../../../transactions/bitcoin';
 import { EnhancedTransaction } from '../../../transactions/bitcoin/enhancedTransaction';
 import { addresses } from './helpers';
 
@@ -281,6 +289,102 @@ describe('sendBtc', () => {
   });
 });
 
+describe('bumpFeeWithCpfp', () => {
+  const paymentAddress = addresses[0].nestedSegwit;
+  const ordinalsAddress = addresses[0].taproot;
+
+  const contextMock = {
+    getUtxo: vi.fn(),
+  } as any;
+
+  const createUtxoMock = (
+    address: string,
+    confirmed: boolean,
+    isEmbellished: boolean | undefined,
+    hasRunes: boolean | undefined = false,
+  ) => ({
+    address,
+    outpoint: 'parent:0',
+    utxo: {
+      value: 10000,
+      status: { confirmed },
+    },
+    getUnconfirmedUtxoFeeData: vi.fn().mockResolvedValue({ totalVsize: 200, totalFee: 200 }),
+    isEmbellished: vi.fn().mockResolvedValue(isEmbellished),
+    hasRunes: vi.fn().mockResolvedValue(hasRunes),
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('should throw if utxo not found', async () => {
+    contextMock.getUtxo.mockResolvedValueOnce({});
+
+    await expect(bumpFeeWithCpfp(contextMock, 'parent:0', 10)).rejects.toThrow('No utxo found for outpoint');
+  });
+
+  it('should throw if utxo is confirmed', async () => {
+    contextMock.getUtxo.mockResolvedValueOnce({ extendedUtxo: createUtxoMock(paymentAddress, true, false) });
+
+    await expect(bumpFeeWithCpfp(contextMock, 'parent:0', 10)).rejects.toThrow('UTXO is already confirmed');
+  });
+
+  it('should throw if ancestors already pay the desired rate', async () => {
+    contextMock.getUtxo.mockResolvedValueOnce({ extendedUtxo: createUtxoMock(paymentAddress, false, false) });
+
+    await expect(bumpFeeWithCpfp(contextMock, 'parent:0', 1)).rejects.toThrow(
+      'Unconfirmed ancestors already pay the desired fee rate',
+    );
+  });
+
+  it('should spend a common utxo with effective fee rate', async () => {
+    contextMock.getUtxo.mockResolvedValueOnce({ extendedUtxo: createUtxoMock(paymentAddress, false, false) });
+    const summaryMock = { effectiveFeeRate: 10 } as TransactionSummary;
+    vi.mocked(EnhancedTransaction.prototype.getSummary).mockResolvedValueOnce(summaryMock);
+
+    const { transaction, summary } = await bumpFeeWithCpfp(contextMock, 'parent:0', 10);
+
+    expect(EnhancedTransaction).toHaveBeenCalledTimes(1);
+    expect(EnhancedTransaction).toHaveBeenCalledWith(contextMock, [], 10, {
+      forceIncludeOutpointList: ['parent:0'],
+      useEffectiveFeeRate: true,
+      allowUnconfirmedInput: true,
+    });
+    expect(transaction).toEqual(vi.mocked(EnhancedTransaction).mock.instances[0]);
+    expect(summary).toEqual(summaryMock);
+  });
+
+  it.each([
+    ['inscriptions', true, false],
+    ['runes', false, true],
+    ['unindexed', undefined, undefined],
+  ])('should keep utxo with %s intact', async (_, isEmbellished, hasRunes) => {
+    contextMock.getUtxo.mockResolvedValueOnce({
+      extendedUtxo: createUtxoMock(ordinalsAddress, false, isEmbellished, hasRunes),
+    });
+
+    await bumpFeeWithCpfp(contextMock, 'parent:0', 10);
+
+    expect(EnhancedTransaction).toHaveBeenCalledWith(
+      contextMock,
+      [
+        {
+          type: ActionType.SEND_UTXO,
+          toAddress: ordinalsAddress,
+          outpoint: 'parent:0',
+        },
+      ],
+      10,
+      {
+        useEffectiveFeeRate: true,
+        allowUnconfirmedInput: true,
+      },
+    );
+  });
+});
+
 describe('sendOrdinals', () => {
   const paymentsAddress = addresses[0].nestedSegwit;
   const ordinalsAddress = addresses[0].taproot;
@@ -0,0 +1,147 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { base64, hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { describe, expect, it } from 'vitest';
+import { sendBtc } from '../../../transactions/bitcoin';
+import { createMultisigTransactionContext } from '../../../transactions/bitcoin/contextFactory';
+import { getMultisigPayment } from '../../../transactions/bitcoin/multisigAccount';
+import { aggregateMusigPublicKeys } from '../../../transactions/bitcoin/musig2';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createSeedVault,
+  createUtxoCache,
+  rootKeyPair,
+} from './helpers';
+
+// the cosigners are separate accounts of the same seed
+const publicKeys = [0, 1, 2].map((i) => hex.encode(rootKeyPair.derivePath(`m/87'/0'/${i}'/0/0`).publicKey));
+
+const createContext = (accountIndex: number, threshold = 2) =>
+  createMultisigTransactionContext({
+    accountIndex,
+    cosignerPublicKeys: publicKeys.filter((_, i) => i !== accountIndex),
+    threshold,
+    esploraApiProvider: createEsploraApiProvider(() => [createFundingUtxo()]),
+    network: 'Mainnet',
+    seedVault: createSeedVault(),
+    utxoCache: createUtxoCache(),
+  });
+
+const getWitnessUtxo = (transaction: btc.Transaction) => {
+  const { witnessUtxo } = transaction.getInput(0);
+  if (!witnessUtxo) {
+    throw new Error('The vault input has no witness UTXO');
+  }
+
+  return witnessUtxo;
+};
+
+const getSigHash = (transaction: btc.Transaction) => {
+  const { script, amount } = getWitnessUtxo(transaction);
+  return transaction.preimageWitnessV1(0, [script], btc.SigHash.DEFAULT, [amount]);
+};
+
+describe('MuSig2', () => {
+  it('aggregates keys as per BIP-327', () => {
+    const keys = [
+      '02F9308A019258C31049344F85F89D5229B531C845836F99B08601F113BCE036F9',
+      '03DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659',
+      '023590A94E768F8E1815C2F24B4D80A8E3149316C3518CE7B7AD338368D038CA66',
+    ].map((key) => hex.decode(key.toLowerCase()));
+
+    const { publicKey } = aggregateMusigPublicKeys(keys);
+
+    expect(hex.encode(publicKey.toRawBytes(true).slice(1))).toEqual(
+      '90539eede565f5d054f32cc0c220126889ed1e5d193baf15aef344fe59d4610c',
+    );
+  });
+});
+
+describe('multisig vaults', () => {
+  it('derives the same vault address for all cosigners', async () => {
+    const contexts = await Promise.all([0, 1, 2].map((i) => createContext(i)));
+    const payment = getMultisigPayment([...publicKeys].reverse(), 2, 'Mainnet');
+
+    expect(contexts.map((context) => context.paymentAddress.address)).toEqual(Array(3).fill(payment.address));
+    expect(contexts[0].ordinalsAddress).toBe(contexts[0].paymentAddress);
+    expect(btc.OutScript.decode((payment.tapLeafScript ?? [])[0][1].slice(0, -1))).toEqual(
+      expect.objectContaining({ type: 'tr_ms', m: 2 }),
+    );
+  });
+
+  it('rejects invalid vaults', async () => {
+    expect(() => getMultisigPayment(publicKeys.slice(0, 1), 1, 'Mainnet')).toThrow(
+      'Multisig vaults need at least 2 cosigners',
+    );
+    expect(() => getMultisigPayment(publicKeys, 4, 'Mainnet')).toThrow('Invalid multisig threshold 4 for 3 cosigners');
+    await expect(
+      createMultisigTransactionContext({
+        accountIndex: 0,
+        cosignerPublicKeys: publicKeys,
+        threshold: 2,
+        network: 'Mainnet',
+        seedVault: createSeedVault(),
+        utxoCache: createUtxoCache(),
+        esploraApiProvider: createEsploraApiProvider(),
+      }),
+    ).rejects.toThrow('The cosigner keys should not include the key of this wallet');
+  });
+
+  it('spends through the key path once all cosigners exchanged nonces and partial signatures', async () => {
+    const contexts = await Promise.all([0, 1, 2].map((i) => createContext(i)));
+    const transaction = await sendBtc(contexts[0], [{ toAddress: addresses[0].nativeSegwit, amount: 20000n }], 2);
+    const summary = await transaction.getSummary();
+
+    let psbt = await transaction.getUnsignedPsbtBase64();
+    // the first round adds the nonces, and the last cosigner to add its nonce can sign right away
+    for (const context of contexts) {
+      psbt = await context.signPsbt(psbt, {});
+    }
+    expect(btc.Transaction.fromPSBT(base64.decode(psbt)).getInput(0).tapKeySig).toBeUndefined();
+
+    // the second round adds the remaining partial signatures and aggregates them
+    for (const context of contexts.slice(0, 2)) {
+      psbt = await context.signPsbt(psbt, {});
+    }
+
+    const signedTransaction = btc.Transaction.fromPSBT(base64.decode(psbt));
+    const { tapKeySig: signature = new Uint8Array() } = signedTransaction.getInput(0);
+    const outputKey = getWitnessUtxo(signedTransaction).script.slice(2);
+    signedTransaction.finalize();
+
+    await expect(secp256k1.schnorr.verify(signature, getSigHash(signedTransaction), outputKey)).resolves.toBe(true);
+    expect(summary.vsize).toEqual(signedTransaction.vsize);
+  });
+
+  it('needs the nonce of a cosigner to be generated by the same context', async () => {
+    const context = await createContext(0);
+    const transaction = await sendBtc(context, [{ toAddress: addresses[0].nativeSegwit, amount: 20000n }], 2);
+
+    let psbt = await context.signPsbt(await transaction.getUnsignedPsbtBase64(), {});
+    psbt = await (await createContext(1)).signPsbt(psbt, {});
+    psbt = await (await createContext(2)).signPsbt(psbt, {});
+
+    await expect((await createContext(0)).signPsbt(psbt, {})).rejects.toThrow(
+      'The MuSig2 nonce for input 0 was not generated in this session',
+    );
+  });
+
+  it('spends through the script path with the threshold of cosigners', async () => {
+    const contexts = await Promise.all([0, 1, 2].map((i) => createContext(i)));
+    const transaction = await sendBtc(contexts[0], [{ toAddress: addresses[0].nativeSegwit, amount: 20000n }], 2);
+    const summary = await transaction.getSummary({ multisigSpendPath: 'script' });
+
+    let psbt = await transaction.getUnsignedPsbtBase64({ multisigSpendPath: 'script' });
+    psbt = await contexts[0].signPsbt(psbt, {});
+    psbt = await contexts[2].signPsbt(psbt, {});
+
+    const signedTransaction = btc.Transaction.fromPSBT(base64.decode(psbt));
+    expect(signedTransaction.getInput(0).tapScriptSig).toHaveLength(2);
+    signedTransaction.finalize();
+
+    expect(signedTransaction.getInput(0).finalScriptWitness).toHaveLength(3 + 2);
+    expect(summary.vsize).toEqual(signedTransaction.vsize);
+  });
+});
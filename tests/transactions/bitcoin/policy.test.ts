@@ -0,0 +1,155 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { crypto } from 'bitcoinjs-lib';
+import { describe, expect, it } from 'vitest';
+import { applyScriptActions } from '../../../transactions/bitcoin/actionProcessors';
+import { compilePolicy, getPolicyInputFields } from '../../../transactions/bitcoin/policy';
+import { ActionType } from '../../../transactions/bitcoin/types';
+import { estimateVSize } from '../../../transactions/bitcoin/utils/transactionVsizeEstimator';
+import { derivePrivateKey, fundingTxid, rootKeyPair } from './helpers';
+
+const keys = [0, 1, 2].map((i) => rootKeyPair.derivePath(`m/84'/0'/0'/0/${i}`));
+const privateKeys = [0, 1, 2].map((i) => derivePrivateKey(`m/84'/0'/0'/0/${i}`));
+const [keyA, keyB, keyC] = keys.map((key) => hex.encode(key.publicKey));
+const hash = hex.encode(crypto.sha256(Buffer.alloc(32, 1)));
+
+const createSpend = (input: Partial<btc.TransactionInput>) => {
+  const transaction = new btc.Transaction();
+  transaction.addInput({ txid: fundingTxid, index: 0, ...input });
+  transaction.addOutputAddress('bc1qx4kug8qk3npq2te0jattrwdpjutz3x5866e5qc', 9000n, btc.NETWORK);
+  return transaction;
+};
+
+describe('compilePolicy', () => {
+  it('compiles segwit v0 policies with their satisfaction size', () => {
+    const compiled = compilePolicy(`and(pk(${keyA}),older(144))`, 'wsh');
+    const [leaf] = compiled.leaves;
+
+    expect(leaf.script).toEqual(btc.Script.encode([hex.decode(keyA), 'CHECKSIGVERIFY', 144, 'CHECKSEQUENCEVERIFY']));
+    expect(leaf.satisfaction).toEqual({ elements: 1, size: 73 });
+    expect(compiled.script).toEqual(
+      btc.OutScript.encode({ type: 'wsh', hash: crypto.sha256(Buffer.from(leaf.script)) }),
+    );
+
+    const hashLock = compilePolicy(`or(pk(${keyA}),and(pk(${keyB}),sha256(${hash})))`, 'wsh');
+    expect(hashLock.leaves[0].script).toEqual(
+      btc.Script.encode([
+        'IF',
+        hex.decode(keyA),
+        'CHECKSIG',
+        'ELSE',
+        hex.decode(keyB),
+        'CHECKSIGVERIFY',
+        'SIZE',
+        32,
+        'EQUALVERIFY',
+        'SHA256',
+        hex.decode(hash),
+        'EQUAL',
+        'ENDIF',
+      ]),
+    );
+    // signature, preimage and the empty selector of the second branch
+    expect(hashLock.leaves[0].satisfaction).toEqual({ elements: 3, size: 73 + 33 + 1 });
+  });
+
+  it('compiles key thresholds into multisig scripts', () => {
+    const policy = `thresh(2,pk(${keyA}),pk(${keyB}),pk(${keyC}))`;
+    const publicKeys = keys.map((key) => key.publicKey);
+
+    const segwit = compilePolicy(policy, 'wsh');
+    expect(segwit.leaves[0].script).toEqual(btc.p2ms(2, publicKeys).script);
+    expect(segwit.leaves[0].satisfaction).toEqual({ elements: 3, size: 1 + 73 * 2 });
+
+    const taproot = compilePolicy(policy, 'tr');
+    expect(taproot.leaves[0].script).toEqual(
+      btc.p2tr_ms(
+        2,
+        publicKeys.map((key) => key.slice(1)),
+      ).script,
+    );
+    expect(taproot.leaves[0].satisfaction).toEqual({ elements: 3, size: 65 * 2 + 1 });
+    expect(taproot.tapInternalKey).toEqual(btc.TAPROOT_UNSPENDABLE_KEY);
+  });
+
+  it('sums the branches of mixed thresholds', () => {
+    const compiled = compilePolicy(`thresh(2,pk(${keyA}),older(1000),sha256(${hash}))`, 'wsh');
+    const script = btc.Script.decode(compiled.leaves[0].script);
+
+    expect(script.filter((op) => op === 'TOALTSTACK')).toHaveLength(2);
+    expect(script.slice(-2)).toEqual([2, 'EQUAL']);
+    // the signature and the preimage are the largest satisfactions, and the timelock branch is skipped
+    expect(compiled.leaves[0].satisfaction).toEqual({ elements: 5, size: 73 + 2 + 33 + 2 + 1 });
+  });
+
+  it('splits top level alternatives into taproot leaves', () => {
+    const compiled = compilePolicy(
+      `or(9@pk(${keyA}),1@or(pk(${keyB}),and(pk(${keyC}),after(800000))))`,
+      'tr',
+      keys[0].publicKey,
+    );
+
+    expect(compiled.leaves).toHaveLength(3);
+    expect(compiled.tapInternalKey).toEqual(keys[0].publicKey.slice(1));
+    expect(compiled.leaves[2].script).toEqual(
+      btc.Script.encode([keys[2].publicKey.slice(1), 'CHECKSIGVERIFY', 800000, 'CHECKLOCKTIMEVERIFY']),
+    );
+
+    // the likely leaf is closer to the root
+    const controlBlockSizes = (compiled.tapLeafScript ?? []).map(([cb]) => btc.TaprootControlBlock.encode(cb).length);
+    expect(Math.min(...controlBlockSizes)).toEqual(33 + 32);
+    expect(Math.max(...controlBlockSizes)).toEqual(33 + 64);
+  });
+
+  it('rejects invalid policies', () => {
+    expect(() => compilePolicy(`pk(${keyA.slice(2)})`, 'wsh')).toThrow('Invalid public key in policy');
+    expect(() => compilePolicy(`thresh(4,pk(${keyA}),pk(${keyB}))`, 'wsh')).toThrow('Invalid threshold in policy');
+    expect(() => compilePolicy('older(0)', 'wsh')).toThrow('Invalid timelock in policy');
+    expect(() => compilePolicy(`and(pk(${keyA}))`, 'wsh')).toThrow('Invalid number of arguments in policy');
+    expect(() => compilePolicy(`multi(1,${keyA})`, 'wsh')).toThrow('Unsupported policy fragment: multi');
+    expect(() => compilePolicy('pk(A', 'wsh')).toThrow('Invalid policy: pk(A');
+  });
+});
+
+describe('estimating policy spends', () => {
+  it('estimates the size of a segwit v0 policy spend', () => {
+    const compiled = compilePolicy(`pk(${keyA})`, 'wsh');
+    const transaction = createSpend({
+      witnessUtxo: { script: compiled.script, amount: 10000n },
+      ...getPolicyInputFields(compiled),
+    });
+
+    const estimatedVSize = estimateVSize(transaction);
+    transaction.signIdx(privateKeys[0], 0);
+    transaction.finalize();
+
+    expect(estimatedVSize - transaction.vsize).toBeGreaterThanOrEqual(0);
+    expect(estimatedVSize - transaction.vsize).toBeLessThanOrEqual(1);
+  });
+
+  it('estimates the size of a tapscript leaf spend', () => {
+    const compiled = compilePolicy(`or(9@pk(${keyA}),1@pk(${keyB}))`, 'tr');
+    const transaction = createSpend({
+      witnessUtxo: { script: compiled.script, amount: 10000n },
+      ...getPolicyInputFields(compiled, 1),
+    });
+
+    const estimatedVSize = estimateVSize(transaction);
+    transaction.signIdx(privateKeys[1], 0);
+    transaction.finalize();
+
+    expect(estimatedVSize).toEqual(transaction.vsize);
+  });
+
+  it('adds funded outputs for policy script actions', async () => {
+    const transaction = new btc.Transaction();
+    const policy = `and(pk(${keyA}),older(144))`;
+
+    const { outputs } = await applyScriptActions(transaction, [
+      { type: ActionType.SCRIPT, policy, scriptType: 'wsh', amount: 20000n },
+    ]);
+
+    expect(transaction.getOutput(0)).toEqual({ script: compilePolicy(policy, 'wsh').script, amount: 20000n });
+    expect(outputs[0]).toEqual(expect.objectContaining({ type: 'script', amount: 20000 }));
+  });
+});
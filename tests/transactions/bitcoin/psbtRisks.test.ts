@@ -0,0 +1,193 @@
+import * as btc from '@scure/btc-signer';
+import { describe, expect, it, vi } from 'vitest';
+import { getPsbtRisks } from '../../../transactions/bitcoin/psbtRisks';
+import { EnhancedInput, EnhancedOutput, PsbtSummary } from '../../../transactions/bitcoin/types';
+import { addresses, createExtendedUtxo, createTestTransactionContext } from './helpers';
+
+const paymentAddress = addresses[0].nativeSegwit;
+const ordinalsAddress = addresses[0].taproot;
+const externalAddress = addresses[1].nativeSegwit;
+
+// the ordinals address holds the outputs of the funding transaction at the given vouts
+const createContext = (ordinalsUtxoVouts: number[] = []) => {
+  const context = createTestTransactionContext();
+  vi.spyOn(context.ordinalsAddress, 'getUtxos').mockResolvedValue(
+    ordinalsUtxoVouts.map((vout) => createExtendedUtxo({ vout, value: 546 }, ordinalsAddress)),
+  );
+
+  return context;
+};
+
+const createInput = (
+  address: string,
+  value: number,
+  { vout = 0, sigHash = undefined as btc.SigHash | undefined, walletWillSign = true, hasRunes = false } = {},
+): EnhancedInput => {
+  const extendedUtxo = createExtendedUtxo({ vout, value }, address);
+  vi.spyOn(extendedUtxo, 'hasRunes').mockResolvedValue(hasRunes);
+
+  return { extendedUtxo, inscriptions: [], satributes: [], sigHash, walletWillSign };
+};
+
+const createOutput = (address: string, amount: number, inscriptionOffsets: number[] = []): EnhancedOutput => ({
+  type: 'address',
+  address,
+  amount,
+  inscriptions: inscriptionOffsets.map((offset) => ({
+    id: 'inscriptionId',
+    offset,
+    fromAddress: ordinalsAddress,
+    number: 1,
+    contentType: 'text/plain',
+  })),
+  satributes: [],
+});
+
+const createSummary = (summary: Partial<PsbtSummary>): PsbtSummary => ({
+  inputs: [],
+  outputs: [],
+  hasSigHashNone: false,
+  hasSigHashSingle: false,
+  isFinal: true,
+  ...summary,
+});
+
+describe('getPsbtRisks', () => {
+  it('returns no risks for a plain payment', async () => {
+    const summary = createSummary({
+      inputs: [createInput(paymentAddress, 10000)],
+      outputs: [createOutput(externalAddress, 5000), createOutput(paymentAddress, 4000)],
+      feeOutput: { type: 'fee', amount: 1000, inscriptions: [], satributes: [] },
+    });
+
+    const risks = await getPsbtRisks(createContext(), summary, 141);
+
+    expect(risks).toEqual([]);
+  });
+
+  it('reports inscriptions sent to the fee and to the payment address with their source input', async () => {
+    const summary = createSummary({
+      inputs: [createInput(paymentAddress, 10000), createInput(ordinalsAddress, 546, { vout: 1 })],
+      outputs: [createOutput(paymentAddress, 10000, [])],
+      feeOutput: {
+        type: 'fee',
+        amount: 546,
+        inscriptions: [
+          { id: 'inscriptionId', offset: 0, fromAddress: ordinalsAddress, number: 1, contentType: 'text/plain' },
+        ],
+        satributes: [{ types: ['UNCOMMON'], amount: 1, offset: 100, fromAddress: ordinalsAddress }],
+      },
+    });
+
+    const risks = await getPsbtRisks(createContext([2]), summary, 200);
+
+    expect(risks).toEqual([
+      { type: 'inscriptionToFee', severity: 'critical', inputIndex: 1 },
+      { type: 'rareSatsToFee', severity: 'high', inputIndex: 1 },
+    ]);
+
+    const changeSummary = createSummary({
+      inputs: [createInput(paymentAddress, 10000), createInput(ordinalsAddress, 546, { vout: 1 })],
+      outputs: [createOutput(externalAddress, 9000), createOutput(paymentAddress, 1046, [1000])],
+      feeOutput: { type: 'fee', amount: 500, inscriptions: [], satributes: [] },
+    });
+
+    const changeRisks = await getPsbtRisks(createContext([2]), changeSummary, 200);
+
+    expect(changeRisks).toEqual([
+      { type: 'inscriptionToPaymentAddress', severity: 'medium', inputIndex: 1, outputIndex: 1 },
+    ]);
+  });
+
+  it('skips sat flow checks when the summary is not final', async () => {
+    const summary = createSummary({
+      isFinal: false,
+      inputs: [createInput(ordinalsAddress, 546, { sigHash: btc.SigHash.SINGLE_ANYONECANPAY })],
+      outputs: [createOutput(paymentAddress, 546, [0])],
+    });
+
+    const risks = await getPsbtRisks(createContext([0, 1]), summary, undefined);
+
+    expect(risks).toEqual([]);
+  });
+
+  it('reports sighash combinations that let the counterparty redirect funds', async () => {
+    const summary = createSummary({
+      isFinal: false,
+      inputs: [
+        createInput(paymentAddress, 10000, { sigHash: btc.SigHash.SINGLE_ANYONECANPAY }),
+        createInput(paymentAddress, 10000, { vout: 1, sigHash: btc.SigHash.NONE_ANYONECANPAY }),
+        createInput(paymentAddress, 10000, { vout: 2, sigHash: btc.SigHash.ALL_ANYONECANPAY }),
+        createInput(paymentAddress, 10000, { vout: 3, sigHash: btc.SigHash.SINGLE }),
+        createInput(externalAddress, 10000, { vout: 4, sigHash: btc.SigHash.NONE, walletWillSign: false }),
+      ],
+      outputs: [createOutput(externalAddress, 2000), createOutput(externalAddress, 2000)],
+    });
+
+    const risks = await getPsbtRisks(createContext(), summary, undefined);
+
+    expect(risks).toEqual([
+      { type: 'sigHashNone', severity: 'critical', inputIndex: 1 },
+      { type: 'sigHashSingleWithoutOutput', severity: 'critical', inputIndex: 3 },
+      { type: 'sigHashSingle', severity: 'medium', inputIndex: 0, outputIndex: 0 },
+    ]);
+  });
+
+  it('reports runes burned by a cenotaph', async () => {
+    const runestoneOutput: EnhancedOutput = {
+      type: 'script',
+      script: ['RETURN', '13'],
+      scriptHex: '6a5d00',
+      amount: 0,
+    };
+    const summary = createSummary({
+      inputs: [createInput(paymentAddress, 10000), createInput(ordinalsAddress, 546, { vout: 1, hasRunes: true })],
+      outputs: [runestoneOutput, createOutput(ordinalsAddress, 546), createOutput(paymentAddress, 9000)],
+      feeOutput: { type: 'fee', amount: 1000, inscriptions: [], satributes: [] },
+      runeOp: { Cenotaph: { flaws: 1 } },
+    });
+
+    const risks = await getPsbtRisks(createContext([1, 2]), summary, 200);
+
+    expect(risks).toEqual([{ type: 'runesBurned', severity: 'critical', inputIndex: 1, outputIndex: 0 }]);
+  });
+
+  it('reports high fee rates and unknown outputs', async () => {
+    const summary = createSummary({
+      inputs: [createInput(paymentAddress, 200000)],
+      outputs: [
+        { type: 'script', script: ['OP_1'], scriptHex: '51', amount: 1000 },
+        { type: 'ms', pubKeys: ['pubKey1', 'pubKey2'], m: 1, amount: 1000, inscriptions: [], satributes: [] },
+      ],
+      feeOutput: { type: 'fee', amount: 198000, inscriptions: [], satributes: [] },
+    });
+
+    expect(await getPsbtRisks(createContext(), summary, 200)).toEqual([
+      { type: 'highFeeRate', severity: 'high' },
+      { type: 'unknownOutput', severity: 'medium', outputIndex: 0 },
+      { type: 'unknownOutput', severity: 'medium', outputIndex: 1 },
+    ]);
+    expect(await getPsbtRisks(createContext(), summary, 200, { highFeeRateThreshold: 1000 })).toEqual([
+      { type: 'unknownOutput', severity: 'medium', outputIndex: 0 },
+      { type: 'unknownOutput', severity: 'medium', outputIndex: 1 },
+    ]);
+  });
+
+  it('reports inputs that spend every utxo of the ordinals address', async () => {
+    const summary = createSummary({
+      inputs: [
+        createInput(ordinalsAddress, 546),
+        createInput(ordinalsAddress, 546, { vout: 1 }),
+        createInput(paymentAddress, 10000, { vout: 2 }),
+      ],
+      outputs: [createOutput(externalAddress, 1092), createOutput(paymentAddress, 9000)],
+      feeOutput: { type: 'fee', amount: 1000, inscriptions: [], satributes: [] },
+    });
+
+    expect(await getPsbtRisks(createContext([0, 1]), summary, 300)).toEqual([
+      { type: 'ordinalsAddressDrained', severity: 'high', inputIndex: 0 },
+      { type: 'ordinalsAddressDrained', severity: 'high', inputIndex: 1 },
+    ]);
+    expect(await getPsbtRisks(createContext([0, 1, 5]), summary, 300)).toEqual([]);
+  });
+});
@@ -0,0 +1,342 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import BigNumber from 'bignumber.js';
+import { describe, expect, it, vi } from 'vitest';
+import { bumpFeeWithRbf } from '../../../transactions/bitcoin/index';
+import rbf from '../../../transactions/rbf';
+import type { EsploraTransaction, TransactionOutspend, Vin, Vout } from '../../../types';
+import { encodeRunestone } from '../../../utils/runestone';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createTestTransactionContext,
+  createUtxoBundle,
+  createUtxoCache,
+} from './helpers';
+
+const txid = 'eb3ddbc9fb830b4470da0d723958a5819d8239f8bd9e4675d913f93631f3e025';
+const inscriptionTxid = '0ea74611a82a58325b5aa9df6d299c47c7e163fc44cf7ae2e20892fd9d5a5ab2';
+const paymentTxid = '1ce21439d00ab3b88871527a81c9df8f3116aeb82ecd0a08c0f9b91b4efc28c3';
+const childTxid = 'c1'.repeat(32);
+const inscriptionId = `${inscriptionTxid}i0`;
+const lockTime = 849990;
+
+const getScript = (address: string) => hex.encode(btc.OutScript.encode(btc.Address(btc.NETWORK).decode(address)));
+
+const toScriptVout = (scriptpubkey: string, value: number): Vout => ({
+  scriptpubkey,
+  scriptpubkey_asm: '',
+  scriptpubkey_type: '',
+  value,
+});
+
+const toVout = (address: string, value: number): Vout => ({
+  ...toScriptVout(getScript(address), value),
+  scriptpubkey_address: address,
+});
+
+const toVin = (inputTxid: string, address: string, value: number, witness?: string[]): Vin => ({
+  txid: inputTxid,
+  vout: 0,
+  prevout: toVout(address, value),
+  scriptsig: '',
+  scriptsig_asm: '',
+  witness,
+  is_coinbase: false,
+  sequence: 0xfffffffd,
+});
+
+// an inscription sent to another wallet, with the fee paid by the payment address
+const inscriptionTransaction: EsploraTransaction = {
+  txid,
+  version: 2,
+  locktime: lockTime,
+  vin: [toVin(inscriptionTxid, addresses[0].taproot, 546), toVin(paymentTxid, addresses[0].nativeSegwit, 20000)],
+  vout: [toVout(addresses[1].taproot, 546), toVout(addresses[0].nativeSegwit, 18000)],
+  size: 200,
+  weight: 800,
+  fee: 2000,
+  status: { confirmed: false },
+};
+
+const createContext = (
+  replacedTransaction: EsploraTransaction,
+  paymentUtxos: { txid: string; vout: number; value: number }[] = [],
+) => {
+  const esploraApiProvider = Object.assign(
+    createEsploraApiProvider((address) =>
+      address === addresses[0].nativeSegwit ? paymentUtxos.map((utxo) => createFundingUtxo(utxo)) : [],
+    ),
+    {
+      getTransaction: vi.fn<[txid: string], Promise<EsploraTransaction>>().mockImplementation(async (id) => {
+        if (id === replacedTransaction.txid) {
+          return replacedTransaction;
+        }
+
+        // the change of the replaced transaction was spent by a child
+        return {
+          txid: id,
+          version: 2,
+          locktime: 0,
+          vin: [],
+          vout: [toVout(addresses[0].nativeSegwit, 17000)],
+          size: 150,
+          weight: 600,
+          fee: 500,
+          status: { confirmed: false },
+        };
+      }),
+      getTransactionOutspends: vi
+        .fn<[txid: string], Promise<TransactionOutspend[]>>()
+        .mockImplementation(async (id) =>
+          id === replacedTransaction.txid
+            ? [{ spent: false }, { spent: true, txid: childTxid, vin: 0, status: { confirmed: false } }]
+            : [],
+        ),
+    },
+  );
+
+  return createTestTransactionContext({
+    esploraApiProvider,
+    utxoCache: createUtxoCache((outpoint) =>
+      createUtxoBundle(outpoint, { inscriptionId: outpoint === `${inscriptionTxid}:0` ? inscriptionId : undefined }),
+    ),
+  });
+};
+
+const decodeTransaction = (transactionHex: string) => btc.Transaction.fromRaw(hex.decode(transactionHex));
+
+describe('bumpFeeWithRbf', () => {
+  it('keeps the inscription in its output and pays the higher fee from the change', async () => {
+    const context = createContext(inscriptionTransaction);
+
+    const transaction = await bumpFeeWithRbf(context, txid, 20);
+    const summary = await transaction.getSummary();
+
+    expect(summary.inputs.map(({ extendedUtxo }) => extendedUtxo.outpoint)).toEqual([
+      `${inscriptionTxid}:0`,
+      `${paymentTxid}:0`,
+    ]);
+    expect(summary.outputs).toEqual([
+      expect.objectContaining({
+        address: addresses[1].taproot,
+        amount: 546,
+        inscriptions: [expect.objectContaining({ id: inscriptionId, offset: 0 })],
+      }),
+      expect.objectContaining({ address: addresses[0].nativeSegwit, amount: 20000 - Number(summary.fee) }),
+    ]);
+    // the fee covers the replaced transaction, its child and the relay of the replacement
+    expect(summary.fee).toBeGreaterThanOrEqual(2000n + 500n + BigInt(summary.vsize));
+
+    const signedTransaction = decodeTransaction((await transaction.getTransactionHexAndId()).hex);
+    expect(signedTransaction.lockTime).toEqual(lockTime);
+    expect(signedTransaction.getInput(0).sequence).toEqual(0xfffffffd);
+    expect(signedTransaction.vsize).toEqual(summary.vsize);
+  });
+
+  it('adds payment inputs when the change does not cover the fee', async () => {
+    const context = createContext(inscriptionTransaction, [
+      // the change of the replaced transaction and the outputs of its child can't pay for its replacement
+      { txid, vout: 1, value: 18000 },
+      { txid: childTxid, vout: 0, value: 100000 },
+      { txid: paymentTxid, vout: 1, value: 50000 },
+    ]);
+
+    const transaction = await bumpFeeWithRbf(context, txid, 200);
+    const summary = await transaction.getSummary();
+
+    expect(summary.inputs.map(({ extendedUtxo }) => extendedUtxo.outpoint)).toEqual([
+      `${inscriptionTxid}:0`,
+      `${paymentTxid}:0`,
+      `${paymentTxid}:1`,
+    ]);
+    expect(summary.outputs).toHaveLength(2);
+    expect(summary.outputs[1]).toEqual(
+      expect.objectContaining({ address: addresses[0].nativeSegwit, amount: 70000 - Number(summary.fee) }),
+    );
+  });
+
+  it('rejects fee rates which do not pay for the replaced transactions', async () => {
+    const context = createContext(inscriptionTransaction);
+
+    const transaction = await bumpFeeWithRbf(context, txid, 5);
+
+    await expect(transaction.getSummary()).rejects.toThrow('Fee rate is below RBF minimum fee rate');
+  });
+
+  it('keeps inputs of other wallets which only signed their own output', async () => {
+    const sellerSignature = `${'11'.repeat(64)}${btc.SigHash.SINGLE_ANYONECANPAY.toString(16)}`;
+    // an inscription bought from another wallet
+    const purchaseTransaction = {
+      ...inscriptionTransaction,
+      vin: [
+        toVin(paymentTxid, addresses[0].nativeSegwit, 20000),
+        toVin(inscriptionTxid, addresses[1].taproot, 546, [sellerSignature]),
+      ],
+      vout: [
+        toVout(addresses[0].taproot, 546),
+        toVout(addresses[1].nativeSegwit, 10000),
+        toVout(addresses[0].nativeSegwit, 8000),
+      ],
+    };
+    purchaseTransaction.vin[1].vout = 1;
+    const context = createContext(purchaseTransaction, [{ txid: paymentTxid, vout: 2, value: 50000 }]);
+
+    const transaction = await bumpFeeWithRbf(context, txid, 60);
+    const summary = await transaction.getSummary();
+
+    expect(summary.inputs.map(({ walletWillSign }) => walletWillSign)).toEqual([true, false, true]);
+    expect(summary.outputs.map(({ amount }) => amount).slice(0, 2)).toEqual([546, 10000]);
+
+    const signedTransaction = decodeTransaction((await transaction.getTransactionHexAndId()).hex);
+    expect(signedTransaction.getInput(1).finalScriptWitness).toEqual([hex.decode(sellerSignature)]);
+    expect(signedTransaction.getOutput(1)).toEqual({
+      script: hex.decode(getScript(addresses[1].nativeSegwit)),
+      amount: 10000n,
+    });
+    // the signature can be a byte shorter than estimated
+    expect(summary.vsize - signedTransaction.vsize).toBeGreaterThanOrEqual(0);
+    expect(summary.vsize - signedTransaction.vsize).toBeLessThanOrEqual(1);
+  });
+
+  it('rejects inputs of other wallets which signed the whole transaction', async () => {
+    const context = createContext({
+      ...inscriptionTransaction,
+      vin: [
+        toVin(paymentTxid, addresses[0].nativeSegwit, 20000),
+        toVin(inscriptionTxid, addresses[1].taproot, 546, ['11'.repeat(64)]),
+      ],
+    });
+
+    const transaction = await bumpFeeWithRbf(context, txid, 20);
+
+    await expect(transaction.getSummary()).rejects.toThrow(
+      'Input 1 is signed by another wallet for the replaced transaction only',
+    );
+  });
+
+  it('keeps the runestone valid', async () => {
+    const runesTransaction = {
+      ...inscriptionTransaction,
+      vin: [toVin(paymentTxid, addresses[0].nativeSegwit, 20000)],
+      vout: [
+        toScriptVout(
+          hex.encode(encodeRunestone({ edicts: [{ id: '840000:1', amount: BigNumber(100), output: BigNumber(1) }] })),
+          0,
+        ),
+        toVout(addresses[1].taproot, 546),
+        toVout(addresses[0].nativeSegwit, 17454),
+      ],
+    };
+    const context = createContext(runesTransaction);
+
+    const summary = await (await bumpFeeWithRbf(context, txid, 20)).getSummary();
+
+    expect(summary.outputs.map(({ type }) => type)).toEqual(['script', 'address', 'address']);
+    expect(summary.runeOp?.Runestone?.edicts).toEqual([
+      { id: '840000:1', amount: BigNumber(100), output: BigNumber(1) },
+    ]);
+  });
+
+  it('does not add change when runes are split between all outputs', async () => {
+    const runesTransaction = {
+      ...inscriptionTransaction,
+      vin: [toVin(paymentTxid, addresses[0].nativeSegwit, 20000)],
+      vout: [
+        toScriptVout(
+          hex.encode(encodeRunestone({ edicts: [{ id: '840000:1', amount: BigNumber(0), output: BigNumber(3) }] })),
+          0,
+        ),
+        toVout(addresses[1].taproot, 546),
+        toVout(addresses[0].nativeSegwit, 17454),
+      ],
+    };
+    const context = createContext(runesTransaction, [{ txid: paymentTxid, vout: 1, value: 50000 }]);
+
+    const transaction = await bumpFeeWithRbf(context, txid, 100);
+
+    await expect(transaction.getSummary()).rejects.toThrow(
+      'The replacement would change how runes are split between its outputs',
+    );
+  });
+
+  it('cancels the transaction, paying the inscription back to the ordinals address', async () => {
+    const context = createContext(inscriptionTransaction);
+
+    const transaction = await bumpFeeWithRbf(context, txid, 20, { replaceMode: 'cancel' });
+    const summary = await transaction.getSummary();
+
+    expect(summary.inputs.map(({ extendedUtxo }) => extendedUtxo.outpoint)).toEqual([
+      `${inscriptionTxid}:0`,
+      `${paymentTxid}:0`,
+    ]);
+    expect(summary.outputs).toEqual([
+      expect.objectContaining({
+        address: addresses[0].taproot,
+        amount: 546,
+        inscriptions: [expect.objectContaining({ id: inscriptionId, offset: 0 })],
+      }),
+      expect.objectContaining({ address: addresses[0].nativeSegwit, amount: 20000 - Number(summary.fee) }),
+    ]);
+    expect(summary.fee).toBeGreaterThanOrEqual(2000n + 500n + BigInt(summary.vsize));
+  });
+
+  it('cancels with the inputs of the wallet only', async () => {
+    const sellerSignature = `${'11'.repeat(64)}${btc.SigHash.SINGLE_ANYONECANPAY.toString(16)}`;
+    const context = createContext({
+      ...inscriptionTransaction,
+      vin: [
+        toVin(inscriptionTxid, addresses[1].taproot, 546, [sellerSignature]),
+        toVin(paymentTxid, addresses[0].nativeSegwit, 20000),
+      ],
+    });
+
+    const summary = await (await bumpFeeWithRbf(context, txid, 30, { replaceMode: 'cancel' })).getSummary();
+
+    expect(summary.inputs.map(({ extendedUtxo }) => extendedUtxo.outpoint)).toEqual([`${paymentTxid}:0`]);
+    expect(summary.outputs).toEqual([
+      expect.objectContaining({ address: addresses[0].nativeSegwit, amount: 20000 - Number(summary.fee) }),
+    ]);
+  });
+
+  it('only replaces transactions which signal RBF', async () => {
+    const context = createContext({
+      ...inscriptionTransaction,
+      vin: inscriptionTransaction.vin.map((vin) => ({ ...vin, sequence: 0xffffffff })),
+    });
+
+    await expect(bumpFeeWithRbf(context, txid, 20)).rejects.toThrow('Transaction does not signal RBF');
+  });
+});
+
+describe('getRbfRecommendedFees', () => {
+  it('gets the fees of the replacement at the recommended fee rates', async () => {
+    const context = createContext(inscriptionTransaction, [{ txid: paymentTxid, vout: 1, value: 50000 }]);
+    const mempoolFees = { economyFee: 5, hourFee: 10, halfHourFee: 15, fastestFee: 20, minimumFee: 1 };
+
+    const recommendedFees = await rbf.getRbfRecommendedFees(context, txid, mempoolFees);
+
+    expect(recommendedFees).toEqual({
+      medium: expect.objectContaining({ enoughFunds: true, feeRate: 15 }),
+      high: expect.objectContaining({ enoughFunds: true, feeRate: 20 }),
+    });
+
+    // the fee rates are raised above the minimum rate of the replacement
+    const cancelFees = await rbf.getRbfRecommendedFees(
+      context,
+      txid,
+      { ...mempoolFees, halfHourFee: 1, fastestFee: 1 },
+      'cancel',
+    );
+    expect(Object.keys(cancelFees)).toEqual(['higher', 'highest']);
+    expect(cancelFees.highest).toEqual(expect.objectContaining({ enoughFunds: true }));
+
+    const unaffordableFees = await rbf.getRbfRecommendedFees(context, txid, {
+      ...mempoolFees,
+      halfHourFee: 5000,
+      fastestFee: 6000,
+    });
+    expect(unaffordableFees.medium).toEqual({ enoughFunds: false, fee: undefined, feeRate: 5000 });
+  });
+});
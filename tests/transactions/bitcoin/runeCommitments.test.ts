@@ -0,0 +1,209 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import BigNumber from 'bignumber.js';
+import { describe, expect, it, vi } from 'vitest';
+import { getRuneCommitment, isRuneCommitmentMature } from '../../../transactions/bitcoin/runeCommitments';
+import { RuneEtching } from '../../../transactions/runes';
+import { decodeRunestone, runeNameToNumber } from '../../../utils/runestone';
+import type { EsploraTransaction, TxStatus } from '../../../types';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createTestTransactionContext,
+  fundingTxid,
+  tipHeight,
+} from './helpers';
+
+const toTransaction = (status: TxStatus): EsploraTransaction => ({
+  txid: fundingTxid,
+  version: 2,
+  locktime: 0,
+  vin: [],
+  vout: [],
+  size: 0,
+  weight: 0,
+  fee: 0,
+  status,
+});
+
+const createEtchingEsploraApiProvider = () => {
+  const commitmentUtxos: { txid: string; vout: number; value: number; blockHeight?: number }[] = [];
+
+  return Object.assign(
+    createEsploraApiProvider((address) => {
+      if (address === addresses[0].nativeSegwit) {
+        return [createFundingUtxo({ status: { confirmed: true, block_height: 840000 } })];
+      }
+
+      if (address === addresses[0].taproot) {
+        return [];
+      }
+
+      return commitmentUtxos.map(({ blockHeight, ...utxo }) => ({
+        ...utxo,
+        status: blockHeight ? { confirmed: true, block_height: blockHeight } : { confirmed: false },
+      }));
+    }),
+    {
+      commitmentUtxos,
+      getTransaction: vi
+        .fn<[txid: string], Promise<EsploraTransaction>>()
+        .mockResolvedValue(toTransaction({ confirmed: false })),
+    },
+  );
+};
+
+const decodeTransaction = (transactionHex: string) =>
+  btc.Transaction.fromRaw(hex.decode(transactionHex), { allowUnknownOutputs: true });
+
+describe('rune commitments', () => {
+  it('commits to the rune number as little endian bytes without trailing zeros', () => {
+    const commitment = getRuneCommitment('UNCOMMONGOODS');
+
+    expect(commitment[commitment.length - 1]).not.toEqual(0);
+    expect(BigInt(`0x${hex.encode(commitment.slice().reverse())}`)).toEqual(runeNameToNumber('UNCOMMONGOODS'));
+    expect(() => getRuneCommitment('AAAAAAAAAAAAAAAAAAAAAAAAAAA')).toThrow(
+      'Rune AAAAAAAAAAAAAAAAAAAAAAAAAAA is reserved',
+    );
+  });
+
+  it('matures when the reveal would be the sixth confirmation of the commitment', () => {
+    expect(isRuneCommitmentMature({ confirmed: false }, tipHeight)).toBe(false);
+    expect(isRuneCommitmentMature({ confirmed: true, block_height: tipHeight - 3 }, tipHeight)).toBe(false);
+    expect(isRuneCommitmentMature({ confirmed: true, block_height: tipHeight - 4 }, tipHeight)).toBe(true);
+  });
+});
+
+describe('RuneEtching', () => {
+  it('commits to the rune and reveals the etching once the commitment is mature', async () => {
+    const esploraApiProvider = createEtchingEsploraApiProvider();
+    const etching = RuneEtching.create(createTestTransactionContext({ esploraApiProvider }), {
+      spacedRune: 'UNCOMMON•GOODS',
+      divisibility: 2,
+      premine: 100000n,
+      symbol: '¤',
+      terms: { amount: 100n, cap: 1000n, height: [840000, 1050000] },
+      turbo: true,
+    });
+
+    const committedState = await etching.commit(10);
+    const commitTransaction = decodeTransaction(esploraApiProvider.sendRawTransaction.mock.calls[0][0]);
+    const [commitTxid, commitVout] = (committedState.commitOutpoint ?? '').split(':');
+    const commitOutput = commitTransaction.getOutput(+commitVout);
+
+    expect(committedState).toEqual(
+      expect.objectContaining({ status: 'committed', destinationAddress: addresses[0].taproot }),
+    );
+    expect(commitTxid).toEqual(commitTransaction.id);
+    expect(commitOutput.script).toEqual(etching.commitmentPayment.script);
+
+    // the commitment needs 6 confirmations including the block of the reveal
+    esploraApiProvider.commitmentUtxos.push({
+      txid: commitTxid,
+      vout: +commitVout,
+      value: Number(commitOutput.amount),
+      blockHeight: tipHeight - 3,
+    });
+    expect(await etching.refresh()).toEqual(
+      expect.objectContaining({ status: 'committed', commitBlockHeight: tipHeight - 3 }),
+    );
+    expect(() => etching.getRevealTransaction(10)).toThrow(
+      'The etching of UNCOMMONGOODS is committed, expected it to be mature',
+    );
+
+    esploraApiProvider.commitmentUtxos[0].blockHeight = tipHeight - 4;
+    expect((await etching.refresh()).status).toEqual('mature');
+
+    // the etching is resumed from its stored state
+    const resumedEtching = new RuneEtching(
+      createTestTransactionContext({ esploraApiProvider }),
+      JSON.parse(JSON.stringify(etching.state)),
+    );
+    const revealTransaction = resumedEtching.getRevealTransaction(10);
+    const summary = await revealTransaction.getSummary();
+    const revealedState = await resumedEtching.reveal(10);
+    const signedTransaction = decodeTransaction(esploraApiProvider.sendRawTransaction.mock.calls[1][0]);
+
+    // the commitment pays for the reveal, so no other inputs are needed
+    expect(signedTransaction.inputsLength).toEqual(1);
+    expect(signedTransaction.id).toEqual(revealedState.revealTxid);
+    const { finalScriptWitness = [] } = signedTransaction.getInput(0);
+    expect(finalScriptWitness).toHaveLength(3);
+    expect(btc.Script.decode(finalScriptWitness[1])).toContainEqual(
+      getRuneCommitment('UNCOMMONGOODS'),
+    );
+    expect(summary.vsize).toEqual(signedTransaction.vsize);
+    expect(signedTransaction.getOutput(1)).toEqual(
+      expect.objectContaining({ script: btc.OutScript.encode(btc.Address(btc.NETWORK).decode(addresses[0].taproot)) }),
+    );
+
+    const artifact = decodeRunestone(signedTransaction.hex);
+    expect(artifact?.Runestone?.pointer).toEqual(BigNumber(1));
+    expect(artifact?.Runestone?.etching).toEqual({
+      divisibility: BigNumber(2),
+      premine: BigNumber(100000),
+      rune: 'UNCOMMONGOODS',
+      spacers: BigNumber(0b10000000),
+      symbol: '¤',
+      terms: {
+        amount: BigNumber(100),
+        cap: BigNumber(1000),
+        height: [BigNumber(840000), BigNumber(1050000)],
+        offset: [null, null],
+      },
+      turbo: true,
+    });
+
+    esploraApiProvider.getTransaction.mockResolvedValue(
+      toTransaction({ confirmed: true, block_height: tipHeight + 1 }),
+    );
+    expect(await resumedEtching.refresh()).toEqual(
+      expect.objectContaining({ status: 'completed', revealBlockHeight: tipHeight + 1 }),
+    );
+  });
+
+  it('rejects invalid etchings', () => {
+    const context = createTestTransactionContext({ esploraApiProvider: createEtchingEsploraApiProvider() });
+
+    expect(() => RuneEtching.create(context, { spacedRune: '•UNCOMMONGOODS', premine: 1n })).toThrow(
+      'Invalid spaced rune name: •UNCOMMONGOODS',
+    );
+    expect(() => RuneEtching.create(context, { spacedRune: 'UNCOMMON••GOODS', premine: 1n })).toThrow(
+      'Invalid spaced rune name: UNCOMMON••GOODS',
+    );
+    expect(() => RuneEtching.create(context, { spacedRune: 'UNCOMMONGOODS•', premine: 1n })).toThrow(
+      'Invalid spaced rune name: UNCOMMONGOODS•',
+    );
+    expect(() => RuneEtching.create(context, { spacedRune: 'UNCOMMONGOODS', premine: 1n, divisibility: 39 })).toThrow(
+      'Invalid divisibility: 39',
+    );
+    expect(() => RuneEtching.create(context, { spacedRune: 'UNCOMMONGOODS' })).toThrow(
+      'The rune needs a premine or mint terms',
+    );
+  });
+
+  it('rejects a resumed etching whose stored state is incomplete', async () => {
+    const esploraApiProvider = createEtchingEsploraApiProvider();
+    const etching = RuneEtching.create(createTestTransactionContext({ esploraApiProvider }), {
+      spacedRune: 'UNCOMMON•GOODS',
+      premine: 1n,
+    });
+
+    const matureEtching = new RuneEtching(createTestTransactionContext({ esploraApiProvider }), {
+      ...etching.state,
+      status: 'mature',
+    });
+    expect(() => matureEtching.getRevealTransaction(10)).toThrow(
+      'The etching of UNCOMMONGOODS is mature, but its commitment output is unknown',
+    );
+
+    const revealedEtching = new RuneEtching(createTestTransactionContext({ esploraApiProvider }), {
+      ...etching.state,
+      status: 'revealed',
+    });
+    await expect(revealedEtching.refresh()).rejects.toThrow(
+      'The etching of UNCOMMONGOODS is revealed, but its reveal transaction is unknown',
+    );
+  });
+});
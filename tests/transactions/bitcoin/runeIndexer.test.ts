@@ -0,0 +1,271 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import BigNumber from 'bignumber.js';
+import { describe, expect, it, vi } from 'vitest';
+import { RESERVED_RUNE, getRuneCommitmentPayment } from '../../../transactions/bitcoin/runeCommitments';
+import { RuneIndexer } from '../../../transactions/bitcoin/runeIndexer';
+import type { EsploraTransaction, Etching } from '../../../types';
+import { encodeRunestone, runeNumberToName } from '../../../utils/runestone';
+import {
+  addresses,
+  createEsploraTransaction,
+  createEsploraVout,
+  createExtendedUtxo,
+  createUtxoBundle,
+  createUtxoCache,
+} from './helpers';
+
+const commitTxid = 'aa'.repeat(32);
+const immatureCommitTxid = 'ab'.repeat(32);
+const etchingTxid = 'e0'.repeat(32);
+const mintTxids = ['c1'.repeat(32), 'c2'.repeat(32), 'c3'.repeat(32)];
+const transferTxid = 'd0'.repeat(32);
+const cenotaphTxid = 'f0'.repeat(32);
+const unnamedEtchingTxid = 'f1'.repeat(32);
+const immatureEtchingTxid = 'f2'.repeat(32);
+const lockedEtchingTxid = 'f3'.repeat(32);
+const testnetEtchingTxids = ['f4'.repeat(32), 'f5'.repeat(32), 'f6'.repeat(32)];
+
+const TESTNET_FIRST_RUNE_HEIGHT = 2520000;
+
+const recipientScripts = [addresses[0].taproot, addresses[1].taproot, addresses[1].nativeSegwit].map((address) =>
+  btc.OutScript.encode(btc.Address(btc.NETWORK).decode(address)),
+);
+
+const getCommitmentPayment = (rune: string) =>
+  getRuneCommitmentPayment(hex.decode(addresses[0].taprootPubKey), rune, 'Mainnet');
+
+const toTransaction = (
+  txid: string,
+  vin: { txid: string; vout: number; witness?: string[]; prevoutScript?: Uint8Array }[],
+  outputScripts: Uint8Array[],
+): EsploraTransaction =>
+  createEsploraTransaction({
+    txid,
+    vin: vin.map((input) => ({
+      txid: input.txid,
+      vout: input.vout,
+      prevout: createEsploraVout(input.prevoutScript ?? recipientScripts[0], 10000),
+      witness: input.witness,
+    })),
+    vout: outputScripts.map((script) => createEsploraVout(script, 546)),
+  });
+
+// spends a rune commitment through its tapscript
+const toCommitmentInput = (txid: string, rune = 'UNCOMMONGOODS') => {
+  const { script, compiledPolicy } = getCommitmentPayment(rune);
+
+  return {
+    txid,
+    vout: 0,
+    prevoutScript: script,
+    witness: ['00'.repeat(64), hex.encode(compiledPolicy.leaves[0].script), `c0${'00'.repeat(32)}`],
+  };
+};
+
+const etching: Etching = {
+  rune: 'UNCOMMONGOODS',
+  spacers: BigNumber(0b10000000),
+  divisibility: BigNumber(2),
+  premine: BigNumber(1000),
+  terms: { amount: BigNumber(100), cap: BigNumber(2), height: [null, null], offset: [null, BigNumber(10)] },
+};
+
+const blocks: Record<number, EsploraTransaction[]> = {
+  100: [
+    toTransaction(
+      etchingTxid,
+      [toCommitmentInput(commitTxid)],
+      [encodeRunestone({ edicts: [], etching }), recipientScripts[0]],
+    ),
+  ],
+  101: [
+    ...mintTxids.map((txid) =>
+      toTransaction(txid, [], [encodeRunestone({ edicts: [], mint: '100:0' }), recipientScripts[0]]),
+    ),
+    toTransaction(
+      transferTxid,
+      [
+        { txid: etchingTxid, vout: 1 },
+        { txid: mintTxids[0], vout: 1 },
+      ],
+      [
+        encodeRunestone({
+          edicts: [
+            { id: '100:0', amount: BigNumber(300), output: BigNumber(1) },
+            // an output equal to the number of outputs splits the rest between all other outputs
+            { id: '100:0', amount: BigNumber(0), output: BigNumber(4) },
+          ],
+        }),
+        ...recipientScripts,
+      ],
+    ),
+  ],
+  102: [
+    // the edict output doesn't exist, so the runestone is a cenotaph which burns the runes of its inputs
+    toTransaction(
+      cenotaphTxid,
+      [{ txid: transferTxid, vout: 3 }],
+      [encodeRunestone({ edicts: [{ id: '100:0', amount: BigNumber(1), output: BigNumber(5) }] }), recipientScripts[0]],
+    ),
+    toTransaction(
+      unnamedEtchingTxid,
+      [],
+      [encodeRunestone({ edicts: [], etching: { spacers: BigNumber(0), premine: BigNumber(5) } }), recipientScripts[0]],
+    ),
+    toTransaction(
+      immatureEtchingTxid,
+      [toCommitmentInput(immatureCommitTxid, 'UNCOMMONGOODSA')],
+      [encodeRunestone({ edicts: [], etching: { ...etching, rune: 'UNCOMMONGOODSA' } }), recipientScripts[0]],
+    ),
+  ],
+  103: [
+    // names of 12 letters are not unlocked yet
+    toTransaction(
+      lockedEtchingTxid,
+      [toCommitmentInput(commitTxid, 'UNCOMMONGOOD')],
+      [encodeRunestone({ edicts: [], etching: { ...etching, rune: 'UNCOMMONGOOD' } }), recipientScripts[0]],
+    ),
+  ],
+  [TESTNET_FIRST_RUNE_HEIGHT - 1]: [
+    toTransaction(
+      testnetEtchingTxids[0],
+      [toCommitmentInput(commitTxid)],
+      [encodeRunestone({ edicts: [], etching }), recipientScripts[0]],
+    ),
+  ],
+  // names of 13 letters unlock at the first rune height, and names of 12 letters over the following 17500 blocks
+  [TESTNET_FIRST_RUNE_HEIGHT]: [
+    toTransaction(
+      testnetEtchingTxids[1],
+      [toCommitmentInput(commitTxid, 'UNCOMMONGOOD')],
+      [encodeRunestone({ edicts: [], etching: { ...etching, rune: 'UNCOMMONGOOD' } }), recipientScripts[0]],
+    ),
+    toTransaction(
+      testnetEtchingTxids[2],
+      [toCommitmentInput(commitTxid)],
+      [encodeRunestone({ edicts: [], etching }), recipientScripts[0]],
+    ),
+  ],
+};
+
+const blockSource = {
+  getBlockHash: vi.fn().mockImplementation(async (height: number) => `${height}`),
+  getBlockTransactions: vi.fn().mockImplementation(async (blockHash: string) => blocks[+blockHash]),
+  // the commitment of the etchings has 6 confirmations at block 100
+  getTransaction: vi.fn().mockImplementation(async (txid: string) => ({
+    status: { confirmed: true, block_height: txid === commitTxid ? 95 : 98 },
+  })),
+};
+
+const createIndexer = () => new RuneIndexer({ network: 'Mainnet', blockSource, firstRuneHeight: 0 });
+
+describe('RuneIndexer', () => {
+  it('applies etchings, mints and edicts', async () => {
+    const indexer = createIndexer();
+
+    await indexer.indexBlocks(100, 101);
+
+    expect(indexer.height).toEqual(101);
+    expect(indexer.getRune('UNCOMMON•GOODS')).toEqual({
+      id: '100:0',
+      rune: 'UNCOMMONGOODS',
+      spacedRune: 'UNCOMMON•GOODS',
+      divisibility: 2,
+      symbol: undefined,
+      premine: 1000n,
+      terms: { amount: 100n, cap: 2n, height: [undefined, undefined], offset: [undefined, 10n] },
+      turbo: false,
+      mints: 2n,
+      burned: 0n,
+      block: 100,
+      etching: etchingTxid,
+    });
+
+    // the third mint is over the cap
+    expect(indexer.getRuneBalances(`${mintTxids[1]}:1`)).toEqual({ UNCOMMONGOODS: BigNumber(100) });
+    expect(indexer.getRuneBalances(`${mintTxids[2]}:1`)).toEqual({});
+
+    // the premine and the first mint are spent, with 300 to the first output and the other 800 split between all
+    expect(indexer.getRuneBalances(`${etchingTxid}:1`)).toEqual({});
+    expect([1, 2, 3].map((vout) => indexer.getRuneBalances(`${transferTxid}:${vout}`))).toEqual([
+      { UNCOMMONGOODS: BigNumber(567) },
+      { UNCOMMONGOODS: BigNumber(267) },
+      { UNCOMMONGOODS: BigNumber(266) },
+    ]);
+  });
+
+  it('burns the runes of cenotaphs and only etches committed names', async () => {
+    const indexer = createIndexer();
+
+    await indexer.indexBlocks(100, 102);
+
+    expect(indexer.getRuneBalances(`${cenotaphTxid}:1`)).toEqual({});
+    expect(indexer.getRune('100:0')?.burned).toEqual(266n);
+
+    // runes etched without a name get a reserved one
+    const reservedRune = runeNumberToName(RESERVED_RUNE + ((102n << 32n) | 1n));
+    expect(indexer.getRune('102:1')?.rune).toEqual(reservedRune);
+    expect(indexer.getRuneBalances(`${unnamedEtchingTxid}:1`)).toEqual({ [reservedRune]: BigNumber(5) });
+
+    // the commitment only has 5 confirmations including the block of the etching
+    expect(indexer.getRune('102:2')).toBeUndefined();
+  });
+
+  it('only etches names unlocked at the height of the etching', async () => {
+    const indexer = createIndexer();
+    await indexer.indexBlocks(103, 103);
+
+    expect(indexer.getRune('103:0')).toBeUndefined();
+    expect(indexer.getRuneBalances(`${lockedEtchingTxid}:1`)).toEqual({});
+
+    // runestones are ignored before the first rune height
+    const mainnetIndexer = new RuneIndexer({ network: 'Mainnet', blockSource });
+    await mainnetIndexer.indexBlocks(100, 100);
+
+    expect(mainnetIndexer.getRune('UNCOMMONGOODS')).toBeUndefined();
+  });
+
+  it('unlocks names from the first rune height of testnet', async () => {
+    const indexer = new RuneIndexer({ network: 'Testnet', blockSource });
+    await indexer.indexBlocks(TESTNET_FIRST_RUNE_HEIGHT - 1, TESTNET_FIRST_RUNE_HEIGHT);
+
+    expect(indexer.getRune(`${TESTNET_FIRST_RUNE_HEIGHT - 1}:0`)).toBeUndefined();
+    expect(indexer.getRune(`${TESTNET_FIRST_RUNE_HEIGHT}:0`)).toBeUndefined();
+    expect(indexer.getRune('UNCOMMONGOODS')?.id).toEqual(`${TESTNET_FIRST_RUNE_HEIGHT}:1`);
+  });
+
+  it('compares balances with the UTXO cache', async () => {
+    const indexer = createIndexer();
+    await indexer.indexBlocks(100, 101);
+
+    const utxoCache = createUtxoCache((outpoint) => {
+      if (outpoint === `${transferTxid}:3`) {
+        return undefined;
+      }
+
+      return createUtxoBundle(outpoint, {
+        runes: [
+          [
+            'UNCOMMON•GOODS',
+            { amount: BigNumber(outpoint === `${transferTxid}:1` ? 567 : 1), divisibility: 2, symbol: '¤' },
+          ],
+        ],
+      });
+    });
+    const extendedUtxos = [1, 2, 3].map((vout) =>
+      createExtendedUtxo({ txid: transferTxid, vout, value: 546 }, addresses[0].taproot, utxoCache),
+    );
+
+    expect(await indexer.getBalanceMismatches(extendedUtxos)).toEqual([
+      { outpoint: `${transferTxid}:2`, runeName: 'UNCOMMONGOODS', indexed: BigNumber(267), remote: BigNumber(1) },
+    ]);
+  });
+
+  it('indexes blocks in order', async () => {
+    const indexer = createIndexer();
+    await indexer.indexBlocks(100, 100);
+
+    await expect(indexer.indexBlocks(102, 102)).rejects.toThrow('Blocks must be indexed in order, expected block 101');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { getSatFlow, simulateSatFlow } from '../../../transactions/bitcoin/satFlow';
+import { EnhancedInput } from '../../../transactions/bitcoin/types';
+import { createExtendedUtxo } from './helpers';
+
+const ordinalsAddress = 'bc1pordinals';
+
+const inscription = {
+  id: 'inscriptionId',
+  offset: 100,
+  fromAddress: ordinalsAddress,
+  number: 1,
+  contentType: 'text/plain',
+};
+
+const createInput = (outpoint: string, value: number, withAssets = false): EnhancedInput => {
+  const [txid, vout] = outpoint.split(':');
+
+  return {
+    extendedUtxo: createExtendedUtxo({ txid, vout: +vout, value }),
+    inscriptions: withAssets ? [inscription] : [],
+    satributes: withAssets ? [{ types: ['UNCOMMON'], amount: 1, offset: 0, fromAddress: ordinalsAddress }] : [],
+    walletWillSign: true,
+  };
+};
+
+describe('getSatFlow', () => {
+  it('assigns sats first-in-first-out and leaves the remainder to the fee', () => {
+    const { outputs, fee } = getSatFlow(
+      [createInput('ordinals:0', 546, true), createInput('payment:0', 10000)],
+      [200, 9000],
+    );
+
+    expect(outputs[0]).toEqual({
+      amount: 200,
+      satRanges: [{ outpoint: 'ordinals:0', inputOffset: 0, offset: 0, amount: 200 }],
+      inscriptions: [inscription],
+      satributes: [{ types: ['UNCOMMON'], amount: 1, offset: 0, fromAddress: ordinalsAddress }],
+    });
+    expect(outputs[1]).toEqual({
+      amount: 9000,
+      satRanges: [
+        { outpoint: 'ordinals:0', inputOffset: 200, offset: 0, amount: 346 },
+        { outpoint: 'payment:0', inputOffset: 0, offset: 346, amount: 8654 },
+      ],
+      inscriptions: [],
+      satributes: [],
+    });
+    expect(fee.amount).toEqual(1346);
+    expect(fee.satRanges).toEqual([{ outpoint: 'payment:0', inputOffset: 8654, offset: 0, amount: 1346 }]);
+  });
+
+  it('reports inscriptions which end up in the fee', () => {
+    const { outputs, fee } = getSatFlow([createInput('ordinals:0', 546, true)], [50]);
+
+    expect(outputs[0].inscriptions).toEqual([]);
+    expect(outputs[0].satributes).toHaveLength(1);
+    expect(fee.inscriptions).toEqual([{ ...inscription, offset: 50 }]);
+  });
+
+  it('throws when outputs spend more than the inputs', () => {
+    expect(() => getSatFlow([createInput('payment:0', 1000)], [600, 600])).toThrow(
+      'Output amounts exceed input amounts',
+    );
+  });
+});
+
+describe('simulateSatFlow', () => {
+  it('follows an inscription through a split and then a send', () => {
+    const [split, send] = simulateSatFlow([
+      {
+        inputs: [createInput('ordinals:0', 1000, true), createInput('payment:0', 5000)],
+        outputAmounts: [546, 454, 4500],
+      },
+      {
+        inputs: [createInput('payment:1', 3000), { transactionIndex: 0, outputIndex: 0 }],
+        outputAmounts: [2000, 1000, 546],
+      },
+    ]);
+
+    expect(split.outputs[0].inscriptions).toEqual([inscription]);
+    expect(split.outputs[1].satRanges).toEqual([{ outpoint: 'ordinals:0', inputOffset: 546, offset: 0, amount: 454 }]);
+
+    // the payment input is spent first, so its sats fill the first outputs
+    expect(send.outputs[0].inscriptions).toEqual([]);
+    expect(send.outputs[1].inscriptions).toEqual([]);
+    expect(send.outputs[2]).toEqual({
+      amount: 546,
+      satRanges: [{ outpoint: 'ordinals:0', inputOffset: 0, offset: 0, amount: 546 }],
+      inscriptions: [inscription],
+      satributes: [{ types: ['UNCOMMON'], amount: 1, offset: 0, fromAddress: ordinalsAddress }],
+    });
+    expect(send.fee.amount).toEqual(0);
+  });
+
+  it('tracks a commit and reveal flow', () => {
+    const [commit, reveal] = simulateSatFlow([
+      {
+        inputs: [createInput('payment:0', 20000)],
+        outputAmounts: [2000, 17000],
+      },
+      {
+        inputs: [{ transactionIndex: 0, outputIndex: 0 }],
+        outputAmounts: [546],
+      },
+    ]);
+
+    expect(commit.fee.amount).toEqual(1000);
+    expect(reveal.outputs[0].satRanges).toEqual([{ outpoint: 'payment:0', inputOffset: 0, offset: 0, amount: 546 }]);
+    expect(reveal.fee.satRanges).toEqual([{ outpoint: 'payment:0', inputOffset: 546, offset: 0, amount: 1454 }]);
+  });
+
+  it('throws when an output is spent twice or before it exists', () => {
+    expect(() =>
+      simulateSatFlow([
+        { inputs: [createInput('payment:0', 1000)], outputAmounts: [500] },
+        {
+          inputs: [
+            { transactionIndex: 0, outputIndex: 0 },
+            { transactionIndex: 0, outputIndex: 0 },
+          ],
+          outputAmounts: [500],
+        },
+      ]),
+    ).toThrow('Output 0:0 is spent more than once');
+
+    expect(() =>
+      simulateSatFlow([{ inputs: [{ transactionIndex: 0, outputIndex: 0 }], outputAmounts: [500] }]),
+    ).toThrow('Transaction 0 can only spend outputs of earlier transactions');
+
+    expect(() =>
+      simulateSatFlow([
+        { inputs: [createInput('payment:0', 1000)], outputAmounts: [500] },
+        { inputs: [{ transactionIndex: 0, outputIndex: 1 }], outputAmounts: [] },
+      ]),
+    ).toThrow('Output 0:1 does not exist');
+  });
+});
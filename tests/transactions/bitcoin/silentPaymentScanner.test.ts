@@ -0,0 +1,171 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { base64, hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { describe, expect, it, vi } from 'vitest';
+import { combineUtxos, sendBtc } from '../../../transactions/bitcoin';
+import { SilentPaymentScanner } from '../../../transactions/bitcoin/silentPaymentScanner';
+import { getSilentPaymentKeys } from '../../../transactions/bitcoin/silentPayments';
+import type { EsploraTransaction } from '../../../types';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createEsploraTransaction,
+  createEsploraVout,
+  createTestTransactionContext,
+  createUtxoCache,
+  derivePrivateKey,
+  fundingTxid,
+  rootKeyPair,
+  seedPhrase,
+  type MockUtxo,
+} from './helpers';
+
+const createContext = (accountIndex: number, utxos: MockUtxo[] = []) =>
+  createTestTransactionContext({
+    accountIndex,
+    esploraApiProvider: createEsploraApiProvider((address) =>
+      address === addresses[accountIndex].nativeSegwit ? utxos : [],
+    ),
+  });
+
+/**
+ * Converts a signed transaction into the format esplora serves the transactions of a block in
+ */
+const toEsploraTransaction = (transactionHex: string, prevoutScripts: Uint8Array[]): EsploraTransaction => {
+  const transaction = btc.Transaction.fromRaw(hex.decode(transactionHex));
+
+  return createEsploraTransaction({
+    txid: transaction.id,
+    vin: Array.from({ length: transaction.inputsLength }, (_, i) => {
+      const { txid, index, finalScriptSig, finalScriptWitness } = transaction.getInput(i);
+      if (!txid || index === undefined) {
+        throw new Error(`Input ${i} has no outpoint`);
+      }
+
+      return {
+        txid: hex.encode(txid),
+        vout: index,
+        prevout: createEsploraVout(prevoutScripts[i], 0),
+        scriptsig: hex.encode(finalScriptSig ?? new Uint8Array()),
+        witness: finalScriptWitness?.map((item) => hex.encode(item)),
+      };
+    }),
+    vout: Array.from({ length: transaction.outputsLength }, (_, i) => {
+      const { script, amount } = transaction.getOutput(i);
+      if (!script) {
+        throw new Error(`Output ${i} has no script`);
+      }
+
+      return createEsploraVout(script, Number(amount));
+    }),
+    status: { confirmed: false },
+  });
+};
+
+const createScanner = (blocks: EsploraTransaction[][]) =>
+  new SilentPaymentScanner({
+    network: 'Mainnet',
+    scanPrivateKey: derivePrivateKey("m/352'/0'/0'/1'/0"),
+    spendPublicKey: rootKeyPair.derivePath("m/352'/0'/0'/0'/0").publicKey,
+    blockSource: {
+      getBlockHash: vi.fn().mockImplementation(async (height: number) => `block${height}`),
+      getBlockTransactions: vi.fn().mockImplementation(async (blockHash: string) => blocks[+blockHash.slice(5)]),
+    },
+    utxoCache: createUtxoCache(),
+    esploraApiProvider: createEsploraApiProvider(),
+  });
+
+const receiveSilentPayment = async () => {
+  const { address } = await getSilentPaymentKeys({ seedPhrase, index: 0n, network: 'Mainnet' });
+  const senderContext = createContext(1, [createFundingUtxo()]);
+  const transaction = await sendBtc(senderContext, [{ toAddress: address, amount: 20000n }], 2);
+  const { hex: transactionHex } = await transaction.getTransactionHexAndId();
+
+  return toEsploraTransaction(transactionHex, [
+    btc.OutScript.encode(btc.Address(btc.NETWORK).decode(addresses[1].nativeSegwit)),
+  ]);
+};
+
+describe('SilentPaymentScanner', () => {
+  it('finds outputs paid to the silent payment address of the account', async () => {
+    const received = await receiveSilentPayment();
+    const unrelated = { ...received, vin: [{ ...received.vin[0], vout: 5 }] };
+    const scanner = createScanner([[], [unrelated], [received]]);
+
+    const utxos = await scanner.scanBlocks(0, 2);
+
+    expect(utxos).toHaveLength(1);
+    expect(utxos[0].outpoint).toEqual(`${received.txid}:0`);
+    expect(utxos[0].address).toEqual(
+      btc.Address(btc.NETWORK).encode(btc.OutScript.decode(hex.decode(received.vout[0].scriptpubkey))),
+    );
+    expect(utxos[0].utxo).toEqual(
+      expect.objectContaining({ value: 20000, status: { confirmed: true, block_hash: 'block2', block_height: 2 } }),
+    );
+    expect(utxos[0].silentPaymentTweak).toHaveLength(32);
+  });
+
+  it('stops tracking outputs once they are spent', async () => {
+    const received = await receiveSilentPayment();
+    const spending = {
+      ...received,
+      txid: '00'.repeat(32),
+      vin: [{ ...received.vin[0], txid: received.txid, vout: 0 }],
+      vout: [],
+    };
+    const scanner = createScanner([[received], [spending]]);
+
+    await expect(scanner.scanBlocks(0, 0)).resolves.toHaveLength(1);
+    await expect(scanner.scanBlocks(1, 1)).resolves.toEqual([]);
+  });
+
+  it('spends received outputs through the taproot address with the tweaked spend key', async () => {
+    const received = await receiveSilentPayment();
+    const [utxo] = await createScanner([[received]]).scanBlocks(0, 0);
+
+    // the fee is paid by the payment address
+    const context = createContext(0, [createFundingUtxo({ vout: 2, value: 10000 })]);
+    context.addSilentPaymentUtxos([utxo]);
+    const transaction = await combineUtxos(context, [utxo.outpoint], addresses[0].nativeSegwit, 2);
+
+    const unsignedTransaction = btc.Transaction.fromPSBT(base64.decode(await transaction.getUnsignedPsbtBase64()));
+    const { hex: transactionHex } = await transaction.getTransactionHexAndId();
+    const [signature] = btc.Transaction.fromRaw(hex.decode(transactionHex)).getInput(0).finalScriptWitness ?? [];
+
+    const outputScript = hex.decode(received.vout[0].scriptpubkey);
+    const prevOuts = [0, 1].map((i) => {
+      const { witnessUtxo } = unsignedTransaction.getInput(i);
+      if (!witnessUtxo) {
+        throw new Error(`Input ${i} has no witness UTXO`);
+      }
+
+      return witnessUtxo;
+    });
+    const sigHash = unsignedTransaction.preimageWitnessV1(
+      0,
+      prevOuts.map(({ script }) => script),
+      btc.SigHash.DEFAULT,
+      prevOuts.map(({ amount }) => amount),
+    );
+
+    expect(unsignedTransaction.inputsLength).toEqual(2);
+    expect(prevOuts[0].script).toEqual(outputScript);
+    expect(unsignedTransaction.getInput(0).tapInternalKey).toBeUndefined();
+    await expect(secp256k1.schnorr.verify(signature, sigHash, outputScript.slice(2))).resolves.toBe(true);
+  });
+
+  it('rejects UTXOs which were not received through silent payments', async () => {
+    const context = createContext(0);
+    const utxo = await context.ordinalsAddress.constructUtxo({
+      txid: fundingTxid,
+      vout: 1,
+      value: 1000,
+      status: { confirmed: true },
+    });
+
+    expect(() => context.addSilentPaymentUtxos([utxo])).toThrow(
+      `UTXO ${fundingTxid}:1 was not received through a silent payment`,
+    );
+  });
+});
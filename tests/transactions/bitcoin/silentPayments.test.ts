@@ -0,0 +1,224 @@
+/* eslint-disable max-len */
+import * as secp256k1 from '@noble/secp256k1';
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { crypto } from 'bitcoinjs-lib';
+import { describe, expect, it } from 'vitest';
+import { sendBtc } from '../../../transactions/bitcoin/index';
+import {
+  addSilentPaymentOutput,
+  applySilentPaymentShares,
+  decodeSilentPaymentAddress,
+  encodeSilentPaymentAddress,
+  getSilentPaymentKeys,
+  getSilentPaymentScanKeys,
+  getSilentPaymentShare,
+} from '../../../transactions/bitcoin/silentPayments';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createTestTransactionContext,
+  derivePrivateKey,
+  fundingTxid,
+  rootKeyPair,
+  seedPhrase,
+} from './helpers';
+
+const scanPrivateKey = hex.decode('0f694e068028a717f8af6b9411f9a133dd3565258714cc226594b34db90c1f2c');
+const spendPrivateKey = hex.decode('9d6ad855ce3417ef84e836892e5a56392bfba05fa5d97ccea30e266f540e08b3');
+const silentPaymentAddress =
+  'sp1qqgste7k9hx0qftg6qmwlkqtwuy6cycyavzmzj85c6qdfhjdpdjtdgqjuexzk6murw56suy3e0rd2cgqvycxttddwsvgxe2usfpxumr70xc9pkqwv';
+
+const taggedHash = (tag: string, data: Uint8Array) => {
+  const tagHash = crypto.sha256(Buffer.from(tag));
+  return BigInt(`0x${crypto.sha256(Buffer.concat([tagHash, tagHash, data])).toString('hex')}`);
+};
+
+/**
+ * Derives the output keys the way the recipient scans for them, from the public keys of the inputs
+ */
+const getRecipientOutputKeys = (transaction: btc.Transaction, inputPublicKeys: Uint8Array[], outputCount: number) => {
+  const inputPublicKey = inputPublicKeys
+    .map((publicKey) => secp256k1.Point.fromHex(publicKey))
+    .reduce((sum, publicKey) => sum.add(publicKey));
+  const outpoints = Array.from({ length: transaction.inputsLength }, (_, i) => {
+    const input = transaction.getInput(i);
+    const vout = Buffer.alloc(4);
+    vout.writeUInt32LE(input.index as number);
+    return Buffer.concat([Buffer.from(input.txid as Uint8Array).reverse(), vout]);
+  }).sort(Buffer.compare);
+  const inputHash = taggedHash('BIP0352/Inputs', Buffer.concat([outpoints[0], inputPublicKey.toRawBytes(true)]));
+  const sharedSecret = inputPublicKey
+    .multiply(BigInt(`0x${hex.encode(scanPrivateKey)}`))
+    .multiply(inputHash)
+    .toRawBytes(true);
+
+  return Array.from({ length: outputCount }, (_, k) => {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(k);
+    const tweak = taggedHash('BIP0352/SharedSecret', Buffer.concat([sharedSecret, counter]));
+    return hex.encode(
+      secp256k1.Point.fromPrivateKey(spendPrivateKey)
+        .add(secp256k1.Point.BASE.multiply(tweak))
+        .toRawBytes(true)
+        .slice(1),
+    );
+  });
+};
+
+const getOutputKey = (transaction: btc.Transaction, outputIndex: number) =>
+  hex.encode((transaction.getOutput(outputIndex).script as Uint8Array).slice(2));
+
+describe('silent payment addresses', () => {
+  it('encodes and decodes the scan and spend keys', () => {
+    const keys = {
+      scanKey: secp256k1.getPublicKey(scanPrivateKey, true),
+      spendKey: secp256k1.getPublicKey(spendPrivateKey, true),
+    };
+
+    expect(encodeSilentPaymentAddress(keys, 'Mainnet')).toEqual(silentPaymentAddress);
+    expect(decodeSilentPaymentAddress(silentPaymentAddress, 'Mainnet')).toEqual(keys);
+
+    const testnetAddress = encodeSilentPaymentAddress(keys, 'Testnet');
+    expect(testnetAddress.startsWith('tsp1q')).toBe(true);
+    expect(decodeSilentPaymentAddress(testnetAddress, 'Signet')).toEqual(keys);
+  });
+
+  it('rejects invalid addresses and addresses of other networks', () => {
+    expect(() => decodeSilentPaymentAddress(silentPaymentAddress, 'Testnet')).toThrow(
+      `Silent payment address is not for Testnet: ${silentPaymentAddress}`,
+    );
+    expect(() => decodeSilentPaymentAddress(`${silentPaymentAddress.slice(0, -1)}q`, 'Mainnet')).toThrow(
+      'Invalid silent payment address',
+    );
+  });
+
+  it('derives the scan and spend keys along the BIP-352 path of the account', async () => {
+    const keys = await getSilentPaymentKeys({ seedPhrase, index: 1n, network: 'Mainnet' });
+    const testnetKeys = await getSilentPaymentKeys({ seedPhrase, index: 1n, network: 'Testnet' });
+
+    expect(keys.scanPrivateKey).toEqual(new Uint8Array(derivePrivateKey("m/352'/0'/1'/1'/0")));
+    expect(decodeSilentPaymentAddress(keys.address, 'Mainnet')).toEqual({
+      scanKey: new Uint8Array(rootKeyPair.derivePath("m/352'/0'/1'/1'/0").publicKey),
+      spendKey: keys.spendPublicKey,
+    });
+    expect(keys.spendPublicKey).toEqual(new Uint8Array(rootKeyPair.derivePath("m/352'/0'/1'/0'/0").publicKey));
+    expect(decodeSilentPaymentAddress(testnetKeys.address, 'Testnet')).toEqual({
+      scanKey: new Uint8Array(rootKeyPair.derivePath("m/352'/1'/1'/1'/0").publicKey),
+      spendKey: new Uint8Array(rootKeyPair.derivePath("m/352'/1'/1'/0'/0").publicKey),
+    });
+  });
+});
+
+describe('silent payment outputs', () => {
+  const paymentKey = rootKeyPair.derivePath("m/84'/0'/0'/0/0");
+  const paymentPrivateKey = derivePrivateKey("m/84'/0'/0'/0/0");
+  const ordinalsKey = rootKeyPair.derivePath("m/86'/0'/0'/0/0");
+  const ordinalsPrivateKey = derivePrivateKey("m/86'/0'/0'/0/0");
+
+  const createTransaction = () => {
+    const transaction = new btc.Transaction();
+    transaction.addInput({
+      txid: fundingTxid,
+      index: 1,
+      witnessUtxo: { script: btc.p2wpkh(paymentKey.publicKey).script, amount: 10000n },
+    });
+    const p2tr = btc.p2tr(ordinalsKey.publicKey.slice(1));
+    transaction.addInput({
+      txid: fundingTxid,
+      index: 0,
+      witnessUtxo: { script: p2tr.script, amount: 546n },
+      tapInternalKey: p2tr.tapInternalKey,
+    });
+    addSilentPaymentOutput(transaction, silentPaymentAddress, 5000n, 'Mainnet');
+    addSilentPaymentOutput(transaction, silentPaymentAddress, 3000n, 'Mainnet');
+    return { transaction, taprootOutputKey: p2tr.script.slice(2) };
+  };
+
+  it('derives outputs the recipient can find from payment and taproot inputs', () => {
+    const { transaction, taprootOutputKey } = createTransaction();
+    const scanKeys = getSilentPaymentScanKeys(transaction);
+
+    applySilentPaymentShares(transaction, scanKeys, [
+      getSilentPaymentShare([{ inputIndex: 0, privateKey: paymentPrivateKey, isTaproot: false }], scanKeys),
+      getSilentPaymentShare([{ inputIndex: 1, privateKey: ordinalsPrivateKey, isTaproot: true }], scanKeys),
+    ]);
+
+    // the recipient only sees the x-only taproot output key, so it uses the even point
+    const expectedKeys = getRecipientOutputKeys(
+      transaction,
+      [paymentKey.publicKey, new Uint8Array([2, ...taprootOutputKey])],
+      2,
+    );
+
+    expect(scanKeys).toHaveLength(1);
+    expect([getOutputKey(transaction, 0), getOutputKey(transaction, 1)]).toEqual(expectedKeys);
+    expect(transaction.getOutput(0).amount).toEqual(5000n);
+  });
+
+  it('requires the keys of all eligible inputs', () => {
+    const { transaction } = createTransaction();
+    const scanKeys = getSilentPaymentScanKeys(transaction);
+
+    expect(() =>
+      applySilentPaymentShares(transaction, scanKeys, [
+        getSilentPaymentShare([{ inputIndex: 0, privateKey: paymentPrivateKey, isTaproot: false }], scanKeys),
+      ]),
+    ).toThrow('Input 1 is not spent by the wallet, so silent payment outputs cannot be derived');
+
+    // script hash inputs are not eligible, so they don't contribute to the outputs
+    transaction.addInput({
+      txid: fundingTxid,
+      index: 2,
+      witnessUtxo: { script: btc.p2wsh(btc.p2pk(paymentKey.publicKey)).script, amount: 1000n },
+    });
+    const share = getSilentPaymentShare(
+      [
+        { inputIndex: 0, privateKey: paymentPrivateKey, isTaproot: false },
+        { inputIndex: 1, privateKey: ordinalsPrivateKey, isTaproot: true },
+      ],
+      scanKeys,
+    );
+
+    expect(() => applySilentPaymentShares(transaction, scanKeys, [share])).not.toThrow();
+  });
+});
+
+describe('sending to silent payment addresses', () => {
+  const createContext = (accountType: 'software' | 'ledger') =>
+    createTestTransactionContext({
+      accountType,
+      esploraApiProvider: createEsploraApiProvider((address) =>
+        address === addresses[0].nativeSegwit ? [createFundingUtxo({ vout: 1 })] : [],
+      ),
+    });
+
+  it('shows the derived taproot output in the summary and signs it', async () => {
+    const context = createContext('software');
+    const transaction = await sendBtc(context, [{ toAddress: silentPaymentAddress, amount: 20000n }], 2);
+
+    const summary = await transaction.getSummary();
+    const { hex: transactionHex } = await transaction.getTransactionHexAndId();
+    const signedTransaction = btc.Transaction.fromRaw(hex.decode(transactionHex));
+
+    const [expectedKey] = getRecipientOutputKeys(signedTransaction, [hex.decode(addresses[0].nativeSegwitPubKey)], 1);
+    const expectedAddress = btc.Address(btc.NETWORK).encode({ type: 'tr', pubkey: hex.decode(expectedKey) });
+
+    expect(summary.outputs[0]).toEqual(
+      expect.objectContaining({ address: expectedAddress, silentPaymentAddress, amount: 20000 }),
+    );
+    expect(getOutputKey(signedTransaction, 0)).toEqual(expectedKey);
+    // the placeholder has the same size as the derived output, so the fee estimate still holds
+    expect(summary.vsize).toEqual(signedTransaction.vsize);
+  });
+
+  it('rejects hardware wallets, which cannot derive the outputs', async () => {
+    const context = createContext('ledger');
+    const transaction = await sendBtc(context, [{ toAddress: silentPaymentAddress, amount: 20000n }], 2);
+
+    await expect(transaction.getSummary()).rejects.toThrow(
+      `Silent payments cannot be sent from Ledger address ${addresses[0].nativeSegwit}`,
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { describe, expect, it, vi } from 'vitest';
+import { lockBtc, sendBtc } from '../../../transactions/bitcoin/index';
+import { compilePolicy } from '../../../transactions/bitcoin/policy';
+import { Timelock, validateTimelock } from '../../../transactions/bitcoin/timelocks';
+import type { Block, StorageAdapter } from '../../../types';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createStorageAdapter,
+  createTestTransactionContext,
+  tipHeight,
+} from './helpers';
+
+const tipMedianTime = 1718000000;
+
+// blocks are 10 minutes apart
+const toBlock = (height: number): Block => ({
+  id: `${height}`,
+  height,
+  version: 2,
+  timestamp: tipMedianTime - (tipHeight - height) * 600,
+  tx_count: 1,
+  size: 0,
+  weight: 0,
+  merlke_root: '',
+  previousblockhash: `${height - 1}`,
+  mediantime: tipMedianTime - (tipHeight - height) * 600,
+  nonce: 0,
+  bits: 0,
+  difficulty: 0,
+});
+
+const createContext = (
+  paymentType: 'nativeSegwit' | 'taproot',
+  getTimelockUtxos: (address: string) => { vout: number; value: number; blockHeight?: number }[] = () => [],
+  storageAdapter?: StorageAdapter,
+) => {
+  const esploraApiProvider = Object.assign(
+    createEsploraApiProvider((address) => {
+      if (address === addresses[0].nativeSegwit || address === addresses[0].taproot) {
+        return [];
+      }
+
+      return getTimelockUtxos(address).map(({ vout, value, blockHeight }) =>
+        createFundingUtxo({
+          vout,
+          value,
+          status: blockHeight ? { confirmed: true, block_height: blockHeight } : { confirmed: false },
+        }),
+      );
+    }),
+    {
+      getBlockHash: vi.fn<[height: number], Promise<string>>().mockImplementation(async (height) => `${height}`),
+      getBlock: vi.fn<[blockHash: string], Promise<Block>>().mockImplementation(async (hash) => toBlock(+hash)),
+    },
+  );
+
+  return createTestTransactionContext({ paymentType, esploraApiProvider, storageAdapter });
+};
+
+describe('timelocks', () => {
+  it('rejects invalid timelocks', () => {
+    expect(() => validateTimelock({ kind: 'cltv', unit: 'blocks', value: 500000000 })).toThrow(
+      'Invalid CLTV timelock of 500000000 blocks',
+    );
+    expect(() => validateTimelock({ kind: 'cltv', unit: 'seconds', value: 850000 })).toThrow(
+      'Invalid CLTV timelock of 850000 seconds',
+    );
+    expect(() => validateTimelock({ kind: 'csv', unit: 'blocks', value: 70000 })).toThrow(
+      'Invalid CSV timelock of 70000 blocks',
+    );
+    // relative times are counted in units of 512 seconds
+    expect(() => validateTimelock({ kind: 'csv', unit: 'seconds', value: 1000 })).toThrow(
+      'Invalid CSV timelock of 1000 seconds',
+    );
+  });
+
+  it('locks funds to the key of the payment address', async () => {
+    const timelock: Timelock = { kind: 'cltv', unit: 'blocks', value: 850100 };
+    const context = createContext('nativeSegwit', (address) =>
+      address === addresses[0].taproot ? [] : [{ vout: 0, value: 100000, blockHeight: 849000 }],
+    );
+    // the locked funds are taken from an earlier, already mature lock
+    await context.paymentAddress.addTimelocks([{ kind: 'csv', unit: 'blocks', value: 10 }]);
+
+    const transaction = await lockBtc(context, [{ amount: 20000n, timelock }], 2);
+    const summary = await transaction.getSummary();
+
+    const { address } = context.paymentAddress.getTimelockPayment(timelock);
+    expect(summary.outputs[0]).toEqual(expect.objectContaining({ address, amount: 20000 }));
+    expect(btc.OutScript.encode(btc.Address(btc.NETWORK).decode(address))).toEqual(
+      compilePolicy(`and(pk(${addresses[0].nativeSegwitPubKey}),after(850100))`, 'wsh').script,
+    );
+
+    // the new lock is only tracked once the transaction is broadcast, and is not spendable yet
+    expect(await context.paymentAddress.getTimelockedUtxos()).toHaveLength(1);
+
+    await transaction.trackTimelocks();
+
+    const timelockedUtxos = await context.paymentAddress.getTimelockedUtxos();
+    expect(timelockedUtxos.map(({ timelock: { kind }, mature }) => ({ kind, mature }))).toEqual([
+      { kind: 'csv', mature: true },
+      { kind: 'cltv', mature: false },
+    ]);
+  });
+
+  it('persists the tracked timelocks through the storage adapter', async () => {
+    const storageAdapter = createStorageAdapter();
+    const getTimelockUtxos = () => [{ vout: 0, value: 100000, blockHeight: 849000 }];
+    const timelocks: Timelock[] = [
+      { kind: 'csv', unit: 'blocks', value: 10 },
+      { kind: 'cltv', unit: 'blocks', value: 850100 },
+    ];
+
+    await createContext('nativeSegwit', getTimelockUtxos, storageAdapter).paymentAddress.addTimelocks(timelocks);
+
+    // a context created later, e.g. after a restart, spends the UTXOs of the stored timelocks
+    const context = createContext('nativeSegwit', getTimelockUtxos, storageAdapter);
+    const timelockedUtxos = await context.paymentAddress.getTimelockedUtxos();
+    expect(timelockedUtxos.map(({ timelock }) => timelock)).toEqual(timelocks);
+
+    // new timelocks are added to the stored ones
+    await context.paymentAddress.addTimelocks([{ kind: 'csv', unit: 'blocks', value: 20 }]);
+    expect(JSON.parse(storageAdapter.get(`timelocks-Mainnet-${addresses[0].nativeSegwit}`) ?? '[]')).toHaveLength(3);
+  });
+
+  it('only spends timelocked UTXOs once they mature', async () => {
+    const timelocks: Timelock[] = [
+      { kind: 'cltv', unit: 'blocks', value: tipHeight },
+      // the median time past has to be after the lock time
+      { kind: 'cltv', unit: 'seconds', value: tipMedianTime },
+      { kind: 'csv', unit: 'blocks', value: 100 },
+      { kind: 'csv', unit: 'seconds', value: 512 * 118 },
+    ];
+    const context = createContext('nativeSegwit', () => [
+      { vout: 0, value: 10000, blockHeight: tipHeight - 99 },
+      { vout: 1, value: 10000, blockHeight: tipHeight - 100 },
+      { vout: 2, value: 10000 },
+    ]);
+    await context.paymentAddress.addTimelocks(timelocks);
+
+    const timelockedUtxos = await context.paymentAddress.getTimelockedUtxos();
+    const maturity = timelockedUtxos.map(({ timelock, extendedUtxo, mature }) => ({
+      kind: timelock.kind,
+      unit: timelock.unit,
+      vout: extendedUtxo.utxo.vout,
+      mature,
+    }));
+
+    expect(maturity.filter(({ mature }) => mature)).toEqual([
+      { kind: 'cltv', unit: 'blocks', vout: 0, mature: true },
+      { kind: 'cltv', unit: 'blocks', vout: 1, mature: true },
+      { kind: 'cltv', unit: 'blocks', vout: 2, mature: true },
+      { kind: 'csv', unit: 'blocks', vout: 0, mature: true },
+      { kind: 'csv', unit: 'blocks', vout: 1, mature: true },
+      // 101 blocks after the one before the output are 60600 seconds, which is just over 118 units of 512 seconds
+      { kind: 'csv', unit: 'seconds', vout: 1, mature: true },
+    ]);
+    expect(await context.paymentAddress.getUtxos()).toHaveLength(6);
+  });
+
+  it('spends mature CLTV outputs with the lock time of their script', async () => {
+    const timelock: Timelock = { kind: 'cltv', unit: 'blocks', value: 849000 };
+    const context = createContext('nativeSegwit', () => [{ vout: 0, value: 100000, blockHeight: 848000 }]);
+    await context.paymentAddress.addTimelocks([timelock]);
+
+    const transaction = await sendBtc(context, [{ toAddress: addresses[1].nativeSegwit, amount: 20000n }], 2);
+    const summary = await transaction.getSummary({ rbfEnabled: true });
+    const { hex: transactionHex } = await transaction.getTransactionHexAndId({ rbfEnabled: true });
+    const signedTransaction = btc.Transaction.fromRaw(hex.decode(transactionHex));
+
+    expect(signedTransaction.lockTime).toEqual(849000);
+    expect(signedTransaction.getInput(0).sequence).toEqual(0xfffffffd);
+    expect(signedTransaction.getInput(0).finalScriptWitness).toHaveLength(2);
+    // the signature can be a byte shorter than estimated
+    expect(summary.vsize - signedTransaction.vsize).toBeGreaterThanOrEqual(0);
+    expect(summary.vsize - signedTransaction.vsize).toBeLessThanOrEqual(1);
+  });
+
+  it('spends mature CSV outputs through the script path with the relative lock as sequence', async () => {
+    const timelock: Timelock = { kind: 'csv', unit: 'seconds', value: 512 * 10 };
+    const context = createContext('taproot', () => [{ vout: 0, value: 100000, blockHeight: tipHeight - 100 }]);
+    await context.paymentAddress.addTimelocks([timelock]);
+
+    const transaction = await sendBtc(context, [{ toAddress: addresses[1].nativeSegwit, amount: 20000n }], 2);
+    const summary = await transaction.getSummary();
+    const { hex: transactionHex } = await transaction.getTransactionHexAndId();
+    const signedTransaction = btc.Transaction.fromRaw(hex.decode(transactionHex));
+
+    // relative locks leave the lock time to discourage fee sniping
+    expect(signedTransaction.lockTime).toBeLessThanOrEqual(tipHeight);
+    expect(signedTransaction.lockTime).toBeGreaterThan(tipHeight - 100);
+    expect(signedTransaction.getInput(0).sequence).toEqual((1 << 22) | 10);
+    expect(signedTransaction.getInput(0).finalScriptWitness).toHaveLength(3);
+    expect(summary.vsize).toEqual(signedTransaction.vsize);
+  });
+
+  it('rejects spending height and time based CLTV outputs together', async () => {
+    const context = createContext('nativeSegwit', () => [{ vout: 0, value: 10000, blockHeight: 848000 }]);
+    await context.paymentAddress.addTimelocks([
+      { kind: 'cltv', unit: 'blocks', value: 849000 },
+      { kind: 'cltv', unit: 'seconds', value: tipMedianTime - 1 },
+    ]);
+
+    const transaction = await sendBtc(context, [{ toAddress: addresses[1].nativeSegwit, amount: 15000n }], 2);
+
+    await expect(transaction.getSummary()).rejects.toThrow(
+      'Cannot spend height and time based timelocks in the same transaction',
+    );
+  });
+});
@@ -230,6 +230,7 @@ describe('extractActionMap', () => {
           combinable: false,
         },
       ],
+      [ActionType.TIMELOCK]: [],
     });
   });
 
@@ -260,7 +260,7 @@ export const constructOptions = (esploraProvider?: EsploraApiProvider): RBFProps
   ordinalsAddress: 'bc1pr09enf3yc43cz8qh7xwaasuv3xzlgfttdr3wn0q2dy9frkhrpdtsk05jqq',
   ordinalsPublicKey: '5b21869d6643175e0530aeec51d265290d036384990ee60bf089b23ff6b9a367',
   accountId: 0,
-  esploraProvider: esploraProvider || ({} as any),
+  esploraProvider: esploraProvider ?? new EsploraApiProvider({ network: 'Mainnet' }),
   network: 'Mainnet',
   accountType: 'software',
 });
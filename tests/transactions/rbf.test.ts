@@ -1,10 +1,60 @@
-import { describe, expect, it, vi } from 'vitest';
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getAddressUtxoOrdinalBundles, getUtxoOrdinalBundle } from '../../api/ordinals';
 import rbf from '../../transactions/rbf';
+import type { BtcTransactionData, EsploraTransaction, TransactionOutspend, UTXO, Vin, Vout } from '../../types';
+import { addresses, createEsploraApiProvider, seedPhrase } from './bitcoin/helpers';
 import { constructOptions, largeUtxo, rbfEsploraTransaction, rbfTransaction } from './rbf.data';
 
 vi.mock('../../api/esplora/esploraAPiProvider');
+vi.mock('../../api/ordinals');
+
+/**
+ * Creates an Esplora provider which knows the replaced transaction and which UTXOs the payment address holds
+ */
+const createRbfEsploraProvider = ({
+  transaction = rbfEsploraTransaction,
+  utxos = [],
+  getTransaction = async () => transaction,
+  getTransactionOutspends = async () => [],
+}: {
+  transaction?: EsploraTransaction;
+  utxos?: UTXO[];
+  getTransaction?: (txid: string) => Promise<EsploraTransaction>;
+  getTransactionOutspends?: (txid: string) => Promise<TransactionOutspend[]>;
+} = {}) =>
+  Object.assign(
+    createEsploraApiProvider(() => utxos),
+    {
+      getTransaction: vi.fn<[txid: string], Promise<EsploraTransaction>>().mockImplementation(getTransaction),
+      getTransactionOutspends: vi
+        .fn<[txid: string], Promise<TransactionOutspend[]>>()
+        .mockImplementation(getTransactionOutspends),
+    },
+  );
 
 describe('Replace By Fee', () => {
+  beforeEach(() => {
+    // the UTXOs of the wallet hold no inscriptions, rare sats or runes
+    vi.mocked(getAddressUtxoOrdinalBundles).mockResolvedValue({
+      total: 0,
+      offset: 0,
+      limit: 60,
+      results: [],
+      xVersion: 1,
+    });
+    vi.mocked(getUtxoOrdinalBundle).mockImplementation(async (_network, txid, vout) => ({
+      txid,
+      vout,
+      value: 0,
+      block_height: 790416,
+      sat_ranges: [],
+      runes: [],
+      xVersion: 1,
+    }));
+  });
+
   describe('isTransactionRbfEnabled', () => {
     it('Identifies that a transaction is RBF enabled', () => {
       const isRBF = rbf.isTransactionRbfEnabled(rbfTransaction, constructOptions());
@@ -18,31 +68,52 @@ describe('Replace By Fee', () => {
     });
 
     it('Identifies that a transaction without RBF inputs is not RBF enabled', () => {
-      const txn = { ...rbfTransaction, inputs: [{ sequence: 0xffffffff } as any] };
+      const txn = {
+        ...rbfTransaction,
+        inputs: rbfTransaction.inputs.map((input) => ({ ...input, sequence: 0xffffffff })),
+      };
       const isRBF = rbf.isTransactionRbfEnabled(txn, constructOptions());
       expect(isRBF).toEqual(false);
     });
 
-    it('Identifies that a transaction with RBF inputs but not from wallet are not RBF enabled', () => {
+    it('Identifies that a transaction with RBF inputs of other wallets is RBF enabled', () => {
       const txn = {
         ...rbfTransaction,
         inputs: [
           ...rbfTransaction.inputs,
-          { sequence: 0xfffffffd, prevout: { scriptpubkey: 'otherAddressKey' } } as any,
+          {
+            ...rbfTransaction.inputs[0],
+            prevout: { ...rbfTransaction.inputs[0].prevout, scriptpubkey_address: addresses[1].taproot },
+          },
         ],
       };
       const isRBF = rbf.isTransactionRbfEnabled(txn, constructOptions());
+      expect(isRBF).toEqual(true);
+    });
+
+    it('Identifies that a transaction without inputs of the wallet is not RBF enabled', () => {
+      const txn = {
+        ...rbfTransaction,
+        inputs: rbfTransaction.inputs.map((input) => ({
+          ...input,
+          prevout: { ...input.prevout, scriptpubkey_address: addresses[1].taproot },
+        })),
+      };
+      const isRBF = rbf.isTransactionRbfEnabled(txn, constructOptions());
       expect(isRBF).toEqual(false);
     });
+
+    it('Identifies that a transaction of watch-only and air-gapped accounts is RBF enabled', () => {
+      for (const accountType of ['watch-only', 'air-gapped'] as const) {
+        const isRBF = rbf.isTransactionRbfEnabled(rbfTransaction, { ...constructOptions(), accountType });
+        expect(isRBF).toEqual(true);
+      }
+    });
   });
 
   describe('transaction summary', () => {
     it('should generate summary for complete test txn', async () => {
-      const esploraProvider = {
-        getTransaction: () => Promise.resolve(rbfEsploraTransaction),
-        getTransactionOutspends: () => Promise.resolve([]),
-      } as any;
-      const summary = await rbf.getRbfTransactionSummary(esploraProvider, 'txid');
+      const summary = await rbf.getRbfTransactionSummary(createRbfEsploraProvider(), 'txid');
       expect(summary).toEqual({
         currentFee: 33288,
         currentFeeRate: 66.74,
@@ -54,13 +125,7 @@ describe('Replace By Fee', () => {
 
   describe('RbfTransaction', () => {
     it('getRbfRecommendedFees', async () => {
-      const esploraProvider = {
-        getUnspentUtxos: () => Promise.resolve([]),
-        getTransaction: () => Promise.resolve(rbfEsploraTransaction),
-        getTransactionOutspends: () => Promise.resolve([]),
-      } as any;
-
-      const rbfTxn = new rbf.RbfTransaction(rbfTransaction, constructOptions(esploraProvider));
+      const rbfTxn = new rbf.RbfTransaction(rbfTransaction, constructOptions(createRbfEsploraProvider()));
       const recommendedFees = await rbfTxn.getRbfRecommendedFees({
         economyFee: 23,
         fastestFee: 70,
@@ -83,24 +148,12 @@ describe('Replace By Fee', () => {
     });
 
     it('getRbfFeeSummary throws on low fee rate', async () => {
-      const esploraProvider = {
-        getUnspentUtxos: () => Promise.resolve([]),
-        getTransaction: () => Promise.resolve(rbfEsploraTransaction),
-        getTransactionOutspends: () => Promise.resolve([]),
-      } as any;
-
-      const rbfTxn = new rbf.RbfTransaction(rbfTransaction, constructOptions(esploraProvider));
+      const rbfTxn = new rbf.RbfTransaction(rbfTransaction, constructOptions(createRbfEsploraProvider()));
       await expect(() => rbfTxn.getRbfFeeSummary(50)).rejects.toThrow('Fee rate is below RBF minimum fee rate');
     });
 
     it('getRbfFeeSummary works with no extra inputs', async () => {
-      const esploraProvider = {
-        getUnspentUtxos: () => Promise.resolve([]),
-        getTransaction: () => Promise.resolve(rbfEsploraTransaction),
-        getTransactionOutspends: () => Promise.resolve([]),
-      } as any;
-
-      const rbfTxn = new rbf.RbfTransaction(rbfTransaction, constructOptions(esploraProvider));
+      const rbfTxn = new rbf.RbfTransaction(rbfTransaction, constructOptions(createRbfEsploraProvider()));
       const feeSummary = await rbfTxn.getRbfFeeSummary(68);
       expect(feeSummary).toEqual({
         enoughFunds: true,
@@ -110,13 +163,7 @@ describe('Replace By Fee', () => {
     });
 
     it('getRbfFeeSummary returns not enough funds if no additional UTXOs', async () => {
-      const esploraProvider = {
-        getUnspentUtxos: () => Promise.resolve([]),
-        getTransaction: () => Promise.resolve(rbfEsploraTransaction),
-        getTransactionOutspends: () => Promise.resolve([]),
-      } as any;
-
-      const rbfTxn = new rbf.RbfTransaction(rbfTransaction, constructOptions(esploraProvider));
+      const rbfTxn = new rbf.RbfTransaction(rbfTransaction, constructOptions(createRbfEsploraProvider()));
       const feeSummary = await rbfTxn.getRbfFeeSummary(1000000);
 
       expect(feeSummary).toEqual({
@@ -127,13 +174,10 @@ describe('Replace By Fee', () => {
     });
 
     it('getRbfFeeSummary returns with additional UTXOs', async () => {
-      const esploraProvider = {
-        getUnspentUtxos: () => Promise.resolve([largeUtxo]),
-        getTransaction: () => Promise.resolve(rbfEsploraTransaction),
-        getTransactionOutspends: () => Promise.resolve([]),
-      } as any;
-
-      const rbfTxn = new rbf.RbfTransaction(rbfTransaction, constructOptions(esploraProvider));
+      const rbfTxn = new rbf.RbfTransaction(
+        rbfTransaction,
+        constructOptions(createRbfEsploraProvider({ utxos: [largeUtxo] })),
+      );
       const feeSummary = await rbfTxn.getRbfFeeSummary(1000000);
 
       expect(feeSummary).toEqual({
@@ -143,4 +187,150 @@ describe('Replace By Fee', () => {
       });
     });
   });
+
+  describe('cancelling', () => {
+    const getScript = (address: string) => hex.encode(btc.OutScript.encode(btc.Address(btc.NETWORK).decode(address)));
+    const toVout = (address: string, value: number): Vout => ({
+      scriptpubkey: getScript(address),
+      scriptpubkey_asm: '',
+      scriptpubkey_type: '',
+      scriptpubkey_address: address,
+      value,
+    });
+    const toVin = (txid: string, address: string, value: number): Vin => ({
+      txid,
+      vout: 0,
+      prevout: toVout(address, value),
+      scriptsig: '',
+      scriptsig_asm: '',
+      is_coinbase: false,
+      sequence: 0xfffffffd,
+    });
+
+    // an inscription sent with a payment input for the fee
+    const esploraTransaction: EsploraTransaction = {
+      ...rbfEsploraTransaction,
+      txid: 'eb3ddbc9fb830b4470da0d723958a5819d8239f8bd9e4675d913f93631f3e025',
+      fee: 2000,
+      weight: 800,
+      vin: [
+        toVin('0ea74611a82a58325b5aa9df6d299c47c7e163fc44cf7ae2e20892fd9d5a5ab2', addresses[0].nestedSegwit, 20000),
+        toVin('1ce21439d00ab3b88871527a81c9df8f3116aeb82ecd0a08c0f9b91b4efc28c3', addresses[0].taproot, 546),
+      ],
+      vout: [toVout(addresses[1].taproot, 546), toVout(addresses[0].nestedSegwit, 18000)],
+    };
+    const transaction: BtcTransactionData = {
+      ...rbfTransaction,
+      txid: esploraTransaction.txid,
+      fees: esploraTransaction.fee,
+      inputs: esploraTransaction.vin,
+      outputs: esploraTransaction.vout,
+    };
+    const childTxid = 'c1'.repeat(32);
+
+    const options = (utxos: UTXO[] = []) => ({
+      ...constructOptions(
+        createRbfEsploraProvider({
+          utxos,
+          getTransaction: async (txid) =>
+            txid === transaction.txid
+              ? esploraTransaction
+              : // the transaction has a child which spent its change
+                { ...esploraTransaction, txid, fee: 1500, vin: [], vout: [toVout(addresses[0].nestedSegwit, 16500)] },
+          getTransactionOutspends: async (txid) =>
+            txid === transaction.txid
+              ? [{ spent: false }, { spent: true, txid: childTxid, vin: 0, status: { confirmed: false } }]
+              : [],
+        }),
+      ),
+      btcAddress: addresses[0].nestedSegwit,
+      btcPublicKey: addresses[0].nestedSegwitPubKey,
+      ordinalsAddress: addresses[0].taproot,
+      ordinalsPublicKey: addresses[0].taprootPubKey,
+    });
+
+    it('pays the inputs back to the wallet and keeps inscriptions on the ordinals address', async () => {
+      const rbfTxn = new rbf.RbfTransaction(transaction, options());
+      const {
+        transaction: cancelTransaction,
+        fee,
+        feeRate,
+      } = await rbfTxn.getReplacementTransaction({
+        feeRate: 30,
+        mode: 'cancel',
+        getSeedPhrase: () => seedPhrase,
+      });
+
+      // the ordinals input goes first, so the inscription stays at the same offset of an ordinals address output
+      expect(hex.encode(cancelTransaction.getInput(0).txid ?? new Uint8Array())).toEqual(
+        esploraTransaction.vin[1].txid,
+      );
+      expect(cancelTransaction.outputsLength).toEqual(2);
+      expect(cancelTransaction.getOutput(0)).toEqual({
+        script: hex.decode(getScript(addresses[0].taproot)),
+        amount: 546n,
+      });
+      expect(cancelTransaction.getOutput(1)).toEqual({
+        script: hex.decode(getScript(addresses[0].nestedSegwit)),
+        amount: BigInt(20000 - fee),
+      });
+      expect(feeRate).toEqual(30);
+      // the fees of the transaction and its child plus the relay fee of the replacement
+      expect(fee).toBeGreaterThanOrEqual(2000 + 1500 + cancelTransaction.vsize);
+    });
+
+    it('rejects fee rates which do not pay for the transaction and its child', async () => {
+      const rbfTxn = new rbf.RbfTransaction(transaction, options());
+
+      await expect(
+        rbfTxn.getReplacementTransaction({ feeRate: 10, mode: 'cancel', getSeedPhrase: () => seedPhrase }),
+      ).rejects.toThrow('Fee rate is below RBF minimum fee rate');
+    });
+
+    it('pays the fee rate when it is above the minimum replacement fee', async () => {
+      const rbfTxn = new rbf.RbfTransaction(transaction, options());
+
+      const feeSummary = await rbfTxn.getRbfFeeSummary(30, 'cancel');
+
+      expect(feeSummary).toEqual(expect.objectContaining({ enoughFunds: true, feeRate: 30 }));
+    });
+
+    it('adds payment UTXOs which were not created by the replaced transaction', async () => {
+      const rbfTxn = new rbf.RbfTransaction(
+        transaction,
+        options([
+          { ...largeUtxo, txid: transaction.txid, vout: 1, value: 18000, status: { confirmed: false } },
+          { ...largeUtxo, value: 50000 },
+        ]),
+      );
+
+      const { transaction: cancelTransaction } = await rbfTxn.getReplacementTransaction({
+        feeRate: 200,
+        mode: 'cancel',
+        getSeedPhrase: () => seedPhrase,
+      });
+
+      expect(cancelTransaction.inputsLength).toEqual(3);
+      expect(hex.encode(cancelTransaction.getInput(2).txid ?? new Uint8Array())).toEqual(largeUtxo.txid);
+    });
+
+    it('does not spend the outputs of descendants evicted with the replaced transaction', async () => {
+      const rbfTxn = new rbf.RbfTransaction(
+        transaction,
+        options([{ ...largeUtxo, txid: childTxid, vout: 0, value: 100000, status: { confirmed: false } }]),
+      );
+
+      const feeSummary = await rbfTxn.getRbfFeeSummary(200, 'cancel');
+
+      expect(feeSummary).toEqual(expect.objectContaining({ enoughFunds: false }));
+    });
+
+    it('signs with the seed phrase given to sign the replacement', async () => {
+      const rbfTxn = new rbf.RbfTransaction(transaction, options());
+
+      await expect(rbfTxn.getReplacementTransaction({ feeRate: 30, mode: 'cancel' })).rejects.toThrow(
+        'getSeedPhrase option is required to sign the transaction',
+      );
+    });
+  });
 });
@@ -0,0 +1,171 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import BigNumber from 'bignumber.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRunesClient } from '../../api';
+import { EnhancedTransaction } from '../../transactions/bitcoin/enhancedTransaction';
+import { RuneMintBatch, validateRuneMintTerms } from '../../transactions/runes';
+import type { Rune } from '../../types';
+import { decodeRunestone } from '../../utils/runestone';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createRune,
+  createTestTransactionContext,
+  tipHeight,
+} from './bitcoin/helpers';
+
+const runeId = '840000:1';
+
+const rune = createRune(runeId, {
+  mints: BigNumber(5),
+  spaced_rune: 'UNCOMMON•GOODS',
+  terms: {
+    amount: BigNumber(100),
+    cap: BigNumber(10),
+    height: [BigNumber(840100), null],
+    offset: [null, BigNumber(20000)],
+  },
+});
+
+const createMintEsploraApiProvider = () =>
+  createEsploraApiProvider((address) =>
+    address === addresses[0].nativeSegwit
+      ? [createFundingUtxo({ status: { confirmed: true, block_height: 840000 } })]
+      : [],
+  );
+
+const decodeTransaction = (transactionHex: string) =>
+  btc.Transaction.fromRaw(hex.decode(transactionHex), { allowUnknownOutputs: true });
+
+describe('validateRuneMintTerms', () => {
+  it('checks the mint window and cap', () => {
+    expect(() => validateRuneMintTerms(rune, 840099)).toThrow('Minting UNCOMMON•GOODS starts at block 840100');
+    expect(() => validateRuneMintTerms(rune, 860000)).toThrow('Minting UNCOMMON•GOODS ended at block 860000');
+    expect(() => validateRuneMintTerms(rune, tipHeight, 6)).toThrow('Only 5 mints of UNCOMMON•GOODS are left');
+    expect(() => validateRuneMintTerms(rune, tipHeight, 5)).not.toThrow();
+    // the API returns null terms for runes which can't be minted, although the type doesn't allow it
+    const unmintableEntry = { ...rune.entry, terms: null as unknown as Rune['entry']['terms'] };
+    expect(() => validateRuneMintTerms({ ...rune, entry: unmintableEntry }, tipHeight)).toThrow(
+      'Rune UNCOMMON•GOODS is not mintable',
+    );
+  });
+});
+
+describe('RuneMintBatch', () => {
+  beforeEach(() => {
+    vi.spyOn(getRunesClient('Mainnet'), 'getRuneInfo').mockResolvedValue(rune);
+  });
+
+  it('mints once from the payment UTXOs', async () => {
+    const context = createTestTransactionContext({ esploraApiProvider: createMintEsploraApiProvider() });
+    const batch = new RuneMintBatch(context, runeId, 1, 10);
+
+    const [mintTransaction] = await batch.getMintTransactions();
+    const summary = await mintTransaction.getSummary();
+
+    expect(batch.fundingTransaction).toBeUndefined();
+    expect(await batch.getFeeSummary()).toEqual({ fee: summary.fee, vsize: summary.vsize, mintFee: summary.fee });
+    expect(summary.runeOp?.Runestone).toEqual(expect.objectContaining({ mint: runeId, pointer: BigNumber(1) }));
+    expect(summary.outputs[1]).toEqual(expect.objectContaining({ address: addresses[0].taproot, amount: 546 }));
+  });
+
+  it('funds repeated mints with a fan-out transaction and broadcasts them together', async () => {
+    const esploraApiProvider = createMintEsploraApiProvider();
+    const context = createTestTransactionContext({ esploraApiProvider });
+    const batch = new RuneMintBatch(context, runeId, 3, 10, { destinationAddress: addresses[1].taproot });
+
+    const feeSummary = await batch.getFeeSummary();
+    const txids = await batch.broadcast();
+    const [fundingTransaction, ...mintTransactions] = esploraApiProvider.sendRawTransaction.mock.calls.map(
+      ([transactionHex]) => decodeTransaction(transactionHex),
+    );
+
+    expect(txids).toEqual([fundingTransaction.id, ...mintTransactions.map(({ id }) => id)]);
+    expect(mintTransactions).toHaveLength(3);
+
+    mintTransactions.forEach((mintTransaction, i) => {
+      // each mint only spends its own funding output, so all of it goes to the postage and fee
+      expect(mintTransaction.inputsLength).toEqual(1);
+      expect(hex.encode(mintTransaction.getInput(0).txid ?? new Uint8Array())).toEqual(fundingTransaction.id);
+      expect(mintTransaction.getInput(0).index).toEqual(i);
+      expect(mintTransaction.outputsLength).toEqual(2);
+      expect(decodeRunestone(mintTransaction.hex)?.Runestone?.mint).toEqual(runeId);
+      expect(mintTransaction.getOutput(1)).toEqual({
+        script: btc.OutScript.encode(btc.Address(btc.NETWORK).decode(addresses[1].taproot)),
+        amount: 546n,
+      });
+    });
+
+    // everything but the change of the funding transaction and the postage of the mints goes to the fees
+    const change = fundingTransaction.getOutput(3).amount ?? 0n;
+    expect(feeSummary.fee).toEqual(100000n - change - 3n * 546n);
+    expect(
+      [fundingTransaction, ...mintTransactions].reduce((vsize, transaction) => vsize + transaction.vsize, 0),
+    ).toBeLessThanOrEqual(feeSummary.vsize);
+    expect((feeSummary.fundingFee ?? 0n) + 3n * feeSummary.mintFee).toEqual(feeSummary.fee);
+  });
+
+  it('broadcasts the funding transaction the mints were signed for', async () => {
+    const esploraApiProvider = createMintEsploraApiProvider();
+    const context = createTestTransactionContext({ esploraApiProvider });
+    const batch = new RuneMintBatch(context, runeId, 2, 10);
+    const signTransaction = vi.spyOn(EnhancedTransaction.prototype, 'getTransactionHexAndId');
+
+    const [mintTransaction] = await batch.getMintTransactions();
+    const fundingOutpoint = (await mintTransaction.getSummary()).inputs[0].extendedUtxo.outpoint;
+    expect(await context.paymentAddress.getUtxo(fundingOutpoint)).toBeDefined();
+
+    const txids = await batch.broadcast();
+
+    // the funding transaction is only signed once, and the two mints when they are broadcast
+    expect(signTransaction).toHaveBeenCalledTimes(3);
+    expect(`${decodeTransaction(esploraApiProvider.sendRawTransaction.mock.calls[0][0]).id}:0`).toEqual(
+      fundingOutpoint,
+    );
+    expect(`${txids[0]}:0`).toEqual(fundingOutpoint);
+    // the outputs of the funding transaction are no longer pending once the batch is broadcast
+    expect(await context.paymentAddress.getUtxo(fundingOutpoint)).toBeUndefined();
+
+    signTransaction.mockRestore();
+  });
+
+  it('only lets each mint spend its own funding output', async () => {
+    const context = createTestTransactionContext({ esploraApiProvider: createMintEsploraApiProvider() });
+    const batch = new RuneMintBatch(context, runeId, 3, 10, { excludeOutpointList: ['f00d:0'] });
+
+    const mintTransactions = await batch.getMintTransactions();
+    const fundingOutpoints = mintTransactions.map((transaction) => transaction.options.forceIncludeOutpointList?.[0]);
+    const [fundingTxid] = fundingOutpoints[0]?.split(':') ?? [];
+
+    expect(fundingOutpoints).toEqual([0, 1, 2].map((vout) => `${fundingTxid}:${vout}`));
+    mintTransactions.forEach((transaction, i) => {
+      // the other mints and the change of the funding transaction are excluded from the coin selection
+      expect(transaction.options.excludeOutpointList).toEqual([
+        'f00d:0',
+        ...[0, 1, 2, 3].filter((vout) => vout !== i).map((vout) => `${fundingTxid}:${vout}`),
+      ]);
+    });
+  });
+
+  it('stops tracking the funding outputs if the batch fails', async () => {
+    const esploraApiProvider = createMintEsploraApiProvider();
+    esploraApiProvider.sendRawTransaction.mockRejectedValueOnce(new Error('min relay fee not met'));
+    const context = createTestTransactionContext({ esploraApiProvider });
+    const batch = new RuneMintBatch(context, runeId, 2, 10);
+
+    await expect(batch.broadcast()).rejects.toThrow('min relay fee not met');
+
+    const fundingTransaction = decodeTransaction(esploraApiProvider.sendRawTransaction.mock.calls[0][0]);
+    expect(await context.paymentAddress.getUtxo(`${fundingTransaction.id}:0`)).toBeUndefined();
+  });
+
+  it('rejects mints beyond the cap', async () => {
+    const esploraApiProvider = createMintEsploraApiProvider();
+    const batch = new RuneMintBatch(createTestTransactionContext({ esploraApiProvider }), runeId, 6, 10);
+
+    await expect(batch.broadcast()).rejects.toThrow('Only 5 mints of UNCOMMON•GOODS are left');
+    expect(esploraApiProvider.sendRawTransaction).not.toHaveBeenCalled();
+  });
+});
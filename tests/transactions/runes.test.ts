@@ -109,7 +109,6 @@ describe('sendRunes', () => {
       getRuneInfo: vi.fn().mockResolvedValueOnce({
         id: `${dummyBlock}:${dummyTxIdx}`,
       }),
-      getEncodedScriptHex: vi.fn().mockResolvedValueOnce('6a05ffff000102'),
     } as any);
 
     const transaction = await sendRunes(contextMock, 'MYBIGRUNE', recipientAddress, 1100n, 2);
@@ -120,7 +119,7 @@ describe('sendRunes', () => {
       [
         {
           type: 'script',
-          script: new Uint8Array([0x6a, 5, 255, 255, 0, 1, 2]),
+          script: new Uint8Array([0x6a, 0x5d, 8, 0, 0xb9, 0x60, 0xd9, 0x02, 0xcc, 0x08, 1]),
         },
         { type: 'sendBtc', toAddress: recipientAddress, amount: 546n, combinable: false },
       ],
@@ -174,7 +173,6 @@ describe('sendRunes', () => {
       getRuneInfo: vi.fn().mockResolvedValue({
         id: `${dummyBlock}:${dummyTxIdx}`,
       }),
-      getEncodedScriptHex: vi.fn().mockResolvedValueOnce('6a05ffff000102'),
     } as any);
 
     const transaction = await sendRunes(contextMock, 'MYBIGRUNE', recipientAddress, 600n, 2);
@@ -185,7 +183,7 @@ describe('sendRunes', () => {
       [
         {
           type: 'script',
-          script: new Uint8Array([0x6a, 5, 255, 255, 0, 1, 2]),
+          script: new Uint8Array([0x6a, 0x5d, 8, 0, 0xb9, 0x60, 0xd9, 0x02, 0xd8, 0x04, 1]),
         },
         { type: 'sendBtc', toAddress: recipientAddress, amount: 546n, combinable: false },
       ],
@@ -239,7 +237,6 @@ describe('sendRunes', () => {
       getRuneInfo: vi.fn().mockResolvedValueOnce({
         id: `${dummyBlock}:${dummyTxIdx}`,
       }),
-      getEncodedScriptHex: vi.fn().mockResolvedValueOnce('6a05ffff000102'),
     } as any);
 
     const transaction = await sendRunes(contextMock, 'MYBIGRUNE', recipientAddress, 1000n, 2);
@@ -250,7 +247,7 @@ describe('sendRunes', () => {
       [
         {
           type: 'script',
-          script: new Uint8Array([0x6a, 5, 255, 255, 0, 1, 2]),
+          script: new Uint8Array([0x6a, 0x5d, 10, 22, 2, 0, 0xb9, 0x60, 0xd9, 0x02, 0xe8, 0x07, 1]),
         },
         { type: 'sendBtc', toAddress: recipientAddress, amount: 546n, combinable: false },
         { type: 'sendBtc', toAddress: ordinalsAddress, amount: 546n, combinable: false },
@@ -308,7 +305,6 @@ describe('sendRunes', () => {
       getRuneInfo: vi.fn().mockResolvedValueOnce({
         id: `${dummyBlock}:${dummyTxIdx}`,
       }),
-      getEncodedScriptHex: vi.fn().mockResolvedValueOnce('6a05ffff000102'),
     } as any);
 
     const transaction = await sendRunes(contextMock, 'MYBIGRUNE', recipientAddress, 1100n, 2);
@@ -319,7 +315,7 @@ describe('sendRunes', () => {
       [
         {
           type: 'script',
-          script: new Uint8Array([0x6a, 5, 255, 255, 0, 1, 2]),
+          script: new Uint8Array([0x6a, 0x5d, 10, 22, 2, 0, 0xb9, 0x60, 0xd9, 0x02, 0xcc, 0x08, 1]),
         },
         { type: 'sendBtc', toAddress: recipientAddress, amount: 546n, combinable: false },
         { type: 'sendBtc', toAddress: ordinalsAddress, amount: 546n, combinable: false },
@@ -377,10 +373,6 @@ describe('recoverRunes', () => {
     ];
     contextMock.paymentAddress.getUtxos.mockResolvedValueOnce(dummyUtxos);
 
-    vi.mocked(getRunesClient).mockReturnValue({
-      getEncodedScriptHex: vi.fn().mockResolvedValueOnce('6a05ffff000102'),
-    } as any);
-
     await expect(() => recoverRunes(contextMock, 2)).rejects.toThrow('No runes to recover');
   });
 
@@ -410,10 +402,6 @@ describe('recoverRunes', () => {
     ];
     contextMock.paymentAddress.getUtxos.mockResolvedValueOnce(dummyUtxos);
 
-    vi.mocked(getRunesClient).mockReturnValue({
-      getEncodedScriptHex: vi.fn().mockResolvedValueOnce('6a05ffff000102'),
-    } as any);
-
     const transaction = await recoverRunes(contextMock, 2);
 
     expect(EnhancedTransaction).toHaveBeenCalledTimes(1);
@@ -422,7 +410,7 @@ describe('recoverRunes', () => {
       [
         {
           type: 'script',
-          script: new Uint8Array([0x6a, 5, 255, 255, 0, 1, 2]),
+          script: new Uint8Array([0x6a, 0x5d, 2, 22, 1]),
         },
         { type: 'sendBtc', toAddress: ordinalsAddress, amount: 546n, combinable: false },
       ],
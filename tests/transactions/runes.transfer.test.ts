@@ -0,0 +1,208 @@
+import BigNumber from 'bignumber.js';
+import { describe, expect, it, vi } from 'vitest';
+import { getRunesClient } from '../../api';
+import { consolidateRunes, sendMultipleRunes, splitRunes } from '../../transactions/runes';
+import type { UtxoRuneEntry } from '../../types';
+import {
+  addresses,
+  createEsploraApiProvider,
+  createFundingUtxo,
+  createRune,
+  createTestTransactionContext,
+  createUtxoBundle,
+  createUtxoCache,
+  fundingTxid,
+} from './bitcoin/helpers';
+
+const runesTxid = '1ce21439d00ab3b88871527a81c9df8f3116aeb82ecd0a08c0f9b91b4efc28c3';
+
+const runeIds: Record<string, string> = { UNCOMMONGOODS: '1:0', DOGGOTOTHEMOON: '840000:3' };
+
+// the runes held by each output of the runes transaction, some of which can hold an inscription too
+const createContext = (runeBalances: Record<string, number>[], inscribedVouts: number[] = []) => {
+  vi.spyOn(getRunesClient('Mainnet'), 'getRuneInfo').mockImplementation(async (runeName) =>
+    createRune(runeIds[runeName.toString()]),
+  );
+
+  return createTestTransactionContext({
+    esploraApiProvider: createEsploraApiProvider((address) =>
+      address === addresses[0].nativeSegwit
+        ? [createFundingUtxo()]
+        : runeBalances.map((_, vout) => createFundingUtxo({ txid: runesTxid, vout, value: 546 })),
+    ),
+    utxoCache: createUtxoCache((outpoint) => {
+      const [txid, vout] = outpoint.split(':');
+
+      if (txid !== runesTxid) {
+        return createUtxoBundle(outpoint);
+      }
+
+      return createUtxoBundle(outpoint, {
+        inscriptionId: inscribedVouts.includes(+vout) ? `${runesTxid}i${vout}` : undefined,
+        runes: Object.entries(runeBalances[+vout]).map(
+          ([runeName, amount]): UtxoRuneEntry<BigNumber> => [
+            runeName,
+            { amount: BigNumber(amount), divisibility: 0, symbol: '¤' },
+          ],
+        ),
+      });
+    }),
+  });
+};
+
+describe('sendMultipleRunes', () => {
+  it('sends several runes to several recipients with a single runestone', async () => {
+    const context = createContext([{ UNCOMMONGOODS: 500 }, { UNCOMMONGOODS: 300, DOGGOTOTHEMOON: 1000 }]);
+
+    const transaction = await sendMultipleRunes(
+      context,
+      [
+        { runeName: 'UNCOMMONGOODS', toAddress: addresses[1].taproot, amount: 600n },
+        { runeName: 'DOGGOTOTHEMOON', toAddress: addresses[1].nativeSegwit, amount: 400n },
+        { runeName: 'UNCOMMONGOODS', toAddress: addresses[1].nativeSegwit, amount: 100n },
+      ],
+      10,
+    );
+    const summary = await transaction.getSummary();
+
+    expect(summary.inputs.map(({ extendedUtxo }) => extendedUtxo.outpoint)).toEqual([
+      `${runesTxid}:0`,
+      `${runesTxid}:1`,
+      `${fundingTxid}:0`,
+    ]);
+    expect(summary.outputs.slice(1, 4)).toEqual([
+      expect.objectContaining({ address: addresses[1].taproot, amount: 546 }),
+      expect.objectContaining({ address: addresses[1].nativeSegwit, amount: 546 }),
+      expect.objectContaining({ address: addresses[0].taproot, amount: 546 }),
+    ]);
+    expect(summary.runeOp?.Runestone).toEqual(
+      expect.objectContaining({
+        edicts: [
+          { id: '1:0', amount: BigNumber(600), output: BigNumber(1) },
+          { id: '1:0', amount: BigNumber(100), output: BigNumber(2) },
+          { id: '840000:3', amount: BigNumber(400), output: BigNumber(2) },
+        ],
+        // the leftover 100 UNCOMMONGOODS and 600 DOGGOTOTHEMOON go back to the ordinals address
+        pointer: BigNumber(3),
+      }),
+    );
+  });
+
+  it('only adds a pointer output when runes are left over', async () => {
+    const context = createContext([{ UNCOMMONGOODS: 500 }]);
+
+    const transaction = await sendMultipleRunes(
+      context,
+      [
+        { runeName: 'UNCOMMONGOODS', toAddress: addresses[1].taproot, amount: 200n },
+        { runeName: 'UNCOMMONGOODS', toAddress: addresses[1].nativeSegwit, amount: 300n },
+      ],
+      10,
+    );
+    const summary = await transaction.getSummary();
+
+    expect(summary.runeOp?.Runestone?.pointer).toBeNull();
+    expect(summary.outputs).toEqual([
+      expect.objectContaining({ type: 'script' }),
+      expect.objectContaining({ address: addresses[1].taproot }),
+      expect.objectContaining({ address: addresses[1].nativeSegwit }),
+      expect.objectContaining({ address: addresses[0].nativeSegwit }),
+    ]);
+  });
+
+  it('rejects transfers which the selected UTXOs can not cover', async () => {
+    const context = createContext([{ UNCOMMONGOODS: 500 }]);
+
+    await expect(
+      sendMultipleRunes(context, [{ runeName: 'UNCOMMONGOODS', toAddress: addresses[1].taproot, amount: 501n }], 10),
+    ).rejects.toThrow('Not enough UNCOMMONGOODS to send');
+    await expect(sendMultipleRunes(context, [], 10)).rejects.toThrow('No runes to send');
+  });
+});
+
+describe('consolidateRunes', () => {
+  it('merges the UTXOs of each rune into one output, leaving inscriptions alone', async () => {
+    const context = createContext(
+      [
+        { UNCOMMONGOODS: 500 },
+        { UNCOMMONGOODS: 300, DOGGOTOTHEMOON: 1000 },
+        { DOGGOTOTHEMOON: 5 },
+        { UNCOMMONGOODS: 1 },
+      ],
+      [3],
+    );
+
+    const transaction = await consolidateRunes(context, 10);
+    const summary = await transaction.getSummary();
+
+    expect(summary.inputs.map(({ extendedUtxo }) => extendedUtxo.outpoint).slice(0, 3)).toEqual([
+      `${runesTxid}:0`,
+      `${runesTxid}:1`,
+      `${runesTxid}:2`,
+    ]);
+    expect(summary.outputs.slice(1, 3)).toEqual([
+      expect.objectContaining({ address: addresses[0].taproot, amount: 546 }),
+      expect.objectContaining({ address: addresses[0].taproot, amount: 546 }),
+    ]);
+    expect(summary.runeOp?.Runestone?.edicts).toEqual([
+      { id: '1:0', amount: BigNumber(0), output: BigNumber(1) },
+      { id: '840000:3', amount: BigNumber(0), output: BigNumber(2) },
+    ]);
+  });
+
+  it('only consolidates the given rune', async () => {
+    const context = createContext([{ UNCOMMONGOODS: 500 }, { DOGGOTOTHEMOON: 1000 }, { DOGGOTOTHEMOON: 5 }]);
+
+    const summary = await (await consolidateRunes(context, 10, { runeName: 'doggotothemoon' })).getSummary();
+
+    expect(summary.inputs.map(({ extendedUtxo }) => extendedUtxo.outpoint).slice(0, 2)).toEqual([
+      `${runesTxid}:1`,
+      `${runesTxid}:2`,
+    ]);
+    expect(summary.runeOp?.Runestone?.edicts).toEqual([{ id: '840000:3', amount: BigNumber(0), output: BigNumber(1) }]);
+    await expect(consolidateRunes(context, 10, { runeName: 'UNCOMMONGOODS' })).rejects.toThrow(
+      'Not enough UNCOMMONGOODS UTXOs to consolidate',
+    );
+    await expect(consolidateRunes(context, 10, { postage: 300n })).rejects.toThrow('Postage of 300 sats is below dust');
+  });
+});
+
+describe('splitRunes', () => {
+  it('splits a rune balance into outputs of the given amounts', async () => {
+    const context = createContext([{ UNCOMMONGOODS: 500 }, { UNCOMMONGOODS: 300, DOGGOTOTHEMOON: 1000 }]);
+
+    const transaction = await splitRunes(context, 'UNCOMMONGOODS', [100n, 200n, 250n], 10, { postage: 1000n });
+    const summary = await transaction.getSummary();
+
+    expect(summary.inputs.map(({ extendedUtxo }) => extendedUtxo.outpoint).slice(0, 2)).toEqual([
+      `${runesTxid}:0`,
+      `${runesTxid}:1`,
+    ]);
+    expect(summary.outputs.slice(1, 5)).toEqual(
+      Array(4).fill(expect.objectContaining({ address: addresses[0].taproot, amount: 1000 })),
+    );
+    expect(summary.runeOp?.Runestone).toEqual(
+      expect.objectContaining({
+        edicts: [
+          { id: '1:0', amount: BigNumber(100), output: BigNumber(1) },
+          { id: '1:0', amount: BigNumber(200), output: BigNumber(2) },
+          { id: '1:0', amount: BigNumber(250), output: BigNumber(3) },
+        ],
+        // the leftover 250 UNCOMMONGOODS and the DOGGOTOTHEMOON go to the last output
+        pointer: BigNumber(4),
+      }),
+    );
+  });
+
+  it('does not split UTXOs holding inscriptions', async () => {
+    const context = createContext([{ UNCOMMONGOODS: 500 }, { UNCOMMONGOODS: 300 }], [0]);
+
+    await expect(splitRunes(context, 'UNCOMMONGOODS', [200n, 200n], 10)).rejects.toThrow(
+      'Not enough UNCOMMONGOODS to split',
+    );
+
+    const summary = await (await splitRunes(context, 'UNCOMMONGOODS', [100n, 200n], 10)).getSummary();
+    expect(summary.inputs.map(({ extendedUtxo }) => extendedUtxo.outpoint)[0]).toEqual(`${runesTxid}:1`);
+    expect(summary.runeOp?.Runestone?.pointer).toBeNull();
+  });
+});
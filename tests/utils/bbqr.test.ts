@@ -0,0 +1,93 @@
+import { base32 } from '@scure/base';
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { BbqrDecoder, decodeBbqr, encodeBbqr } from '../../utils/bbqr';
+
+const data = new Uint8Array(Array.from({ length: 500 }, (_, i) => (i * 7) % 256));
+
+describe('encodeBbqr', () => {
+  it('encodes a single frame', () => {
+    expect(encodeBbqr(new Uint8Array([0x70, 0x73, 0x62, 0x74, 0xff]), { encoding: 'H' })).toEqual([
+      'B$HP010070736274FF',
+    ]);
+    expect(encodeBbqr(new Uint8Array([0x70, 0x73, 0x62, 0x74, 0xff]))).toEqual(['B$2P0100OBZWE5H7']);
+  });
+
+  it('splits into balanced frames', () => {
+    const frames = encodeBbqr(data, { maxFrameLength: 208 });
+
+    // 500 bytes are 800 base32 characters, which need 4 frames of up to 200 characters
+    expect(frames.map((frame) => frame.slice(0, 8))).toEqual(['B$2P0400', 'B$2P0401', 'B$2P0402', 'B$2P0403']);
+    expect(frames.map((frame) => frame.length - 8)).toEqual([200, 200, 200, 200]);
+  });
+
+  it('uses base36 for the frame count', () => {
+    const frames = encodeBbqr(data, { encoding: 'H', maxFrameLength: 18 });
+
+    expect(frames).toHaveLength(100);
+    expect(frames[99].slice(0, 8)).toEqual('B$HP2S2R');
+  });
+
+  it('throws if the frames are too small', () => {
+    expect(() => encodeBbqr(data, { maxFrameLength: 15 })).toThrow('Maximum BBQr frame length is too small');
+  });
+});
+
+describe('BbqrDecoder', () => {
+  it.each(['H', '2'] as const)('decodes %s frames received in any order', (encoding) => {
+    const frames = encodeBbqr(data, { encoding, maxFrameLength: 300 });
+    const decoder = new BbqrDecoder();
+
+    [...frames].reverse().forEach((frame) => {
+      expect(decoder.isComplete).toEqual(false);
+      decoder.receivePart(frame);
+    });
+    decoder.receivePart(frames[0]);
+
+    expect(decoder.progress).toEqual(1);
+    expect(decoder.fileType).toEqual('P');
+    expect(decoder.data).toEqual(data);
+  });
+
+  // level 0 gives stored blocks, and the data and the text compress best with fixed and dynamic Huffman codes
+  it.each([
+    ['stored', data, 0],
+    ['fixed', data, 1],
+    ['dynamic', new TextEncoder().encode(Array.from({ length: 300 }, (_, i) => i.toString(16)).join(',')), 9],
+  ])('decodes zlib compressed frames with %s blocks', (_, file, level) => {
+    const payload = base32.encode(deflateRawSync(file, { level, windowBits: 10 })).replace(/=+$/, '');
+    const frames = [payload.slice(0, 80), payload.slice(80)].map((part, i) => `B$ZU020${i}${part}`);
+
+    expect(decodeBbqr(frames)).toEqual({ fileType: 'U', data: file });
+  });
+
+  it('throws on frames of a different file', () => {
+    const decoder = new BbqrDecoder();
+    decoder.receivePart(encodeBbqr(data, { maxFrameLength: 300 })[0]);
+
+    expect(() => decoder.receivePart(encodeBbqr(data, { fileType: 'T', maxFrameLength: 300 })[1])).toThrow(
+      'BBQr frame belongs to a different file',
+    );
+  });
+
+  it('throws on unsupported frames', () => {
+    const decoder = new BbqrDecoder();
+
+    expect(() => decoder.receivePart('B$2Q0100ABCDEFGH')).toThrow('Unsupported BBQr file type: Q');
+    expect(() => decoder.receivePart('B$2P0101ABCDEFGH')).toThrow('Invalid BBQr frame index');
+    expect(() => decoder.receivePart('ur:crypto-psbt/aeae')).toThrow('Invalid BBQr header');
+  });
+});
+
+describe('decodeBbqr', () => {
+  it('throws on corrupt zlib data', () => {
+    expect(() => decodeBbqr(['B$ZP0100ABCDEFGH'])).toThrow('compressed data');
+  });
+
+  it('throws if frames are missing', () => {
+    const frames = encodeBbqr(data, { maxFrameLength: 300 });
+
+    expect(() => decodeBbqr(frames.slice(1))).toThrow('Missing BBQr frames');
+    expect(decodeBbqr(frames)).toEqual({ fileType: 'P', data });
+  });
+});
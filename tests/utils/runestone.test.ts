@@ -0,0 +1,182 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import BigNumber from 'bignumber.js';
+import { describe, expect, it } from 'vitest';
+import {
+  RunestoneFlaw,
+  decodeRunestone,
+  decodeRunestoneFromScripts,
+  decodeVarint,
+  encodeRunestone,
+  encodeVarint,
+  runeNameToNumber,
+  runeNumberToName,
+} from '../../utils/runestone';
+
+const dummyScript = new Uint8Array([0x51]);
+
+const withPayload = (payload: number[]) => new Uint8Array([0x6a, 0x5d, payload.length, ...payload]);
+
+describe('varint', () => {
+  it.each([
+    [0n, [0]],
+    [127n, [127]],
+    [128n, [0x80, 1]],
+    [300n, [0xac, 0x02]],
+    [(1n << 128n) - 1n, [...Array(18).fill(0xff), 0x03]],
+  ])('should round trip %s', (value, bytes) => {
+    expect(encodeVarint(value)).toEqual(bytes);
+    expect(decodeVarint(new Uint8Array(bytes))).toEqual([value, bytes.length]);
+  });
+
+  it('should throw on overflow', () => {
+    expect(() => decodeVarint(new Uint8Array([...Array(18).fill(0xff), 0x04]))).toThrow('Varint overflow');
+    expect(() => encodeVarint(1n << 128n)).toThrow('Varint out of range');
+  });
+
+  it('should throw on unterminated varint', () => {
+    expect(() => decodeVarint(new Uint8Array([0x80]))).toThrow('Varint unterminated');
+  });
+});
+
+describe('rune names', () => {
+  it.each([
+    ['A', 0n],
+    ['B', 1n],
+    ['Z', 25n],
+    ['AA', 26n],
+    ['AZ', 51n],
+    ['BA', 52n],
+    ['UNCOMMONGOODS', 2055900680524219742n],
+    ['BCGDENLQRQWDSLRUGSNLBTMFIJAV', (1n << 128n) - 1n],
+  ])('should convert %s', (name, value) => {
+    expect(runeNameToNumber(name)).toEqual(value);
+    expect(runeNumberToName(value)).toEqual(name);
+  });
+
+  it('should reject invalid names', () => {
+    expect(() => runeNameToNumber('abc')).toThrow('Invalid rune name: abc');
+  });
+});
+
+describe('encodeRunestone', () => {
+  it('should encode edicts sorted with delta ids', () => {
+    const script = encodeRunestone({
+      edicts: [
+        { id: '840000:3', amount: BigNumber(5), output: BigNumber(2) },
+        { id: '840000:1', amount: BigNumber(10), output: BigNumber(1) },
+        { id: '1:1', amount: BigNumber(1), output: BigNumber(1) },
+      ],
+    });
+
+    expect(hex.encode(script)).toEqual(
+      hex.encode(withPayload([0, ...[1, 1, 1, 1], ...[...encodeVarint(839999n), 1, 10, 1], ...[0, 2, 5, 2]])),
+    );
+  });
+
+  it('should encode a pointer only runestone', () => {
+    expect(encodeRunestone({ edicts: [], pointer: 1 })).toEqual(new Uint8Array([0x6a, 0x5d, 2, 22, 1]));
+  });
+
+  it('should split large payloads into multiple pushes', () => {
+    const edicts = Array.from({ length: 200 }, (_, i) => ({
+      id: `${i + 1}:0`,
+      amount: BigNumber(1000),
+      output: BigNumber(0),
+    }));
+    const script = encodeRunestone({ edicts });
+
+    const pushes = btc.Script.decode(script).slice(2);
+    expect(pushes.length).toEqual(2);
+    expect((pushes[0] as Uint8Array).length).toEqual(520);
+
+    const artifact = decodeRunestoneFromScripts([script, dummyScript]);
+    expect(artifact?.Runestone?.edicts).toEqual(edicts);
+  });
+
+  it('should round trip an etching', () => {
+    const runestone = {
+      edicts: [{ id: '2:1', amount: BigNumber(10), output: BigNumber(1) }],
+      etching: {
+        divisibility: BigNumber(2),
+        premine: BigNumber(1000),
+        rune: 'UNCOMMONGOODS',
+        spacers: BigNumber(128),
+        symbol: '⧉',
+        terms: {
+          amount: BigNumber(1),
+          cap: BigNumber(1000000),
+          height: [BigNumber(840000), BigNumber(1050000)] as [BigNumber, BigNumber],
+          offset: [null, BigNumber(100)] as [null, BigNumber],
+        },
+        turbo: true,
+      },
+      mint: '1:0',
+    };
+
+    const artifact = decodeRunestoneFromScripts([encodeRunestone({ ...runestone, pointer: 0 }), dummyScript]);
+
+    expect(artifact).toEqual({ Runestone: { ...runestone, pointer: BigNumber(0) } });
+  });
+});
+
+describe('decodeRunestone', () => {
+  it('should return undefined if there is no runestone output', () => {
+    expect(decodeRunestoneFromScripts([dummyScript, new Uint8Array([0x6a, 0x01, 0x01])])).toBeUndefined();
+  });
+
+  it('should decode from a raw transaction', () => {
+    const tx = new btc.Transaction({ allowUnknownOutputs: true });
+    tx.addOutput({ script: encodeRunestone({ edicts: [], pointer: 1 }), amount: 0n });
+    tx.addOutput({ script: dummyScript, amount: 546n });
+
+    expect(decodeRunestone(tx.hex)).toEqual({ Runestone: { edicts: [], mint: null, pointer: BigNumber(1) } });
+  });
+
+  it.each([
+    ['non push opcode', new Uint8Array([0x6a, 0x5d, 0x01, 0x00, 0xac]), RunestoneFlaw.Opcode],
+    ['truncated push', new Uint8Array([0x6a, 0x5d, 0x05, 0x00]), RunestoneFlaw.InvalidScript],
+    ['bad varint', withPayload([0x80]), RunestoneFlaw.Varint],
+    ['truncated field', withPayload([22]), RunestoneFlaw.TruncatedField],
+    ['trailing integers', withPayload([0, 1, 1, 1]), RunestoneFlaw.TrailingIntegers],
+    ['edict output out of range', withPayload([0, 1, 1, 1, 3]), RunestoneFlaw.EdictOutput],
+    ['edict rune id', withPayload([0, 0, 1, 1, 1]), RunestoneFlaw.EdictRuneId],
+    ['unrecognized even tag', withPayload([24, 1]), RunestoneFlaw.UnrecognizedEvenTag],
+    ['unrecognized flag', withPayload([2, 8]), RunestoneFlaw.UnrecognizedFlag],
+    ['pointer past the outputs', withPayload([22, 2]), RunestoneFlaw.UnrecognizedEvenTag],
+    ['cenotaph tag', withPayload([126, 0]), RunestoneFlaw.UnrecognizedEvenTag],
+  ])('should produce a cenotaph for %s', (_, script, flaw) => {
+    const artifact = decodeRunestoneFromScripts([script, dummyScript]);
+
+    expect(artifact?.Runestone).toBeUndefined();
+    expect(artifact?.Cenotaph?.flaws).toEqual(1 << flaw);
+  });
+
+  it('should ignore unrecognized odd tags', () => {
+    expect(decodeRunestoneFromScripts([withPayload([127, 5]), dummyScript])).toEqual({
+      Runestone: { edicts: [], mint: null, pointer: null },
+    });
+  });
+
+  it('should flag supply overflow and keep the etched rune on the cenotaph', () => {
+    const max = (1n << 128n) - 1n;
+    const script = encodeRunestone({
+      edicts: [],
+      etching: {
+        rune: 'AAAAAAAAAAAAAA',
+        spacers: BigNumber(0),
+        premine: BigNumber(max.toString()),
+        terms: { amount: BigNumber(1), cap: BigNumber(1), height: [null, null], offset: [null, null] },
+      },
+      mint: '1:2',
+    });
+
+    expect(decodeRunestoneFromScripts([script, dummyScript])).toEqual({
+      Cenotaph: {
+        flaws: 1 << RunestoneFlaw.SupplyOverflow,
+        etching: BigNumber(runeNameToNumber('AAAAAAAAAAAAAA').toString()),
+        mint: '1:2',
+      },
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  UrDecoder,
+  Xoshiro256,
+  chooseFragments,
+  decodeBytewords,
+  decodeCborBytes,
+  decodeUr,
+  encodeBytewords,
+  encodeCborBytes,
+  encodeUr,
+} from '../../utils/ur';
+
+// the test vectors of the reference implementation use messages generated from the "Wolf" seed
+const makeMessage = (length: number) => {
+  const rng = new Xoshiro256('Wolf');
+  return new Uint8Array(length).map(() => rng.nextInt(0, 255));
+};
+
+describe('Xoshiro256', () => {
+  it('generates the reference sequence', () => {
+    const rng = new Xoshiro256('Wolf');
+
+    expect(Array.from({ length: 10 }, () => Number(rng.next() % 100n))).toEqual([
+      42, 81, 85, 8, 82, 84, 76, 73, 70, 88,
+    ]);
+  });
+
+  it('generates the reference integers in a range', () => {
+    const rng = new Xoshiro256('Wolf');
+
+    expect(Array.from({ length: 10 }, () => rng.nextInt(1, 10))).toEqual([6, 5, 8, 4, 10, 5, 7, 10, 4, 9]);
+  });
+});
+
+describe('bytewords', () => {
+  it('round trips with a checksum', () => {
+    const data = new Uint8Array([0, 1, 2, 128, 255]);
+    const bytewords = encodeBytewords(data);
+
+    expect(bytewords.startsWith('aeadaolazm')).toEqual(true);
+    expect(decodeBytewords(bytewords)).toEqual(data);
+    expect(decodeBytewords(bytewords.toUpperCase())).toEqual(data);
+  });
+
+  it('throws on an invalid checksum', () => {
+    const bytewords = encodeBytewords(new Uint8Array([0, 1, 2]));
+
+    expect(() => decodeBytewords(`ad${bytewords.slice(2)}`)).toThrow('Invalid bytewords checksum');
+  });
+
+  it('throws on invalid words', () => {
+    expect(() => decodeBytewords('aeaeaeaeaeqq')).toThrow('Invalid byteword');
+  });
+});
+
+describe('encodeUr', () => {
+  it('encodes small messages as a single part', () => {
+    const message = encodeCborBytes(new Uint8Array([1, 2, 3]));
+
+    const parts = encodeUr('bytes', message);
+
+    expect(parts).toHaveLength(1);
+    expect(parts[0]).toEqual(`ur:bytes/${encodeBytewords(message)}`);
+  });
+
+  it('encodes the reference multi-part UR', () => {
+    const parts = encodeUr('bytes', encodeCborBytes(makeMessage(256)), { maxFragmentLength: 30, extraParts: 2 });
+
+    expect(parts).toHaveLength(11);
+    expect(parts[0]).toEqual(
+      'ur:bytes/1-9/lpadascfadaxcywenbpljkhdcahkadaemejtswhhylkepmykhhtsytsnoyoyaxaedsuttydmmhhpktpmsrjtdkgslpgh',
+    );
+    expect(parts[1]).toEqual(
+      'ur:bytes/2-9/lpaoascfadaxcywenbpljkhdcagwdpfnsboxgwlbaawzuefywkdplrsrjynbvygabwjldapfcsgmghhkhstlrdcxaefz',
+    );
+    expect(parts[9]).toEqual(
+      'ur:bytes/10-9/lpbkascfadaxcywenbpljkhdcahkadaemejtswhhylkepmykhhtsytsnoyoyaxaedsuttydmmhhpktpmsrjtwdkiplzs',
+    );
+  });
+
+  it('throws on invalid types', () => {
+    expect(() => encodeUr('Crypto PSBT', new Uint8Array([1]))).toThrow('Invalid UR type: Crypto PSBT');
+  });
+});
+
+describe('chooseFragments', () => {
+  it('returns plain fragments for the first parts', () => {
+    expect(chooseFragments(3, 9, 1234)).toEqual([2]);
+  });
+
+  it('mixes fragments after the first parts', () => {
+    const indexes = chooseFragments(12, 9, 1234);
+
+    expect(indexes.length).toBeGreaterThan(0);
+    expect(indexes.every((index) => index >= 0 && index < 9)).toEqual(true);
+    expect(chooseFragments(12, 9, 1234)).toEqual(indexes);
+  });
+});
+
+describe('UrDecoder', () => {
+  const message = encodeCborBytes(makeMessage(1024));
+
+  it('decodes parts received in any order', () => {
+    const parts = encodeUr('crypto-psbt', message, { maxFragmentLength: 100 });
+    const decoder = new UrDecoder();
+
+    [...parts].reverse().forEach((part, i) => {
+      expect(decoder.isComplete).toEqual(false);
+      decoder.receivePart(part);
+      expect(decoder.progress).toEqual((i + 1) / parts.length);
+    });
+
+    expect(decoder.isComplete).toEqual(true);
+    expect(decoder.type).toEqual('crypto-psbt');
+    expect(decoder.message).toEqual(message);
+  });
+
+  it('recovers missing fragments from mixed parts', () => {
+    const parts = encodeUr('crypto-psbt', message, { maxFragmentLength: 100, extraParts: 100 });
+    const seqLength = 11;
+    const decoder = new UrDecoder();
+
+    // skip the first 3 plain fragments
+    for (const part of parts.slice(3)) {
+      decoder.receivePart(part);
+      if (decoder.isComplete) {
+        break;
+      }
+    }
+
+    expect(decoder.isComplete).toEqual(true);
+    expect(parts[seqLength - 1]).toContain(`/${seqLength}-${seqLength}/`);
+    expect(decodeCborBytes(decoder.message)).toEqual(makeMessage(1024));
+  });
+
+  it('throws on parts of a different message', () => {
+    const decoder = new UrDecoder();
+    decoder.receivePart(encodeUr('bytes', message, { maxFragmentLength: 100 })[0]);
+
+    expect(() => decoder.receivePart(encodeUr('bytes', message.slice(1), { maxFragmentLength: 100 })[1])).toThrow(
+      'UR part belongs to a different message',
+    );
+    expect(() => decoder.receivePart(encodeUr('psbt', message, { maxFragmentLength: 100 })[1])).toThrow(
+      'Unexpected UR type psbt, expected bytes',
+    );
+  });
+});
+
+describe('decodeUr', () => {
+  it('throws if parts are missing', () => {
+    const parts = encodeUr('bytes', encodeCborBytes(makeMessage(256)), { maxFragmentLength: 30 });
+
+    expect(() => decodeUr(parts.slice(1))).toThrow('Missing UR parts');
+    expect(decodeUr(parts).type).toEqual('bytes');
+  });
+});
@@ -1,35 +1,311 @@
 import { hex } from '@scure/base';
 import * as btc from '@scure/btc-signer';
 import { Transaction } from '@scure/btc-signer';
-import { TransactionContext } from './context';
-import { ExtendedUtxo } from './extendedUtxo';
+import { DEFAULT_DUST_VALUE } from '../../constant';
+import { InsufficientFundsError, type EsploraTransaction, type UTXO } from '../../types';
+import { decodeRunestoneFromScripts } from '../../utils/runestone';
+import { DEFAULT_LONG_TERM_FEE_RATE, getCoinSelectionStrategy, isWorthConsolidating } from './coinSelection';
+import { AddressContext, TransactionContext } from './context';
+import { ExtendedDummyUtxo, ExtendedUtxo } from './extendedUtxo';
+import { compilePolicy } from './policy';
 import {
+  CoinSelectionParams,
   CompilationOptions,
+  FeeSubtractionMode,
   ScriptAction,
   SendBtcAction,
   SendUtxoAction,
   SplitUtxoAction,
+  TimelockAction,
   TransactionOptions,
   TransactionOutput,
   TransactionScriptOutput,
 } from './types';
 import {
+  extractOutputInscriptionsAndSatributes,
   extractUsedOutpoints,
   getOffsetFromLocation,
   getOutpointFromLocation,
   getSortedAvailablePaymentUtxos,
+  getTransactionChainSizeAndFee,
   getTransactionTotals,
   getTransactionVSize,
 } from './utils';
 
 const DUST_VALUE = 546;
 
+/**
+ * Splits a fee between outputs, either proportionally to their amounts or equally. Sats which can't be split evenly
+ * are taken from the first outputs.
+ */
+const splitFee = (fee: bigint, amounts: bigint[], mode: FeeSubtractionMode): bigint[] => {
+  const totalAmount = amounts.reduce((acc, amount) => acc + amount, 0n);
+  const shares = amounts.map((amount) =>
+    mode === 'equal' ? fee / BigInt(amounts.length) : (fee * amount) / totalAmount,
+  );
+
+  let remainder = fee - shares.reduce((acc, share) => acc + share, 0n);
+  for (let i = 0; remainder > 0n; i = (i + 1) % shares.length) {
+    shares[i]++;
+    remainder--;
+  }
+
+  return shares;
+};
+
+/**
+ * Gets the sighash of the signature in a witness, which is the last byte of ECDSA signatures and of schnorr signatures
+ * which don't use the default sighash
+ */
+const getWitnessSigHash = (witness: Uint8Array[]): number | undefined => {
+  const [signature] = witness;
+
+  if (signature?.length === 64) {
+    return btc.SigHash.DEFAULT;
+  }
+
+  if (signature?.length === 65 || signature?.[0] === 0x30) {
+    return signature[signature.length - 1];
+  }
+
+  return undefined;
+};
+
+/**
+ * Adds the inputs of this wallet from the transaction being cancelled. Inputs of the ordinals address or holding
+ * inscriptions or runes go first and each pays its value back to the ordinals address, so inscriptions keep their
+ * offsets and runes go to the first of these outputs as there is no runestone. The other inputs go back as change.
+ */
+const applyCancelledTransaction = async (
+  context: TransactionContext,
+  options: CompilationOptions,
+  transaction: Transaction,
+  replacedTransaction: EsploraTransaction,
+) => {
+  const preservedUtxos: { extendedUtxo: ExtendedUtxo; addressContext: AddressContext }[] = [];
+  const paymentUtxos: { extendedUtxo: ExtendedUtxo; addressContext: AddressContext }[] = [];
+
+  for (const vin of replacedTransaction.vin) {
+    const addressContext = context.getAddressContext(vin.prevout.scriptpubkey_address ?? '');
+
+    // spending any of our inputs cancels the transaction, so inputs of other wallets are left out
+    if (!addressContext) {
+      continue;
+    }
+
+    const extendedUtxo = await addressContext.constructUtxo({
+      txid: vin.txid,
+      vout: vin.vout,
+      value: vin.prevout.value,
+      status: { confirmed: false },
+    });
+    const isOrdinalsUtxo =
+      context.paymentAddress !== context.ordinalsAddress && addressContext === context.ordinalsAddress;
+    const mustPreserveUtxo =
+      isOrdinalsUtxo || (await extendedUtxo.isEmbellished()) === true || !!(await extendedUtxo.hasRunes());
+
+    (mustPreserveUtxo ? preservedUtxos : paymentUtxos).push({ extendedUtxo, addressContext });
+  }
+
+  if (preservedUtxos.length === 0 && paymentUtxos.length === 0) {
+    throw new Error('The transaction has no inputs of this wallet to cancel it with');
+  }
+
+  const inputs: ExtendedUtxo[] = [];
+  const outputs: TransactionOutput[] = [];
+
+  for (const { extendedUtxo, addressContext } of preservedUtxos) {
+    const { value } = extendedUtxo.utxo;
+
+    // the replacement keeps signalling, so it can be replaced again
+    await addressContext.addInput(transaction, extendedUtxo, { ...options, rbfEnabled: true });
+    context.addOutputAddress(transaction, context.ordinalsAddress.address, BigInt(value));
+    inputs.push(extendedUtxo);
+
+    const { inscriptions, satributes } = await extractOutputInscriptionsAndSatributes([extendedUtxo], 0, value);
+    outputs.push({
+      type: 'address',
+      address: context.ordinalsAddress.address,
+      amount: value,
+      inscriptions,
+      satributes,
+    });
+  }
+
+  for (const { extendedUtxo, addressContext } of paymentUtxos) {
+    await addressContext.addInput(transaction, extendedUtxo, { ...options, rbfEnabled: true });
+    inputs.push(extendedUtxo);
+  }
+
+  return { inputs, outputs };
+};
+
+/**
+ * Adds the inputs and outputs of the transaction being replaced. Inputs keep their order and outputs their amounts, so
+ * inscriptions and rune edicts still go to the same outputs. Only a change output at the end without inscriptions or
+ * runes is dropped, so the fee can be paid from it and from new payment inputs.
+ *
+ * Inputs of other wallets keep their signatures, which is only possible if they don't commit to all inputs and outputs.
+ *
+ * Cancelling the transaction instead pays its inputs back to the wallet, see applyCancelledTransaction.
+ */
+export const applyReplacedTransaction = async (
+  context: TransactionContext,
+  options: CompilationOptions,
+  transaction: Transaction,
+  transactionOptions: TransactionOptions,
+) => {
+  const inputs: (ExtendedUtxo | ExtendedDummyUtxo)[] = [];
+  const outputs: (TransactionOutput | TransactionScriptOutput)[] = [];
+
+  if (!transactionOptions.replaceTxid) {
+    return { inputs, outputs, replacedFee: undefined, splitsRunes: false };
+  }
+
+  const { esploraApiProvider } = context;
+  const { fee: replacedFee } = await getTransactionChainSizeAndFee(esploraApiProvider, transactionOptions.replaceTxid);
+  const replacedTransaction = await esploraApiProvider.getTransaction(transactionOptions.replaceTxid);
+
+  if (transactionOptions.replaceMode === 'cancel') {
+    const cancelled = await applyCancelledTransaction(context, options, transaction, replacedTransaction);
+
+    return { ...cancelled, replacedFee, splitsRunes: false };
+  }
+
+  // outputs signed with SIGHASH_SINGLE by other wallets need to stay the same
+  const boundOutputIndexes = new Set<number>();
+  let hasExternalInputs = false;
+
+  for (const [inputIndex, vin] of replacedTransaction.vin.entries()) {
+    const utxo: UTXO = {
+      txid: vin.txid,
+      vout: vin.vout,
+      value: vin.prevout.value,
+      status: { confirmed: false },
+      address: vin.prevout.scriptpubkey_address ?? '',
+    };
+    const addressContext = context.getAddressContext(utxo.address);
+
+    if (addressContext) {
+      const extendedUtxo = await addressContext.constructUtxo(utxo);
+
+      // the replacement keeps signalling, so it can be replaced again
+      await addressContext.addInput(transaction, extendedUtxo, { ...options, rbfEnabled: true });
+      inputs.push(extendedUtxo);
+      continue;
+    }
+
+    const witness = (vin.witness ?? []).map((item) => hex.decode(item));
+    const sigHash = getWitnessSigHash(witness);
+
+    if (sigHash !== btc.SigHash.NONE_ANYONECANPAY && sigHash !== btc.SigHash.SINGLE_ANYONECANPAY) {
+      throw new Error(`Input ${inputIndex} is signed by another wallet for the replaced transaction only`);
+    }
+
+    if (sigHash === btc.SigHash.SINGLE_ANYONECANPAY) {
+      boundOutputIndexes.add(inputIndex);
+    }
+
+    transaction.addInput({
+      txid: vin.txid,
+      index: vin.vout,
+      witnessUtxo: { script: hex.decode(vin.prevout.scriptpubkey), amount: BigInt(vin.prevout.value) },
+      finalScriptSig: vin.scriptsig ? hex.decode(vin.scriptsig) : undefined,
+      finalScriptWitness: witness,
+      sighashType: sigHash,
+      sequence: vin.sequence,
+    });
+    inputs.push(new ExtendedDummyUtxo(utxo, utxo.address));
+    hasExternalInputs = true;
+  }
+
+  // all signatures commit to the version and lock time
+  if (
+    hasExternalInputs &&
+    (transaction.version !== replacedTransaction.version || transaction.lockTime !== replacedTransaction.locktime)
+  ) {
+    throw new Error('The replacement needs the version and lock time of the replaced transaction');
+  }
+
+  // outputs which receive runes through the runestone keep their index
+  const artifact = decodeRunestoneFromScripts(
+    replacedTransaction.vout.map(({ scriptpubkey }) => hex.decode(scriptpubkey)),
+  );
+  const runeOutputIndexes = new Set<number>();
+  let splitsRunes = false;
+
+  if (artifact?.Runestone) {
+    const { edicts, pointer } = artifact.Runestone;
+    const defaultOutputIndex = replacedTransaction.vout.findIndex(({ scriptpubkey }) => !scriptpubkey.startsWith('6a'));
+
+    for (const edict of edicts) {
+      runeOutputIndexes.add(edict.output.toNumber());
+    }
+
+    runeOutputIndexes.add(pointer ? pointer.toNumber() : defaultOutputIndex);
+    splitsRunes = edicts.some((edict) => edict.output.toNumber() === replacedTransaction.vout.length);
+  }
+
+  let currentOffset = 0;
+  for (const [outputIndex, vout] of replacedTransaction.vout.entries()) {
+    const script = hex.decode(vout.scriptpubkey);
+    const { inscriptions, satributes } = await extractOutputInscriptionsAndSatributes(
+      inputs,
+      currentOffset,
+      vout.value,
+    );
+    currentOffset += vout.value;
+
+    const isChange =
+      outputIndex === replacedTransaction.vout.length - 1 &&
+      vout.scriptpubkey_address === context.changeAddress &&
+      inscriptions.length === 0 &&
+      satributes.length === 0 &&
+      !runeOutputIndexes.has(outputIndex) &&
+      !splitsRunes &&
+      !boundOutputIndexes.has(outputIndex);
+
+    if (isChange) {
+      continue;
+    }
+
+    transaction.addOutput({ script, amount: BigInt(vout.value) });
+
+    if (vout.scriptpubkey_address) {
+      outputs.push({
+        type: 'address',
+        address: vout.scriptpubkey_address,
+        amount: vout.value,
+        inscriptions,
+        satributes,
+      });
+    } else {
+      outputs.push({
+        type: 'script',
+        script: btc.Script.decode(script).map((i) => (i instanceof Uint8Array ? hex.encode(i) : `${i}`)),
+        scriptHex: vout.scriptpubkey,
+        amount: vout.value,
+      });
+    }
+  }
+
+  return { inputs, outputs, replacedFee, splitsRunes };
+};
+
 export const applyScriptActions = async (transaction: Transaction, actions: ScriptAction[]) => {
   const outputs: TransactionScriptOutput[] = [];
 
   for (const action of actions) {
-    const { script } = action;
-    const amount = 0n;
+    // policies are compiled into the output script that pays to them, while raw scripts are data outputs
+    const script =
+      'policy' in action
+        ? compilePolicy(
+            action.policy,
+            action.scriptType,
+            action.internalKey ? hex.decode(action.internalKey) : undefined,
+          ).script
+        : action.script;
+    const amount = 'policy' in action ? action.amount : 0n;
 
     const decodedScript = script instanceof Uint8Array ? btc.Script.decode(script) : script;
     const encodedScript = script instanceof Uint8Array ? script : btc.Script.encode(script);
@@ -47,6 +323,28 @@ export const applyScriptActions = async (transaction: Transaction, actions: Scri
   return { outputs };
 };
 
+export const applyTimelockActions = async (
+  context: TransactionContext,
+  transaction: Transaction,
+  actions: TimelockAction[],
+) => {
+  const outputs: Omit<TransactionOutput, 'inscriptions' | 'satributes'>[] = [];
+
+  for (const { amount, timelock } of actions) {
+    if (amount < DUST_VALUE) {
+      throw new Error(`Cannot lock ${amount} sats as it is below dust`);
+    }
+
+    // the payment address only tracks the locked output once the transaction is broadcast
+    const { address } = context.paymentAddress.getTimelockPayment(timelock);
+    context.addOutputAddress(transaction, address, amount);
+
+    outputs.push({ type: 'address', address, amount: Number(amount) });
+  }
+
+  return { outputs };
+};
+
 export const applySendUtxoActions = async (
   context: TransactionContext,
   options: CompilationOptions,
@@ -247,8 +545,14 @@ export const applySendBtcActionsAndFee = async (
 
   // compile amounts to send to each address
   const addressSendMap: { [address: string]: { combinableAmount: bigint; individualAmounts: bigint[] } } = {};
+  const subtractFeeActions: SendBtcAction[] = [];
   for (const action of actions) {
-    const { amount, combinable, toAddress } = action;
+    const { amount, combinable, toAddress, subtractFee } = action;
+
+    if (subtractFee) {
+      subtractFeeActions.push(action);
+      continue;
+    }
 
     if (!addressSendMap[toAddress]) {
       addressSendMap[toAddress] = {
@@ -293,6 +597,23 @@ export const applySendBtcActionsAndFee = async (
     }
   }
 
+  // outputs which pay the fee are added last so that we can find them to update their amounts
+  const subtractFeeOutputs = subtractFeeActions.map(({ toAddress, amount }) => {
+    const outputIndex = transaction.outputsLength;
+    context.addOutputAddress(transaction, toAddress, amount);
+
+    const output: Omit<TransactionOutput, 'inscriptions' | 'satributes'> = {
+      type: 'address',
+      amount: Number(amount),
+      address: toAddress,
+    };
+    outputs.push(output);
+
+    return { outputIndex, output, amount };
+  });
+  const subtractFeeTotal = subtractFeeOutputs.reduce((acc, { amount }) => acc + amount, 0n);
+  const isSubtractingFee = subtractFeeOutputs.length > 0;
+
   // now, add inputs to cover the outputs at the desired fee rate
   const { inputValue, outputValue: totalOutputs } = await getTransactionTotals(transaction);
   let totalInputs = inputValue;
@@ -321,6 +642,11 @@ export const applySendBtcActionsAndFee = async (
     }
   }
 
+  // Fees are rounded up to whole sats, as fractional fee rates and the vsize of unconfirmed ancestors (a weight
+  // divided by 4) give fractional fees, which BigInt rejects. Ancestors only count with the effective fee rate, and
+  // then they are paid for whether the transaction ends up with change or not.
+  const getFee = (vsize: number) => BigInt(Math.ceil((vsize + unconfirmedVsize) * feeRate - unconfirmedFee));
+
   let actualFeeRate = feeRate;
   let effectiveFeeRate = feeRate;
 
@@ -350,7 +676,8 @@ export const applySendBtcActionsAndFee = async (
       overrideChangeAddress ?? context.changeAddress,
     );
 
-    const totalCostWithConfirmed = totalOutputs + BigInt(allConfirmedUtxoTxnVSize * feeRate);
+    const totalCostWithConfirmed =
+      totalOutputs + (isSubtractingFee ? 0n : BigInt(Math.ceil(allConfirmedUtxoTxnVSize * feeRate)));
 
     canCoverCostsWithConfirmed = totalInputWithConfirmed - totalCostWithConfirmed >= 0n;
   }
@@ -368,9 +695,50 @@ export const applySendBtcActionsAndFee = async (
   const initialTxVSize = getTransactionVSize(context, transaction);
   const initialInputCount = transaction.inputsLength;
 
+  // let the coin selection strategy decide the order in which to add the available UTXOs
+  const coinSelectionStrategy = getCoinSelectionStrategy(transactionOptions.coinSelectionStrategy);
+  const longTermFeeRate = transactionOptions.longTermFeeRate ?? DEFAULT_LONG_TERM_FEE_RATE;
+  const { outputSize } = context.paymentAddress.getIOSizes();
+  const costOfChange = outputSize * feeRate + inputSize * longTermFeeRate;
+  const initialFee = getFee(initialTxVSize);
+
+  // unconfirmed UTXOs also have to pay for their ancestors, which can be negative if the ancestors overpay
+  const ancestorFees: Record<string, number> = {};
+  if (transactionOptions.useEffectiveFeeRate) {
+    for (const utxo of unusedPaymentUtxos) {
+      if (utxo.utxo.status.confirmed) {
+        continue;
+      }
+
+      const { totalVsize, totalFee } = await utxo.getUnconfirmedUtxoFeeData();
+      ancestorFees[utxo.outpoint] = totalVsize * feeRate - totalFee;
+    }
+  }
+
+  const coinSelectionParams: CoinSelectionParams = {
+    utxos: unusedPaymentUtxos,
+    target: totalOutputs + (isSubtractingFee ? 0n : initialFee) - totalInputs,
+    feeRate,
+    longTermFeeRate,
+    inputSize,
+    costOfChange,
+    ancestorFees,
+  };
+  const selectedUtxos = await coinSelectionStrategy.select(coinSelectionParams);
+
+  // the waste of a selection is the extra fee paid for the inputs compared to spending them at the long term fee
+  // rate, plus either the cost of the change output or the excess given to the miners when there is no change
+  let waste = 0;
+
+  // the part of the fee which is subtracted from the outputs of the send actions that asked for it
+  let feeFromOutputs = 0n;
+
   while (!complete) {
     const currentChange = totalInputs - totalOutputs;
 
+    // outputs which subtract the fee can pay for it, but their full amounts still need to be covered by the inputs
+    const feeBudget = isSubtractingFee && currentChange >= 0n ? currentChange + subtractFeeTotal : currentChange;
+
     const addedInputs = transaction.inputsLength - initialInputCount;
     const addedVSized = addedInputs * inputSize;
 
@@ -379,29 +747,49 @@ export const applySendBtcActionsAndFee = async (
     // use this to get a conservative estimate of the fees so we don't estimate too many transactions below
     const totalEstimatedFee = (currentVSize + unconfirmedVsize) * feeRate - unconfirmedFee;
 
-    if (totalEstimatedFee < currentChange) {
-      const vSizeWithChange = getTransactionVSize(context, transaction, overrideChangeAddress ?? context.changeAddress);
+    // consolidating strategies keep spending the selected UTXOs while it is cheaper than spending them later
+    const isConsolidating =
+      !!coinSelectionStrategy.consolidate &&
+      selectedUtxos.length > 0 &&
+      isWorthConsolidating(selectedUtxos[0], coinSelectionParams);
+
+    // changeless selections can match the target exactly, so the estimate may use up the whole budget
+    if (
+      !isConsolidating &&
+      (coinSelectionStrategy.avoidChange ? totalEstimatedFee <= feeBudget : totalEstimatedFee < feeBudget)
+    ) {
+      // strategies which avoid change give an excess worth less than the cost of change to the fee instead
+      const changelessVSize = coinSelectionStrategy.avoidChange ? getTransactionVSize(context, transaction) : undefined;
+      const isChangeless = !!changelessVSize && Number(feeBudget - getFee(changelessVSize)) <= costOfChange;
+
+      const vSizeWithChange = isChangeless
+        ? undefined
+        : getTransactionVSize(context, transaction, overrideChangeAddress ?? context.changeAddress);
 
       if (vSizeWithChange) {
-        const feeWithChange = BigInt((vSizeWithChange + unconfirmedVsize) * feeRate - unconfirmedFee);
+        const feeWithChange = getFee(vSizeWithChange);
+        // when subtracting the fee from outputs, all of it is paid by them and the change is left untouched
+        const changeAfterFee = isSubtractingFee ? currentChange : currentChange - feeWithChange;
 
-        if (feeWithChange < currentChange && currentChange - feeWithChange > DUST_VALUE) {
+        if (feeWithChange < feeBudget && changeAfterFee > DUST_VALUE) {
           // we do one last test to ensure that adding close to the actual change won't increase the fees
           const vSizeWithActualChange = getTransactionVSize(
             context,
             transaction,
             overrideChangeAddress ?? context.changeAddress,
-            currentChange - feeWithChange,
+            changeAfterFee,
           );
 
           const finalVSizeWithChange = Math.max(vSizeWithActualChange ?? vSizeWithChange, vSizeWithChange);
 
           if (finalVSizeWithChange) {
-            actualFee = BigInt((finalVSizeWithChange + unconfirmedVsize) * feeRate - unconfirmedFee);
+            actualFee = getFee(finalVSizeWithChange);
             actualFeeRate = Number(actualFee) / finalVSizeWithChange;
             effectiveFeeRate = (Number(actualFee) + unconfirmedFee) / (finalVSizeWithChange + unconfirmedVsize);
 
-            const change = currentChange - actualFee;
+            feeFromOutputs = isSubtractingFee ? actualFee : 0n;
+            const change = currentChange - actualFee + feeFromOutputs;
+            waste += costOfChange;
             context.addOutputAddress(transaction, overrideChangeAddress ?? context.changeAddress, change);
             outputs.push({
               type: 'address',
@@ -415,13 +803,16 @@ export const applySendBtcActionsAndFee = async (
         }
       }
 
-      const vSizeNoChange = getTransactionVSize(context, transaction);
+      const vSizeNoChange = changelessVSize ?? getTransactionVSize(context, transaction);
 
       if (vSizeNoChange) {
-        const feeWithoutChange = BigInt(vSizeNoChange * feeRate);
+        const feeWithoutChange = getFee(vSizeNoChange);
 
-        if (feeWithoutChange <= currentChange) {
-          actualFee = currentChange;
+        if (feeWithoutChange <= feeBudget) {
+          // any excess over the fee still goes to the miners rather than back to the outputs
+          feeFromOutputs = feeWithoutChange > currentChange ? feeWithoutChange - currentChange : 0n;
+          waste += Number(currentChange + feeFromOutputs - feeWithoutChange);
+          actualFee = currentChange + feeFromOutputs;
           actualFeeRate = Number(actualFee) / vSizeNoChange;
           effectiveFeeRate = (Number(actualFee) + unconfirmedFee) / (vSizeNoChange + unconfirmedVsize);
           complete = true;
@@ -430,10 +821,10 @@ export const applySendBtcActionsAndFee = async (
       }
     }
 
-    const utxoToUse = unusedPaymentUtxos.pop();
+    const utxoToUse = selectedUtxos.shift();
 
     if (!utxoToUse) {
-      throw new Error('No more UTXOs to use. Insufficient funds for this transaction');
+      throw new InsufficientFundsError();
     }
 
     if (transactionOptions.useEffectiveFeeRate) {
@@ -444,16 +835,44 @@ export const applySendBtcActionsAndFee = async (
     }
 
     totalInputs += BigInt(utxoToUse.utxo.value);
+    waste += inputSize * (feeRate - longTermFeeRate) + (ancestorFees[utxoToUse.outpoint] ?? 0);
     await context.paymentAddress.addInput(transaction, utxoToUse, options);
     inputs.push(utxoToUse);
   }
 
+  const feeShares =
+    feeFromOutputs > 0n
+      ? splitFee(
+          feeFromOutputs,
+          subtractFeeOutputs.map(({ amount }) => amount),
+          transactionOptions.feeSubtraction ?? 'proportional',
+        )
+      : subtractFeeOutputs.map(() => 0n);
+
+  subtractFeeOutputs.forEach(({ outputIndex, output, amount }, i) => {
+    const netAmount = amount - feeShares[i];
+
+    if (netAmount < DEFAULT_DUST_VALUE) {
+      throw new Error(`Output to ${output.address} is below dust after subtracting the fee`);
+    }
+
+    if (feeShares[i] > 0n) {
+      transaction.updateOutput(outputIndex, { amount: netAmount });
+      output.amount = Number(netAmount);
+      output.subtractedFee = Number(feeShares[i]);
+    }
+  });
+
   return {
     actualFeeRate,
     effectiveFeeRate: transactionOptions.useEffectiveFeeRate ? effectiveFeeRate : undefined,
     actualFee,
     inputs,
     outputs,
-    dustValue: BigInt(inputDustValueAtFeeRate),
+    dustValue: BigInt(Math.ceil(inputDustValueAtFeeRate)),
+    coinSelection: {
+      strategy: coinSelectionStrategy.name,
+      waste: Math.round(waste),
+    },
   };
 };
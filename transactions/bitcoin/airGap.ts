@@ -0,0 +1,73 @@
+import { BbqrDecoder, encodeBbqr } from '../../utils/bbqr';
+import { UrDecoder, decodeCborBytes, encodeCborBytes, encodeUr } from '../../utils/ur';
+
+export type AirGapFormat = 'ur' | 'bbqr';
+
+export type AirGappedSigner = {
+  /** The fingerprint of the master key of the signer as 8 hex characters */
+  masterFingerprint: string;
+  /** The QR encoding to export the unsigned PSBT with */
+  format: AirGapFormat;
+  /**
+   * Displays the frames of the unsigned PSBT and resolves with the scanned frames of the signed PSBT, which may be in
+   * either format. The signed PSBT should not be finalized.
+   */
+  exchangeFrames: (frames: string[]) => Promise<string[]>;
+};
+
+const UR_PSBT_TYPES = ['crypto-psbt', 'psbt'];
+
+/**
+ * Encodes a PSBT as animated QR frames, either as a UR of type crypto-psbt or as BBQr
+ */
+export const encodePsbtFrames = (psbt: Uint8Array, format: AirGapFormat): string[] => {
+  if (format === 'ur') {
+    return encodeUr('crypto-psbt', encodeCborBytes(psbt));
+  }
+
+  return encodeBbqr(psbt, { fileType: 'P' });
+};
+
+/**
+ * Decodes the scanned frames of a PSBT, detecting whether they are UR or BBQr encoded
+ */
+export const decodePsbtFrames = (frames: string[]): Uint8Array => {
+  if (frames.length === 0) {
+    throw new Error('No frames to decode');
+  }
+
+  if (frames[0].trim().toLowerCase().startsWith('ur:')) {
+    const decoder = new UrDecoder();
+    frames.forEach((frame) => decoder.receivePart(frame));
+
+    if (!decoder.isComplete) {
+      throw new Error('Missing UR parts');
+    }
+    if (!UR_PSBT_TYPES.includes(decoder.type as string)) {
+      throw new Error(`Unexpected UR type ${decoder.type}`);
+    }
+
+    return decodeCborBytes(decoder.message);
+  }
+
+  const decoder = new BbqrDecoder();
+  frames.forEach((frame) => decoder.receivePart(frame));
+
+  if (!decoder.isComplete) {
+    throw new Error('Missing BBQr frames');
+  }
+  if (decoder.fileType !== 'P') {
+    throw new Error(`Unexpected BBQr file type ${decoder.fileType}`);
+  }
+
+  return decoder.data;
+};
+
+/**
+ * Hands a PSBT to an air-gapped signer and returns the signed PSBT
+ */
+export const signPsbtAirGapped = async (psbt: Uint8Array, signer: AirGappedSigner): Promise<Uint8Array> => {
+  const signedFrames = await signer.exchangeFrames(encodePsbtFrames(psbt, signer.format));
+
+  return decodePsbtFrames(signedFrames);
+};
@@ -0,0 +1,194 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { Mutex } from 'async-mutex';
+import EsploraProvider from '../../api/esplora/esploraAPiProvider';
+import type { NetworkType, StorageAdapter } from '../../types';
+import { LOCKTIME_THRESHOLD } from './timelocks';
+
+export type ScheduledTransaction = {
+  id: string;
+  hex: string;
+  /** The lock time of the transaction, which can be broadcast once the tip reaches this height */
+  lockHeight: number;
+  /** The error of the last broadcast attempt, e.g. if an input was spent in the meantime */
+  lastError?: string;
+};
+
+export type BroadcastQueueOptions = {
+  network: NetworkType;
+  storageAdapter: StorageAdapter;
+  esploraApiProvider: EsploraProvider;
+  /** Called by the polling with the transactions it broadcast */
+  onBroadcast?: (transactions: ScheduledTransaction[]) => void;
+  /** Called by the polling when the queue can't be checked, e.g. if the tip can't be fetched. It retries on the next
+   * poll either way. */
+  onError?: (error: unknown) => void;
+};
+
+const DEFAULT_POLL_INTERVAL = 1000 * 60; // 1 minute
+
+/**
+ * Holds signed transactions locked to a future block height until they can be mined. The queue is persisted through
+ * the storage adapter, so scheduled transactions survive restarts, and is broadcast once the tip reaches their height.
+ */
+export class BroadcastQueue {
+  private readonly _network: NetworkType;
+
+  private readonly _storageAdapter: StorageAdapter;
+
+  private readonly _esploraApiProvider: EsploraProvider;
+
+  private readonly _onBroadcast?: (transactions: ScheduledTransaction[]) => void;
+
+  private readonly _onError?: (error: unknown) => void;
+
+  private readonly _mutex = new Mutex();
+
+  private _pollTimer?: ReturnType<typeof setInterval>;
+
+  constructor(options: BroadcastQueueOptions) {
+    this._network = options.network;
+    this._storageAdapter = options.storageAdapter;
+    this._esploraApiProvider = options.esploraApiProvider;
+    this._onBroadcast = options.onBroadcast;
+    this._onError = options.onError;
+  }
+
+  private get _storageKey(): string {
+    return `broadcastQueue-${this._network}`;
+  }
+
+  private async _getQueue(): Promise<ScheduledTransaction[]> {
+    const queueStr = await this._storageAdapter.get(this._storageKey);
+
+    return queueStr ? (JSON.parse(queueStr) as ScheduledTransaction[]) : [];
+  }
+
+  private async _setQueue(queue: ScheduledTransaction[]): Promise<void> {
+    await this._storageAdapter.set(this._storageKey, JSON.stringify(queue));
+  }
+
+  async getScheduledTransactions(): Promise<ScheduledTransaction[]> {
+    return this._getQueue();
+  }
+
+  /**
+   * Adds a signed transaction to the queue. Its lock time needs to be a block height, and at least one of its inputs
+   * needs a non-final sequence for the lock time to be enforced.
+   */
+  async add(transactionHex: string): Promise<ScheduledTransaction> {
+    const transaction = btc.Transaction.fromRaw(hex.decode(transactionHex), {
+      allowUnknownInputs: true,
+      allowUnknownOutputs: true,
+    });
+    const lockHeight = transaction.lockTime;
+
+    if (lockHeight === 0 || lockHeight >= LOCKTIME_THRESHOLD) {
+      throw new Error('Only transactions locked to a block height can be scheduled');
+    }
+
+    const hasNonFinalInput = Array.from({ length: transaction.inputsLength }).some(
+      (_, i) => transaction.getInput(i).sequence !== 0xffffffff,
+    );
+
+    if (!hasNonFinalInput) {
+      throw new Error('The lock time of the transaction is not enforced as all its inputs are final');
+    }
+
+    const scheduledTransaction: ScheduledTransaction = { id: transaction.id, hex: transactionHex, lockHeight };
+
+    const release = await this._mutex.acquire();
+    try {
+      const queue = await this._getQueue();
+
+      if (!queue.some(({ id }) => id === scheduledTransaction.id)) {
+        await this._setQueue([...queue, scheduledTransaction]);
+      }
+    } finally {
+      release();
+    }
+
+    return scheduledTransaction;
+  }
+
+  async remove(id: string): Promise<void> {
+    const release = await this._mutex.acquire();
+    try {
+      const queue = await this._getQueue();
+
+      await this._setQueue(queue.filter((scheduledTransaction) => scheduledTransaction.id !== id));
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Broadcasts the transactions which can be mined in the next block and removes them from the queue. Transactions
+   * which fail to broadcast are kept with the error, so they can be inspected and removed.
+   */
+  async broadcastDue(): Promise<ScheduledTransaction[]> {
+    const release = await this._mutex.acquire();
+    try {
+      const queue = await this._getQueue();
+
+      if (queue.length === 0) {
+        return [];
+      }
+
+      const tipHeight = await this._esploraApiProvider.getLatestBlockHeight();
+
+      const broadcastTransactions: ScheduledTransaction[] = [];
+      const remainingTransactions: ScheduledTransaction[] = [];
+
+      for (const scheduledTransaction of queue) {
+        // a transaction is final in blocks above its lock time
+        if (scheduledTransaction.lockHeight > tipHeight) {
+          remainingTransactions.push(scheduledTransaction);
+          continue;
+        }
+
+        try {
+          await this._esploraApiProvider.sendRawTransaction(scheduledTransaction.hex);
+          broadcastTransactions.push(scheduledTransaction);
+        } catch (err) {
+          remainingTransactions.push({
+            ...scheduledTransaction,
+            lastError: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+
+      await this._setQueue(remainingTransactions);
+
+      return broadcastTransactions;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Polls the tip and broadcasts due transactions until stopped, reporting through the onBroadcast and onError options
+   */
+  start(pollInterval = DEFAULT_POLL_INTERVAL): void {
+    if (this._pollTimer) {
+      return;
+    }
+
+    this._pollTimer = setInterval(async () => {
+      try {
+        const broadcastTransactions = await this.broadcastDue();
+
+        if (broadcastTransactions.length > 0) {
+          this._onBroadcast?.(broadcastTransactions);
+        }
+      } catch (err) {
+        this._onError?.(err);
+      }
+    }, pollInterval);
+  }
+
+  stop(): void {
+    clearInterval(this._pollTimer);
+    this._pollTimer = undefined;
+  }
+}
@@ -0,0 +1,195 @@
+import { ExtendedUtxo } from './extendedUtxo';
+import { CoinSelectionParams, CoinSelectionStrategy, CoinSelector } from './types';
+
+export const DEFAULT_LONG_TERM_FEE_RATE = 10;
+
+// the maximum number of branches the branch and bound search will explore before giving up
+const BNB_MAX_TRIES = 100000;
+
+const getEffectiveValue = (utxo: ExtendedUtxo, { feeRate, inputSize, ancestorFees }: CoinSelectionParams) =>
+  utxo.utxo.value - inputSize * feeRate - (ancestorFees[utxo.outpoint] ?? 0);
+
+const sortLargestFirst = (utxos: ExtendedUtxo[]) =>
+  [...utxos].sort((a, b) => {
+    const diff = b.utxo.value - a.utxo.value;
+    if (diff !== 0) {
+      return diff;
+    }
+    // this is just for consistent sorting
+    return b.outpoint.localeCompare(a.outpoint);
+  });
+
+/**
+ * Spends the biggest UTXOs first, which keeps the number of inputs and the fee to a minimum.
+ */
+export const largestFirstStrategy: CoinSelectionStrategy = {
+  name: 'largestFirst',
+  select: ({ utxos }) => sortLargestFirst(utxos),
+};
+
+/**
+ * Whether spending a UTXO now is cheaper than spending it at the long term fee rate, i.e. its waste is negative, while
+ * it is still worth more than the fee to spend it
+ */
+export const isWorthConsolidating = (utxo: ExtendedUtxo, params: CoinSelectionParams) => {
+  const { feeRate, longTermFeeRate, inputSize, ancestorFees } = params;
+  const waste = inputSize * (feeRate - longTermFeeRate) + (ancestorFees[utxo.outpoint] ?? 0);
+
+  return waste < 0 && getEffectiveValue(utxo, params) > 0;
+};
+
+/**
+ * Spends the smallest UTXOs first. While the fee rate is below the long term fee rate, the UTXOs left after covering
+ * the target are spent as well, which consolidates them into the change.
+ */
+export const smallestFirstStrategy: CoinSelectionStrategy = {
+  name: 'smallestFirst',
+  consolidate: true,
+  select: ({ utxos }) =>
+    [...utxos].sort((a, b) => {
+      const diff = a.utxo.value - b.utxo.value;
+      if (diff !== 0) {
+        return diff;
+      }
+      return a.outpoint.localeCompare(b.outpoint);
+    }),
+};
+
+/**
+ * Searches for a set of UTXOs that covers the target without needing a change output, as described in
+ * https://murch.one/erhardt2016coinselection.pdf. Of all the matches found, the one with the least waste is used.
+ * If there is no changeless match, this falls back to largest first. The fees of unconfirmed ancestors count towards
+ * both the value and the waste of a UTXO.
+ */
+export const branchAndBoundStrategy: CoinSelectionStrategy = {
+  name: 'branchAndBound',
+  avoidChange: true,
+  select: (params) => {
+    const { feeRate, longTermFeeRate, inputSize, costOfChange, ancestorFees } = params;
+    const target = Number(params.target);
+    const inputWaste = inputSize * (feeRate - longTermFeeRate);
+
+    const candidates = sortLargestFirst(params.utxos)
+      .map((utxo) => ({
+        utxo,
+        value: getEffectiveValue(utxo, params),
+        waste: inputWaste + (ancestorFees[utxo.outpoint] ?? 0),
+      }))
+      .filter((candidate) => candidate.value > 0);
+
+    // the total value of all candidates from an index onwards, used to prune branches which can't reach the target
+    const remainingValues = new Array<number>(candidates.length + 1).fill(0);
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      remainingValues[i] = remainingValues[i + 1] + candidates[i].value;
+    }
+
+    let tries = 0;
+    let bestSelection: number[] | undefined;
+    let bestWaste = Infinity;
+    const selection: number[] = [];
+
+    const search = (index: number, value: number, waste: number) => {
+      tries++;
+
+      if (tries > BNB_MAX_TRIES || value > target + costOfChange) {
+        return;
+      }
+
+      // when the fee rate is higher than the long term fee rate, every extra input adds waste
+      if (inputWaste > 0 && waste > bestWaste) {
+        return;
+      }
+
+      if (value >= target) {
+        const totalWaste = waste + value - target;
+        if (totalWaste < bestWaste) {
+          bestSelection = [...selection];
+          bestWaste = totalWaste;
+        }
+        return;
+      }
+
+      if (index >= candidates.length || value + remainingValues[index] < target) {
+        return;
+      }
+
+      selection.push(index);
+      search(index + 1, value + candidates[index].value, waste + candidates[index].waste);
+      selection.pop();
+
+      // skipping a UTXO means skipping all the following ones of the same value, as those branches are equivalent
+      let nextIndex = index + 1;
+      while (nextIndex < candidates.length && candidates[nextIndex].value === candidates[index].value) {
+        nextIndex++;
+      }
+      search(nextIndex, value, waste);
+    };
+
+    search(0, 0, 0);
+
+    if (!bestSelection) {
+      return largestFirstStrategy.select(params);
+    }
+
+    const selectedUtxos = bestSelection.map((index) => candidates[index].utxo);
+
+    // the rest of the UTXOs are kept as a fallback in case the estimates were off
+    return [...selectedUtxos, ...sortLargestFirst(params.utxos.filter((utxo) => !selectedUtxos.includes(utxo)))];
+  },
+};
+
+/**
+ * Avoids linking UTXOs together where possible. A single UTXO which covers the target is preferred, then UTXOs
+ * from a single address, and only if neither works do we mix UTXOs from multiple addresses.
+ */
+export const privacyStrategy: CoinSelectionStrategy = {
+  name: 'privacy',
+  select: (params) => {
+    const target = Number(params.target);
+    const largestFirst = sortLargestFirst(params.utxos);
+
+    const singleUtxo = [...largestFirst].reverse().find((utxo) => getEffectiveValue(utxo, params) >= target);
+
+    if (singleUtxo) {
+      return [singleUtxo, ...largestFirst.filter((utxo) => utxo !== singleUtxo)];
+    }
+
+    const utxosByAddress = new Map<string, ExtendedUtxo[]>();
+    for (const utxo of largestFirst) {
+      utxosByAddress.set(utxo.address, [...(utxosByAddress.get(utxo.address) ?? []), utxo]);
+    }
+
+    let bestGroup: ExtendedUtxo[] | undefined;
+    for (const group of utxosByAddress.values()) {
+      let value = 0;
+      let inputCount = 0;
+      while (value < target && inputCount < group.length) {
+        value += getEffectiveValue(group[inputCount], params);
+        inputCount++;
+      }
+
+      if (value >= target && (!bestGroup || inputCount < bestGroup.length)) {
+        bestGroup = group.slice(0, inputCount);
+      }
+    }
+
+    if (!bestGroup) {
+      return largestFirst;
+    }
+
+    const selectedUtxos = bestGroup;
+    return [...selectedUtxos, ...largestFirst.filter((utxo) => !selectedUtxos.includes(utxo))];
+  },
+};
+
+export const getCoinSelectionStrategy = (strategy?: CoinSelectionStrategy | CoinSelector): CoinSelectionStrategy => {
+  if (!strategy) {
+    return largestFirstStrategy;
+  }
+
+  if (typeof strategy === 'function') {
+    return { name: 'custom', select: strategy };
+  }
+
+  return strategy;
+};
@@ -9,16 +9,55 @@ import { UtxoCache } from '../../api/utxoCache';
 import { BTC_SEGWIT_PATH_PURPOSE, BTC_TAPROOT_PATH_PURPOSE } from '../../constant';
 import { Transport } from '../../ledger/types';
 import { SeedVault } from '../../seedVault';
-import { type NetworkType, type UTXO } from '../../types';
-import { bip32 } from '../../utils/bip32';
-import { getBitcoinDerivationPath, getSegwitDerivationPath, getTaprootDerivationPath } from '../../wallet';
+import { WatchOnlySigningError, type NetworkType, type StorageAdapter, type UTXO } from '../../types';
+import { BIP32Interface, bip32 } from '../../utils/bip32';
+import {
+  getBitcoinDerivationPath,
+  getMultisigDerivationPath,
+  getSegwitDerivationPath,
+  getSilentPaymentDerivationPath,
+  getTaprootDerivationPath,
+} from '../../wallet';
 import { InputToSign } from '../psbt';
+import { AirGappedSigner, signPsbtAirGapped } from './airGap';
 import { ExtendedUtxo } from './extendedUtxo';
+import { HdAddress, HdChain, deriveHdAddress, getHdAccountPath, getHdPayment } from './hdAccount';
+import { MultisigPayment, getMultisigPayment } from './multisigAccount';
+import { getMusigParticipantsField, signMusigInput } from './musig2';
+import { getPolicyInputFields } from './policy';
+import {
+  RuneCommitmentPayment,
+  RuneCommitmentUtxo,
+  finalizeRuneCommitmentInput,
+  getRuneCommitmentPayment,
+  isRuneCommitmentMature,
+} from './runeCommitments';
+import {
+  SilentPaymentShare,
+  addSilentPaymentOutput,
+  applySilentPaymentShares,
+  getSilentPaymentOutputPrivateKey,
+  getSilentPaymentScanKeys,
+  getSilentPaymentShare,
+  isSilentPaymentAddress,
+  signSilentPaymentInput,
+} from './silentPayments';
+import {
+  Timelock,
+  TimelockPayment,
+  TimelockedUtxo,
+  finalizeTimelockInput,
+  getMedianTimePast,
+  getTimelockInputFields,
+  getTimelockPayment,
+  isTimelockMature,
+} from './timelocks';
 import { CompilationOptions, SupportedAddressType } from './types';
 import { areByteArraysEqual } from './utils';
 
 export type SignOptions = {
   ledgerTransport?: Transport;
+  airGappedSigner?: AirGappedSigner;
   allowedSigHash?: btc.SigHash[];
   inputsToSign?: InputToSign[];
 };
@@ -44,6 +83,16 @@ export abstract class AddressContext {
 
   protected _getUtxoMutex: Mutex = new Mutex();
 
+  private _timelockPayments: TimelockPayment[] = [];
+
+  private _timelockedUtxos?: TimelockedUtxo[];
+
+  private _timelockStorageAdapter?: StorageAdapter;
+
+  private _areStoredTimelocksLoaded = false;
+
+  private _pendingUtxos: ExtendedUtxo[] = [];
+
   constructor(
     type: SupportedAddressType,
     address: string,
@@ -72,18 +121,152 @@ export abstract class AddressContext {
     return this._address;
   }
 
+  get changeAddress(): string {
+    return this._address;
+  }
+
+  get esploraApiProvider(): EsploraProvider {
+    return this._esploraApiProvider;
+  }
+
   async getUtxos(): Promise<ExtendedUtxo[]> {
     const release = await this._getUtxoMutex.acquire();
+    let utxos: ExtendedUtxo[];
     try {
       if (!this._utxos) {
-        const utxos = await this._esploraApiProvider.getUnspentUtxos(this._address);
+        const addressUtxos = await this._esploraApiProvider.getUnspentUtxos(this._address);
 
-        this._utxos = utxos.map(
+        this._utxos = addressUtxos.map(
           (utxo) => new ExtendedUtxo(utxo, this._address, this._utxoCache, this._esploraApiProvider),
         );
       }
 
-      return [...this._utxos];
+      utxos = [...this._utxos];
+    } finally {
+      release();
+    }
+
+    // timelocked UTXOs are only spendable once they mature
+    const timelockedUtxos = await this.getTimelockedUtxos();
+
+    return [...utxos, ...timelockedUtxos.filter(({ mature }) => mature).map(({ extendedUtxo }) => extendedUtxo)];
+  }
+
+  async getLatestBlockHeight(): Promise<number> {
+    return this._esploraApiProvider.getLatestBlockHeight();
+  }
+
+  /**
+   * Returns the output which locks funds to the key of this address until the timelock expires
+   */
+  getTimelockPayment(timelock: Timelock): TimelockPayment {
+    return getTimelockPayment(
+      hex.decode(this._publicKey),
+      this._type === 'p2tr' ? 'tr' : 'wsh',
+      timelock,
+      this._network,
+    );
+  }
+
+  private get _timelockStorageKey(): string {
+    return `timelocks-${this._network}-${this._address}`;
+  }
+
+  /**
+   * Persists the tracked timelocks through the storage adapter, so their UTXOs stay spendable after restarts. The
+   * stored timelocks are loaded the first time the UTXOs are fetched.
+   */
+  setTimelockStorage(storageAdapter: StorageAdapter): void {
+    this._timelockStorageAdapter = storageAdapter;
+    this._areStoredTimelocksLoaded = false;
+  }
+
+  private trackTimelocks(timelocks: Timelock[]): boolean {
+    let isChanged = false;
+
+    for (const timelock of timelocks) {
+      const payment = this.getTimelockPayment(timelock);
+
+      if (!this._timelockPayments.some((existingPayment) => existingPayment.address === payment.address)) {
+        this._timelockPayments.push(payment);
+        this._timelockedUtxos = undefined;
+        isChanged = true;
+      }
+    }
+
+    return isChanged;
+  }
+
+  private async loadStoredTimelocks(): Promise<void> {
+    if (!this._timelockStorageAdapter || this._areStoredTimelocksLoaded) {
+      return;
+    }
+
+    const timelocksStr = await this._timelockStorageAdapter.get(this._timelockStorageKey);
+    this._areStoredTimelocksLoaded = true;
+
+    if (timelocksStr) {
+      this.trackTimelocks(JSON.parse(timelocksStr) as Timelock[]);
+    }
+  }
+
+  /**
+   * Tracks the outputs locked to the key of this address, so their UTXOs can be spent once they mature
+   */
+  async addTimelocks(timelocks: Timelock[]): Promise<void> {
+    // the stored timelocks are loaded first so they are not overwritten
+    await this.loadStoredTimelocks();
+
+    if (this.trackTimelocks(timelocks) && this._timelockStorageAdapter) {
+      await this._timelockStorageAdapter.set(
+        this._timelockStorageKey,
+        JSON.stringify(this._timelockPayments.map(({ timelock }) => timelock)),
+      );
+    }
+  }
+
+  /**
+   * Returns the UTXOs of all tracked timelocks, mature or not
+   */
+  async getTimelockedUtxos(): Promise<TimelockedUtxo[]> {
+    await this.loadStoredTimelocks();
+
+    if (this._timelockPayments.length === 0) {
+      return [];
+    }
+
+    const release = await this._getUtxoMutex.acquire();
+    try {
+      if (!this._timelockedUtxos) {
+        const height = await this._esploraApiProvider.getLatestBlockHeight();
+        const medianTime = await getMedianTimePast(this._esploraApiProvider, height);
+
+        const utxosPerTimelock = await Promise.all(
+          this._timelockPayments.map(async ({ address, timelock }) => {
+            const utxos = await this._esploraApiProvider.getUnspentUtxos(address);
+
+            return Promise.all(
+              utxos.map(async (utxo) => {
+                // time based relative locks start at the median time of the block before the one the output is in
+                const outputPreviousMedianTime =
+                  timelock.kind === 'csv' && timelock.unit === 'seconds' && utxo.status.block_height !== undefined
+                    ? await getMedianTimePast(this._esploraApiProvider, utxo.status.block_height - 1)
+                    : undefined;
+
+                return {
+                  extendedUtxo: new ExtendedUtxo(utxo, address, this._utxoCache, this._esploraApiProvider),
+                  timelock,
+                  mature: isTimelockMature(timelock, utxo.status, { height, medianTime, outputPreviousMedianTime }),
+                };
+              }),
+            );
+          }),
+        );
+
+        this._timelockedUtxos = utxosPerTimelock.flat();
+      }
+
+      return [...this._timelockedUtxos];
     } finally {
       release();
     }
@@ -121,8 +304,57 @@ export abstract class AddressContext {
 
   async getUtxo(outpoint: string): Promise<ExtendedUtxo | undefined> {
     const utxos = await this.getUtxos();
+    const extendedUtxo = utxos.find((utxo) => utxo.outpoint === outpoint);
+
+    if (extendedUtxo) {
+      // the pending output was broadcast, so the UTXO from the API replaces it
+      this._pendingUtxos = this._pendingUtxos.filter((pendingUtxo) => pendingUtxo.outpoint !== outpoint);
+
+      return extendedUtxo;
+    }
+
+    return this._pendingUtxos.find((pendingUtxo) => pendingUtxo.outpoint === outpoint);
+  }
+
+  /**
+   * Tracks the outputs to this address of a signed transaction which is not broadcast yet, so transactions spending
+   * them can be signed along with it. They are only spent when pinned, as they don't exist until it is broadcast.
+   */
+  addPendingOutputs(transaction: btc.Transaction): void {
+    const network = this._network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK;
+    const { address } = this;
+    const script = btc.OutScript.encode(btc.Address(network).decode(address));
+
+    for (let vout = 0; vout < transaction.outputsLength; vout++) {
+      const output = transaction.getOutput(vout);
+      const outpoint = `${transaction.id}:${vout}`;
+
+      if (
+        !output.amount ||
+        !areByteArraysEqual(output.script, script) ||
+        this._pendingUtxos.some((pendingUtxo) => pendingUtxo.outpoint === outpoint)
+      ) {
+        continue;
+      }
+
+      this._pendingUtxos.push(
+        new ExtendedUtxo(
+          { txid: transaction.id, vout, value: Number(output.amount), status: { confirmed: false }, address },
+          address,
+          this._utxoCache,
+          this._esploraApiProvider,
+          false,
+          transaction.hex,
+        ),
+      );
+    }
+  }
 
-    return utxos.find((utxo) => utxo.outpoint === outpoint);
+  /**
+   * Stops tracking the outputs of a transaction added with addPendingOutputs, e.g. once it is broadcast or dropped
+   */
+  removePendingOutputs(txid: string): void {
+    this._pendingUtxos = this._pendingUtxos.filter((pendingUtxo) => pendingUtxo.utxo.txid !== txid);
   }
 
   // helper method to get an extended UTXO for another address
@@ -158,12 +390,20 @@ export abstract class AddressContext {
     return new ExtendedUtxo(utxo, address, this._utxoCache, this._esploraApiProvider, true);
   }
 
-  async constructUtxo(utxo: Omit<UTXO, 'address'>): Promise<ExtendedUtxo> {
+  // the hex of the funding transaction can be provided if it is not broadcast, e.g. for virtual transactions
+  async constructUtxo(utxo: Omit<UTXO, 'address'>, transactionHex?: string): Promise<ExtendedUtxo> {
     const addressUtxo = {
       ...utxo,
       address: this._address,
     };
-    const extendedUtxo = new ExtendedUtxo(addressUtxo, this._address, this._utxoCache, this._esploraApiProvider);
+    const extendedUtxo = new ExtendedUtxo(
+      addressUtxo,
+      this._address,
+      this._utxoCache,
+      this._esploraApiProvider,
+      false,
+      transactionHex,
+    );
 
     return extendedUtxo;
   }
@@ -177,19 +417,80 @@ export abstract class AddressContext {
     return btcChild.privateKey!.toString('hex');
   }
 
+  /**
+   * Adds the input spending a timelocked UTXO, with the lock time or sequence its script checks. Returns false if the
+   * UTXO is not timelocked.
+   */
+  protected addTimelockedInput(
+    transaction: btc.Transaction,
+    extendedUtxo: ExtendedUtxo,
+    options?: CompilationOptions,
+  ): boolean {
+    const payment = this._timelockPayments.find(({ address }) => address === extendedUtxo.address);
+
+    if (!payment) {
+      return false;
+    }
+
+    const { timelock } = payment;
+    if (timelock.kind === 'cltv') {
+      // a transaction has a single lock time, so height and time based locks can't be spent together
+      for (let i = 0; i < transaction.inputsLength; i++) {
+        const input = transaction.getInput(i);
+        const lockTime = timelock.unit === 'blocks' ? input.requiredTimeLocktime : input.requiredHeightLocktime;
+
+        if (lockTime !== undefined) {
+          throw new Error('Cannot spend height and time based timelocks in the same transaction');
+        }
+      }
+    }
+
+    const utxo = extendedUtxo.utxo;
+
+    transaction.addInput({
+      txid: utxo.txid,
+      index: utxo.vout,
+      witnessUtxo: {
+        script: payment.script,
+        amount: BigInt(utxo.value),
+      },
+      ...getTimelockInputFields(payment, options?.rbfEnabled),
+    });
+
+    return true;
+  }
+
+  protected signTimelockedInputs(transaction: btc.Transaction, options: SignOptions, privateKey: Uint8Array): void {
+    for (const { address, script } of this._timelockPayments) {
+      const signIndexes = this.getSignIndexes(transaction, options, script, address);
+
+      for (const [i, allowedSigHash] of Object.entries(signIndexes)) {
+        // the same context can sign as both the payment and ordinals address
+        if (transaction.getInput(+i).finalScriptWitness) {
+          continue;
+        }
+
+        transaction.signIdx(privateKey, +i, allowedSigHash);
+        // the signer can't finalize custom scripts, so this is done right away
+        finalizeTimelockInput(transaction, +i);
+      }
+    }
+  }
+
   protected getSignIndexes(
     transaction: btc.Transaction,
     options: SignOptions,
     witnessScript?: Uint8Array,
+    address = this._address,
   ): Record<number, btc.SigHash[] | undefined> {
     const signIndexes: Record<number, btc.SigHash[] | undefined> = {};
 
     if (options.inputsToSign) {
       for (const inputToSign of options.inputsToSign) {
-        if (inputToSign.address === this._address) {
+        if (inputToSign.address === address) {
           inputToSign.signingIndexes.forEach((index) => {
             if (signIndexes[index]) {
-              throw new Error(`Duplicate signing index ${index} for address ${this._address}`);
+              throw new Error(`Duplicate signing index ${index} for address ${address}`);
             }
 
             signIndexes[index] = inputToSign.sigHash ? [inputToSign.sigHash] : undefined;
@@ -215,6 +516,44 @@ export abstract class AddressContext {
     // this can be implemented by subclasses if they need to do something before signing
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- used by subclasses
+  markOutputsUsed(_transaction: btc.Transaction): void {
+    // no-op
+    // this can be implemented by subclasses which rotate addresses once they have received funds
+  }
+
+  /**
+   * Returns what the inputs spent by this address contribute to the silent payment outputs of the transaction. This
+   * needs their private keys, so only software wallets can send silent payments.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- used by subclasses
+  async getSilentPaymentShare(
+    _transaction: btc.Transaction,
+    _scanKeys: Uint8Array[],
+  ): Promise<SilentPaymentShare | undefined> {
+    throw new Error(`Silent payments cannot be sent from ${this._address}`);
+  }
+
+  protected async getSilentPaymentShareForScript(
+    transaction: btc.Transaction,
+    scanKeys: Uint8Array[],
+    script: Uint8Array,
+  ): Promise<SilentPaymentShare | undefined> {
+    const inputIndexes = Object.keys(this.getSignIndexes(transaction, {}, script));
+
+    if (inputIndexes.length === 0) {
+      return undefined;
+    }
+
+    const seedPhrase = await this._seedVault.getSeed();
+    const privateKey = hex.decode(await this.getPrivateKey(seedPhrase));
+
+    return getSilentPaymentShare(
+      inputIndexes.map((i) => ({ inputIndex: +i, privateKey, isTaproot: this._type === 'p2tr' })),
+      scanKeys,
+    );
+  }
+
   protected abstract getDerivationPath(): string;
   abstract getIOSizes(): { inputSize: number; outputSize: number };
   abstract addInput(transaction: btc.Transaction, utxo: ExtendedUtxo, options?: CompilationOptions): Promise<void>;
@@ -222,7 +561,7 @@ export abstract class AddressContext {
 }
 
 export class P2shAddressContext extends AddressContext {
-  private _p2sh!: ReturnType<typeof btc.p2sh>;
+  protected _p2sh!: ReturnType<typeof btc.p2sh>;
 
   constructor(
     address: string,
@@ -243,6 +582,10 @@ export class P2shAddressContext extends AddressContext {
   }
 
   async addInput(transaction: btc.Transaction, extendedUtxo: ExtendedUtxo, options?: CompilationOptions) {
+    if (this.addTimelockedInput(transaction, extendedUtxo, options)) {
+      return;
+    }
+
     const utxo = extendedUtxo.utxo;
 
     transaction.addInput({
@@ -267,6 +610,15 @@ export class P2shAddressContext extends AddressContext {
     for (const [i, allowedSigHash] of Object.entries(signIndexes)) {
       transaction.signIdx(hex.decode(privateKey), +i, allowedSigHash);
     }
+
+    this.signTimelockedInputs(transaction, options, hex.decode(privateKey));
+  }
+
+  async getSilentPaymentShare(
+    transaction: btc.Transaction,
+    scanKeys: Uint8Array[],
+  ): Promise<SilentPaymentShare | undefined> {
+    return this.getSilentPaymentShareForScript(transaction, scanKeys, this._p2sh.script);
   }
 
   protected getDerivationPath(): string {
@@ -278,6 +630,16 @@ export class P2shAddressContext extends AddressContext {
   }
 }
 
+export class WatchOnlyP2shAddressContext extends P2shAddressContext {
+  async signInputs(): Promise<void> {
+    throw new WatchOnlySigningError(this._address);
+  }
+
+  async getSilentPaymentShare(): Promise<SilentPaymentShare | undefined> {
+    throw new WatchOnlySigningError(this._address);
+  }
+}
+
 export class P2wpkhAddressContext extends AddressContext {
   protected _p2wpkh!: ReturnType<typeof btc.p2wpkh>;
 
@@ -298,6 +660,10 @@ export class P2wpkhAddressContext extends AddressContext {
   }
 
   async addInput(transaction: btc.Transaction, extendedUtxo: ExtendedUtxo, options?: CompilationOptions) {
+    if (this.addTimelockedInput(transaction, extendedUtxo, options)) {
+      return;
+    }
+
     const utxo = extendedUtxo.utxo;
 
     transaction.addInput({
@@ -320,6 +686,15 @@ export class P2wpkhAddressContext extends AddressContext {
     for (const [i, allowedSigHash] of Object.entries(signIndexes)) {
       transaction.signIdx(hex.decode(privateKey), +i, allowedSigHash);
     }
+
+    this.signTimelockedInputs(transaction, options, hex.decode(privateKey));
+  }
+
+  async getSilentPaymentShare(
+    transaction: btc.Transaction,
+    scanKeys: Uint8Array[],
+  ): Promise<SilentPaymentShare | undefined> {
+    return this.getSilentPaymentShareForScript(transaction, scanKeys, this._p2wpkh.script);
   }
 
   protected getDerivationPath(): string {
@@ -332,6 +707,10 @@ export class P2wpkhAddressContext extends AddressContext {
 }
 
 export class LedgerP2wpkhAddressContext extends P2wpkhAddressContext {
+  getTimelockPayment(): TimelockPayment {
+    throw new Error(`Timelocked outputs cannot be spent by Ledger accounts`);
+  }
+
   async addInput(transaction: btc.Transaction, extendedUtxo: ExtendedUtxo, options?: CompilationOptions) {
     super.addInput(transaction, extendedUtxo, options);
 
@@ -409,11 +788,29 @@ export class LedgerP2wpkhAddressContext extends P2wpkhAddressContext {
       });
     }
   }
+
+  async getSilentPaymentShare(): Promise<SilentPaymentShare | undefined> {
+    throw new Error(`Silent payments cannot be sent from Ledger address ${this._address}`);
+  }
+}
+
+export class WatchOnlyP2wpkhAddressContext extends P2wpkhAddressContext {
+  async signInputs(): Promise<void> {
+    throw new WatchOnlySigningError(this._address);
+  }
+
+  async getSilentPaymentShare(): Promise<SilentPaymentShare | undefined> {
+    throw new WatchOnlySigningError(this._address);
+  }
 }
 
 export class P2trAddressContext extends AddressContext {
   protected _p2tr!: ReturnType<typeof btc.p2tr>;
 
+  private _silentPaymentUtxos: ExtendedUtxo[] = [];
+
+  private _runeCommitmentPayments: RuneCommitmentPayment[] = [];
+
   constructor(
     address: string,
     publicKey: string,
@@ -442,9 +839,125 @@ export class P2trAddressContext extends AddressContext {
     }
   }
 
+  /**
+   * Adds outputs received through silent payments, as found by the `SilentPaymentScanner`, to the UTXOs of this
+   * address. They are spent with the silent payment spend key of the account and the tweak of each output.
+   */
+  addSilentPaymentUtxos(utxos: ExtendedUtxo[]): void {
+    for (const utxo of utxos) {
+      if (!utxo.silentPaymentTweak) {
+        throw new Error(`UTXO ${utxo.outpoint} was not received through a silent payment`);
+      }
+
+      if (!this._silentPaymentUtxos.some((existingUtxo) => existingUtxo.outpoint === utxo.outpoint)) {
+        this._silentPaymentUtxos.push(utxo);
+      }
+    }
+  }
+
+  async getUtxos(): Promise<ExtendedUtxo[]> {
+    const utxos = await super.getUtxos();
+
+    return [...utxos, ...this._silentPaymentUtxos];
+  }
+
+  /**
+   * Returns the output which commits to a rune name with the key of this address, so the rune can be etched by
+   * spending it
+   */
+  getRuneCommitmentPayment(rune: string): RuneCommitmentPayment {
+    return getRuneCommitmentPayment(this._p2tr.tapInternalKey, rune, this._network);
+  }
+
+  /**
+   * Tracks the outputs committing to rune names, so they can be spent by the etching once they mature
+   */
+  addRuneCommitments(runes: string[]): void {
+    for (const rune of runes) {
+      const payment = this.getRuneCommitmentPayment(rune);
+
+      if (!this._runeCommitmentPayments.some((existingPayment) => existingPayment.address === payment.address)) {
+        this._runeCommitmentPayments.push(payment);
+      }
+    }
+  }
+
+  /**
+   * Returns the UTXOs of all tracked rune commitments, mature or not. They are not part of the UTXOs of the address,
+   * as spending them in any other transaction than the etching would lose the commitment.
+   */
+  async getRuneCommitmentUtxos(): Promise<RuneCommitmentUtxo[]> {
+    if (this._runeCommitmentPayments.length === 0) {
+      return [];
+    }
+
+    const height = await this._esploraApiProvider.getLatestBlockHeight();
+
+    const utxosPerCommitment = await Promise.all(
+      this._runeCommitmentPayments.map(async ({ address, rune }) => {
+        const utxos = await this._esploraApiProvider.getUnspentUtxos(address);
+
+        return utxos.map((utxo) => ({
+          extendedUtxo: new ExtendedUtxo(utxo, address, this._utxoCache, this._esploraApiProvider),
+          rune,
+          mature: isRuneCommitmentMature(utxo.status, height),
+        }));
+      }),
+    );
+
+    return utxosPerCommitment.flat();
+  }
+
+  async getUtxo(outpoint: string): Promise<ExtendedUtxo | undefined> {
+    const utxo = await super.getUtxo(outpoint);
+
+    if (utxo || this._runeCommitmentPayments.length === 0) {
+      return utxo;
+    }
+
+    // rune commitments can only be spent explicitly, and only once the etching would be valid
+    const runeCommitmentUtxos = await this.getRuneCommitmentUtxos();
+
+    return runeCommitmentUtxos.find(({ extendedUtxo, mature }) => mature && extendedUtxo.outpoint === outpoint)
+      ?.extendedUtxo;
+  }
+
   async addInput(transaction: btc.Transaction, extendedUtxo: ExtendedUtxo, options?: CompilationOptions) {
+    if (this.addTimelockedInput(transaction, extendedUtxo, options)) {
+      return;
+    }
+
     const utxo = extendedUtxo.utxo;
 
+    const runeCommitmentPayment = this._runeCommitmentPayments.find(({ address }) => address === extendedUtxo.address);
+    if (runeCommitmentPayment) {
+      transaction.addInput({
+        txid: utxo.txid,
+        index: utxo.vout,
+        witnessUtxo: {
+          script: runeCommitmentPayment.script,
+          amount: BigInt(utxo.value),
+        },
+        ...getPolicyInputFields(runeCommitmentPayment.compiledPolicy),
+        sequence: options?.rbfEnabled ? 0xfffffffd : 0xffffffff,
+      });
+      return;
+    }
+
+    // silent payment outputs are spent through their untweaked output key, so there is no internal key
+    if (extendedUtxo.silentPaymentTweak) {
+      transaction.addInput({
+        txid: utxo.txid,
+        index: utxo.vout,
+        witnessUtxo: {
+          script: this.getSilentPaymentScript(extendedUtxo),
+          amount: BigInt(utxo.value),
+        },
+        sequence: options?.rbfEnabled ? 0xfffffffd : 0xffffffff,
+      });
+      return;
+    }
+
     transaction.addInput({
       txid: utxo.txid,
       index: utxo.vout,
@@ -466,6 +979,71 @@ export class P2trAddressContext extends AddressContext {
     for (const [i, allowedSigHash] of Object.entries(signIndexes)) {
       transaction.signIdx(hex.decode(privateKey), +i, allowedSigHash);
     }
+
+    this.signTimelockedInputs(transaction, options, hex.decode(privateKey));
+
+    for (const { address, script } of this._runeCommitmentPayments) {
+      const runeCommitmentSignIndexes = this.getSignIndexes(transaction, options, script, address);
+
+      for (const [i, allowedSigHash] of Object.entries(runeCommitmentSignIndexes)) {
+        // the same context can sign as both the payment and ordinals address
+        if (transaction.getInput(+i).finalScriptWitness) {
+          continue;
+        }
+
+        transaction.signIdx(hex.decode(privateKey), +i, allowedSigHash);
+        finalizeRuneCommitmentInput(transaction, +i);
+      }
+    }
+
+    const silentPaymentInputs = this.getSilentPaymentInputs(transaction, options);
+
+    if (silentPaymentInputs.length === 0) {
+      return;
+    }
+
+    const spendPrivateKey = await this.getSilentPaymentSpendPrivateKey(seedPhrase);
+
+    for (const { inputIndex, allowedSigHash, tweak } of silentPaymentInputs) {
+      await signSilentPaymentInput(
+        transaction,
+        inputIndex,
+        getSilentPaymentOutputPrivateKey(spendPrivateKey, tweak),
+        allowedSigHash,
+      );
+    }
+  }
+
+  async getSilentPaymentShare(
+    transaction: btc.Transaction,
+    scanKeys: Uint8Array[],
+  ): Promise<SilentPaymentShare | undefined> {
+    const silentPaymentInputs = this.getSilentPaymentInputs(transaction, {});
+
+    if (silentPaymentInputs.length === 0) {
+      return this.getSilentPaymentShareForScript(transaction, scanKeys, this._p2tr.script);
+    }
+
+    const seedPhrase = await this._seedVault.getSeed();
+    const privateKey = hex.decode(await this.getPrivateKey(seedPhrase));
+    const spendPrivateKey = await this.getSilentPaymentSpendPrivateKey(seedPhrase);
+
+    return getSilentPaymentShare(
+      [
+        ...Object.keys(this.getSignIndexes(transaction, {}, this._p2tr.script)).map((i) => ({
+          inputIndex: +i,
+          privateKey,
+          isTaproot: true,
+        })),
+        // the output keys of silent payments are not tweaked, so their private keys are used as they are
+        ...silentPaymentInputs.map(({ inputIndex, tweak }) => ({
+          inputIndex,
+          privateKey: getSilentPaymentOutputPrivateKey(spendPrivateKey, tweak),
+          isTaproot: false,
+        })),
+      ],
+      scanKeys,
+    );
   }
 
   protected getDerivationPath(): string {
@@ -475,9 +1053,47 @@ export class P2trAddressContext extends AddressContext {
   getIOSizes(): { inputSize: number; outputSize: number } {
     return { inputSize: 57, outputSize: 43 };
   }
+
+  private getSilentPaymentScript(extendedUtxo: ExtendedUtxo): Uint8Array {
+    const network = this._network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK;
+
+    return btc.OutScript.encode(btc.Address(network).decode(extendedUtxo.address));
+  }
+
+  private getSilentPaymentInputs(transaction: btc.Transaction, options: SignOptions) {
+    return this._silentPaymentUtxos.flatMap((extendedUtxo) =>
+      Object.entries(
+        this.getSignIndexes(transaction, options, this.getSilentPaymentScript(extendedUtxo), extendedUtxo.address),
+      ).map(([i, allowedSigHash]) => ({
+        inputIndex: +i,
+        allowedSigHash,
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        tweak: extendedUtxo.silentPaymentTweak!,
+      })),
+    );
+  }
+
+  private async getSilentPaymentSpendPrivateKey(seedPhrase: string): Promise<Uint8Array> {
+    const seed = await bip39.mnemonicToSeed(seedPhrase);
+    const master = bip32.fromSeed(seed);
+
+    const spendChild = master.derivePath(
+      getSilentPaymentDerivationPath({ index: this._accountIndex, network: this._network, key: 'spend' }),
+    );
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return spendChild.privateKey!;
+  }
 }
 
 export class LedgerP2trAddressContext extends P2trAddressContext {
+  getTimelockPayment(): TimelockPayment {
+    throw new Error(`Timelocked outputs cannot be spent by Ledger accounts`);
+  }
+
+  getRuneCommitmentPayment(): RuneCommitmentPayment {
+    throw new Error(`Runes cannot be etched by Ledger accounts`);
+  }
+
   async addInput(transaction: btc.Transaction, extendedUtxo: ExtendedUtxo, options?: CompilationOptions) {
     super.addInput(transaction, extendedUtxo, options);
 
@@ -567,46 +1183,610 @@ export class LedgerP2trAddressContext extends P2trAddressContext {
       });
     }
   }
-}
 
-export class TransactionContext {
-  private _paymentAddress!: AddressContext;
-
-  private _ordinalsAddress!: AddressContext;
+  async getSilentPaymentShare(): Promise<SilentPaymentShare | undefined> {
+    throw new Error(`Silent payments cannot be sent from Ledger address ${this._address}`);
+  }
 
-  private _network!: NetworkType;
+  addSilentPaymentUtxos(): void {
+    throw new Error(`Silent payments cannot be received by Ledger address ${this._address}`);
+  }
+}
 
-  private _addressList!: AddressContext[];
+export class WatchOnlyP2trAddressContext extends P2trAddressContext {
+  async signInputs(): Promise<void> {
+    throw new WatchOnlySigningError(this._address);
+  }
 
-  constructor(network: NetworkType, paymentAddressContext: AddressContext, ordinalsAddressContext: AddressContext) {
-    this._paymentAddress = paymentAddressContext;
-    this._ordinalsAddress = ordinalsAddressContext;
+  async getSilentPaymentShare(): Promise<SilentPaymentShare | undefined> {
+    throw new WatchOnlySigningError(this._address);
+  }
+}
 
-    this._addressList = [this._paymentAddress];
+const getAirGappedSigner = (options: SignOptions): AirGappedSigner => {
+  if (!options.airGappedSigner) {
+    throw new Error('Air-gapped signer is required for air-gapped signing');
+  }
+  return options.airGappedSigner;
+};
 
-    if (paymentAddressContext !== ordinalsAddressContext) {
-      this._addressList.push(this._ordinalsAddress);
+/**
+ * Adds the key origin of our key to the inputs to sign, so the air-gapped signer can recognise them
+ */
+const addAirGappedDerivations = (
+  transaction: btc.Transaction,
+  signIndexes: Record<number, btc.SigHash[] | undefined>,
+  publicKey: Uint8Array,
+  derivationPath: string,
+  options: SignOptions,
+  isTaproot: boolean,
+) => {
+  const keyOrigin = {
+    path: btc.bip32Path(derivationPath),
+    fingerprint: parseInt(getAirGappedSigner(options).masterFingerprint, 16),
+  };
+
+  for (const i of Object.keys(signIndexes)) {
+    const input = transaction.getInput(+i);
+
+    if (isTaproot) {
+      if (!input.tapBip32Derivation?.some((derivation) => areByteArraysEqual(derivation[0], publicKey))) {
+        transaction.updateInput(+i, { tapBip32Derivation: [[publicKey, { hashes: [], der: keyOrigin }]] });
+      }
+    } else if (!input.bip32Derivation?.some((derivation) => areByteArraysEqual(derivation[0], publicKey))) {
+      transaction.updateInput(+i, { bip32Derivation: [[publicKey, keyOrigin]] });
     }
-
-    this._network = network;
   }
+};
 
-  get paymentAddress(): AddressContext {
-    return this._paymentAddress;
+const AIR_GAPPED_SIGNATURE_FIELDS = [
+  'partialSig',
+  'tapKeySig',
+  'tapScriptSig',
+  'finalScriptSig',
+  'finalScriptWitness',
+] as const;
+
+const getInputSignatures = (input: btc.TransactionInput): Partial<btc.TransactionInput> =>
+  Object.fromEntries(
+    AIR_GAPPED_SIGNATURE_FIELDS.filter((field) => input[field] !== undefined).map((field) => [field, input[field]]),
+  );
+
+const isInputSigned = (input: btc.TransactionInput) => Object.keys(getInputSignatures(input)).length > 0;
+
+/**
+ * Exports the transaction as QR frames to the air-gapped signer and copies the signatures from the scanned frames.
+ * The signer signs the inputs of all the air-gapped address contexts in one go, so the inputs of the contexts signing
+ * later are already signed and need no other round-trip.
+ */
+const signInputsAirGapped = async (
+  transaction: btc.Transaction,
+  signIndexes: Record<number, btc.SigHash[] | undefined>,
+  options: SignOptions,
+) => {
+  const unsignedIndexes = Object.keys(signIndexes)
+    .map(Number)
+    .filter((i) => !isInputSigned(transaction.getInput(i)));
+
+  if (unsignedIndexes.length === 0) {
+    return;
   }
 
-  get ordinalsAddress(): AddressContext {
-    return this._ordinalsAddress;
+  const signedPsbt = await signPsbtAirGapped(transaction.toPSBT(0), getAirGappedSigner(options));
+  const signedTransaction = btc.Transaction.fromPSBT(signedPsbt);
+
+  if (!areByteArraysEqual(signedTransaction.unsignedTx, transaction.unsignedTx)) {
+    throw new Error('Signed PSBT does not match the transaction');
+  }
+
+  for (let i = 0; i < transaction.inputsLength; i++) {
+    const signatures = getInputSignatures(signedTransaction.getInput(i));
+
+    // the signer may have finalized the inputs, in which case the signatures are only in the final scripts
+    if (!isInputSigned(transaction.getInput(i)) && Object.keys(signatures).length > 0) {
+      transaction.updateInput(i, signatures);
+    }
+  }
+
+  for (const i of unsignedIndexes) {
+    if (!isInputSigned(transaction.getInput(i))) {
+      throw new Error(`Input ${i} was not signed by the air-gapped signer`);
+    }
+  }
+};
+
+export class AirGappedP2shAddressContext extends P2shAddressContext {
+  getTimelockPayment(): TimelockPayment {
+    throw new Error(`Timelocked outputs cannot be spent by air-gapped accounts`);
+  }
+
+  async prepareInputs(transaction: btc.Transaction, options: SignOptions): Promise<void> {
+    const signIndexes = this.getSignIndexes(transaction, options, this._p2sh.script);
+
+    addAirGappedDerivations(
+      transaction,
+      signIndexes,
+      hex.decode(this._publicKey),
+      this.getDerivationPath(),
+      options,
+      false,
+    );
+  }
+
+  async signInputs(transaction: btc.Transaction, options: SignOptions): Promise<void> {
+    await signInputsAirGapped(transaction, this.getSignIndexes(transaction, options, this._p2sh.script), options);
+  }
+
+  async getSilentPaymentShare(): Promise<SilentPaymentShare | undefined> {
+    throw new Error(`Silent payments cannot be sent from air-gapped address ${this._address}`);
+  }
+}
+
+export class AirGappedP2wpkhAddressContext extends P2wpkhAddressContext {
+  getTimelockPayment(): TimelockPayment {
+    throw new Error(`Timelocked outputs cannot be spent by air-gapped accounts`);
+  }
+
+  async prepareInputs(transaction: btc.Transaction, options: SignOptions): Promise<void> {
+    const signIndexes = this.getSignIndexes(transaction, options, this._p2wpkh.script);
+
+    addAirGappedDerivations(
+      transaction,
+      signIndexes,
+      hex.decode(this._publicKey),
+      this.getDerivationPath(),
+      options,
+      false,
+    );
+  }
+
+  async signInputs(transaction: btc.Transaction, options: SignOptions): Promise<void> {
+    await signInputsAirGapped(transaction, this.getSignIndexes(transaction, options, this._p2wpkh.script), options);
+  }
+
+  async getSilentPaymentShare(): Promise<SilentPaymentShare | undefined> {
+    throw new Error(`Silent payments cannot be sent from air-gapped address ${this._address}`);
+  }
+}
+
+export class AirGappedP2trAddressContext extends P2trAddressContext {
+  getTimelockPayment(): TimelockPayment {
+    throw new Error(`Timelocked outputs cannot be spent by air-gapped accounts`);
+  }
+
+  getRuneCommitmentPayment(): RuneCommitmentPayment {
+    throw new Error(`Runes cannot be etched by air-gapped accounts`);
+  }
+
+  async prepareInputs(transaction: btc.Transaction, options: SignOptions): Promise<void> {
+    const signIndexes = this.getSignIndexes(transaction, options, this._p2tr.script);
+
+    addAirGappedDerivations(
+      transaction,
+      signIndexes,
+      this._p2tr.tapInternalKey,
+      this.getDerivationPath(),
+      options,
+      true,
+    );
+  }
+
+  async signInputs(transaction: btc.Transaction, options: SignOptions): Promise<void> {
+    await signInputsAirGapped(transaction, this.getSignIndexes(transaction, options, this._p2tr.script), options);
+  }
+
+  async getSilentPaymentShare(): Promise<SilentPaymentShare | undefined> {
+    throw new Error(`Silent payments cannot be sent from air-gapped address ${this._address}`);
+  }
+
+  addSilentPaymentUtxos(): void {
+    throw new Error(`Silent payments cannot be received by air-gapped address ${this._address}`);
+  }
+}
+
+/**
+ * An address context for an HD account, spanning all addresses of its receive and change chains.
+ * UTXOs are aggregated across all used addresses and a fresh address is handed out for receiving and change.
+ */
+export class HdAddressContext extends AddressContext {
+  private _accountNode!: BIP32Interface;
+
+  private _hdAddresses!: HdAddress[];
+
+  private _hdUtxos?: ExtendedUtxo[];
+
+  constructor(
+    type: SupportedAddressType,
+    accountNode: BIP32Interface,
+    hdAddresses: HdAddress[],
+    network: NetworkType,
+    accountIndex: number,
+    seedVault: SeedVault,
+    utxoCache: UtxoCache,
+    esploraApiProvider: EsploraProvider,
+  ) {
+    const receiveAddress =
+      hdAddresses.find((hdAddress) => hdAddress.chain === HdChain.RECEIVE && !hdAddress.used) ??
+      deriveHdAddress(
+        type,
+        accountNode,
+        network,
+        HdChain.RECEIVE,
+        hdAddresses.filter((hdAddress) => hdAddress.chain === HdChain.RECEIVE).length,
+      );
+
+    super(
+      type,
+      receiveAddress.address,
+      receiveAddress.publicKey,
+      network,
+      accountIndex,
+      seedVault,
+      utxoCache,
+      esploraApiProvider,
+    );
+
+    this._accountNode = accountNode;
+    this._hdAddresses = [...hdAddresses];
+    this.ensureFreshAddress(HdChain.RECEIVE);
+    this.ensureFreshAddress(HdChain.CHANGE);
+  }
+
+  get addresses(): HdAddress[] {
+    return this._hdAddresses.map((hdAddress) => ({ ...hdAddress }));
+  }
+
+  get changeAddress(): string {
+    return this.getFreshAddress(HdChain.CHANGE).address;
+  }
+
+  /**
+   * Marks an address as used, which rotates the receive or change address if it was the current one
+   */
+  markAddressUsed(address: string): void {
+    const hdAddress = this._hdAddresses.find((a) => a.address === address);
+
+    if (!hdAddress || hdAddress.used) {
+      return;
+    }
+
+    hdAddress.used = true;
+    this._hdUtxos = undefined;
+    this.ensureFreshAddress(hdAddress.chain);
+  }
+
+  markOutputsUsed(transaction: btc.Transaction): void {
+    for (let i = 0; i < transaction.outputsLength; i++) {
+      const output = transaction.getOutput(i);
+      const hdAddress = this._hdAddresses.find((a) => areByteArraysEqual(output.script, this.getPayment(a).script));
+
+      if (hdAddress) {
+        this.markAddressUsed(hdAddress.address);
+      }
+    }
+  }
+
+  async getUtxos(): Promise<ExtendedUtxo[]> {
+    const release = await this._getUtxoMutex.acquire();
+    try {
+      if (!this._hdUtxos) {
+        // addresses without any transactions can't hold UTXOs
+        const usedAddresses = this._hdAddresses.filter((hdAddress) => hdAddress.used);
+
+        const utxosPerAddress = await Promise.all(
+          usedAddresses.map(async ({ address }) => {
+            const utxos = await this._esploraApiProvider.getUnspentUtxos(address);
+
+            return utxos.map((utxo) => new ExtendedUtxo(utxo, address, this._utxoCache, this._esploraApiProvider));
+          }),
+        );
+
+        this._hdUtxos = utxosPerAddress.flat();
+      }
+
+      return [...this._hdUtxos];
+    } finally {
+      release();
+    }
+  }
+
+  async addInput(transaction: btc.Transaction, extendedUtxo: ExtendedUtxo, options?: CompilationOptions) {
+    const utxo = extendedUtxo.utxo;
+    const hdAddress = this._hdAddresses.find((a) => a.address === extendedUtxo.address);
+
+    if (!hdAddress) {
+      throw new Error(`Address ${extendedUtxo.address} is not part of the account`);
+    }
+
+    const payment = this.getPayment(hdAddress);
+
+    transaction.addInput({
+      txid: utxo.txid,
+      index: utxo.vout,
+      witnessUtxo: {
+        script: payment.script,
+        amount: BigInt(utxo.value),
+      },
+      redeemScript: payment.redeemScript,
+      witnessScript: payment.witnessScript,
+      tapInternalKey: this._type === 'p2tr' ? hex.decode(hdAddress.publicKey) : undefined,
+      sequence: options?.rbfEnabled ? 0xfffffffd : 0xffffffff,
+    });
+  }
+
+  async signInputs(transaction: btc.Transaction, options: SignOptions): Promise<void> {
+    const seedPhrase = await this._seedVault.getSeed();
+    const seed = await bip39.mnemonicToSeed(seedPhrase);
+    const master = bip32.fromSeed(seed);
+    const accountPath = getHdAccountPath(this._type, this._network, this._accountIndex);
+
+    for (const hdAddress of this._hdAddresses) {
+      const signIndexes = this.getSignIndexes(
+        transaction,
+        options,
+        this.getPayment(hdAddress).script,
+        hdAddress.address,
+      );
+
+      if (Object.keys(signIndexes).length === 0) {
+        continue;
+      }
+
+      const child = master.derivePath(`${accountPath}/${hdAddress.chain}/${hdAddress.index}`);
+
+      for (const [i, allowedSigHash] of Object.entries(signIndexes)) {
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        transaction.signIdx(child.privateKey!, +i, allowedSigHash);
+      }
+    }
+  }
+
+  async getSilentPaymentShare(
+    transaction: btc.Transaction,
+    scanKeys: Uint8Array[],
+  ): Promise<SilentPaymentShare | undefined> {
+    const addressInputIndexes = this._hdAddresses
+      .map((hdAddress) => ({
+        hdAddress,
+        inputIndexes: Object.keys(
+          this.getSignIndexes(transaction, {}, this.getPayment(hdAddress).script, hdAddress.address),
+        ),
+      }))
+      .filter(({ inputIndexes }) => inputIndexes.length > 0);
+
+    if (addressInputIndexes.length === 0) {
+      return undefined;
+    }
+
+    const seedPhrase = await this._seedVault.getSeed();
+    const seed = await bip39.mnemonicToSeed(seedPhrase);
+    const master = bip32.fromSeed(seed);
+    const accountPath = getHdAccountPath(this._type, this._network, this._accountIndex);
+
+    const inputKeys = addressInputIndexes.flatMap(({ hdAddress, inputIndexes }) => {
+      const child = master.derivePath(`${accountPath}/${hdAddress.chain}/${hdAddress.index}`);
+
+      return inputIndexes.map((i) => ({
+        inputIndex: +i,
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        privateKey: child.privateKey!,
+        isTaproot: this._type === 'p2tr',
+      }));
+    });
+
+    return getSilentPaymentShare(inputKeys, scanKeys);
+  }
+
+  getTimelockPayment(): TimelockPayment {
+    throw new Error(`Timelocked outputs cannot be spent by HD accounts, as their keys rotate`);
+  }
+
+  protected getDerivationPath(): string {
+    const { chain, index } = this.getFreshAddress(HdChain.RECEIVE);
+
+    return `${getHdAccountPath(this._type, this._network, this._accountIndex)}/${chain}/${index}`;
+  }
+
+  getIOSizes(): { inputSize: number; outputSize: number } {
+    if (this._type === 'p2sh') {
+      return { inputSize: 91, outputSize: 32 };
+    }
+    if (this._type === 'p2wpkh') {
+      return { inputSize: 68, outputSize: 31 };
+    }
+    return { inputSize: 57, outputSize: 43 };
+  }
+
+  private getPayment(hdAddress: HdAddress) {
+    return getHdPayment(this._type, hex.decode(hdAddress.publicKey), this._network);
+  }
+
+  private getFreshAddress(chain: HdChain): HdAddress {
+    const hdAddress = this._hdAddresses.find((a) => a.chain === chain && !a.used);
+
+    if (!hdAddress) {
+      throw new Error('No fresh address available');
+    }
+
+    return hdAddress;
+  }
+
+  private ensureFreshAddress(chain: HdChain): void {
+    const chainAddresses = this._hdAddresses.filter((a) => a.chain === chain);
+
+    if (!chainAddresses.some((a) => !a.used)) {
+      this._hdAddresses.push(
+        deriveHdAddress(this._type, this._accountNode, this._network, chain, chainAddresses.length),
+      );
+    }
+
+    if (chain === HdChain.RECEIVE) {
+      const receiveAddress = this.getFreshAddress(HdChain.RECEIVE);
+      this._address = receiveAddress.address;
+      this._publicKey = receiveAddress.publicKey;
+    }
+  }
+}
+
+/**
+ * An address context for a k-of-n taproot multisig vault shared between cosigners. Inputs are added for either the
+ * MuSig2 key path or the multi_a script path, and each cosigner signs the PSBT with their own key in turn.
+ */
+export class MultisigAddressContext extends AddressContext {
+  private _payment!: MultisigPayment;
+
+  // secret nonces of key path spends which are waiting for the nonces of the other cosigners
+  private _secretNonces = new Map<string, Uint8Array>();
+
+  constructor(
+    publicKeys: string[],
+    threshold: number,
+    publicKey: string,
+    network: NetworkType,
+    accountIndex: number,
+    seedVault: SeedVault,
+    utxoCache: UtxoCache,
+    esploraApiProvider: EsploraProvider,
+  ) {
+    const payment = getMultisigPayment(publicKeys, threshold, network);
+
+    if (!payment.address) {
+      throw new Error('Failed to derive multisig address');
+    }
+
+    if (!payment.publicKeys.some((key) => hex.encode(key) === publicKey)) {
+      throw new Error(`Public key ${publicKey} is not a cosigner of the multisig vault`);
+    }
+
+    super('p2tr', payment.address, publicKey, network, accountIndex, seedVault, utxoCache, esploraApiProvider);
+
+    this._payment = payment;
+  }
+
+  get publicKeys(): string[] {
+    return this._payment.publicKeys.map((publicKey) => hex.encode(publicKey));
+  }
+
+  get threshold(): number {
+    return this._payment.threshold;
+  }
+
+  async addInput(transaction: btc.Transaction, extendedUtxo: ExtendedUtxo, options?: CompilationOptions) {
+    const utxo = extendedUtxo.utxo;
+    const spendPathFields =
+      options?.multisigSpendPath === 'script'
+        ? { tapLeafScript: this._payment.tapLeafScript }
+        : {
+            tapMerkleRoot: this._payment.tapMerkleRoot,
+            proprietary: getMusigParticipantsField(this._payment.publicKeys),
+          };
+
+    transaction.addInput({
+      txid: utxo.txid,
+      index: utxo.vout,
+      witnessUtxo: {
+        script: this._payment.script,
+        amount: BigInt(utxo.value),
+      },
+      tapInternalKey: this._payment.tapInternalKey,
+      ...spendPathFields,
+      sequence: options?.rbfEnabled ? 0xfffffffd : 0xffffffff,
+    });
+  }
+
+  async signInputs(transaction: btc.Transaction, options: SignOptions): Promise<void> {
+    const seedPhrase = await this._seedVault.getSeed();
+    const privateKey = hex.decode(await this.getPrivateKey(seedPhrase));
+    const schnorrPublicKey = hex.decode(this._publicKey).slice(1);
+
+    const signIndexes = this.getSignIndexes(transaction, options, this._payment.script);
+
+    for (const [i, allowedSigHash] of Object.entries(signIndexes)) {
+      const input = transaction.getInput(+i);
+
+      if (!input.tapLeafScript) {
+        signMusigInput(transaction, +i, privateKey, this._secretNonces, allowedSigHash);
+        continue;
+      }
+
+      // signing again would add a different signature for the same key, which the PSBT doesn't allow
+      if (!input.tapScriptSig?.some(([{ pubKey }]) => areByteArraysEqual(pubKey, schnorrPublicKey))) {
+        transaction.signIdx(privateKey, +i, allowedSigHash);
+      }
+    }
+  }
+
+  getTimelockPayment(): TimelockPayment {
+    throw new Error(`Timelocked outputs cannot be spent by multisig vaults`);
+  }
+
+  protected getDerivationPath(): string {
+    return getMultisigDerivationPath({ index: this._accountIndex, network: this._network });
+  }
+
+  getIOSizes(): { inputSize: number; outputSize: number } {
+    // the key path is spent with a single aggregate signature, the same as a single key taproot input
+    return { inputSize: 57, outputSize: 43 };
+  }
+}
+
+export class TransactionContext {
+  private _paymentAddress!: AddressContext;
+
+  private _ordinalsAddress!: AddressContext;
+
+  private _network!: NetworkType;
+
+  private _addressList!: AddressContext[];
+
+  constructor(
+    network: NetworkType,
+    paymentAddressContext: AddressContext,
+    ordinalsAddressContext: AddressContext,
+    storageAdapter?: StorageAdapter,
+  ) {
+    this._paymentAddress = paymentAddressContext;
+    this._ordinalsAddress = ordinalsAddressContext;
+
+    this._addressList = [this._paymentAddress];
+
+    if (paymentAddressContext !== ordinalsAddressContext) {
+      this._addressList.push(this._ordinalsAddress);
+    }
+
+    this._network = network;
+
+    if (storageAdapter) {
+      for (const addressContext of this._addressList) {
+        addressContext.setTimelockStorage(storageAdapter);
+      }
+    }
+  }
+
+  get paymentAddress(): AddressContext {
+    return this._paymentAddress;
+  }
+
+  get ordinalsAddress(): AddressContext {
+    return this._ordinalsAddress;
   }
 
   get changeAddress(): string {
-    return this._paymentAddress.address;
+    return this._paymentAddress.changeAddress;
   }
 
   get network(): NetworkType {
     return this._network;
   }
 
+  get esploraApiProvider(): EsploraProvider {
+    return this._paymentAddress.esploraApiProvider;
+  }
+
+  getAddressContext(address: string): AddressContext | undefined {
+    return this._addressList.find((addressContext) => addressContext.address === address);
+  }
+
   async getUtxo(outpoint: string): Promise<{ extendedUtxo?: ExtendedUtxo; addressContext?: AddressContext }> {
     for (const addressContext of this._addressList) {
       const extendedUtxo = await addressContext.getUtxo(outpoint);
@@ -661,11 +1841,60 @@ export class TransactionContext {
     return {};
   }
 
+  async getLatestBlockHeight(): Promise<number> {
+    return this._paymentAddress.getLatestBlockHeight();
+  }
+
+  /**
+   * Adds UTXOs found by the silent payment scanner to the taproot address of the account, which is able to spend them
+   */
+  addSilentPaymentUtxos(utxos: ExtendedUtxo[]): void {
+    const addressContext = this._addressList.find(
+      (context): context is P2trAddressContext => context instanceof P2trAddressContext,
+    );
+
+    if (!addressContext) {
+      throw new Error('Silent payments can only be received by accounts with a taproot address');
+    }
+
+    addressContext.addSilentPaymentUtxos(utxos);
+  }
+
   addOutputAddress(transaction: btc.Transaction, address: string, amount: bigint): void {
+    if (isSilentPaymentAddress(address)) {
+      addSilentPaymentOutput(transaction, address, amount, this._network);
+      return;
+    }
+
     transaction.addOutputAddress(address, amount, this._network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK);
   }
 
+  /**
+   * Replaces the placeholder scripts of silent payment outputs with the taproot outputs derived from the input keys.
+   * This needs to happen once all inputs are added and before signing, as the signatures commit to the outputs.
+   */
+  async deriveSilentPaymentOutputs(transaction: btc.Transaction): Promise<void> {
+    const scanKeys = getSilentPaymentScanKeys(transaction);
+
+    if (scanKeys.length === 0) {
+      return;
+    }
+
+    const shares: SilentPaymentShare[] = [];
+    for (const addressContext of this._addressList) {
+      const share = await addressContext.getSilentPaymentShare(transaction, scanKeys);
+
+      if (share) {
+        shares.push(share);
+      }
+    }
+
+    applySilentPaymentShares(transaction, scanKeys, shares);
+  }
+
   async signTransaction(transaction: btc.Transaction, options: SignOptions): Promise<void> {
+    await this.deriveSilentPaymentOutputs(transaction);
+
     await this.paymentAddress.prepareInputs(transaction, options);
     await this.ordinalsAddress.prepareInputs(transaction, options);
 
@@ -673,6 +1902,27 @@ export class TransactionContext {
     await this.ordinalsAddress.signInputs(transaction, options);
   }
 
+  markOutputsUsed(transaction: btc.Transaction): void {
+    for (const addressContext of this._addressList) {
+      addressContext.markOutputsUsed(transaction);
+    }
+  }
+
+  /**
+   * Makes the outputs of a signed transaction which is not broadcast yet spendable by transactions pinning them
+   */
+  addPendingOutputs(transaction: btc.Transaction): void {
+    for (const addressContext of this._addressList) {
+      addressContext.addPendingOutputs(transaction);
+    }
+  }
+
+  removePendingOutputs(txid: string): void {
+    for (const addressContext of this._addressList) {
+      addressContext.removePendingOutputs(txid);
+    }
+  }
+
   async signPsbt(psbtBase64: string, options: SignOptions): Promise<string> {
     const txn = btc.Transaction.fromPSBT(Buffer.from(psbtBase64, 'base64'));
 
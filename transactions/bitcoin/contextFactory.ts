@@ -1,17 +1,32 @@
+import { hex } from '@scure/base';
+import * as bip39 from 'bip39';
 import { AddressType, getAddressInfo } from 'bitcoin-address-validation';
+import { getDescriptorAddress, getDescriptorPublicKey, parseDescriptor } from '../../account/descriptors';
 import EsploraProvider from '../../api/esplora/esploraAPiProvider';
 import { UtxoCache } from '../../api/utxoCache';
 import { SeedVault } from '../../seedVault';
-import type { Account, AccountType, NetworkType } from '../../types';
+import type { Account, AccountType, NetworkType, StorageAdapter } from '../../types';
+import { BIP32Interface, bip32 } from '../../utils/bip32';
+import { getMultisigDerivationPath } from '../../wallet';
 import {
   AddressContext,
+  AirGappedP2shAddressContext,
+  AirGappedP2trAddressContext,
+  AirGappedP2wpkhAddressContext,
+  HdAddressContext,
   LedgerP2trAddressContext,
+  MultisigAddressContext,
   LedgerP2wpkhAddressContext,
   P2shAddressContext,
   P2trAddressContext,
   P2wpkhAddressContext,
   TransactionContext,
+  WatchOnlyP2shAddressContext,
+  WatchOnlyP2trAddressContext,
+  WatchOnlyP2wpkhAddressContext,
 } from './context';
+import { HdChain, getHdAccountPath, scanHdChain } from './hdAccount';
+import { SupportedAddressType } from './types';
 
 type CreateAddressContextProps = {
   esploraApiProvider: EsploraProvider;
@@ -23,7 +38,7 @@ type CreateAddressContextProps = {
   utxoCache: UtxoCache;
   accountType?: AccountType;
 };
-const createAddressContext = ({
+export const createAddressContext = ({
   esploraApiProvider,
   address,
   publicKey,
@@ -62,6 +77,80 @@ const createAddressContext = ({
     }
   }
 
+  if (accountType === 'air-gapped') {
+    if (type === AddressType.p2sh) {
+      return new AirGappedP2shAddressContext(
+        address,
+        publicKey,
+        network,
+        accountIndex,
+        seedVault,
+        utxoCache,
+        esploraApiProvider,
+      );
+    }
+    if (type === AddressType.p2wpkh) {
+      return new AirGappedP2wpkhAddressContext(
+        address,
+        publicKey,
+        network,
+        accountIndex,
+        seedVault,
+        utxoCache,
+        esploraApiProvider,
+      );
+    }
+    if (type === AddressType.p2tr) {
+      return new AirGappedP2trAddressContext(
+        address,
+        publicKey,
+        network,
+        accountIndex,
+        seedVault,
+        utxoCache,
+        esploraApiProvider,
+      );
+    }
+    throw new Error(`Air-gapped support for this type of address not implemented: ${type}`);
+  }
+
+  if (accountType === 'watch-only') {
+    if (type === AddressType.p2sh) {
+      return new WatchOnlyP2shAddressContext(
+        address,
+        publicKey,
+        network,
+        accountIndex,
+        seedVault,
+        utxoCache,
+        esploraApiProvider,
+      );
+    }
+    if (type === AddressType.p2wpkh) {
+      return new WatchOnlyP2wpkhAddressContext(
+        address,
+        publicKey,
+        network,
+        accountIndex,
+        seedVault,
+        utxoCache,
+        esploraApiProvider,
+      );
+    }
+    if (type === AddressType.p2tr) {
+      return new WatchOnlyP2trAddressContext(
+        address,
+        publicKey,
+        network,
+        accountIndex,
+        seedVault,
+        utxoCache,
+        esploraApiProvider,
+      );
+    }
+    throw new Error(`Watch-only support for this type of address not implemented: ${type}`);
+  }
+
   if (type === AddressType.p2sh) {
     return new P2shAddressContext(address, publicKey, network, accountIndex, seedVault, utxoCache, esploraApiProvider);
   } else if (type === AddressType.p2wpkh) {
@@ -81,18 +170,43 @@ const createAddressContext = ({
   }
 };
 
+/**
+ * Creates an address context from an output descriptor. Contexts are watch-only unless another account type is given.
+ */
+export const createAddressContextFromDescriptor = ({
+  descriptor,
+  addressIndex = 0,
+  accountType = 'watch-only',
+  ...props
+}: Omit<CreateAddressContextProps, 'address' | 'publicKey' | 'accountType'> & {
+  descriptor: string;
+  /** The index to use for the wildcard of ranged descriptors */
+  addressIndex?: number;
+  accountType?: AccountType;
+}): AddressContext => {
+  const parsedDescriptor = parseDescriptor(descriptor);
+
+  return createAddressContext({
+    ...props,
+    address: getDescriptorAddress(parsedDescriptor, props.network, addressIndex),
+    publicKey: hex.encode(getDescriptorPublicKey(parsedDescriptor, props.network, addressIndex)),
+    accountType,
+  });
+};
+
 export type TransactionContextOptions = {
   esploraApiProvider: EsploraProvider;
   account: Account;
   seedVault: SeedVault;
   utxoCache: UtxoCache;
   network: NetworkType;
+  /** Persists the timelocks of the account, so their UTXOs stay spendable after restarts */
+  storageAdapter?: StorageAdapter;
 };
 export const createTransactionContext = (options: TransactionContextOptions) => {
-  const { esploraApiProvider, account, seedVault, utxoCache, network } = options;
+  const { esploraApiProvider, account, seedVault, utxoCache, network, storageAdapter } = options;
 
-  const accountIndex =
-    !account.accountType || account.accountType === 'software' ? account.id : account.deviceAccountIndex;
+  const accountIndex = account.accountType === 'ledger' ? account.deviceAccountIndex : account.id;
   if (accountIndex === undefined) {
     throw new Error('Cannot identify the account index');
   }
@@ -120,5 +234,108 @@ export const createTransactionContext = (options: TransactionContextOptions) =>
           accountType: account.accountType,
         });
 
-  return new TransactionContext(network, paymentAddress, ordinalsAddress);
+  return new TransactionContext(network, paymentAddress, ordinalsAddress, storageAdapter);
+};
+
+export type HdTransactionContextOptions = {
+  esploraApiProvider: EsploraProvider;
+  seedVault: SeedVault;
+  utxoCache: UtxoCache;
+  network: NetworkType;
+  /** The BIP-44 account index, i.e. the hardened account level of the derivation path. The receive chain of account 0
+   * holds the standard accounts, so its HD context spends the funds of all of them. */
+  accountIndex: number;
+  paymentAddressType?: Exclude<SupportedAddressType, 'p2tr'>;
+  gapLimit?: number;
+  /** Persists the timelocks of the account, so their UTXOs stay spendable after restarts */
+  storageAdapter?: StorageAdapter;
+};
+
+const createHdAddressContext = async (
+  type: SupportedAddressType,
+  master: BIP32Interface,
+  { esploraApiProvider, seedVault, utxoCache, network, accountIndex, gapLimit }: HdTransactionContextOptions,
+) => {
+  const accountNode = master.derivePath(getHdAccountPath(type, network, accountIndex)).neutered();
+
+  const [receiveAddresses, changeAddresses] = await Promise.all(
+    [HdChain.RECEIVE, HdChain.CHANGE].map((chain) =>
+      scanHdChain({ type, accountNode, network, chain, esploraApiProvider, gapLimit }),
+    ),
+  );
+
+  return new HdAddressContext(
+    type,
+    accountNode,
+    [...receiveAddresses, ...changeAddresses],
+    network,
+    accountIndex,
+    seedVault,
+    utxoCache,
+    esploraApiProvider,
+  );
+};
+
+/**
+ * Creates a transaction context for a software account in HD mode. Instead of a single address per account, the
+ * receive and change chains of the payment and ordinals accounts are scanned up to the gap limit, so that funds on
+ * any of their addresses can be spent and fresh addresses are used for receiving and change.
+ */
+export const createHdTransactionContext = async (options: HdTransactionContextOptions) => {
+  const { seedVault, network, paymentAddressType = 'p2sh', storageAdapter } = options;
+
+  const seedPhrase = await seedVault.getSeed();
+  const seed = await bip39.mnemonicToSeed(seedPhrase);
+  const master = bip32.fromSeed(seed);
+
+  const [paymentAddress, ordinalsAddress] = await Promise.all([
+    createHdAddressContext(paymentAddressType, master, options),
+    createHdAddressContext('p2tr', master, options),
+  ]);
+
+  return new TransactionContext(network, paymentAddress, ordinalsAddress, storageAdapter);
+};
+
+export type MultisigTransactionContextOptions = {
+  esploraApiProvider: EsploraProvider;
+  seedVault: SeedVault;
+  utxoCache: UtxoCache;
+  network: NetworkType;
+  /** The account index of the cosigner key of this wallet, derived with getMultisigDerivationPath */
+  accountIndex: number;
+  /** The compressed public keys of the other cosigners */
+  cosignerPublicKeys: string[];
+  threshold: number;
+};
+
+/**
+ * Creates a transaction context for a k-of-n taproot multisig vault. The key of this wallet is derived from the seed
+ * and joined with the keys of the other cosigners, and the vault address is used for both payments and ordinals.
+ */
+export const createMultisigTransactionContext = async (options: MultisigTransactionContextOptions) => {
+  const { esploraApiProvider, seedVault, utxoCache, network, accountIndex, cosignerPublicKeys, threshold } = options;
+
+  const seedPhrase = await seedVault.getSeed();
+  const seed = await bip39.mnemonicToSeed(seedPhrase);
+  const master = bip32.fromSeed(seed);
+  const publicKey = hex.encode(
+    master.derivePath(getMultisigDerivationPath({ index: accountIndex, network })).publicKey,
+  );
+
+  if (cosignerPublicKeys.includes(publicKey)) {
+    throw new Error('The cosigner keys should not include the key of this wallet');
+  }
+
+  const addressContext = new MultisigAddressContext(
+    [publicKey, ...cosignerPublicKeys],
+    threshold,
+    publicKey,
+    network,
+    accountIndex,
+    seedVault,
+    utxoCache,
+    esploraApiProvider,
+  );
+
+  return new TransactionContext(network, addressContext, addressContext);
 };
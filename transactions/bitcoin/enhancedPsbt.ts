@@ -1,11 +1,12 @@
 import { base64, hex } from '@scure/base';
 import * as btc from '@scure/btc-signer';
 
-import { getRunesClient } from '../../api';
 import { UTXO } from '../../types';
+import { decodeRunestone } from '../../utils/runestone';
 import { InputToSign } from '../psbt';
 import { TransactionContext } from './context';
 import { ExtendedDummyUtxo, ExtendedUtxo } from './extendedUtxo';
+import { PsbtRiskOptions, getPsbtRisks } from './psbtRisks';
 import {
   EnhancedInput,
   EnhancedOutput,
@@ -16,7 +17,13 @@ import {
   PsbtSummary,
   TransactionFeeOutput,
 } from './types';
-import { extractOutputInscriptionsAndSatributes, getTransactionTotals, mapInputToEnhancedInput } from './utils';
+import {
+  extractOutputInscriptionsAndSatributes,
+  finalizeTransaction,
+  getTransactionTotals,
+  getTransactionVSize,
+  mapInputToEnhancedInput,
+} from './utils';
 
 type ParsedOutputMetadata =
   | { address: string; script?: undefined; type?: undefined }
@@ -214,7 +221,16 @@ export class EnhancedPsbt {
     return { inputs, isSigHashAll, hasSigHashNone, hasSigHashSingle, inputTotal };
   }
 
-  async getSummary(): Promise<PsbtSummary> {
+  private _getVSize(transaction: btc.Transaction): number | undefined {
+    try {
+      return getTransactionVSize(this._context, transaction);
+    } catch (e) {
+      // the size can't be estimated for inputs with unknown scripts
+      return undefined;
+    }
+  }
+
+  async getSummary(riskOptions: PsbtRiskOptions = {}): Promise<PsbtSummary> {
     const transaction = btc.Transaction.fromPSBT(this._psbt);
 
     const { inputs, inputTotal, isSigHashAll, hasSigHashNone, hasSigHashSingle } = await this._extractInputMetadata(
@@ -309,10 +325,9 @@ export class EnhancedPsbt {
       ),
     );
 
-    const runesClient = getRunesClient(this._context.network);
-    const runeOp = hasScriptOutput ? await runesClient.getDecodedRuneScript(transaction.hex) : undefined;
+    const runeOp = hasScriptOutput ? decodeRunestone(transaction.hex) : undefined;
 
-    return {
+    const summary = {
       inputs: enhancedInputs,
       outputs,
       feeOutput,
@@ -321,6 +336,10 @@ export class EnhancedPsbt {
       isFinal: isSigHashAll,
       runeOp,
     };
+
+    const risks = await getPsbtRisks(this._context, summary, this._getVSize(transaction), riskOptions);
+
+    return { ...summary, risks };
   }
 
   async getSignedPsbtBase64(options: PSBTCompilationOptions = {}): Promise<string> {
@@ -356,7 +375,7 @@ export class EnhancedPsbt {
     }
 
     if (options.finalize) {
-      transaction.finalize();
+      finalizeTransaction(transaction);
     }
 
     return base64.encode(transaction.toPSBT());
@@ -1,21 +1,29 @@
-import { SigHash, Transaction, TxOpts } from '@scure/btc-signer';
+import { base64 } from '@scure/base';
+import { Address, NETWORK, OutScript, SigHash, TEST_NETWORK, Transaction, TxOpts } from '@scure/btc-signer';
 
 import EsploraClient from '../../api/esplora/esploraAPiProvider';
-import { getRunesClient } from '../../api/runes/provider';
+import { decodeRunestone } from '../../utils/runestone';
 
 import {
+  applyReplacedTransaction,
   applyScriptActions,
   applySendBtcActionsAndFee,
   applySendUtxoActions,
   applySplitUtxoActions,
+  applyTimelockActions,
 } from './actionProcessors';
+import { BroadcastQueue, ScheduledTransaction } from './broadcastQueue';
 import { TransactionContext } from './context';
+import { ExtendedDummyUtxo } from './extendedUtxo';
+import { isSilentPaymentAddress } from './silentPayments';
+import { getAntiFeeSnipingLockTime } from './timelocks';
 import {
   Action,
   ActionMap,
   ActionType,
   CompilationOptions,
   EnhancedInput,
+  EnhancedOutput,
   TransactionFeeOutput,
   TransactionOptions,
   TransactionOutput,
@@ -24,6 +32,7 @@ import {
 import {
   extractActionMap,
   extractOutputInscriptionsAndSatributes,
+  finalizeTransaction,
   getTransactionVSize,
   mapInputToEnhancedInput,
 } from './utils';
@@ -51,6 +60,8 @@ export class EnhancedTransaction {
 
   private readonly _options!: TransactionOptions;
 
+  private _lockTime?: number;
+
   get feeRate(): number {
     return this._feeRate;
   }
@@ -64,16 +75,32 @@ export class EnhancedTransaction {
     this._feeRate = feeRate;
     this._options = { ...defaultTransactionOptions, ...options };
 
-    if (!actions.length && !this._options.forceIncludeOutpointList?.length) {
+    if (!actions.length && !this._options.forceIncludeOutpointList?.length && !this._options.replaceTxid) {
       throw new Error('No actions provided for transaction context');
     }
 
+    if (actions.length && this._options.replaceTxid) {
+      throw new Error('Actions cannot be added to a replacement transaction');
+    }
+
     this._actions = extractActionMap(actions);
   }
 
+  // the lock time is picked once, so the summary and the signed transaction match
+  private async getLockTime(): Promise<number> {
+    if (this._lockTime === undefined) {
+      this._lockTime = this._options.lockTime ?? getAntiFeeSnipingLockTime(await this._context.getLatestBlockHeight());
+    }
+
+    return this._lockTime;
+  }
+
   private async compile(options: CompilationOptions) {
     // order actions by type. Send Utxos first, then Ordinal extraction, then payment
-    const txnOpts: TxOpts = { PSBTVersion: 2 };
+    const txnOpts: TxOpts = {
+      PSBTVersion: 2,
+      lockTime: await this.getLockTime(),
+    };
 
     if (this._options.allowUnknownInputs) {
       txnOpts.allowUnknownInputs = true;
@@ -85,6 +112,14 @@ export class EnhancedTransaction {
 
     const transaction = new Transaction(txnOpts);
 
+    // the inputs and outputs of a replaced transaction go first so they keep their indexes
+    const {
+      inputs: replacedInputs,
+      outputs: replacedOutputs,
+      replacedFee,
+      splitsRunes,
+    } = await applyReplacedTransaction(this._context, options, transaction, this._options);
+
     const { outputs: scriptOutputs } = await applyScriptActions(transaction, this._actions[ActionType.SCRIPT]);
 
     const { inputs: sendInputs, outputs: sendOutputs } = await applySendUtxoActions(
@@ -103,6 +138,12 @@ export class EnhancedTransaction {
       this._actions[ActionType.SPLIT_UTXO],
     );
 
+    const { outputs: timelockOutputs } = await applyTimelockActions(
+      this._context,
+      transaction,
+      this._actions[ActionType.TIMELOCK],
+    );
+
     const {
       actualFee,
       actualFeeRate,
@@ -110,6 +151,7 @@ export class EnhancedTransaction {
       inputs: sendBtcInputs,
       outputs: sendBtcOutputs,
       dustValue,
+      coinSelection,
     } = await applySendBtcActionsAndFee(
       this._context,
       options,
@@ -119,12 +161,40 @@ export class EnhancedTransaction {
       this._feeRate,
     );
 
-    const inputs = [...sendInputs, ...splitInputs, ...sendBtcInputs];
+    const inputs = [...replacedInputs, ...sendInputs, ...splitInputs, ...sendBtcInputs];
+
+    if (replacedFee !== undefined) {
+      // the replacement pays for the transactions it evicts and for its own relay, as per BIP-125
+      if (actualFee < BigInt(replacedFee + getTransactionVSize(this._context, transaction))) {
+        throw new Error('Fee rate is below RBF minimum fee rate');
+      }
+
+      // an edict to the output count splits runes between all outputs, which a new change output would join
+      if (splitsRunes && transaction.outputsLength !== replacedOutputs.length) {
+        throw new Error('The replacement would change how runes are split between its outputs');
+      }
+    }
+
+    // the lock time is only enforced if an input has a non-final sequence
+    if (transaction.lockTime > 0) {
+      for (let i = 0; i < transaction.inputsLength; i++) {
+        const input = transaction.getInput(i);
+
+        // inputs signed by other wallets can't be changed
+        if (input.sequence === 0xffffffff && !input.finalScriptWitness?.length && !input.finalScriptSig?.length) {
+          transaction.updateInput(i, { sequence: 0xfffffffe });
+        }
+      }
+    }
+
+    // silent payment outputs can only be derived once all inputs are known
+    await this._context.deriveSilentPaymentOutputs(transaction);
 
     // build friendly outputs
     const outputsRaw: Omit<TransactionOutput, 'inscriptions' | 'satributes'>[] = [
       ...sendOutputs,
       ...splitOutputs,
+      ...timelockOutputs,
       ...sendBtcOutputs,
       // we add a dummy output to track the fee
       {
@@ -134,29 +204,72 @@ export class EnhancedTransaction {
       },
     ];
 
-    const nonScriptOutputs: TransactionOutput[] = [];
+    const enhancedReplacedOutputs: EnhancedOutput[] = [];
 
     let currentOffset = 0;
-    for (const outputRaw of outputsRaw) {
+    for (const [outputIndex, replacedOutput] of replacedOutputs.entries()) {
+      const amount = replacedOutput.amount;
+
+      if (replacedOutput.type === 'address') {
+        const { inscriptions, satributes } = await extractOutputInscriptionsAndSatributes(
+          inputs,
+          currentOffset,
+          amount,
+        );
+
+        if (
+          inscriptions.map(({ id, offset }) => `${id}:${offset}`).join() !==
+          replacedOutput.inscriptions.map(({ id, offset }) => `${id}:${offset}`).join()
+        ) {
+          throw new Error(`The replacement would move the inscriptions of output ${outputIndex}`);
+        }
+
+        enhancedReplacedOutputs.push({ ...replacedOutput, inscriptions, satributes });
+      } else {
+        enhancedReplacedOutputs.push(replacedOutput);
+      }
+
+      currentOffset += amount;
+    }
+
+    const nonScriptOutputs: TransactionOutput[] = [];
+
+    for (const [outputIndex, outputRaw] of outputsRaw.entries()) {
       const amount = outputRaw.amount;
       const { inscriptions, satributes } = await extractOutputInscriptionsAndSatributes(inputs, currentOffset, amount);
 
       const output: TransactionOutput = { ...outputRaw, inscriptions, satributes };
+
+      if (isSilentPaymentAddress(output.address)) {
+        // script outputs are added to the transaction first
+        const { script } = transaction.getOutput(replacedOutputs.length + scriptOutputs.length + outputIndex);
+        const network = this._context.network === 'Mainnet' ? NETWORK : TEST_NETWORK;
+
+        output.silentPaymentAddress = output.address;
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        output.address = Address(network).encode(OutScript.decode(script!));
+      }
+
       nonScriptOutputs.push(output);
 
       currentOffset += Number(amount);
     }
 
-    // extract rune script data via API if valid runes script exists
-    const runesClient = getRunesClient(this._context.network);
-    const runeOp = scriptOutputs.length > 0 ? await runesClient.getDecodedRuneScript(transaction.hex) : undefined;
+    // decode rune script data if a valid runes script exists
+    const hasScriptOutput = scriptOutputs.length > 0 || replacedOutputs.some(({ type }) => type === 'script');
+    const runeOp = hasScriptOutput ? decodeRunestone(transaction.hex) : undefined;
 
     // we know there is at least the dummy fee output which we added above
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
     const { address, ...feeOutput } = nonScriptOutputs.pop()!;
 
     const enhancedInputs: EnhancedInput[] = await Promise.all(
-      inputs.map((i) => mapInputToEnhancedInput(i, true, SigHash.ALL)),
+      inputs.map((i) =>
+        // inputs of other wallets are kept with their signatures
+        i instanceof ExtendedDummyUtxo
+          ? mapInputToEnhancedInput(i, false)
+          : mapInputToEnhancedInput(i, true, SigHash.ALL),
+      ),
     );
 
     return {
@@ -165,16 +278,27 @@ export class EnhancedTransaction {
       effectiveFeeRate,
       transaction,
       inputs: enhancedInputs,
-      outputs: [...scriptOutputs, ...nonScriptOutputs],
+      outputs: [...enhancedReplacedOutputs, ...scriptOutputs, ...nonScriptOutputs],
       feeOutput: { ...feeOutput, type: 'fee' } as TransactionFeeOutput,
       runeOp,
       dustValue,
+      coinSelection,
     };
   }
 
   async getSummary(options: CompilationOptions = {}): Promise<TransactionSummary> {
-    const { actualFee, actualFeeRate, effectiveFeeRate, transaction, inputs, outputs, feeOutput, runeOp, dustValue } =
-      await this.compile(getOptionsWithDefaults(options));
+    const {
+      actualFee,
+      actualFeeRate,
+      effectiveFeeRate,
+      transaction,
+      inputs,
+      outputs,
+      feeOutput,
+      runeOp,
+      dustValue,
+      coinSelection,
+    } = await this.compile(getOptionsWithDefaults(options));
 
     const vsize = getTransactionVSize(this._context, transaction);
 
@@ -188,26 +312,73 @@ export class EnhancedTransaction {
       feeOutput,
       runeOp,
       dustValue,
+      coinSelection,
     };
 
     return feeSummary;
   }
 
-  async getTransactionHexAndId(options: CompilationOptions = {}) {
+  /**
+   * Compiles the transaction and returns it as an unsigned PSBT, e.g. for watch-only accounts to sign elsewhere
+   */
+  async getUnsignedPsbtBase64(options: CompilationOptions = {}) {
+    const { transaction } = await this.compile(getOptionsWithDefaults(options));
+
+    return base64.encode(transaction.toPSBT());
+  }
+
+  private async getSignedTransaction(options: CompilationOptions) {
     const { transaction } = await this.compile(getOptionsWithDefaults(options));
 
     await this._context.signTransaction(transaction, options);
-    transaction.finalize();
+    finalizeTransaction(transaction);
+
+    return transaction;
+  }
+
+  /**
+   * Makes the payment address spend the outputs locked by the transaction once they mature. This is done when the
+   * transaction is broadcast, and needs to be called when it is broadcast elsewhere.
+   */
+  async trackTimelocks(): Promise<void> {
+    const timelocks = this._actions[ActionType.TIMELOCK].map(({ timelock }) => timelock);
+
+    if (timelocks.length > 0) {
+      await this._context.paymentAddress.addTimelocks(timelocks);
+    }
+  }
+
+  async getTransactionHexAndId(options: CompilationOptions = {}) {
+    const transaction = await this.getSignedTransaction(options);
 
     return { hex: transaction.hex, id: transaction.id };
   }
 
   async broadcast(options: CompilationOptions = {}) {
-    const { hex: transactionHex, id } = await this.getTransactionHexAndId(options);
+    const transaction = await this.getSignedTransaction(options);
 
     const esploraClient = new EsploraClient({ network: this._context.network });
-    await esploraClient.sendRawTransaction(transactionHex);
+    await esploraClient.sendRawTransaction(transaction.hex);
+
+    // HD accounts rotate to fresh addresses once our receive or change addresses are used
+    this._context.markOutputsUsed(transaction);
+    await this.trackTimelocks();
+
+    return transaction.id;
+  }
+
+  /**
+   * Signs the transaction and queues it to be broadcast once the tip reaches its lock time. The transaction needs to
+   * be created with a future block height as lock time.
+   */
+  async schedule(queue: BroadcastQueue, options: CompilationOptions = {}): Promise<ScheduledTransaction> {
+    const transaction = await this.getSignedTransaction(options);
+
+    const scheduledTransaction = await queue.add(transaction.hex);
+
+    this._context.markOutputsUsed(transaction);
+    await this.trackTimelocks();
 
-    return id;
+    return scheduledTransaction;
   }
 }
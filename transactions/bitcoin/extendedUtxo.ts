@@ -21,6 +21,8 @@ export class ExtendedUtxo {
 
   private _bundleData?: UtxoOrdinalBundle;
 
+  private _silentPaymentTweak?: Uint8Array;
+
   get address(): string {
     return this._address;
   }
@@ -31,6 +33,8 @@ export class ExtendedUtxo {
     utxoCache: UtxoCache,
     esploraApiProvider: EsploraProvider,
     isExternal = false,
+    hex?: string,
+    silentPaymentTweak?: Uint8Array,
   ) {
     this._utxo = utxo;
     this._address = address;
@@ -38,6 +42,12 @@ export class ExtendedUtxo {
     this._utxoCache = utxoCache;
     this._esploraApiProvider = esploraApiProvider;
     this._isExternal = isExternal;
+
+    if (hex) {
+      this._hex = hex;
+    }
+
+    this._silentPaymentTweak = silentPaymentTweak;
   }
 
   get outpoint(): string {
@@ -48,6 +58,11 @@ export class ExtendedUtxo {
     return this._utxo;
   }
 
+  // the tweak of the spend key for outputs received through silent payments
+  get silentPaymentTweak(): Uint8Array | undefined {
+    return this._silentPaymentTweak;
+  }
+
   get hex(): Promise<string | undefined> {
     if (this._hex) {
       return Promise.resolve(this._hex);
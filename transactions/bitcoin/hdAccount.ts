@@ -0,0 +1,141 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import EsploraProvider from '../../api/esplora/esploraAPiProvider';
+import { BTC_SEGWIT_PATH_PURPOSE, BTC_TAPROOT_PATH_PURPOSE, BTC_WRAPPED_SEGWIT_PATH_PURPOSE } from '../../constant';
+import { NetworkType } from '../../types';
+import { BIP32Interface } from '../../utils/bip32';
+import { SupportedAddressType } from './types';
+
+export const DEFAULT_GAP_LIMIT = 20;
+
+/**
+ * The BIP-44 chain of an address, 0 for the receive chain and 1 for the change chain
+ */
+export enum HdChain {
+  RECEIVE = 0,
+  CHANGE = 1,
+}
+
+export type HdAddress = {
+  address: string;
+  publicKey: string;
+  chain: HdChain;
+  index: number;
+  /** whether the address has any confirmed or mempool transactions */
+  used: boolean;
+};
+
+/**
+ * Gets the account level derivation path, e.g. m/84'/0'/1', under which the receive and change chains are derived.
+ * Standard accounts are the receive addresses of account 0, e.g. m/84'/0'/0'/0/{accountId}, so in HD mode account 0
+ * treats the standard accounts as its receive chain and also picks up the change sent to m/84'/0'/0'/1/{index}.
+ */
+export const getHdAccountPath = (type: SupportedAddressType, network: NetworkType, accountIndex: number): string => {
+  if (!Number.isInteger(accountIndex) || accountIndex < 0) {
+    throw new Error(`Invalid HD account index: ${accountIndex}`);
+  }
+
+  const coinType = network === 'Mainnet' ? 0 : 1;
+
+  let purpose: string;
+  if (type === 'p2sh') {
+    purpose = BTC_WRAPPED_SEGWIT_PATH_PURPOSE;
+  } else if (type === 'p2wpkh') {
+    purpose = BTC_SEGWIT_PATH_PURPOSE;
+  } else {
+    purpose = BTC_TAPROOT_PATH_PURPOSE;
+  }
+
+  return `${purpose}${coinType}'/${accountIndex}'`;
+};
+
+export const getHdPayment = (type: SupportedAddressType, publicKey: Uint8Array, network: NetworkType) => {
+  const btcNetwork = network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK;
+
+  if (type === 'p2sh') {
+    return btc.p2sh(btc.p2wpkh(publicKey, btcNetwork), btcNetwork);
+  }
+  if (type === 'p2wpkh') {
+    return btc.p2wpkh(publicKey, btcNetwork);
+  }
+  return btc.p2tr(publicKey, undefined, btcNetwork);
+};
+
+/**
+ * Derives the address at chain/index from an account level key
+ */
+export const deriveHdAddress = (
+  type: SupportedAddressType,
+  accountNode: BIP32Interface,
+  network: NetworkType,
+  chain: HdChain,
+  index: number,
+): HdAddress => {
+  const compressedPublicKey = accountNode.derive(chain).derive(index).publicKey;
+  // taproot keys are x-only
+  const publicKey = type === 'p2tr' ? compressedPublicKey.slice(1) : compressedPublicKey;
+
+  const { address } = getHdPayment(type, publicKey, network);
+
+  if (!address) {
+    throw new Error('Failed to derive HD address');
+  }
+
+  return { address, publicKey: hex.encode(publicKey), chain, index, used: false };
+};
+
+const isAddressUsed = async (esploraApiProvider: EsploraProvider, address: string): Promise<boolean> => {
+  const { chain_stats: chainStats, mempool_stats: mempoolStats } = await esploraApiProvider.getAddressData(address);
+
+  return chainStats.tx_count + mempoolStats.tx_count > 0;
+};
+
+/**
+ * Scans a chain of an HD account until gapLimit consecutive addresses have no transactions.
+ * Returns all addresses up to and including the first unused address after the last used one.
+ */
+export const scanHdChain = async ({
+  type,
+  accountNode,
+  network,
+  chain,
+  esploraApiProvider,
+  gapLimit = DEFAULT_GAP_LIMIT,
+}: {
+  type: SupportedAddressType;
+  accountNode: BIP32Interface;
+  network: NetworkType;
+  chain: HdChain;
+  esploraApiProvider: EsploraProvider;
+  gapLimit?: number;
+}): Promise<HdAddress[]> => {
+  if (gapLimit < 1) {
+    throw new Error('Gap limit must be at least 1');
+  }
+
+  const addresses: HdAddress[] = [];
+  let unusedCount = 0;
+  let lastUsedIndex = -1;
+
+  while (unusedCount < gapLimit) {
+    // only fetch as many addresses as could still complete the gap
+    const batch = Array.from({ length: gapLimit - unusedCount }, (_, i) =>
+      deriveHdAddress(type, accountNode, network, chain, addresses.length + i),
+    );
+    const usage = await Promise.all(batch.map((hdAddress) => isAddressUsed(esploraApiProvider, hdAddress.address)));
+
+    batch.forEach((hdAddress, i) => {
+      hdAddress.used = usage[i];
+      addresses.push(hdAddress);
+
+      if (hdAddress.used) {
+        unusedCount = 0;
+        lastUsedIndex = hdAddress.index;
+      } else {
+        unusedCount++;
+      }
+    });
+  }
+
+  return addresses.slice(0, lastUsedIndex + 2);
+};
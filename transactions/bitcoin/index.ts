@@ -1,17 +1,71 @@
-import { TransactionContext } from './context';
-import { createTransactionContext } from './contextFactory';
+import { AirGapFormat, AirGappedSigner, decodePsbtFrames, encodePsbtFrames, signPsbtAirGapped } from './airGap';
+import { BroadcastQueue, BroadcastQueueOptions, ScheduledTransaction } from './broadcastQueue';
+import {
+  DEFAULT_LONG_TERM_FEE_RATE,
+  branchAndBoundStrategy,
+  largestFirstStrategy,
+  privacyStrategy,
+  smallestFirstStrategy,
+} from './coinSelection';
+import { HdAddressContext, MultisigAddressContext, TransactionContext } from './context';
+import {
+  createHdTransactionContext,
+  createMultisigTransactionContext,
+  createTransactionContext,
+} from './contextFactory';
 import { EnhancedPsbt } from './enhancedPsbt';
 import { EnhancedTransaction } from './enhancedTransaction';
 import { ExtendedUtxo } from './extendedUtxo';
+import { DEFAULT_GAP_LIMIT, HdAddress, HdChain } from './hdAccount';
+import { MultisigSpendPath, getMultisigPayment } from './multisigAccount';
+import { DEFAULT_HIGH_FEE_RATE_THRESHOLD, PsbtRiskOptions } from './psbtRisks';
+import {
+  SatFlowOutput,
+  SatFlowOutputRef,
+  SatFlowResult,
+  SatFlowTransaction,
+  SatRange,
+  getSatFlow,
+  simulateSatFlow,
+} from './satFlow';
+import { SilentPaymentBlockSource, SilentPaymentScanner, SilentPaymentScannerOptions } from './silentPaymentScanner';
+import {
+  SilentPaymentAddress,
+  SilentPaymentKeys,
+  decodeSilentPaymentAddress,
+  encodeSilentPaymentAddress,
+  getSilentPaymentKeys,
+  isSilentPaymentAddress,
+} from './silentPayments';
+import { RUNE_COMMIT_CONFIRMATIONS, RuneCommitmentPayment, RuneCommitmentUtxo } from './runeCommitments';
+import {
+  IndexedRune,
+  IndexedRuneTerms,
+  RuneBalanceMismatch,
+  RuneBlockSource,
+  RuneIndexer,
+  RuneIndexerOptions,
+} from './runeIndexer';
+import { Timelock, TimelockedUtxo } from './timelocks';
 import {
   ActionType,
+  CoinSelectionParams,
+  CoinSelectionStrategy,
+  CoinSelectionSummary,
+  CoinSelector,
   EnhancedInput,
   EnhancedOutput,
+  FeeSubtractionMode,
   IOInscription,
   IOSatribute,
+  PsbtRisk,
+  PsbtRiskSeverity,
+  PsbtRiskType,
+  RbfMode,
   SendBtcAction,
   SendUtxoAction,
   SplitUtxoAction,
+  TimelockAction,
   TransactionFeeOutput,
   TransactionOptions,
   TransactionOutput,
@@ -19,19 +73,88 @@ import {
   TransactionScriptOutput,
   TransactionSummary,
 } from './types';
+import { getOutpoint, getTransactionChainSizeAndFee } from './utils';
 
 const SPLIT_UTXO_MIN_VALUE = 1500; // the minimum value for a UTXO to be split
 const DUST_VALUE = 546; // the value of an inscription we prefer to use
 
-export { ActionType, EnhancedPsbt, EnhancedTransaction, ExtendedUtxo, TransactionContext, createTransactionContext };
+export {
+  ActionType,
+  BroadcastQueue,
+  DEFAULT_GAP_LIMIT,
+  DEFAULT_HIGH_FEE_RATE_THRESHOLD,
+  DEFAULT_LONG_TERM_FEE_RATE,
+  EnhancedPsbt,
+  EnhancedTransaction,
+  ExtendedUtxo,
+  HdAddressContext,
+  HdChain,
+  MultisigAddressContext,
+  RUNE_COMMIT_CONFIRMATIONS,
+  RuneIndexer,
+  SilentPaymentScanner,
+  TransactionContext,
+  branchAndBoundStrategy,
+  createHdTransactionContext,
+  createMultisigTransactionContext,
+  createTransactionContext,
+  decodePsbtFrames,
+  decodeSilentPaymentAddress,
+  encodePsbtFrames,
+  encodeSilentPaymentAddress,
+  getMultisigPayment,
+  getSatFlow,
+  getSilentPaymentKeys,
+  isSilentPaymentAddress,
+  largestFirstStrategy,
+  privacyStrategy,
+  signPsbtAirGapped,
+  simulateSatFlow,
+  smallestFirstStrategy,
+};
 export type {
+  AirGapFormat,
+  AirGappedSigner,
+  BroadcastQueueOptions,
+  CoinSelectionParams,
+  CoinSelectionStrategy,
+  CoinSelectionSummary,
+  CoinSelector,
   EnhancedInput,
   EnhancedOutput,
+  FeeSubtractionMode,
+  HdAddress,
   IOInscription,
+  IndexedRune,
+  IndexedRuneTerms,
   IOSatribute,
+  MultisigSpendPath,
+  PsbtRisk,
+  PsbtRiskOptions,
+  PsbtRiskSeverity,
+  PsbtRiskType,
+  RbfMode,
+  RuneBalanceMismatch,
+  RuneBlockSource,
+  RuneCommitmentPayment,
+  RuneCommitmentUtxo,
+  RuneIndexerOptions,
+  SatFlowOutput,
+  SatFlowOutputRef,
+  SatFlowResult,
+  SatFlowTransaction,
+  SatRange,
+  ScheduledTransaction,
   SendBtcAction,
   SendUtxoAction,
+  SilentPaymentAddress,
+  SilentPaymentBlockSource,
+  SilentPaymentKeys,
+  SilentPaymentScannerOptions,
   SplitUtxoAction,
+  Timelock,
+  TimelockAction,
+  TimelockedUtxo,
   TransactionFeeOutput,
   TransactionOptions,
   TransactionOutput,
@@ -107,23 +230,145 @@ export const combineUtxos = async (
 /**
  * send bitcoin
  * send bitcoin to multiple recipients
+ * recipients flagged with subtractFee pay the fee out of their amount, split as per options.feeSubtraction
  */
 export const sendBtc = async (
   context: TransactionContext,
-  recipients: { toAddress: string; amount: bigint }[],
+  recipients: { toAddress: string; amount: bigint; subtractFee?: boolean }[],
   feeRate: number,
   options?: TransactionOptions,
 ) => {
-  const actions = recipients.map<SendBtcAction>(({ toAddress, amount }) => ({
+  const actions = recipients.map<SendBtcAction>(({ toAddress, amount, subtractFee }) => ({
     type: ActionType.SEND_BTC,
     toAddress,
     amount,
     combinable: false,
+    subtractFee,
   }));
   const transaction = new EnhancedTransaction(context, actions, feeRate, options);
   return transaction;
 };
 
+/**
+ * Locks funds to the payment address until the timelock expires. The payment address of the context spends the locked
+ * UTXOs like any other once they mature.
+ */
+export const lockBtc = async (
+  context: TransactionContext,
+  locks: { amount: bigint; timelock: Timelock }[],
+  feeRate: number,
+  options?: TransactionOptions,
+) => {
+  const actions = locks.map<TimelockAction>(({ amount, timelock }) => ({
+    type: ActionType.TIMELOCK,
+    amount,
+    timelock,
+  }));
+  const transaction = new EnhancedTransaction(context, actions, feeRate, options);
+  return transaction;
+};
+
+/**
+ * Child-pays-for-parent fee bump
+ * Spends one of our unconfirmed outputs so that the package of unconfirmed ancestors plus this child transaction
+ * reaches the desired fee rate. The summary is returned with the transaction, with the package fee rate as its
+ * effectiveFeeRate.
+ */
+export const bumpFeeWithCpfp = async (
+  context: TransactionContext,
+  outpoint: string,
+  packageFeeRate: number,
+  options?: Omit<TransactionOptions, 'forceIncludeOutpointList' | 'useEffectiveFeeRate' | 'allowUnconfirmedInput'>,
+) => {
+  const { extendedUtxo } = await context.getUtxo(outpoint);
+
+  if (!extendedUtxo) {
+    throw new Error('No utxo found for outpoint');
+  }
+
+  if (extendedUtxo.utxo.status.confirmed) {
+    throw new Error('UTXO is already confirmed');
+  }
+
+  const { totalVsize, totalFee } = await extendedUtxo.getUnconfirmedUtxoFeeData();
+
+  if (totalVsize > 0 && totalFee / totalVsize >= packageFeeRate) {
+    throw new Error('Unconfirmed ancestors already pay the desired fee rate');
+  }
+
+  // unindexed UTXOs may hold inscriptions or runes, so we treat them the same as embellished ones
+  const isEmbellished = await extendedUtxo.isEmbellished();
+  const hasRunes = await extendedUtxo.hasRunes();
+  const mustPreserveUtxo = isEmbellished !== false || !!hasRunes;
+
+  // send the full UTXO back to its own address so that inscriptions and runes stay where they are
+  // and the payment address covers the fees for the package
+  const actions: SendUtxoAction[] = mustPreserveUtxo
+    ? [
+        {
+          type: ActionType.SEND_UTXO,
+          toAddress: extendedUtxo.address,
+          outpoint,
+        },
+      ]
+    : [];
+
+  const transaction = new EnhancedTransaction(context, actions, packageFeeRate, {
+    ...options,
+    ...(mustPreserveUtxo ? {} : { forceIncludeOutpointList: [outpoint] }),
+    useEffectiveFeeRate: true,
+    allowUnconfirmedInput: true,
+  });
+  const summary = await transaction.getSummary();
+
+  return { transaction, summary };
+};
+
+/**
+ * Replace-by-fee fee bump
+ * Replaces one of our unconfirmed transactions with one paying a higher fee. The inputs and outputs of the replaced
+ * transaction are kept so inscriptions and runes go to the same outputs, and the fee is paid from its change and new
+ * payment inputs. Inputs of other wallets are only kept if they were signed with ANYONECANPAY.
+ * In cancel mode, the inputs of the wallet are paid back to it instead, see TransactionOptions.replaceMode.
+ */
+export const bumpFeeWithRbf = async (
+  context: TransactionContext,
+  txid: string,
+  feeRate: number,
+  options?: Omit<TransactionOptions, 'forceIncludeOutpointList' | 'overrideChangeAddress' | 'replaceTxid'>,
+) => {
+  const { esploraApiProvider } = context;
+  const transaction = await esploraApiProvider.getTransaction(txid);
+
+  if (!transaction || transaction.status.confirmed) {
+    throw new Error('Invalid transaction for RBF detected.');
+  }
+
+  if (!transaction.vin.some((vin) => vin.sequence < 0xffffffff - 1)) {
+    throw new Error('Transaction does not signal RBF');
+  }
+
+  // the outputs of the replaced transaction and of its descendants won't exist once it is replaced
+  const { descendantTxids } = await getTransactionChainSizeAndFee(esploraApiProvider, txid);
+  const descendants = await Promise.all(
+    descendantTxids.map((descendantTxid) => esploraApiProvider.getTransaction(descendantTxid)),
+  );
+  const evictedOutpoints = [transaction, ...descendants].flatMap((evictedTransaction) =>
+    evictedTransaction.vout.map((_, vout) => getOutpoint(evictedTransaction.txid, vout)),
+  );
+
+  return new EnhancedTransaction(context, [], feeRate, {
+    ...options,
+    replaceTxid: txid,
+    // the scripts of the replaced transaction are already valid, e.g. runestones
+    allowUnknownInputs: true,
+    allowUnknownOutputs: true,
+    // signatures of other wallets commit to the lock time
+    lockTime: options?.lockTime ?? transaction.locktime,
+    excludeOutpointList: [...(options?.excludeOutpointList ?? []), ...evictedOutpoints],
+  });
+};
+
 /**
  * Send inscriptions or bundles
  * This sends the full UTXO to the recipient, even if there are other satributes or inscriptions in it
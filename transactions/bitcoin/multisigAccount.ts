@@ -0,0 +1,51 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { NetworkType } from '../../types';
+import { aggregateMusigPublicKeys, sortMusigPublicKeys } from './musig2';
+
+/**
+ * Multisig vaults can be spent through the key path, signed by all cosigners with MuSig2, or through the script path,
+ * signed by the threshold of cosigners
+ */
+export type MultisigSpendPath = 'key' | 'script';
+
+export type MultisigPayment = ReturnType<typeof btc.p2tr> & {
+  /** The compressed public keys of the cosigners, sorted */
+  publicKeys: Uint8Array[];
+  threshold: number;
+};
+
+/**
+ * Gets the taproot output of a k-of-n vault. The internal key is the MuSig2 aggregate of all cosigner keys, and the
+ * only leaf of the script tree is a k-of-n multi_a script. The keys are sorted, so all cosigners get the same address
+ * regardless of the order they exchanged keys in.
+ */
+export const getMultisigPayment = (
+  publicKeys: (string | Uint8Array)[],
+  threshold: number,
+  network: NetworkType,
+): MultisigPayment => {
+  const sortedPublicKeys = sortMusigPublicKeys(
+    publicKeys.map((publicKey) => (typeof publicKey === 'string' ? hex.decode(publicKey) : publicKey)),
+  );
+
+  if (sortedPublicKeys.length < 2) {
+    throw new Error('Multisig vaults need at least 2 cosigners');
+  }
+
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > sortedPublicKeys.length) {
+    throw new Error(`Invalid multisig threshold ${threshold} for ${sortedPublicKeys.length} cosigners`);
+  }
+
+  const internalKey = aggregateMusigPublicKeys(sortedPublicKeys).publicKey.toRawBytes(true).slice(1);
+  const leaf = btc.p2tr_ms(
+    threshold,
+    sortedPublicKeys.map((publicKey) => publicKey.slice(1)),
+  );
+
+  return {
+    ...btc.p2tr(internalKey, leaf, network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK, true),
+    publicKeys: sortedPublicKeys,
+    threshold,
+  };
+};
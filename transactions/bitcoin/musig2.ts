@@ -0,0 +1,468 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { crypto } from 'bitcoinjs-lib';
+import * as P from 'micro-packed';
+
+/**
+ * BIP-373 defines PSBT fields for MuSig2, which the signer doesn't know about yet, so the participants, public nonces
+ * and partial signatures are kept in proprietary input fields. Nonces and partial signatures are keyed by the public
+ * key of the participant, so cosigners can add theirs to the same PSBT.
+ */
+const MUSIG_PARTICIPANTS_PROPRIETARY_KEY = new Uint8Array([6, ...Buffer.from('xverse'), 2]);
+const MUSIG_PUBLIC_NONCE_PROPRIETARY_KEY = new Uint8Array([6, ...Buffer.from('xverse'), 3]);
+const MUSIG_PARTIAL_SIGNATURE_PROPRIETARY_KEY = new Uint8Array([6, ...Buffer.from('xverse'), 4]);
+
+const PUBLIC_KEY_LENGTH = 33;
+const PUBLIC_NONCE_LENGTH = 66;
+
+type TransactionInput = ReturnType<btc.Transaction['getInput']>;
+
+/**
+ * The aggregate key of the participants with the tweaks applied to it, as per the key aggregation context of BIP-327
+ */
+export type MusigKeyAggContext = {
+  publicKey: secp256k1.Point;
+  gacc: bigint;
+  tacc: bigint;
+};
+
+export type MusigSession = {
+  publicKeys: Uint8Array[];
+  aggregateNonce: Uint8Array;
+  message: Uint8Array;
+  /** The merkle root of the script tree, the aggregate key is taproot tweaked with it if provided */
+  tapMerkleRoot?: Uint8Array;
+};
+
+export type MusigNonce = {
+  /** Must be kept by the signer and only be used once, it is never added to the PSBT */
+  secretNonce: Uint8Array;
+  publicNonce: Uint8Array;
+};
+
+const taggedHash = (tag: string, ...data: Uint8Array[]) => {
+  const tagHash = crypto.sha256(Buffer.from(tag));
+  return crypto.sha256(Buffer.concat([tagHash, tagHash, ...data]));
+};
+
+const mod = (value: bigint) => secp256k1.utils.mod(value, secp256k1.CURVE.n);
+
+const bytesToNumber = (bytes: Uint8Array) => BigInt(`0x${hex.encode(bytes)}`);
+
+const numberToBytes = (value: bigint) => hex.decode(value.toString(16).padStart(64, '0'));
+
+const hasEvenY = (point: secp256k1.Point) => point.y % 2n === 0n;
+
+const xOnly = (point: secp256k1.Point) => point.toRawBytes(true).slice(1);
+
+// scalars of zero can't be multiplied by noble, but are valid in the protocol
+const multiply = (point: secp256k1.Point, scalar: bigint) =>
+  scalar === 0n || point.equals(secp256k1.Point.ZERO) ? secp256k1.Point.ZERO : point.multiply(scalar);
+
+// the aggregate nonce encodes the point at infinity as zeros
+const decodeNoncePoint = (bytes: Uint8Array) =>
+  bytes.every((byte) => byte === 0) ? secp256k1.Point.ZERO : secp256k1.Point.fromHex(bytes);
+
+const encodeNoncePoint = (point: secp256k1.Point) =>
+  point.equals(secp256k1.Point.ZERO) ? new Uint8Array(PUBLIC_KEY_LENGTH) : point.toRawBytes(true);
+
+const getKeyAggCoefficient = (publicKeys: Uint8Array[], publicKey: Uint8Array) => {
+  // the second distinct key gets a coefficient of 1, which saves a multiplication when aggregating
+  const secondKey = publicKeys.find((key) => !P.equalBytes(key, publicKeys[0]));
+
+  if (secondKey && P.equalBytes(publicKey, secondKey)) {
+    return 1n;
+  }
+
+  const keyListHash = taggedHash('KeyAgg list', ...publicKeys);
+  return mod(bytesToNumber(taggedHash('KeyAgg coefficient', keyListHash, publicKey)));
+};
+
+/**
+ * Sorts the public keys of the participants, so the aggregate key doesn't depend on the order they were shared in
+ */
+export const sortMusigPublicKeys = (publicKeys: Uint8Array[]): Uint8Array[] => [...publicKeys].sort(btc._cmpBytes);
+
+/**
+ * Aggregates the compressed public keys of the participants, and applies the taproot tweak if a merkle root is given
+ */
+export const aggregateMusigPublicKeys = (publicKeys: Uint8Array[], tapMerkleRoot?: Uint8Array): MusigKeyAggContext => {
+  if (publicKeys.length === 0 || publicKeys.some((publicKey) => publicKey.length !== PUBLIC_KEY_LENGTH)) {
+    throw new Error('MuSig2 needs the compressed public keys of the participants');
+  }
+
+  const publicKey = publicKeys.reduce(
+    (sum, key) => sum.add(multiply(secp256k1.Point.fromHex(key), getKeyAggCoefficient(publicKeys, key))),
+    secp256k1.Point.ZERO,
+  );
+
+  if (publicKey.equals(secp256k1.Point.ZERO)) {
+    throw new Error('Invalid MuSig2 aggregate public key');
+  }
+
+  const keyAggContext = { publicKey, gacc: 1n, tacc: 0n };
+
+  if (!tapMerkleRoot) {
+    return keyAggContext;
+  }
+
+  // the taproot tweak is an x-only tweak, so the key is negated first if it has an odd y
+  const g = hasEvenY(publicKey) ? 1n : secp256k1.CURVE.n - 1n;
+  const tweak = bytesToNumber(taggedHash('TapTweak', xOnly(publicKey), tapMerkleRoot));
+
+  if (tweak >= secp256k1.CURVE.n) {
+    throw new Error('Invalid taproot tweak');
+  }
+
+  const tweakedPublicKey = multiply(publicKey, g).add(multiply(secp256k1.Point.BASE, tweak));
+
+  if (tweakedPublicKey.equals(secp256k1.Point.ZERO)) {
+    throw new Error('Invalid MuSig2 aggregate public key');
+  }
+
+  return { publicKey: tweakedPublicKey, gacc: g, tacc: tweak };
+};
+
+/**
+ * Generates the nonce of a participant for signing a message. The private key and the message are mixed in as
+ * recommended by BIP-327, so a weak random number generator doesn't leak the key.
+ */
+export const generateMusigNonce = ({
+  privateKey,
+  publicKey,
+  aggregatePublicKey,
+  message,
+}: {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+  aggregatePublicKey: Uint8Array;
+  message: Uint8Array;
+}): MusigNonce => {
+  const randomBytes = secp256k1.utils.randomBytes(32);
+  const auxHash = taggedHash('MuSig/aux', randomBytes);
+  const rand = privateKey.map((byte, i) => byte ^ auxHash[i]);
+
+  const messageLength = new Uint8Array(8);
+  new DataView(messageLength.buffer).setBigUint64(0, BigInt(message.length), false);
+
+  const [k1, k2] = [0, 1].map((i) =>
+    mod(
+      bytesToNumber(
+        taggedHash(
+          'MuSig/nonce',
+          rand,
+          new Uint8Array([publicKey.length]),
+          publicKey,
+          new Uint8Array([aggregatePublicKey.length]),
+          aggregatePublicKey,
+          new Uint8Array([1]),
+          messageLength,
+          message,
+          // no extra input
+          new Uint8Array(4),
+          new Uint8Array([i]),
+        ),
+      ),
+    ),
+  );
+
+  if (k1 === 0n || k2 === 0n) {
+    throw new Error('Invalid MuSig2 nonce');
+  }
+
+  const R1 = secp256k1.Point.BASE.multiply(k1);
+  const R2 = secp256k1.Point.BASE.multiply(k2);
+
+  return {
+    secretNonce: new Uint8Array([...numberToBytes(k1), ...numberToBytes(k2), ...publicKey]),
+    publicNonce: new Uint8Array([...R1.toRawBytes(true), ...R2.toRawBytes(true)]),
+  };
+};
+
+export const aggregateMusigNonces = (publicNonces: Uint8Array[]): Uint8Array => {
+  const [R1, R2] = [0, 1].map((j) =>
+    publicNonces.reduce((sum, publicNonce) => {
+      if (publicNonce.length !== PUBLIC_NONCE_LENGTH) {
+        throw new Error('Invalid MuSig2 public nonce');
+      }
+
+      return sum.add(secp256k1.Point.fromHex(publicNonce.slice(j * PUBLIC_KEY_LENGTH, (j + 1) * PUBLIC_KEY_LENGTH)));
+    }, secp256k1.Point.ZERO),
+  );
+
+  return new Uint8Array([...encodeNoncePoint(R1), ...encodeNoncePoint(R2)]);
+};
+
+const getSessionValues = ({ publicKeys, aggregateNonce, message, tapMerkleRoot }: MusigSession) => {
+  const keyAggContext = aggregateMusigPublicKeys(publicKeys, tapMerkleRoot);
+  const aggregatePublicKey = xOnly(keyAggContext.publicKey);
+
+  const b = mod(bytesToNumber(taggedHash('MuSig/noncecoef', aggregateNonce, aggregatePublicKey, message)));
+  const R1 = decodeNoncePoint(aggregateNonce.slice(0, PUBLIC_KEY_LENGTH));
+  const R2 = decodeNoncePoint(aggregateNonce.slice(PUBLIC_KEY_LENGTH));
+  const finalNonce = R1.add(multiply(R2, b));
+  const R = finalNonce.equals(secp256k1.Point.ZERO) ? secp256k1.Point.BASE : finalNonce;
+
+  const e = mod(bytesToNumber(taggedHash('BIP0340/challenge', xOnly(R), aggregatePublicKey, message)));
+
+  return { keyAggContext, b, R, e };
+};
+
+/**
+ * Creates the partial signature of a participant. The secret nonce must not be used again afterwards, as signing two
+ * messages with the same nonce reveals the private key.
+ */
+export const signMusigPartial = (secretNonce: Uint8Array, privateKey: Uint8Array, session: MusigSession) => {
+  const { keyAggContext, b, R, e } = getSessionValues(session);
+
+  const k1 = bytesToNumber(secretNonce.slice(0, 32));
+  const k2 = bytesToNumber(secretNonce.slice(32, 64));
+  const d = bytesToNumber(privateKey);
+
+  if (k1 === 0n || k2 === 0n || k1 >= secp256k1.CURVE.n || k2 >= secp256k1.CURVE.n) {
+    throw new Error('Invalid MuSig2 secret nonce');
+  }
+
+  const publicKey = secp256k1.getPublicKey(privateKey, true);
+
+  if (!P.equalBytes(publicKey, secretNonce.slice(64))) {
+    throw new Error('MuSig2 secret nonce was not generated for this key');
+  }
+
+  if (!session.publicKeys.some((key) => P.equalBytes(key, publicKey))) {
+    throw new Error('Key is not a participant of the MuSig2 session');
+  }
+
+  const [nonce1, nonce2] = hasEvenY(R) ? [k1, k2] : [secp256k1.CURVE.n - k1, secp256k1.CURVE.n - k2];
+  const g = hasEvenY(keyAggContext.publicKey) ? 1n : secp256k1.CURVE.n - 1n;
+  const a = getKeyAggCoefficient(session.publicKeys, publicKey);
+
+  const s = mod(nonce1 + b * nonce2 + e * a * mod(g * keyAggContext.gacc * d));
+
+  return numberToBytes(s);
+};
+
+/**
+ * Checks the partial signature of a participant, so a cosigner providing an invalid one can be identified
+ */
+export const verifyMusigPartial = (
+  partialSignature: Uint8Array,
+  publicNonce: Uint8Array,
+  publicKey: Uint8Array,
+  session: MusigSession,
+): boolean => {
+  const { keyAggContext, b, R, e } = getSessionValues(session);
+  const s = bytesToNumber(partialSignature);
+
+  if (s >= secp256k1.CURVE.n) {
+    return false;
+  }
+
+  const R1 = secp256k1.Point.fromHex(publicNonce.slice(0, PUBLIC_KEY_LENGTH));
+  const R2 = secp256k1.Point.fromHex(publicNonce.slice(PUBLIC_KEY_LENGTH));
+  const effectiveNonce = R1.add(multiply(R2, b));
+  const nonce = hasEvenY(R) ? effectiveNonce : effectiveNonce.negate();
+
+  const g = hasEvenY(keyAggContext.publicKey) ? 1n : secp256k1.CURVE.n - 1n;
+  const a = getKeyAggCoefficient(session.publicKeys, publicKey);
+  const expected = nonce.add(multiply(secp256k1.Point.fromHex(publicKey), mod(e * a * g * keyAggContext.gacc)));
+
+  return multiply(secp256k1.Point.BASE, s).equals(expected);
+};
+
+/**
+ * Combines the partial signatures of all participants into a BIP-340 signature for the aggregate key
+ */
+export const aggregateMusigPartials = (partialSignatures: Uint8Array[], session: MusigSession): Uint8Array => {
+  const { keyAggContext, R, e } = getSessionValues(session);
+  const g = hasEvenY(keyAggContext.publicKey) ? 1n : secp256k1.CURVE.n - 1n;
+
+  const s = partialSignatures.reduce((sum, partialSignature) => {
+    const value = bytesToNumber(partialSignature);
+
+    if (value >= secp256k1.CURVE.n) {
+      throw new Error('Invalid MuSig2 partial signature');
+    }
+
+    return mod(sum + value);
+  }, mod(e * g * keyAggContext.tacc));
+
+  return new Uint8Array([...xOnly(R), ...numberToBytes(s)]);
+};
+
+const getKeyedProprietaryFields = (input: TransactionInput, prefix: Uint8Array) =>
+  (input.proprietary ?? [])
+    .filter(
+      ([key]) => key.length === prefix.length + PUBLIC_KEY_LENGTH && P.equalBytes(key.slice(0, prefix.length), prefix),
+    )
+    .map(([key, value]): [Uint8Array, Uint8Array] => [key.slice(prefix.length), value]);
+
+/**
+ * Returns the participants of the MuSig2 key path spend of an input, if it was added with them
+ */
+export const getMusigParticipants = (input: TransactionInput): Uint8Array[] | undefined => {
+  const participants = input.proprietary?.find(([key]) => P.equalBytes(key, MUSIG_PARTICIPANTS_PROPRIETARY_KEY))?.[1];
+
+  if (!participants || participants.length === 0 || participants.length % PUBLIC_KEY_LENGTH !== 0) {
+    return undefined;
+  }
+
+  return Array.from({ length: participants.length / PUBLIC_KEY_LENGTH }, (_, i) =>
+    participants.slice(i * PUBLIC_KEY_LENGTH, (i + 1) * PUBLIC_KEY_LENGTH),
+  );
+};
+
+export const getMusigParticipantsField = (publicKeys: Uint8Array[]): TransactionInput['proprietary'] => [
+  [MUSIG_PARTICIPANTS_PROPRIETARY_KEY, new Uint8Array(publicKeys.flatMap((publicKey) => [...publicKey]))],
+];
+
+/**
+ * Returns the public nonces added to an input so far, keyed by the public key of the participant
+ */
+export const getMusigPublicNonces = (input: TransactionInput): [Uint8Array, Uint8Array][] =>
+  getKeyedProprietaryFields(input, MUSIG_PUBLIC_NONCE_PROPRIETARY_KEY);
+
+/**
+ * Returns the partial signatures added to an input so far, keyed by the public key of the participant
+ */
+export const getMusigPartialSignatures = (input: TransactionInput): [Uint8Array, Uint8Array][] =>
+  getKeyedProprietaryFields(input, MUSIG_PARTIAL_SIGNATURE_PROPRIETARY_KEY);
+
+const getPrevOuts = (transaction: btc.Transaction) =>
+  Array.from({ length: transaction.inputsLength }, (_, i) => {
+    const { witnessUtxo } = transaction.getInput(i);
+
+    if (!witnessUtxo) {
+      throw new Error(`Input ${i} is missing its witness UTXO`);
+    }
+
+    return witnessUtxo;
+  });
+
+/**
+ * Takes the MuSig2 key path spend of an input one step further for a participant. Each call either adds the nonce of
+ * the participant, its partial signature once the nonces of all participants are in, or the aggregate signature once
+ * all partial signatures are in, so cosigners can pass the PSBT around until it is signed.
+ *
+ * The secret nonces are kept in the given map, keyed by their public nonce, and removed once they are used.
+ */
+export const signMusigInput = (
+  transaction: btc.Transaction,
+  inputIndex: number,
+  privateKey: Uint8Array,
+  secretNonces: Map<string, Uint8Array>,
+  allowedSigHash: btc.SigHash[] = [btc.SigHash.DEFAULT],
+) => {
+  const input = transaction.getInput(inputIndex);
+  const publicKeys = getMusigParticipants(input);
+
+  if (!publicKeys || !input.tapInternalKey) {
+    throw new Error(`Input ${inputIndex} is not a MuSig2 key path spend`);
+  }
+
+  if (input.tapKeySig) {
+    return;
+  }
+
+  const sigHash = input.sighashType ?? btc.SigHash.DEFAULT;
+
+  if (!allowedSigHash.includes(sigHash)) {
+    throw new Error(`Input with not allowed sigHash=${sigHash}. Allowed: ${allowedSigHash.join(', ')}`);
+  }
+
+  const publicKey = secp256k1.getPublicKey(privateKey, true);
+
+  if (!publicKeys.some((key) => P.equalBytes(key, publicKey))) {
+    throw new Error('Key is not a participant of the MuSig2 session');
+  }
+
+  const prevOuts = getPrevOuts(transaction);
+  const message = transaction.preimageWitnessV1(
+    inputIndex,
+    prevOuts.map(({ script }) => script),
+    sigHash,
+    prevOuts.map(({ amount }) => amount),
+  );
+  const tapMerkleRoot = input.tapMerkleRoot ?? new Uint8Array();
+  const { publicKey: outputKey } = aggregateMusigPublicKeys(publicKeys, tapMerkleRoot);
+
+  const findByParticipant = (fields: [Uint8Array, Uint8Array][], key: Uint8Array) =>
+    fields.find(([participant]) => P.equalBytes(participant, key))?.[1];
+
+  const publicNonces = getMusigPublicNonces(input);
+  const ownPublicNonce = findByParticipant(publicNonces, publicKey);
+
+  // the nonce and signature fields don't change what is signed, so they can be added to signed transactions
+  if (!ownPublicNonce) {
+    const { secretNonce, publicNonce } = generateMusigNonce({
+      privateKey,
+      publicKey,
+      aggregatePublicKey: xOnly(outputKey),
+      message,
+    });
+    secretNonces.set(hex.encode(publicNonce), secretNonce);
+    transaction.updateInput(
+      inputIndex,
+      { proprietary: [[new Uint8Array([...MUSIG_PUBLIC_NONCE_PROPRIETARY_KEY, ...publicKey]), publicNonce]] },
+      true,
+    );
+    publicNonces.push([publicKey, publicNonce]);
+  }
+
+  const orderedNonces = publicKeys.map((key) => findByParticipant(publicNonces, key));
+
+  if (orderedNonces.some((nonce) => !nonce)) {
+    // wait for the nonces of the other participants
+    return;
+  }
+
+  const session: MusigSession = {
+    publicKeys,
+    aggregateNonce: aggregateMusigNonces(orderedNonces as Uint8Array[]),
+    message,
+    tapMerkleRoot,
+  };
+  const partialSignatures = getMusigPartialSignatures(input);
+
+  if (!findByParticipant(partialSignatures, publicKey)) {
+    const publicNonce = hex.encode(findByParticipant(publicNonces, publicKey) as Uint8Array);
+    const secretNonce = secretNonces.get(publicNonce);
+
+    if (!secretNonce) {
+      throw new Error(`The MuSig2 nonce for input ${inputIndex} was not generated in this session`);
+    }
+
+    secretNonces.delete(publicNonce);
+    const partialSignature = signMusigPartial(secretNonce, privateKey, session);
+    transaction.updateInput(
+      inputIndex,
+      {
+        proprietary: [[new Uint8Array([...MUSIG_PARTIAL_SIGNATURE_PROPRIETARY_KEY, ...publicKey]), partialSignature]],
+      },
+      true,
+    );
+    partialSignatures.push([publicKey, partialSignature]);
+  }
+
+  const orderedPartialSignatures = publicKeys.map((key) => findByParticipant(partialSignatures, key));
+
+  if (orderedPartialSignatures.some((partialSignature) => !partialSignature)) {
+    // wait for the partial signatures of the other participants
+    return;
+  }
+
+  publicKeys.forEach((key, i) => {
+    if (!verifyMusigPartial(orderedPartialSignatures[i] as Uint8Array, orderedNonces[i] as Uint8Array, key, session)) {
+      throw new Error(`Invalid MuSig2 partial signature from ${hex.encode(key)}`);
+    }
+  });
+
+  const signature = aggregateMusigPartials(orderedPartialSignatures as Uint8Array[], session);
+
+  transaction.updateInput(
+    inputIndex,
+    { tapKeySig: sigHash === btc.SigHash.DEFAULT ? signature : new Uint8Array([...signature, sigHash]) },
+    true,
+  );
+};
@@ -0,0 +1,418 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { crypto } from 'bitcoinjs-lib';
+import * as P from 'micro-packed';
+
+type ScriptOp = Parameters<typeof btc.Script.encode>[0][number];
+
+type TransactionInput = ReturnType<btc.Transaction['getInput']>;
+
+export type PolicyScriptType = 'wsh' | 'tr';
+
+/**
+ * The size of the witness stack which satisfies a script, without the script itself and the control block
+ */
+export type PolicySatisfaction = {
+  /** The number of stack elements */
+  elements: number;
+  /** The serialized size of the stack elements, including their length prefixes */
+  size: number;
+};
+
+export type PolicyLeaf = {
+  script: Uint8Array;
+  satisfaction: PolicySatisfaction;
+};
+
+export type CompiledPolicy = {
+  type: PolicyScriptType;
+  /** The output script paying to the policy */
+  script: Uint8Array;
+  /** The witness script of segwit v0 policies, or the tapscript leaves of taproot policies */
+  leaves: PolicyLeaf[];
+  tapInternalKey?: Uint8Array;
+  tapLeafScript?: TransactionInput['tapLeafScript'];
+};
+
+type PolicyNode =
+  | { type: 'pk'; key: Uint8Array }
+  | { type: 'after' | 'older'; value: number }
+  | { type: 'sha256' | 'hash256' | 'ripemd160' | 'hash160'; hash: Uint8Array }
+  | { type: 'and'; children: PolicyNode[] }
+  | { type: 'or'; children: PolicyNode[]; weights: number[] }
+  | { type: 'thresh'; k: number; children: PolicyNode[] };
+
+type Fragment = {
+  script: ScriptOp[];
+  satisfaction: PolicySatisfaction;
+};
+
+/**
+ * The policy compiler keeps the satisfaction size of spent scripts in this proprietary input field, so the fee of
+ * spending them can be estimated before they are signed
+ */
+const POLICY_SATISFACTION_PROPRIETARY_KEY = new Uint8Array([6, ...Buffer.from('xverse'), 1]);
+
+// DER signatures are up to 72 bytes with the sighash byte, schnorr signatures are 64 bytes with the default sighash
+const ECDSA_SIGNATURE_SIZE = 72;
+const SCHNORR_SIGNATURE_SIZE = 64;
+
+const MAX_MULTISIG_KEYS = 20;
+
+const HASH_SIZES = { sha256: 32, hash256: 32, ripemd160: 20, hash160: 20 };
+
+// relative timelocks above this value have the disable flag or unused bits set
+const MAX_RELATIVE_LOCKTIME = 0x0040ffff;
+const MAX_LOCKTIME = 0x7fffffff;
+
+const EMPTY_SATISFACTION: PolicySatisfaction = { elements: 0, size: 0 };
+
+const getElementSatisfaction = (size: number): PolicySatisfaction => ({
+  elements: 1,
+  size: btc.CompactSize.encode(BigInt(size)).length + size,
+});
+
+const addSatisfactions = (...satisfactions: PolicySatisfaction[]): PolicySatisfaction =>
+  satisfactions.reduce((sum, { elements, size }) => ({ elements: sum.elements + elements, size: sum.size + size }), {
+    ...EMPTY_SATISFACTION,
+  });
+
+const splitArguments = (args: string): string[] => {
+  const result: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '(') depth++;
+    if (args[i] === ')') depth--;
+
+    if (args[i] === ',' && depth === 0) {
+      result.push(args.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  result.push(args.slice(start).trim());
+  return result;
+};
+
+const parseNumber = (value: string, policy: string): number => {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid number in policy: ${policy}`);
+  }
+
+  return +value;
+};
+
+const parseKey = (value: string, scriptType: PolicyScriptType): Uint8Array => {
+  let key: Uint8Array;
+
+  try {
+    key = hex.decode(value);
+  } catch (e) {
+    throw new Error(`Invalid public key in policy: ${value}`);
+  }
+
+  if (scriptType === 'tr') {
+    // tapscript uses x-only keys
+    if (key.length === 33) return key.slice(1);
+    if (key.length === 32) return key;
+  } else if (key.length === 33) {
+    return key;
+  }
+
+  throw new Error(`Invalid public key in policy: ${value}`);
+};
+
+const parsePolicy = (policy: string, scriptType: PolicyScriptType): PolicyNode => {
+  const match = policy.trim().match(/^(\w+)\((.*)\)$/s);
+
+  if (!match) {
+    throw new Error(`Invalid policy: ${policy}`);
+  }
+
+  const [, name, argString] = match;
+  const args = splitArguments(argString);
+
+  switch (name) {
+    case 'pk':
+      if (args.length !== 1) break;
+      return { type: 'pk', key: parseKey(args[0], scriptType) };
+    case 'after':
+    case 'older': {
+      if (args.length !== 1) break;
+      const value = parseNumber(args[0], policy);
+
+      if (value < 1 || value > (name === 'older' ? MAX_RELATIVE_LOCKTIME : MAX_LOCKTIME)) {
+        throw new Error(`Invalid timelock in policy: ${policy}`);
+      }
+
+      return { type: name, value };
+    }
+    case 'sha256':
+    case 'hash256':
+    case 'ripemd160':
+    case 'hash160': {
+      if (args.length !== 1) break;
+      const hash = /^[0-9a-fA-F]*$/.test(args[0]) ? hex.decode(args[0].toLowerCase()) : undefined;
+
+      if (hash?.length !== HASH_SIZES[name]) {
+        throw new Error(`Invalid hash in policy: ${policy}`);
+      }
+
+      return { type: name, hash };
+    }
+    case 'and':
+      if (args.length !== 2) break;
+      return { type: 'and', children: args.map((arg) => parsePolicy(arg, scriptType)) };
+    case 'or': {
+      if (args.length !== 2) break;
+      // branches can be given a probability, e.g. or(9@pk(A),1@pk(B)), which decides their depth in taproot trees
+      const branches = args.map((arg) => arg.match(/^(\d+)@(.*)$/s));
+      return {
+        type: 'or',
+        children: args.map((arg, i) => parsePolicy(branches[i]?.[2] ?? arg, scriptType)),
+        weights: branches.map((branch) => (branch ? parseNumber(branch[1], policy) : 1)),
+      };
+    }
+    case 'thresh': {
+      if (args.length < 2) break;
+      const k = parseNumber(args[0], policy);
+      const children = args.slice(1).map((arg) => parsePolicy(arg, scriptType));
+
+      if (k < 1 || k > children.length) {
+        throw new Error(`Invalid threshold in policy: ${policy}`);
+      }
+
+      return { type: 'thresh', k, children };
+    }
+    default:
+      throw new Error(`Unsupported policy fragment: ${name}`);
+  }
+
+  throw new Error(`Invalid number of arguments in policy: ${policy}`);
+};
+
+/**
+ * Turns a fragment which leaves its result on the stack into one which fails the script unless it is satisfied
+ */
+const toVerify = (script: ScriptOp[]): ScriptOp[] => {
+  const verifyOps: Record<string, ScriptOp> = {
+    CHECKSIG: 'CHECKSIGVERIFY',
+    CHECKMULTISIG: 'CHECKMULTISIGVERIFY',
+    EQUAL: 'EQUALVERIFY',
+    NUMEQUAL: 'NUMEQUALVERIFY',
+  };
+  const lastOp = script[script.length - 1];
+
+  if (typeof lastOp === 'string' && verifyOps[lastOp]) {
+    return [...script.slice(0, -1), verifyOps[lastOp]];
+  }
+
+  return [...script, 'VERIFY'];
+};
+
+const compileFragment = (node: PolicyNode, scriptType: PolicyScriptType): Fragment => {
+  const signatureSize = scriptType === 'tr' ? SCHNORR_SIGNATURE_SIZE : ECDSA_SIGNATURE_SIZE;
+
+  switch (node.type) {
+    case 'pk':
+      return { script: [node.key, 'CHECKSIG'], satisfaction: getElementSatisfaction(signatureSize) };
+    case 'after':
+      return { script: [node.value, 'CHECKLOCKTIMEVERIFY'], satisfaction: EMPTY_SATISFACTION };
+    case 'older':
+      return { script: [node.value, 'CHECKSEQUENCEVERIFY'], satisfaction: EMPTY_SATISFACTION };
+    case 'sha256':
+    case 'hash256':
+    case 'ripemd160':
+    case 'hash160':
+      // the preimage is always 32 bytes, which prevents malleating the witness
+      return {
+        script: ['SIZE', 32, 'EQUALVERIFY', node.type.toUpperCase() as ScriptOp, node.hash, 'EQUAL'],
+        satisfaction: getElementSatisfaction(32),
+      };
+    case 'and': {
+      const [left, right] = node.children.map((child) => compileFragment(child, scriptType));
+      return {
+        script: [...toVerify(left.script), ...right.script],
+        satisfaction: addSatisfactions(left.satisfaction, right.satisfaction),
+      };
+    }
+    case 'or': {
+      // the satisfier picks the branch with a selector, which is 1 for the first branch and empty for the second
+      const [left, right] = node.children.map((child) => compileFragment(child, scriptType));
+      const leftSatisfaction = addSatisfactions(left.satisfaction, getElementSatisfaction(1));
+      const rightSatisfaction = addSatisfactions(right.satisfaction, getElementSatisfaction(0));
+
+      return {
+        script: ['IF', ...left.script, 'ELSE', ...right.script, 'ENDIF'],
+        satisfaction: leftSatisfaction.size >= rightSatisfaction.size ? leftSatisfaction : rightSatisfaction,
+      };
+    }
+    case 'thresh': {
+      const { k, children } = node;
+      const n = children.length;
+
+      if (children.every((child) => child.type === 'pk')) {
+        const keys = children.map((child) => (child as Extract<PolicyNode, { type: 'pk' }>).key);
+
+        if (scriptType === 'tr') {
+          return {
+            script: [
+              ...keys.flatMap((key, i): ScriptOp[] => [key, i === 0 ? 'CHECKSIG' : 'CHECKSIGADD']),
+              k,
+              'NUMEQUAL',
+            ],
+            satisfaction: addSatisfactions(
+              ...Array.from({ length: n }, (_, i) => getElementSatisfaction(i < k ? signatureSize : 0)),
+            ),
+          };
+        }
+
+        if (n <= MAX_MULTISIG_KEYS) {
+          // CHECKMULTISIG pops an extra element, which has to be empty
+          return {
+            script: [k, ...keys, n, 'CHECKMULTISIG'],
+            satisfaction: addSatisfactions(
+              getElementSatisfaction(0),
+              ...Array.from({ length: k }, () => getElementSatisfaction(signatureSize)),
+            ),
+          };
+        }
+      }
+
+      // each branch pushes 1 when satisfied and 0 otherwise, and the results are summed on the alt stack
+      const branches = children.map((child) => compileFragment(child, scriptType));
+      const branchScripts = branches.map(({ script }): ScriptOp[] => [
+        'IF',
+        ...toVerify(script),
+        1,
+        'ELSE',
+        0,
+        'ENDIF',
+      ]);
+      const satisfiedSizes = branches
+        .map(({ satisfaction }) => addSatisfactions(satisfaction, getElementSatisfaction(1)))
+        .sort((a, b) => b.size - a.size);
+
+      return {
+        script: [
+          ...branchScripts[0],
+          ...branchScripts.slice(1).flatMap((script): ScriptOp[] => ['TOALTSTACK', ...script, 'FROMALTSTACK', 'ADD']),
+          k,
+          'EQUAL',
+        ],
+        satisfaction: addSatisfactions(
+          ...satisfiedSizes.slice(0, k),
+          ...Array.from({ length: n - k }, () => getElementSatisfaction(0)),
+        ),
+      };
+    }
+    default:
+      throw new Error('Unsupported policy fragment');
+  }
+};
+
+/**
+ * Splits the top level alternatives of a policy into separate tapscript leaves, so each is spent on its own
+ */
+const getTapLeafPolicies = (node: PolicyNode, weight = 1): { node: PolicyNode; weight: number }[] => {
+  if (node.type !== 'or') {
+    return [{ node, weight }];
+  }
+
+  const totalWeight = node.weights[0] + node.weights[1];
+
+  return node.children.flatMap((child, i) => getTapLeafPolicies(child, (weight * node.weights[i]) / totalWeight));
+};
+
+/**
+ * Compiles a Miniscript policy, such as `and(pk(A),older(144))` or `thresh(2,pk(A),pk(B),sha256(H))`, into a segwit
+ * v0 witness script or taproot script leaves. Keys are hex encoded public keys and hashes are hex encoded digests.
+ * Taproot outputs use the unspendable internal key unless one is given, in which case they can be spent by that key.
+ */
+export const compilePolicy = (
+  policy: string,
+  scriptType: PolicyScriptType,
+  internalKey?: Uint8Array,
+): CompiledPolicy => {
+  const root = parsePolicy(policy, scriptType);
+
+  if (scriptType === 'wsh') {
+    const fragment = compileFragment(root, scriptType);
+    const witnessScript = btc.Script.encode(fragment.script);
+    const hash = crypto.sha256(Buffer.from(witnessScript));
+
+    return {
+      type: 'wsh',
+      script: btc.OutScript.encode({ type: 'wsh', hash }),
+      leaves: [{ script: witnessScript, satisfaction: fragment.satisfaction }],
+    };
+  }
+
+  const leafPolicies = getTapLeafPolicies(root);
+  const leaves = leafPolicies.map(({ node }) => {
+    const fragment = compileFragment(node, scriptType);
+    return { script: btc.Script.encode(fragment.script), satisfaction: fragment.satisfaction };
+  });
+
+  // leaves are weighted by their probability, so the likely ones have a shorter path
+  const tree = btc.taprootListToTree(
+    leaves.map(({ script }, i) => ({ script, weight: Math.max(1, Math.round(leafPolicies[i].weight * 1000)) })),
+  );
+  const p2tr = btc.p2tr(
+    internalKey?.length === 33 ? internalKey.slice(1) : internalKey ?? btc.TAPROOT_UNSPENDABLE_KEY,
+    tree,
+    undefined,
+    true,
+  );
+
+  return {
+    type: 'tr',
+    script: p2tr.script,
+    leaves,
+    tapInternalKey: p2tr.tapInternalKey,
+    tapLeafScript: p2tr.tapLeafScript,
+  };
+};
+
+/**
+ * Returns the input fields needed to spend an output of a compiled policy through one of its leaves. Besides the
+ * scripts, this includes the satisfaction size, which is used to estimate the size of the input.
+ */
+export const getPolicyInputFields = (compiledPolicy: CompiledPolicy, leafIndex = 0) => {
+  const leaf = compiledPolicy.leaves[leafIndex];
+
+  if (!leaf) {
+    throw new Error(`Policy leaf ${leafIndex} does not exist`);
+  }
+
+  const satisfaction = new Uint8Array(8);
+  new DataView(satisfaction.buffer).setUint32(0, leaf.satisfaction.elements, true);
+  new DataView(satisfaction.buffer).setUint32(4, leaf.satisfaction.size, true);
+  const proprietary: TransactionInput['proprietary'] = [[POLICY_SATISFACTION_PROPRIETARY_KEY, satisfaction]];
+
+  if (compiledPolicy.type === 'wsh') {
+    return { witnessScript: leaf.script, proprietary };
+  }
+
+  const tapLeafScript = compiledPolicy.tapLeafScript?.filter(([, script]) =>
+    P.equalBytes(script.subarray(0, -1), leaf.script),
+  );
+
+  return { tapInternalKey: compiledPolicy.tapInternalKey, tapLeafScript, proprietary };
+};
+
+/**
+ * Returns the satisfaction size of an input spending a compiled policy, if it was added with the policy input fields
+ */
+export const getPolicySatisfaction = (input: TransactionInput): PolicySatisfaction | undefined => {
+  const satisfaction = input.proprietary?.find(([key]) => P.equalBytes(key, POLICY_SATISFACTION_PROPRIETARY_KEY))?.[1];
+
+  if (!satisfaction || satisfaction.length !== 8) {
+    return undefined;
+  }
+
+  const view = new DataView(satisfaction.buffer, satisfaction.byteOffset, satisfaction.byteLength);
+  return { elements: view.getUint32(0, true), size: view.getUint32(4, true) };
+};
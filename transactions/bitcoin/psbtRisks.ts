@@ -0,0 +1,245 @@
+import * as btc from '@scure/btc-signer';
+import { TransactionContext } from './context';
+import { EnhancedInput, EnhancedOutput, PsbtRisk, PsbtRiskSeverity, PsbtSummary } from './types';
+
+/** Fee rate, in sats/vbyte, above which the fee of a PSBT is reported as abnormally high */
+export const DEFAULT_HIGH_FEE_RATE_THRESHOLD = 500;
+
+export type PsbtRiskOptions = {
+  highFeeRateThreshold?: number;
+};
+
+const OP_RETURN_HEX = '6a';
+const RUNESTONE_SCRIPT_PREFIX_HEX = '6a5d';
+
+const SEVERITY_ORDER: PsbtRiskSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+/**
+ * Finds the input holding the sat at the given offset of the flattened input sats
+ */
+const findSourceInputIndex = (inputs: EnhancedInput[], absoluteOffset: number): number | undefined => {
+  let inputStart = 0;
+
+  for (let inputIndex = 0; inputIndex < inputs.length; inputIndex++) {
+    const inputEnd = inputStart + inputs[inputIndex].extendedUtxo.utxo.value;
+
+    if (absoluteOffset >= inputStart && absoluteOffset < inputEnd) {
+      return inputIndex;
+    }
+
+    inputStart = inputEnd;
+  }
+
+  return undefined;
+};
+
+const getSatFlowRisks = (summary: Omit<PsbtSummary, 'risks'>, paymentAddress: string, ordinalsAddress: string) => {
+  const risks: PsbtRisk[] = [];
+
+  // script outputs are skipped when allocating sats to outputs in the summary, so they are skipped here too
+  let outputStart = 0;
+
+  summary.outputs.forEach((output, outputIndex) => {
+    if (output.type === 'script') {
+      return;
+    }
+
+    if (output.type === 'address' && output.address === paymentAddress && paymentAddress !== ordinalsAddress) {
+      output.inscriptions.forEach((inscription) => {
+        risks.push({
+          type: 'inscriptionToPaymentAddress',
+          severity: 'medium',
+          inputIndex: findSourceInputIndex(summary.inputs, outputStart + inscription.offset),
+          outputIndex,
+        });
+      });
+      output.satributes.forEach((satribute) => {
+        risks.push({
+          type: 'rareSatsToPaymentAddress',
+          severity: 'low',
+          inputIndex: findSourceInputIndex(summary.inputs, outputStart + satribute.offset),
+          outputIndex,
+        });
+      });
+    }
+
+    outputStart += output.amount;
+  });
+
+  summary.feeOutput?.inscriptions.forEach((inscription) => {
+    risks.push({
+      type: 'inscriptionToFee',
+      severity: 'critical',
+      inputIndex: findSourceInputIndex(summary.inputs, outputStart + inscription.offset),
+    });
+  });
+  summary.feeOutput?.satributes.forEach((satribute) => {
+    risks.push({
+      type: 'rareSatsToFee',
+      severity: 'high',
+      inputIndex: findSourceInputIndex(summary.inputs, outputStart + satribute.offset),
+    });
+  });
+
+  return risks;
+};
+
+const getRuneBurnRisks = async (summary: Omit<PsbtSummary, 'risks'>) => {
+  if (!summary.runeOp?.Cenotaph) {
+    return [];
+  }
+
+  const risks: PsbtRisk[] = [];
+
+  const runestoneOutputIndex = summary.outputs.findIndex(
+    (output) => output.type === 'script' && output.scriptHex.startsWith(RUNESTONE_SCRIPT_PREFIX_HEX),
+  );
+  const outputIndex = runestoneOutputIndex === -1 ? undefined : runestoneOutputIndex;
+
+  for (let inputIndex = 0; inputIndex < summary.inputs.length; inputIndex++) {
+    const input = summary.inputs[inputIndex];
+
+    if (input.walletWillSign && (await input.extendedUtxo.hasRunes())) {
+      risks.push({ type: 'runesBurned', severity: 'critical', inputIndex, outputIndex });
+    }
+  }
+
+  if (risks.length === 0) {
+    // a cenotaph burns any runes in the inputs, even if we couldn't tell that there were any
+    risks.push({ type: 'cenotaph', severity: 'medium', outputIndex });
+  }
+
+  return risks;
+};
+
+const getSigHashRisks = (summary: Omit<PsbtSummary, 'risks'>) => {
+  const risks: PsbtRisk[] = [];
+
+  summary.inputs.forEach((input, inputIndex) => {
+    if (!input.walletWillSign || input.sigHash === undefined) {
+      return;
+    }
+
+    // the lower bits hold the output commitment, the anyone can pay flag only affects which inputs are committed to
+    const outputSigHash = input.sigHash & 0b11;
+
+    if (outputSigHash === btc.SigHash.NONE) {
+      // no outputs are committed to, so the counterparty can send the input to any address
+      risks.push({ type: 'sigHashNone', severity: 'critical', inputIndex });
+      return;
+    }
+
+    if (outputSigHash !== btc.SigHash.SINGLE) {
+      return;
+    }
+
+    const output = summary.outputs[inputIndex];
+
+    if (!output) {
+      risks.push({ type: 'sigHashSingleWithoutOutput', severity: 'critical', inputIndex });
+      return;
+    }
+
+    // only the output at the same index is committed to, so any value above it can be taken by the counterparty
+    if (input.extendedUtxo.utxo.value > output.amount) {
+      risks.push({ type: 'sigHashSingle', severity: 'medium', inputIndex, outputIndex: inputIndex });
+    }
+  });
+
+  return risks;
+};
+
+const getHighFeeRisks = (
+  summary: Omit<PsbtSummary, 'risks'>,
+  vsize: number | undefined,
+  highFeeRateThreshold: number,
+): PsbtRisk[] => {
+  if (!summary.feeOutput || !vsize) {
+    return [];
+  }
+
+  if (summary.feeOutput.amount / vsize < highFeeRateThreshold) {
+    return [];
+  }
+
+  return [{ type: 'highFeeRate', severity: 'high' }];
+};
+
+const isUnknownOutput = (output: EnhancedOutput) => {
+  if (output.type === 'address') {
+    return false;
+  }
+  if (output.type === 'script') {
+    return !output.scriptHex.startsWith(OP_RETURN_HEX);
+  }
+
+  // bare public key and multisig outputs
+  return true;
+};
+
+const getUnknownOutputRisks = (summary: Omit<PsbtSummary, 'risks'>) =>
+  summary.outputs.reduce((risks, output, outputIndex) => {
+    if (isUnknownOutput(output)) {
+      risks.push({ type: 'unknownOutput', severity: 'medium', outputIndex });
+    }
+
+    return risks;
+  }, [] as PsbtRisk[]);
+
+const getOrdinalsDrainRisks = async (context: TransactionContext, summary: Omit<PsbtSummary, 'risks'>) => {
+  const ordinalsAddress = context.ordinalsAddress.address;
+
+  if (ordinalsAddress === context.paymentAddress.address) {
+    return [];
+  }
+
+  const spentOrdinalsInputs = summary.inputs.reduce((inputIndexes, input, inputIndex) => {
+    if (input.walletWillSign && input.extendedUtxo.address === ordinalsAddress) {
+      inputIndexes.set(input.extendedUtxo.outpoint, inputIndex);
+    }
+
+    return inputIndexes;
+  }, new Map<string, number>());
+
+  if (spentOrdinalsInputs.size === 0) {
+    return [];
+  }
+
+  const ordinalsUtxos = await context.ordinalsAddress.getUtxos();
+
+  if (ordinalsUtxos.some((utxo) => !spentOrdinalsInputs.has(utxo.outpoint))) {
+    return [];
+  }
+
+  return [...spentOrdinalsInputs.values()].map(
+    (inputIndex): PsbtRisk => ({ type: 'ordinalsAddressDrained', severity: 'high', inputIndex }),
+  );
+};
+
+/**
+ * Analyses a PSBT summary for anything that could make the user lose funds or assets when signing it.
+ * The sat flow based checks are only done when the summary knows where the sats go, i.e. when it is final.
+ * Risks are returned from the most to the least severe.
+ */
+export const getPsbtRisks = async (
+  context: TransactionContext,
+  summary: Omit<PsbtSummary, 'risks'>,
+  vsize: number | undefined,
+  { highFeeRateThreshold = DEFAULT_HIGH_FEE_RATE_THRESHOLD }: PsbtRiskOptions = {},
+): Promise<PsbtRisk[]> => {
+  const risks: PsbtRisk[] = [
+    ...getSigHashRisks(summary),
+    ...getUnknownOutputRisks(summary),
+    ...(await getRuneBurnRisks(summary)),
+    ...(await getOrdinalsDrainRisks(context, summary)),
+  ];
+
+  if (summary.isFinal) {
+    risks.push(
+      ...getSatFlowRisks(summary, context.paymentAddress.address, context.ordinalsAddress.address),
+      ...getHighFeeRisks(summary, vsize, highFeeRateThreshold),
+    );
+  }
+
+  return risks.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+};
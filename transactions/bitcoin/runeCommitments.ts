@@ -0,0 +1,112 @@
+import * as btc from '@scure/btc-signer';
+import type { NetworkType, TxStatus } from '../../types';
+import { runeNameToNumber } from '../../utils/runestone';
+import { ExtendedUtxo } from './extendedUtxo';
+import { CompiledPolicy } from './policy';
+
+/**
+ * The number of confirmations the commitment of a rune needs, counting the block of the reveal, before it can be etched
+ */
+export const RUNE_COMMIT_CONFIRMATIONS = 6;
+
+/**
+ * Runes from this number on are reserved for etchings which don't name their rune
+ */
+export const RESERVED_RUNE = 6402364363415443603228541259936211926n;
+
+export type RuneCommitmentPayment = {
+  address: string;
+  script: Uint8Array;
+  rune: string;
+  compiledPolicy: CompiledPolicy;
+};
+
+export type RuneCommitmentUtxo = {
+  extendedUtxo: ExtendedUtxo;
+  rune: string;
+  /** Whether the rune can be etched by spending the UTXO in the next block */
+  mature: boolean;
+};
+
+/**
+ * Gets the commitment to a rune name, which is its number as little endian bytes without trailing zeros
+ */
+export const getRuneCommitment = (rune: string): Uint8Array => {
+  let number = runeNameToNumber(rune);
+
+  if (number >= RESERVED_RUNE) {
+    throw new Error(`Rune ${rune} is reserved`);
+  }
+
+  const commitment: number[] = [];
+  while (number > 0n) {
+    commitment.push(Number(number & 0xffn));
+    number >>= 8n;
+  }
+
+  return new Uint8Array(commitment);
+};
+
+/**
+ * Gets the output which commits to a rune name. The commitment is pushed in an unexecuted branch of a tapscript which
+ * checks the signature of the public key, as the etching has to reveal it by spending the output through the script
+ * path. The unspendable internal key ensures the output can't be spent without revealing the commitment.
+ */
+export const getRuneCommitmentPayment = (
+  publicKey: Uint8Array,
+  rune: string,
+  network: NetworkType,
+): RuneCommitmentPayment => {
+  const xOnlyPublicKey = publicKey.length === 33 ? publicKey.slice(1) : publicKey;
+  const leafScript = btc.Script.encode([xOnlyPublicKey, 'CHECKSIG', 'OP_0', 'IF', getRuneCommitment(rune), 'ENDIF']);
+
+  const p2tr = btc.p2tr(btc.TAPROOT_UNSPENDABLE_KEY, { script: leafScript }, undefined, true);
+  const address = btc
+    .Address(network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK)
+    .encode(btc.OutScript.decode(p2tr.script));
+
+  return {
+    address,
+    script: p2tr.script,
+    rune,
+    compiledPolicy: {
+      type: 'tr',
+      script: p2tr.script,
+      // the leaf is satisfied by a schnorr signature with the default sighash and its length prefix
+      leaves: [{ script: leafScript, satisfaction: { elements: 1, size: 65 } }],
+      tapInternalKey: p2tr.tapInternalKey,
+      tapLeafScript: p2tr.tapLeafScript,
+    },
+  };
+};
+
+/**
+ * Checks whether the rune of a commitment output can be etched by a reveal mined in the next block
+ */
+export const isRuneCommitmentMature = (status: TxStatus, height: number): boolean => {
+  if (!status.confirmed || status.block_height === undefined) {
+    return false;
+  }
+
+  return height + 1 - status.block_height + 1 >= RUNE_COMMIT_CONFIRMATIONS;
+};
+
+/**
+ * Builds the witness of a signed input spending a rune commitment, which the signer can't do for custom scripts
+ */
+export const finalizeRuneCommitmentInput = (transaction: btc.Transaction, inputIndex: number): void => {
+  const input = transaction.getInput(inputIndex);
+
+  if (!input.tapLeafScript?.length || !input.tapScriptSig?.length) {
+    throw new Error(`Rune commitment input ${inputIndex} is not signed`);
+  }
+
+  const [controlBlock, leafScript] = input.tapLeafScript[0];
+  const finalScriptWitness = [
+    input.tapScriptSig[0][1],
+    leafScript.slice(0, -1),
+    btc.TaprootControlBlock.encode(controlBlock),
+  ];
+
+  transaction.updateInput(inputIndex, { finalScriptWitness }, true);
+};
@@ -0,0 +1,496 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import type { Artifact, EsploraTransaction, NetworkType } from '../../types';
+import { BigNumber } from '../../utils/bignumber';
+import { decodeRunestoneFromScripts, runeNameToNumber, runeNumberToName } from '../../utils/runestone';
+import { ExtendedUtxo } from './extendedUtxo';
+import { RESERVED_RUNE, getRuneCommitment, isRuneCommitmentMature } from './runeCommitments';
+import { areByteArraysEqual, getOutpoint } from './utils';
+
+const SUBSIDY_HALVING_INTERVAL = 210000;
+
+// names get a letter shorter 12 times over the halving interval after the first rune height
+const RUNE_UNLOCK_STEPS = 12;
+
+const FIRST_RUNE_HEIGHTS: Record<NetworkType, number> = {
+  Mainnet: 840000,
+  Testnet: 2520000,
+  Signet: 0,
+};
+
+/**
+ * Where blocks are read from while indexing. The Esplora provider implements it, and a local node can be used by
+ * providing its blocks in the Esplora transaction format, which includes the prevouts of the inputs.
+ */
+export type RuneBlockSource = {
+  getBlockHash(height: number): Promise<string>;
+  getBlockTransactions(blockHash: string): Promise<EsploraTransaction[]>;
+  /** Used to check the confirmations of the commitment of an etching */
+  getTransaction(txid: string): Promise<EsploraTransaction>;
+};
+
+export type RuneIndexerOptions = {
+  network: NetworkType;
+  blockSource: RuneBlockSource;
+  /** The height from which names start to unlock, which is 0 on regtest */
+  firstRuneHeight?: number;
+};
+
+export type IndexedRuneTerms = {
+  amount?: bigint;
+  cap?: bigint;
+  height: [start?: bigint, end?: bigint];
+  offset: [start?: bigint, end?: bigint];
+};
+
+export type IndexedRune = {
+  id: string;
+  rune: string;
+  spacedRune: string;
+  divisibility: number;
+  symbol?: string;
+  premine: bigint;
+  terms?: IndexedRuneTerms;
+  turbo: boolean;
+  mints: bigint;
+  burned: bigint;
+  block: number;
+  /** The id of the transaction which etched the rune */
+  etching: string;
+};
+
+export type RuneBalanceMismatch = {
+  outpoint: string;
+  runeName: string;
+  indexed: BigNumber;
+  remote: BigNumber;
+};
+
+const toBigInt = (value: BigNumber) => BigInt(value.toString(10));
+
+const toOptionalBigInt = (value?: BigNumber | null) =>
+  value !== undefined && value !== null ? toBigInt(value) : undefined;
+
+const isOpReturn = (scriptPubKey: string) => scriptPubKey.startsWith('6a');
+
+const isP2tr = (scriptPubKey: string) => scriptPubKey.length === 68 && scriptPubKey.startsWith('5120');
+
+const credit = (balances: Map<string, bigint>, runeId: string, amount: bigint) =>
+  balances.set(runeId, (balances.get(runeId) ?? 0n) + amount);
+
+const toSpacedRune = (rune: string, spacers: bigint) =>
+  [...rune].map((letter, i) => (i < rune.length - 1 && (spacers >> BigInt(i)) & 1n ? `${letter}•` : letter)).join('');
+
+// the tapscript is the second to last witness element, not counting the annex
+const getTapscript = (witness: string[] = []) => {
+  const elements = witness.map((element) => hex.decode(element));
+
+  if (elements.length >= 2 && elements[elements.length - 1][0] === 0x50) {
+    elements.pop();
+  }
+
+  return elements.length >= 2 ? elements[elements.length - 2] : undefined;
+};
+
+/**
+ * Gets the amount a mint in a block gets, or undefined if the rune can't be minted there
+ */
+const getMintAmount = (entry: IndexedRune, height: number): bigint | undefined => {
+  const { terms } = entry;
+
+  if (!terms) {
+    return undefined;
+  }
+
+  // the windows of the heights and offsets from the etching both apply
+  const block = BigInt(entry.block);
+  const toHeights = (value?: bigint, offset?: bigint) =>
+    [value, offset !== undefined ? block + offset : undefined].filter((bound): bound is bigint => bound !== undefined);
+
+  if (toHeights(terms.height[0], terms.offset[0]).some((start) => BigInt(height) < start)) {
+    return undefined;
+  }
+
+  if (toHeights(terms.height[1], terms.offset[1]).some((end) => BigInt(height) >= end)) {
+    return undefined;
+  }
+
+  if (entry.mints >= (terms.cap ?? 0n)) {
+    return undefined;
+  }
+
+  return terms.amount ?? 0n;
+};
+
+/**
+ * A minimal rune indexer which applies the etchings, mints, edicts and cenotaphs of the blocks it walks, following the
+ * ord runes specification. Balances are only known for outputs created in the indexed blocks, so indexing has to
+ * start from the first rune height for them to be complete, e.g. on regtest or to check the balances of a server.
+ * https://docs.ordinals.com/runes/specification.html
+ */
+export class RuneIndexer {
+  private _blockSource!: RuneBlockSource;
+
+  private _firstRuneHeight!: number;
+
+  private _height?: number;
+
+  private _runes = new Map<string, IndexedRune>();
+
+  private _runeIds = new Map<string, string>();
+
+  private _balances = new Map<string, Map<string, bigint>>();
+
+  constructor(options: RuneIndexerOptions) {
+    this._blockSource = options.blockSource;
+    this._firstRuneHeight = options.firstRuneHeight ?? FIRST_RUNE_HEIGHTS[options.network];
+  }
+
+  /** The last indexed block height */
+  get height(): number | undefined {
+    return this._height;
+  }
+
+  /**
+   * Indexes the blocks from one height to another, both included. Blocks have to be indexed in order.
+   */
+  async indexBlocks(fromHeight: number, toHeight: number): Promise<void> {
+    if (this._height !== undefined && fromHeight !== this._height + 1) {
+      throw new Error(`Blocks must be indexed in order, expected block ${this._height + 1}`);
+    }
+
+    for (let height = fromHeight; height <= toHeight; height++) {
+      const blockHash = await this._blockSource.getBlockHash(height);
+      const transactions = await this._blockSource.getBlockTransactions(blockHash);
+
+      for (const [txIndex, transaction] of transactions.entries()) {
+        await this.indexTransaction(transaction, height, txIndex);
+      }
+
+      this._height = height;
+    }
+  }
+
+  /**
+   * Applies the runestone of a transaction at its position in a block, and moves the runes of its inputs. Runestones
+   * are ignored before the first rune height.
+   */
+  async indexTransaction(transaction: EsploraTransaction, height: number, txIndex: number): Promise<void> {
+    if (height < this._firstRuneHeight) {
+      return;
+    }
+
+    const artifact = decodeRunestoneFromScripts(transaction.vout.map(({ scriptpubkey }) => hex.decode(scriptpubkey)));
+
+    const unallocated = new Map<string, bigint>();
+    for (const { txid, vout, is_coinbase: isCoinbase } of transaction.vin) {
+      const outpoint = getOutpoint(txid, vout);
+      const balances = this._balances.get(outpoint);
+
+      if (isCoinbase || !balances) {
+        continue;
+      }
+
+      balances.forEach((amount, runeId) => credit(unallocated, runeId, amount));
+      this._balances.delete(outpoint);
+    }
+
+    // a cenotaph still mints, but what it mints is burned with the rest of the inputs
+    const mintId = artifact?.Runestone?.mint ?? artifact?.Cenotaph?.mint;
+    const mintedRune = mintId ? this._runes.get(mintId) : undefined;
+    const mintAmount = mintedRune ? getMintAmount(mintedRune, height) : undefined;
+
+    if (mintedRune && mintAmount !== undefined) {
+      mintedRune.mints += 1n;
+      credit(unallocated, mintedRune.id, mintAmount);
+    }
+
+    const etchedRune = artifact ? await this.getEtchedRune(transaction, artifact, height, txIndex) : undefined;
+    const etchingId = `${height}:${txIndex}`;
+    const etching = artifact?.Runestone?.etching;
+
+    if (etchedRune && etching) {
+      credit(unallocated, etchingId, toOptionalBigInt(etching.premine) ?? 0n);
+    }
+
+    const allocated = transaction.vout.map(() => new Map<string, bigint>());
+    const burned = new Map<string, bigint>();
+
+    const allocate = (runeId: string, amount: bigint, output: number) => {
+      if (amount > 0n) {
+        credit(unallocated, runeId, -amount);
+        credit(allocated[output], runeId, amount);
+      }
+    };
+
+    for (const edict of artifact?.Runestone?.edicts ?? []) {
+      // the id 0:0 refers to the rune etched by the transaction
+      const runeId = edict.id === '0:0' ? (etchedRune ? etchingId : undefined) : edict.id;
+      const balance = runeId ? unallocated.get(runeId) : undefined;
+
+      if (!runeId || balance === undefined) {
+        continue;
+      }
+
+      const amount = toBigInt(edict.amount);
+      const output = edict.output.toNumber();
+
+      if (output < transaction.vout.length) {
+        allocate(runeId, amount === 0n ? balance : amount < balance ? amount : balance, output);
+        continue;
+      }
+
+      // an output equal to the number of outputs splits the amount between all non OP_RETURN outputs
+      const destinations = transaction.vout
+        .map(({ scriptpubkey }, vout) => (isOpReturn(scriptpubkey) ? undefined : vout))
+        .filter((vout): vout is number => vout !== undefined);
+
+      if (destinations.length === 0) {
+        continue;
+      }
+
+      if (amount === 0n) {
+        const share = balance / BigInt(destinations.length);
+        const remainder = balance % BigInt(destinations.length);
+
+        destinations.forEach((vout, i) => allocate(runeId, BigInt(i) < remainder ? share + 1n : share, vout));
+      } else {
+        destinations.forEach((vout) => {
+          const remaining = unallocated.get(runeId) ?? 0n;
+          allocate(runeId, amount < remaining ? amount : remaining, vout);
+        });
+      }
+    }
+
+    if (artifact?.Cenotaph) {
+      unallocated.forEach((amount, runeId) => credit(burned, runeId, amount));
+    } else {
+      // what is left goes to the pointer, or the first non OP_RETURN output, and is burned if there is none
+      const pointer = artifact?.Runestone?.pointer;
+      const defaultOutput =
+        pointer !== undefined && pointer !== null
+          ? pointer.toNumber()
+          : transaction.vout.findIndex(({ scriptpubkey }) => !isOpReturn(scriptpubkey));
+
+      unallocated.forEach((amount, runeId) => {
+        if (amount > 0n) {
+          credit(defaultOutput === -1 ? burned : allocated[defaultOutput], runeId, amount);
+        }
+      });
+    }
+
+    allocated.forEach((balances, vout) => {
+      if (balances.size === 0) {
+        return;
+      }
+
+      if (isOpReturn(transaction.vout[vout].scriptpubkey)) {
+        balances.forEach((amount, runeId) => credit(burned, runeId, amount));
+        return;
+      }
+
+      this._balances.set(getOutpoint(transaction.txid, vout), balances);
+    });
+
+    if (etchedRune) {
+      this.addRune({
+        id: etchingId,
+        rune: etchedRune,
+        spacedRune: toSpacedRune(etchedRune, etching ? toBigInt(etching.spacers) : 0n),
+        divisibility: etching?.divisibility?.toNumber() ?? 0,
+        symbol: etching?.symbol,
+        premine: toOptionalBigInt(etching?.premine) ?? 0n,
+        terms: etching?.terms && {
+          amount: toOptionalBigInt(etching.terms.amount),
+          cap: toOptionalBigInt(etching.terms.cap),
+          height: [toOptionalBigInt(etching.terms.height[0]), toOptionalBigInt(etching.terms.height[1])],
+          offset: [toOptionalBigInt(etching.terms.offset[0]), toOptionalBigInt(etching.terms.offset[1])],
+        },
+        turbo: !!etching?.turbo,
+        mints: 0n,
+        burned: 0n,
+        block: height,
+        etching: transaction.txid,
+      });
+    }
+
+    burned.forEach((amount, runeId) => {
+      const entry = this._runes.get(runeId);
+
+      if (entry) {
+        entry.burned += amount;
+      }
+    });
+  }
+
+  /**
+   * Gets a rune by its id or its name, with or without spacers
+   */
+  getRune(runeIdOrName: string): IndexedRune | undefined {
+    const runeId = this._runeIds.get(runeIdOrName.replace(/•/g, '').toUpperCase()) ?? runeIdOrName;
+    const entry = this._runes.get(runeId);
+
+    return entry && { ...entry };
+  }
+
+  /**
+   * Gets the rune balances of an output in the same format as {@link ExtendedUtxo.getRuneBalances}
+   */
+  getRuneBalances(outpoint: string): { [runeName: string]: BigNumber } {
+    const runeBalances: { [runeName: string]: BigNumber } = {};
+
+    this._balances.get(outpoint)?.forEach((amount, runeId) => {
+      const entry = this._runes.get(runeId);
+
+      if (entry) {
+        runeBalances[entry.rune] = BigNumber(amount.toString());
+      }
+    });
+
+    return runeBalances;
+  }
+
+  /**
+   * Compares the indexed rune balances of UTXOs with the ones of the UTXO cache. UTXOs the cache doesn't know yet are
+   * skipped.
+   */
+  async getBalanceMismatches(extendedUtxos: ExtendedUtxo[]): Promise<RuneBalanceMismatch[]> {
+    const mismatches: RuneBalanceMismatch[] = [];
+
+    for (const extendedUtxo of extendedUtxos) {
+      const remoteBalances = await extendedUtxo.getRuneBalances();
+
+      if (!remoteBalances) {
+        continue;
+      }
+
+      const indexedBalances = this.getRuneBalances(extendedUtxo.outpoint);
+      const remote: Record<string, BigNumber> = {};
+      for (const [runeName, amount] of Object.entries(remoteBalances)) {
+        remote[runeName.replace(/•/g, '')] = BigNumber(amount);
+      }
+
+      for (const runeName of new Set([...Object.keys(indexedBalances), ...Object.keys(remote)])) {
+        const indexedAmount = indexedBalances[runeName] ?? BigNumber(0);
+        const remoteAmount = remote[runeName] ?? BigNumber(0);
+
+        if (!indexedAmount.eq(remoteAmount)) {
+          mismatches.push({ outpoint: extendedUtxo.outpoint, runeName, indexed: indexedAmount, remote: remoteAmount });
+        }
+      }
+    }
+
+    return mismatches;
+  }
+
+  private addRune(entry: IndexedRune) {
+    this._runes.set(entry.id, entry);
+    this._runeIds.set(entry.rune, entry.id);
+  }
+
+  /**
+   * Gets the name of the rune a transaction etches, if the etching is valid. Names have to be unlocked at the height
+   * of the etching and committed to by an input, while etchings without a name get a reserved one.
+   */
+  private async getEtchedRune(
+    transaction: EsploraTransaction,
+    artifact: Artifact,
+    height: number,
+    txIndex: number,
+  ): Promise<string | undefined> {
+    let rune: bigint | undefined;
+
+    if (artifact.Runestone) {
+      if (!artifact.Runestone.etching) {
+        return undefined;
+      }
+
+      const { rune: runeName } = artifact.Runestone.etching;
+      rune = runeName !== undefined ? runeNameToNumber(runeName) : undefined;
+    } else if (artifact.Cenotaph?.etching) {
+      rune = toBigInt(artifact.Cenotaph.etching);
+    } else {
+      return undefined;
+    }
+
+    if (rune === undefined) {
+      return runeNumberToName(RESERVED_RUNE + ((BigInt(height) << 32n) | BigInt(txIndex)));
+    }
+
+    if (
+      rune < this.getMinimumRune(height) ||
+      rune >= RESERVED_RUNE ||
+      this._runeIds.has(runeNumberToName(rune)) ||
+      !(await this.commitsToRune(transaction, runeNumberToName(rune), height))
+    ) {
+      return undefined;
+    }
+
+    return runeNumberToName(rune);
+  }
+
+  /**
+   * Gets the smallest rune number which can be etched at a height. Names of 13 letters are unlocked first, and the
+   * length is reduced by a letter every twelfth of the halving interval until all names are unlocked.
+   */
+  private getMinimumRune(height: number): bigint {
+    // the number of the first name of each length
+    const steps = [0n];
+    for (let length = 1; length <= RUNE_UNLOCK_STEPS; length++) {
+      steps.push(steps[length - 1] + 26n ** BigInt(length));
+    }
+
+    const offset = height + 1;
+    const interval = SUBSIDY_HALVING_INTERVAL / RUNE_UNLOCK_STEPS;
+
+    if (offset < this._firstRuneHeight) {
+      return steps[RUNE_UNLOCK_STEPS];
+    }
+
+    if (offset >= this._firstRuneHeight + SUBSIDY_HALVING_INTERVAL) {
+      return 0n;
+    }
+
+    const progress = offset - this._firstRuneHeight;
+    const length = RUNE_UNLOCK_STEPS - Math.floor(progress / interval);
+    const start = steps[length];
+    const end = steps[length - 1];
+
+    return start - ((start - end) * BigInt(progress % interval)) / BigInt(interval);
+  }
+
+  private async commitsToRune(transaction: EsploraTransaction, rune: string, height: number): Promise<boolean> {
+    const commitment = getRuneCommitment(rune);
+
+    for (const { txid, prevout, witness } of transaction.vin) {
+      const tapscript = getTapscript(witness);
+
+      if (!tapscript) {
+        continue;
+      }
+
+      let script: ReturnType<typeof btc.Script.decode>;
+      try {
+        script = btc.Script.decode(tapscript);
+      } catch (error) {
+        continue;
+      }
+
+      const hasCommitment = script.some(
+        (element) => element instanceof Uint8Array && areByteArraysEqual(element, commitment),
+      );
+
+      if (!hasCommitment || !isP2tr(prevout.scriptpubkey)) {
+        continue;
+      }
+
+      // the commitment is mature if the etching could be mined in the block after the one before its own
+      const { status } = await this._blockSource.getTransaction(txid);
+      if (isRuneCommitmentMature(status, height - 1)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
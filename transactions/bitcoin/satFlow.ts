@@ -0,0 +1,186 @@
+import { EnhancedInput, IOInscription, IOSatribute } from './types';
+
+/**
+ * A contiguous range of sats, identified by the wallet input they originally come from
+ */
+export type SatRange = {
+  /** The outpoint of the input the sats come from */
+  outpoint: string;
+  /** The offset of the first sat of the range in that input */
+  inputOffset: number;
+  /** The offset of the first sat of the range in the output holding it */
+  offset: number;
+  amount: number;
+};
+
+export type SatFlowOutput = {
+  amount: number;
+  satRanges: SatRange[];
+  inscriptions: IOInscription[];
+  satributes: IOSatribute[];
+};
+
+/** An output of an earlier transaction of the same chain */
+export type SatFlowOutputRef = {
+  transactionIndex: number;
+  outputIndex: number;
+};
+
+export type SatFlowTransaction = {
+  inputs: (EnhancedInput | SatFlowOutputRef)[];
+  outputAmounts: number[];
+};
+
+export type SatFlowResult = {
+  outputs: SatFlowOutput[];
+  /** The sats which are not assigned to any output and go to the miner */
+  fee: SatFlowOutput;
+};
+
+const isOutputRef = (input: EnhancedInput | SatFlowOutputRef): input is SatFlowOutputRef =>
+  (input as SatFlowOutputRef).transactionIndex !== undefined;
+
+const inputToSatFlowOutput = (input: EnhancedInput): SatFlowOutput => {
+  const amount = input.extendedUtxo.utxo.value;
+
+  return {
+    amount,
+    satRanges: amount > 0 ? [{ outpoint: input.extendedUtxo.outpoint, inputOffset: 0, offset: 0, amount }] : [],
+    inscriptions: input.inscriptions.map((inscription) => ({ ...inscription })),
+    satributes: input.satributes.map((satribute) => ({ ...satribute })),
+  };
+};
+
+/**
+ * Lays out the sats of the inputs one after the other, as they are ordered in the transaction
+ */
+const concatSats = (inputs: SatFlowOutput[]): SatFlowOutput => {
+  const flow: SatFlowOutput = { amount: 0, satRanges: [], inscriptions: [], satributes: [] };
+
+  for (const input of inputs) {
+    for (const satRange of input.satRanges) {
+      const previousRange = flow.satRanges[flow.satRanges.length - 1];
+      const offset = flow.amount + satRange.offset;
+
+      if (
+        previousRange &&
+        previousRange.outpoint === satRange.outpoint &&
+        previousRange.offset + previousRange.amount === offset &&
+        previousRange.inputOffset + previousRange.amount === satRange.inputOffset
+      ) {
+        previousRange.amount += satRange.amount;
+      } else {
+        flow.satRanges.push({ ...satRange, offset });
+      }
+    }
+
+    flow.inscriptions.push(...input.inscriptions.map((i) => ({ ...i, offset: flow.amount + i.offset })));
+    flow.satributes.push(...input.satributes.map((s) => ({ ...s, offset: flow.amount + s.offset })));
+
+    flow.amount += input.amount;
+  }
+
+  return flow;
+};
+
+/**
+ * Takes the sats between start and start + amount, with offsets relative to start
+ */
+const sliceSats = (flow: SatFlowOutput, start: number, amount: number): SatFlowOutput => {
+  const end = start + amount;
+
+  const satRanges = flow.satRanges
+    .filter((satRange) => satRange.offset < end && satRange.offset + satRange.amount > start)
+    .map((satRange) => {
+      const rangeStart = Math.max(satRange.offset, start);
+      const rangeEnd = Math.min(satRange.offset + satRange.amount, end);
+
+      return {
+        outpoint: satRange.outpoint,
+        inputOffset: satRange.inputOffset + rangeStart - satRange.offset,
+        offset: rangeStart - start,
+        amount: rangeEnd - rangeStart,
+      };
+    });
+
+  const inscriptions = flow.inscriptions
+    .filter((inscription) => inscription.offset >= start && inscription.offset < end)
+    .map((inscription) => ({ ...inscription, offset: inscription.offset - start }));
+
+  const satributes = flow.satributes
+    .filter((satribute) => satribute.offset < end && satribute.offset + satribute.amount > start)
+    .map((satribute) => {
+      const satributeStart = Math.max(satribute.offset, start);
+      const satributeEnd = Math.min(satribute.offset + satribute.amount, end);
+
+      return { ...satribute, offset: satributeStart - start, amount: satributeEnd - satributeStart };
+    });
+
+  return { amount, satRanges, inscriptions, satributes };
+};
+
+const assignSats = (inputs: SatFlowOutput[], outputAmounts: number[]): SatFlowResult => {
+  const flow = concatSats(inputs);
+
+  let currentOffset = 0;
+  const outputs = outputAmounts.map((amount) => {
+    if (amount < 0) {
+      throw new Error('Output amounts cannot be negative');
+    }
+
+    const output = sliceSats(flow, currentOffset, amount);
+    currentOffset += amount;
+    return output;
+  });
+
+  if (currentOffset > flow.amount) {
+    throw new Error('Output amounts exceed input amounts');
+  }
+
+  return { outputs, fee: sliceSats(flow, currentOffset, flow.amount - currentOffset) };
+};
+
+/**
+ * Assigns the sats of the inputs to the outputs first-in-first-out, as per ordinal theory. Sats left over after the
+ * last output are the fee.
+ */
+export const getSatFlow = (inputs: EnhancedInput[], outputAmounts: number[]): SatFlowResult =>
+  assignSats(inputs.map(inputToSatFlowOutput), outputAmounts);
+
+/**
+ * Follows sats through a chain of transactions, e.g. a commit and its reveal. Inputs of a transaction can either be
+ * wallet inputs or outputs of earlier transactions in the chain.
+ */
+export const simulateSatFlow = (transactions: SatFlowTransaction[]): SatFlowResult[] => {
+  const results: SatFlowResult[] = [];
+  const spentOutputs = new Set<string>();
+
+  transactions.forEach((transaction, transactionIndex) => {
+    const inputs = transaction.inputs.map((input) => {
+      if (!isOutputRef(input)) {
+        return inputToSatFlowOutput(input);
+      }
+
+      if (input.transactionIndex < 0 || input.transactionIndex >= transactionIndex) {
+        throw new Error(`Transaction ${transactionIndex} can only spend outputs of earlier transactions`);
+      }
+
+      const output = results[input.transactionIndex].outputs[input.outputIndex];
+      if (!output) {
+        throw new Error(`Output ${input.transactionIndex}:${input.outputIndex} does not exist`);
+      }
+
+      const outputKey = `${input.transactionIndex}:${input.outputIndex}`;
+      if (spentOutputs.has(outputKey)) {
+        throw new Error(`Output ${outputKey} is spent more than once`);
+      }
+      spentOutputs.add(outputKey);
+
+      return output;
+    });
+
+    results.push(assignSats(inputs, transaction.outputAmounts));
+  });
+
+  return results;
+};
@@ -0,0 +1,103 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import EsploraProvider from '../../api/esplora/esploraAPiProvider';
+import { UtxoCache } from '../../api/utxoCache';
+import type { EsploraTransaction, NetworkType, TxStatus } from '../../types';
+import { ExtendedUtxo } from './extendedUtxo';
+import { scanSilentPaymentTransaction } from './silentPayments';
+import { getOutpoint } from './utils';
+
+/**
+ * Where blocks are read from while scanning. The Esplora provider implements it, and a local node can be used by
+ * providing its blocks in the Esplora transaction format, which includes the prevouts of the inputs.
+ */
+export type SilentPaymentBlockSource = {
+  getBlockHash(height: number): Promise<string>;
+  getBlockTransactions(blockHash: string): Promise<EsploraTransaction[]>;
+};
+
+export type SilentPaymentScannerOptions = {
+  network: NetworkType;
+  scanPrivateKey: Uint8Array;
+  spendPublicKey: Uint8Array;
+  blockSource: SilentPaymentBlockSource;
+  utxoCache: UtxoCache;
+  esploraApiProvider: EsploraProvider;
+};
+
+/**
+ * Walks blocks to find outputs paid to a silent payment address. Only the scan private key is needed, so scanning can
+ * happen without access to the seed. Outputs found are tracked until they are spent in a later scanned block.
+ */
+export class SilentPaymentScanner {
+  private _network!: NetworkType;
+
+  private _scanPrivateKey!: Uint8Array;
+
+  private _spendPublicKey!: Uint8Array;
+
+  private _blockSource!: SilentPaymentBlockSource;
+
+  private _utxoCache!: UtxoCache;
+
+  private _esploraApiProvider!: EsploraProvider;
+
+  private _utxos: ExtendedUtxo[] = [];
+
+  constructor(options: SilentPaymentScannerOptions) {
+    this._network = options.network;
+    this._scanPrivateKey = options.scanPrivateKey;
+    this._spendPublicKey = options.spendPublicKey;
+    this._blockSource = options.blockSource;
+    this._utxoCache = options.utxoCache;
+    this._esploraApiProvider = options.esploraApiProvider;
+  }
+
+  get utxos(): ExtendedUtxo[] {
+    return [...this._utxos];
+  }
+
+  /**
+   * Scans the blocks from one height to another, both included, and returns the unspent silent payment outputs found
+   * so far
+   */
+  async scanBlocks(fromHeight: number, toHeight: number): Promise<ExtendedUtxo[]> {
+    for (let height = fromHeight; height <= toHeight; height++) {
+      const blockHash = await this._blockSource.getBlockHash(height);
+      const transactions = await this._blockSource.getBlockTransactions(blockHash);
+
+      transactions.forEach((transaction) =>
+        this.scanTransaction(transaction, { confirmed: true, block_hash: blockHash, block_height: height }),
+      );
+    }
+
+    return this.utxos;
+  }
+
+  scanTransaction(transaction: EsploraTransaction, status: TxStatus = transaction.status): ExtendedUtxo[] {
+    const spentOutpoints = new Set(transaction.vin.map(({ txid, vout }) => getOutpoint(txid, vout)));
+    this._utxos = this._utxos.filter((utxo) => !spentOutpoints.has(utxo.outpoint));
+
+    const receivedUtxos = scanSilentPaymentTransaction(transaction, this._scanPrivateKey, this._spendPublicKey).map(
+      ({ vout, tweak }) => {
+        const address = btc
+          .Address(this._network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK)
+          .encode(btc.OutScript.decode(hex.decode(transaction.vout[vout].scriptpubkey)));
+
+        return new ExtendedUtxo(
+          { txid: transaction.txid, vout, value: transaction.vout[vout].value, status, address },
+          address,
+          this._utxoCache,
+          this._esploraApiProvider,
+          false,
+          undefined,
+          tweak,
+        );
+      },
+    );
+
+    this._utxos.push(...receivedUtxos);
+
+    return receivedUtxos;
+  }
+}
@@ -0,0 +1,537 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { bech32m, hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import * as bip39 from 'bip39';
+import { crypto } from 'bitcoinjs-lib';
+import type { EsploraTransaction, NetworkType, Vin } from '../../types';
+import { bip32 } from '../../utils/bip32';
+import { getSilentPaymentDerivationPath } from '../../wallet';
+import { areByteArraysEqual } from './utils';
+
+// silent payment addresses are longer than the 90 characters bech32 usually allows
+const SILENT_PAYMENT_ADDRESS_LIMIT = 1023;
+
+/**
+ * BIP-375 defines a PSBT output field for the recipient, which the signer doesn't know about yet, so we keep the scan
+ * and spend keys of the recipient in a proprietary field until the output key is derived
+ */
+const SILENT_PAYMENT_PROPRIETARY_KEY = new Uint8Array([6, ...Buffer.from('xverse'), 0]);
+
+export type SilentPaymentAddress = {
+  scanKey: Uint8Array;
+  spendKey: Uint8Array;
+};
+
+/**
+ * The keys an account needs to receive silent payments, which are what a SilentPaymentScanner is created with
+ */
+export type SilentPaymentKeys = {
+  address: string;
+  scanPrivateKey: Uint8Array;
+  spendPublicKey: Uint8Array;
+};
+
+/**
+ * The contribution of the inputs spent by one address context to the silent payment outputs of a transaction
+ */
+export type SilentPaymentShare = {
+  inputIndexes: number[];
+  /** The sum of the public keys of the inputs */
+  publicKey: Uint8Array;
+  /** The sum of the private keys of the inputs multiplied by each scan key, in the order of the scan keys */
+  ecdhShares: Uint8Array[];
+};
+
+/**
+ * A silent payment output found while scanning, with the tweak needed to spend it
+ */
+export type ReceivedSilentPaymentOutput = {
+  vout: number;
+  tweak: Uint8Array;
+};
+
+export type SilentPaymentInputKey = {
+  inputIndex: number;
+  privateKey: Uint8Array;
+  /** Taproot inputs are key path spends of BIP-86 outputs, so their private key gets tweaked */
+  isTaproot: boolean;
+};
+
+type TransactionInput = ReturnType<btc.Transaction['getInput']>;
+
+const getSilentPaymentHrp = (network: NetworkType) => (network === 'Mainnet' ? 'sp' : 'tsp');
+
+const taggedHash = (tag: string, data: Uint8Array) => {
+  const tagHash = crypto.sha256(Buffer.from(tag));
+  return crypto.sha256(Buffer.concat([tagHash, tagHash, data]));
+};
+
+const bytesToNumber = (bytes: Uint8Array) => BigInt(`0x${hex.encode(bytes)}`);
+
+const isValidScalar = (scalar: bigint) => scalar > 0n && scalar < secp256k1.CURVE.n;
+
+const serializeUint32BE = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, false);
+  return bytes;
+};
+
+const numberToBytes = (value: bigint) => hex.decode(value.toString(16).padStart(64, '0'));
+
+const serializeOutpoint = (txid: Uint8Array, index: number) => {
+  const vout = new Uint8Array(4);
+  new DataView(vout.buffer).setUint32(0, index, true);
+  return new Uint8Array([...txid].reverse().concat([...vout]));
+};
+
+const serializeInputOutpoint = (input: TransactionInput) => {
+  if (!input.txid || input.index === undefined) {
+    throw new Error('Silent payments need the outpoints of all inputs');
+  }
+
+  return serializeOutpoint(input.txid, input.index);
+};
+
+const isUnknownSegwitVersion = (script: Uint8Array) =>
+  script.length >= 4 && script[0] >= btc.OP.OP_2 && script[0] <= btc.OP.OP_16 && script[1] === script.length - 2;
+
+const isWpkhScript = (script: Uint8Array) => script.length === 22 && script[0] === btc.OP.OP_0 && script[1] === 20;
+
+const getInputHash = (outpoints: Uint8Array[], inputPublicKey: secp256k1.Point) => {
+  const smallestOutpoint = outpoints.reduce((smallest, outpoint) =>
+    btc._cmpBytes(outpoint, smallest) < 0 ? outpoint : smallest,
+  );
+  const inputHash = bytesToNumber(
+    taggedHash('BIP0352/Inputs', new Uint8Array([...smallestOutpoint, ...inputPublicKey.toRawBytes(true)])),
+  );
+
+  if (!isValidScalar(inputHash)) {
+    throw new Error('Invalid silent payment input hash');
+  }
+
+  return inputHash;
+};
+
+const getOutputTweak = (sharedSecret: Uint8Array, k: number) => {
+  const tweak = bytesToNumber(
+    taggedHash('BIP0352/SharedSecret', new Uint8Array([...sharedSecret, ...serializeUint32BE(k)])),
+  );
+
+  if (!isValidScalar(tweak)) {
+    throw new Error('Invalid silent payment output tweak');
+  }
+
+  return tweak;
+};
+
+export const isSilentPaymentAddress = (address: string): boolean =>
+  address.startsWith('sp1') || address.startsWith('tsp1');
+
+export const encodeSilentPaymentAddress = ({ scanKey, spendKey }: SilentPaymentAddress, network: NetworkType): string =>
+  bech32m.encode(
+    getSilentPaymentHrp(network),
+    [0, ...bech32m.toWords(new Uint8Array([...scanKey, ...spendKey]))],
+    SILENT_PAYMENT_ADDRESS_LIMIT,
+  );
+
+/**
+ * Derives the silent payment address and scanning keys of an account. Wallets don't derive these by default, so only
+ * accounts that opt into receiving silent payments pay for the extra derivations.
+ */
+export const getSilentPaymentKeys = async ({
+  seedPhrase,
+  index,
+  network,
+}: {
+  seedPhrase: string;
+  index: bigint | number;
+  network: NetworkType;
+}): Promise<SilentPaymentKeys> => {
+  const seed = await bip39.mnemonicToSeed(seedPhrase);
+  const master = bip32.fromSeed(seed);
+
+  const scanChild = master.derivePath(getSilentPaymentDerivationPath({ index, network, key: 'scan' }));
+  const spendChild = master.derivePath(getSilentPaymentDerivationPath({ index, network, key: 'spend' }));
+
+  if (!scanChild.privateKey) {
+    throw new Error('Failed to derive the silent payment scan key');
+  }
+
+  const spendPublicKey = new Uint8Array(spendChild.publicKey);
+
+  return {
+    address: encodeSilentPaymentAddress(
+      { scanKey: new Uint8Array(scanChild.publicKey), spendKey: spendPublicKey },
+      network,
+    ),
+    scanPrivateKey: new Uint8Array(scanChild.privateKey),
+    spendPublicKey,
+  };
+};
+
+export const decodeSilentPaymentAddress = (address: string, network: NetworkType): SilentPaymentAddress => {
+  let prefix: string;
+  let version: number;
+  let data: Uint8Array;
+
+  try {
+    const decoded = bech32m.decode(address, SILENT_PAYMENT_ADDRESS_LIMIT);
+    prefix = decoded.prefix;
+    [version] = decoded.words;
+    data = bech32m.fromWords(decoded.words.slice(1));
+  } catch (e) {
+    throw new Error(`Invalid silent payment address: ${address}`);
+  }
+
+  if (prefix !== getSilentPaymentHrp(network)) {
+    throw new Error(`Silent payment address is not for ${network}: ${address}`);
+  }
+
+  // later versions are backwards compatible as long as they start with the version 0 keys
+  if (version === 31 || (version === 0 ? data.length !== 66 : data.length < 66)) {
+    throw new Error(`Unsupported silent payment address version: ${address}`);
+  }
+
+  const scanKey = data.slice(0, 33);
+  const spendKey = data.slice(33, 66);
+
+  try {
+    secp256k1.Point.fromHex(scanKey);
+    secp256k1.Point.fromHex(spendKey);
+  } catch (e) {
+    throw new Error(`Invalid silent payment address: ${address}`);
+  }
+
+  return { scanKey, spendKey };
+};
+
+/**
+ * Adds an output paying to a silent payment address. Its script is a placeholder of the same size as the final taproot
+ * output, which is derived from the input keys once all inputs are known.
+ */
+export const addSilentPaymentOutput = (
+  transaction: btc.Transaction,
+  address: string,
+  amount: bigint,
+  network: NetworkType,
+) => {
+  const { scanKey, spendKey } = decodeSilentPaymentAddress(address, network);
+
+  transaction.addOutput({
+    script: btc.OutScript.encode({ type: 'tr', pubkey: spendKey.slice(1) }),
+    amount,
+    proprietary: [[SILENT_PAYMENT_PROPRIETARY_KEY, new Uint8Array([...scanKey, ...spendKey])]],
+  });
+};
+
+export const getSilentPaymentOutputs = (transaction: btc.Transaction) => {
+  const outputs: (SilentPaymentAddress & { outputIndex: number })[] = [];
+
+  for (let outputIndex = 0; outputIndex < transaction.outputsLength; outputIndex++) {
+    const keys = transaction
+      .getOutput(outputIndex)
+      .proprietary?.find(([key]) => areByteArraysEqual(key, SILENT_PAYMENT_PROPRIETARY_KEY))?.[1];
+
+    if (keys) {
+      outputs.push({ outputIndex, scanKey: keys.slice(0, 33), spendKey: keys.slice(33, 66) });
+    }
+  }
+
+  return outputs;
+};
+
+/**
+ * Returns the distinct scan keys of the silent payment outputs, in the order they first appear
+ */
+export const getSilentPaymentScanKeys = (transaction: btc.Transaction): Uint8Array[] =>
+  getSilentPaymentOutputs(transaction).reduce<Uint8Array[]>((scanKeys, { scanKey }) => {
+    if (!scanKeys.some((existingKey) => areByteArraysEqual(existingKey, scanKey))) {
+      scanKeys.push(scanKey);
+    }
+    return scanKeys;
+  }, []);
+
+/**
+ * Whether the key of the input counts towards silent payment outputs as per BIP-352
+ */
+export const isSilentPaymentEligibleInput = (input: TransactionInput): boolean => {
+  const script = input.witnessUtxo?.script ?? input.nonWitnessUtxo?.outputs[input.index ?? 0]?.script;
+
+  if (!script) {
+    return false;
+  }
+
+  // segwit versions after taproot might be eligible in the future, so they are not allowed at all
+  if (isUnknownSegwitVersion(script)) {
+    throw new Error('Silent payments cannot be sent when spending outputs of unknown segwit versions');
+  }
+
+  const outScript = btc.OutScript.decode(script);
+
+  switch (outScript.type) {
+    case 'pkh':
+    case 'wpkh':
+      return true;
+    case 'sh':
+      return !!input.redeemScript && btc.OutScript.decode(input.redeemScript).type === 'wpkh';
+    case 'tr':
+      return !input.tapInternalKey || !areByteArraysEqual(input.tapInternalKey, btc.TAPROOT_UNSPENDABLE_KEY);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Sums the keys of the inputs and computes their ECDH share with each scan key
+ */
+export const getSilentPaymentShare = (
+  inputKeys: SilentPaymentInputKey[],
+  scanKeys: Uint8Array[],
+): SilentPaymentShare => {
+  const privateKeySum = inputKeys.reduce((sum, { privateKey, isTaproot }) => {
+    let key = bytesToNumber(isTaproot ? btc.taprootTweakPrivKey(privateKey) : privateKey);
+
+    // taproot output keys are x-only, so the key of the even point is the one to use
+    if (isTaproot && secp256k1.getPublicKey(key, true)[0] === 3) {
+      key = secp256k1.CURVE.n - key;
+    }
+
+    return secp256k1.utils.mod(sum + key, secp256k1.CURVE.n);
+  }, 0n);
+
+  if (!isValidScalar(privateKeySum)) {
+    throw new Error('Input keys of the silent payment cancel each other out');
+  }
+
+  return {
+    inputIndexes: inputKeys.map(({ inputIndex }) => inputIndex),
+    publicKey: secp256k1.Point.BASE.multiply(privateKeySum).toRawBytes(true),
+    ecdhShares: scanKeys.map((scanKey) => secp256k1.Point.fromHex(scanKey).multiply(privateKeySum).toRawBytes(true)),
+  };
+};
+
+/**
+ * Derives the taproot output keys of the silent payment outputs from the shares of all wallet input keys and replaces
+ * the placeholder output scripts with them
+ */
+export const applySilentPaymentShares = (
+  transaction: btc.Transaction,
+  scanKeys: Uint8Array[],
+  shares: SilentPaymentShare[],
+) => {
+  const sharedInputIndexes = new Set(shares.flatMap(({ inputIndexes }) => inputIndexes));
+  const outpoints: Uint8Array[] = [];
+
+  for (let i = 0; i < transaction.inputsLength; i++) {
+    const input = transaction.getInput(i);
+    outpoints.push(serializeInputOutpoint(input));
+
+    if (!sharedInputIndexes.has(i) && isSilentPaymentEligibleInput(input)) {
+      throw new Error(`Input ${i} is not spent by the wallet, so silent payment outputs cannot be derived`);
+    }
+  }
+
+  if (shares.length === 0) {
+    throw new Error('Silent payments need at least one eligible input');
+  }
+
+  const inputPublicKey = shares
+    .map(({ publicKey }) => secp256k1.Point.fromHex(publicKey))
+    .reduce((sum, publicKey) => sum.add(publicKey));
+
+  if (inputPublicKey.equals(secp256k1.Point.ZERO)) {
+    throw new Error('Input keys of the silent payment cancel each other out');
+  }
+
+  const inputHash = getInputHash(outpoints, inputPublicKey);
+  const silentPaymentOutputs = getSilentPaymentOutputs(transaction);
+
+  scanKeys.forEach((scanKey, scanKeyIndex) => {
+    const sharedSecret = shares
+      .map(({ ecdhShares }) => secp256k1.Point.fromHex(ecdhShares[scanKeyIndex]))
+      .reduce((sum, ecdhShare) => sum.add(ecdhShare))
+      .multiply(inputHash)
+      .toRawBytes(true);
+
+    silentPaymentOutputs
+      .filter((output) => areByteArraysEqual(output.scanKey, scanKey))
+      .forEach(({ outputIndex, spendKey }, k) => {
+        const tweak = getOutputTweak(sharedSecret, k);
+        const outputKey = secp256k1.Point.fromHex(spendKey).add(secp256k1.Point.BASE.multiply(tweak));
+        const script = btc.OutScript.encode({ type: 'tr', pubkey: outputKey.toRawBytes(true).slice(1) });
+
+        // outputs can't be updated once signed, which is fine if they were already derived
+        if (!areByteArraysEqual(transaction.getOutput(outputIndex).script, script)) {
+          transaction.updateOutput(outputIndex, { script });
+        }
+      });
+  });
+};
+
+/**
+ * Extracts the public key of an input of a confirmed transaction as per BIP-352. Returns undefined for inputs which
+ * don't contribute to silent payment outputs.
+ */
+const getScannedInputPublicKey = (vin: Vin): Uint8Array | undefined => {
+  const witness = (vin.witness ?? []).map((item) => hex.decode(item));
+  let outScript: ReturnType<typeof btc.OutScript.decode>;
+  let scriptSig: ReturnType<typeof btc.Script.decode>;
+
+  try {
+    outScript = btc.OutScript.decode(hex.decode(vin.prevout.scriptpubkey));
+    scriptSig = btc.Script.decode(hex.decode(vin.scriptsig));
+  } catch (e) {
+    return undefined;
+  }
+
+  const lastPush = scriptSig[scriptSig.length - 1];
+  const witnessPublicKey = witness.length === 2 && witness[1].length === 33 ? witness[1] : undefined;
+
+  switch (outScript.type) {
+    case 'pkh':
+      return lastPush instanceof Uint8Array &&
+        lastPush.length === 33 &&
+        areByteArraysEqual(crypto.hash160(Buffer.from(lastPush)), outScript.hash)
+        ? lastPush
+        : undefined;
+    case 'wpkh':
+      return witnessPublicKey;
+    case 'sh':
+      // only nested p2wpkh is eligible, whose redeem script is the only push of the script sig
+      return scriptSig.length === 1 && lastPush instanceof Uint8Array && isWpkhScript(lastPush)
+        ? witnessPublicKey
+        : undefined;
+    case 'tr': {
+      // the annex is not part of the script path, so it is dropped before looking for the control block
+      const stack = witness.length > 1 && witness[witness.length - 1][0] === 0x50 ? witness.slice(0, -1) : witness;
+      const controlBlock = stack.length > 1 ? stack[stack.length - 1] : undefined;
+
+      if (controlBlock && areByteArraysEqual(controlBlock.slice(1, 33), btc.TAPROOT_UNSPENDABLE_KEY)) {
+        return undefined;
+      }
+
+      return new Uint8Array([2, ...outScript.pubkey]);
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Looks for outputs of a confirmed transaction paying to the scan and spend keys of a silent payment address.
+ * Labels are not supported, so only outputs to the address itself are found.
+ */
+export const scanSilentPaymentTransaction = (
+  transaction: EsploraTransaction,
+  scanPrivateKey: Uint8Array,
+  spendPublicKey: Uint8Array,
+): ReceivedSilentPaymentOutput[] => {
+  const outputKeys = transaction.vout.map(({ scriptpubkey }) => {
+    const script = hex.decode(scriptpubkey);
+    return script.length === 34 && script[0] === btc.OP.OP_1 && script[1] === 32 ? script.slice(2) : undefined;
+  });
+
+  if (
+    outputKeys.every((outputKey) => !outputKey) ||
+    transaction.vin.some(
+      (vin) => vin.is_coinbase || !vin.prevout || isUnknownSegwitVersion(hex.decode(vin.prevout.scriptpubkey)),
+    )
+  ) {
+    return [];
+  }
+
+  const inputPublicKeys = transaction.vin
+    .map(getScannedInputPublicKey)
+    .filter((publicKey): publicKey is Uint8Array => !!publicKey);
+
+  if (inputPublicKeys.length === 0) {
+    return [];
+  }
+
+  const inputPublicKey = inputPublicKeys
+    .map((publicKey) => secp256k1.Point.fromHex(publicKey))
+    .reduce((sum, publicKey) => sum.add(publicKey));
+
+  if (inputPublicKey.equals(secp256k1.Point.ZERO)) {
+    return [];
+  }
+
+  const inputHash = getInputHash(
+    transaction.vin.map(({ txid, vout }) => serializeOutpoint(hex.decode(txid), vout)),
+    inputPublicKey,
+  );
+  const sharedSecret = inputPublicKey
+    .multiply(secp256k1.utils.mod(bytesToNumber(scanPrivateKey) * inputHash, secp256k1.CURVE.n))
+    .toRawBytes(true);
+  const spendKey = secp256k1.Point.fromHex(spendPublicKey);
+
+  const receivedOutputs: ReceivedSilentPaymentOutput[] = [];
+
+  // the sender derives output keys with an increasing counter, so scanning stops at the first counter without output
+  for (let k = 0; ; k++) {
+    const tweak = getOutputTweak(sharedSecret, k);
+    const outputKey = spendKey.add(secp256k1.Point.BASE.multiply(tweak)).toRawBytes(true).slice(1);
+    const vout = outputKeys.findIndex(
+      (key, i) => areByteArraysEqual(key, outputKey) && !receivedOutputs.some((output) => output.vout === i),
+    );
+
+    if (vout === -1) {
+      return receivedOutputs;
+    }
+
+    receivedOutputs.push({ vout, tweak: numberToBytes(tweak) });
+  }
+};
+
+/**
+ * Derives the private key of a received silent payment output, which is the key of its x-only output key
+ */
+export const getSilentPaymentOutputPrivateKey = (spendPrivateKey: Uint8Array, tweak: Uint8Array): Uint8Array => {
+  const privateKey = secp256k1.utils.mod(bytesToNumber(spendPrivateKey) + bytesToNumber(tweak), secp256k1.CURVE.n);
+
+  if (!isValidScalar(privateKey)) {
+    throw new Error('Invalid silent payment output tweak');
+  }
+
+  // the output key is x-only, so the key of the even point is the one to use
+  return numberToBytes(secp256k1.getPublicKey(privateKey, true)[0] === 3 ? secp256k1.CURVE.n - privateKey : privateKey);
+};
+
+/**
+ * Signs a key path spend of a silent payment output. The output key isn't tweaked with a BIP-341 commitment, so it
+ * can't be signed with `signIdx`, which always tweaks the internal key.
+ */
+export const signSilentPaymentInput = async (
+  transaction: btc.Transaction,
+  inputIndex: number,
+  privateKey: Uint8Array,
+  allowedSigHash: btc.SigHash[] = [btc.SigHash.DEFAULT],
+) => {
+  const sigHash = transaction.getInput(inputIndex).sighashType ?? btc.SigHash.DEFAULT;
+
+  if (!allowedSigHash.includes(sigHash)) {
+    throw new Error(`Input with not allowed sigHash=${sigHash}. Allowed: ${allowedSigHash.join(', ')}`);
+  }
+
+  const prevOuts = Array.from({ length: transaction.inputsLength }, (_, i) => {
+    const { witnessUtxo } = transaction.getInput(i);
+
+    if (!witnessUtxo) {
+      throw new Error(`Input ${i} is missing its witness UTXO`);
+    }
+
+    return witnessUtxo;
+  });
+
+  const hash = transaction.preimageWitnessV1(
+    inputIndex,
+    prevOuts.map(({ script }) => script),
+    sigHash,
+    prevOuts.map(({ amount }) => amount),
+  );
+  const signature = await secp256k1.schnorr.sign(hash, privateKey);
+
+  transaction.updateInput(inputIndex, {
+    tapKeySig: sigHash === btc.SigHash.DEFAULT ? signature : new Uint8Array([...signature, sigHash]),
+  });
+};
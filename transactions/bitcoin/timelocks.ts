@@ -0,0 +1,188 @@
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import EsploraProvider from '../../api/esplora/esploraAPiProvider';
+import type { NetworkType, TxStatus } from '../../types';
+import { ExtendedUtxo } from './extendedUtxo';
+import { CompiledPolicy, PolicyScriptType, compilePolicy, getPolicyInputFields } from './policy';
+
+// lock times from this value on are unix times, below it they are block heights
+export const LOCKTIME_THRESHOLD = 500000000;
+const MAX_LOCKTIME = 0x7fffffff;
+
+// relative lock times are 16 bits, and time based ones are counted in units of 512 seconds
+const MAX_RELATIVE_LOCKTIME = 0xffff;
+const RELATIVE_LOCKTIME_GRANULARITY = 512;
+const RELATIVE_LOCKTIME_TYPE_FLAG = 1 << 22;
+
+/**
+ * A lock on an output spendable by our own key. CLTV locks until an absolute block height or unix time, and CSV locks
+ * for a number of blocks or seconds after the output confirms. Relative times must be a multiple of 512 seconds.
+ */
+export type Timelock = {
+  kind: 'cltv' | 'csv';
+  unit: 'blocks' | 'seconds';
+  value: number;
+};
+
+export type TimelockPayment = {
+  address: string;
+  script: Uint8Array;
+  timelock: Timelock;
+  compiledPolicy: CompiledPolicy;
+};
+
+export type TimelockedUtxo = {
+  extendedUtxo: ExtendedUtxo;
+  timelock: Timelock;
+  /** Whether the UTXO can be spent in the next block */
+  mature: boolean;
+};
+
+/**
+ * The chain state maturity is checked against. Median times are the median time past of the blocks, which lock times
+ * are compared to as per BIP-113.
+ */
+export type TimelockChainState = {
+  height: number;
+  medianTime: number;
+  /** The median time past of the block before the one which confirmed the output, needed for time based CSV locks */
+  outputPreviousMedianTime?: number;
+};
+
+export const validateTimelock = ({ kind, unit, value }: Timelock): void => {
+  let isValid: boolean;
+
+  if (!Number.isInteger(value) || value < 1) {
+    isValid = false;
+  } else if (kind === 'cltv') {
+    isValid = unit === 'blocks' ? value < LOCKTIME_THRESHOLD : value >= LOCKTIME_THRESHOLD && value <= MAX_LOCKTIME;
+  } else if (unit === 'blocks') {
+    isValid = value <= MAX_RELATIVE_LOCKTIME;
+  } else {
+    isValid =
+      value % RELATIVE_LOCKTIME_GRANULARITY === 0 && value / RELATIVE_LOCKTIME_GRANULARITY <= MAX_RELATIVE_LOCKTIME;
+  }
+
+  if (!isValid) {
+    throw new Error(`Invalid ${kind.toUpperCase()} timelock of ${value} ${unit}`);
+  }
+};
+
+/**
+ * Gets a lock time which discourages fee sniping, as Bitcoin Core does. Locking to the tip height means the transaction
+ * can't be mined in a block which reorgs the tip, and it is sometimes moved back so transactions which were delayed,
+ * e.g. by coinjoins or offline signing, don't stand out.
+ */
+export const getAntiFeeSnipingLockTime = (tipHeight: number): number => {
+  if (Math.random() < 0.1) {
+    return Math.max(0, tipHeight - Math.floor(Math.random() * 100));
+  }
+
+  return tipHeight;
+};
+
+/**
+ * Gets the value checked by the script, which for CSV is the nSequence of the spending input as per BIP-68
+ */
+const getScriptLockValue = ({ kind, unit, value }: Timelock): number => {
+  if (kind === 'csv' && unit === 'seconds') {
+    return RELATIVE_LOCKTIME_TYPE_FLAG | (value / RELATIVE_LOCKTIME_GRANULARITY);
+  }
+
+  return value;
+};
+
+/**
+ * Gets the output which locks funds to a public key until the timelock expires. Taproot outputs use the unspendable
+ * internal key, so the lock can't be bypassed through the key path.
+ */
+export const getTimelockPayment = (
+  publicKey: Uint8Array,
+  scriptType: PolicyScriptType,
+  timelock: Timelock,
+  network: NetworkType,
+): TimelockPayment => {
+  validateTimelock(timelock);
+
+  const lock = `${timelock.kind === 'cltv' ? 'after' : 'older'}(${getScriptLockValue(timelock)})`;
+  const compiledPolicy = compilePolicy(`and(pk(${hex.encode(publicKey)}),${lock})`, scriptType);
+  const address = btc
+    .Address(network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK)
+    .encode(btc.OutScript.decode(compiledPolicy.script));
+
+  return { address, script: compiledPolicy.script, timelock, compiledPolicy };
+};
+
+/**
+ * Returns the input fields to spend a timelocked output. CLTV locks set the lock time of the transaction through the
+ * BIP-370 input fields, so the input can't have a final sequence, and CSV locks set the sequence of the input.
+ */
+export const getTimelockInputFields = (payment: TimelockPayment, rbfEnabled = false) => {
+  const { timelock } = payment;
+  const policyFields = getPolicyInputFields(payment.compiledPolicy);
+
+  if (timelock.kind === 'csv') {
+    return { ...policyFields, sequence: getScriptLockValue(timelock) };
+  }
+
+  return {
+    ...policyFields,
+    sequence: rbfEnabled ? 0xfffffffd : 0xfffffffe,
+    ...(timelock.unit === 'blocks'
+      ? { requiredHeightLocktime: timelock.value }
+      : { requiredTimeLocktime: timelock.value }),
+  };
+};
+
+export const getMedianTimePast = async (esploraApiProvider: EsploraProvider, height: number): Promise<number> => {
+  const blockHash = await esploraApiProvider.getBlockHash(height);
+  const block = await esploraApiProvider.getBlock(blockHash);
+
+  return block.mediantime;
+};
+
+/**
+ * Checks whether an output can be spent in the next block
+ */
+export const isTimelockMature = (timelock: Timelock, status: TxStatus, chainState: TimelockChainState): boolean => {
+  if (timelock.kind === 'cltv') {
+    return timelock.unit === 'blocks' ? timelock.value <= chainState.height : timelock.value < chainState.medianTime;
+  }
+
+  if (!status.confirmed || status.block_height === undefined) {
+    return false;
+  }
+
+  if (timelock.unit === 'blocks') {
+    return status.block_height + timelock.value <= chainState.height + 1;
+  }
+
+  if (chainState.outputPreviousMedianTime === undefined) {
+    throw new Error('The median time before the output confirmed is needed for time based CSV locks');
+  }
+
+  return chainState.outputPreviousMedianTime + timelock.value <= chainState.medianTime;
+};
+
+/**
+ * Builds the witness of a signed timelocked input, which the signer can't do for custom scripts
+ */
+export const finalizeTimelockInput = (transaction: btc.Transaction, inputIndex: number): void => {
+  const input = transaction.getInput(inputIndex);
+  let finalScriptWitness: Uint8Array[];
+
+  if (input.witnessScript && input.partialSig?.length) {
+    finalScriptWitness = [input.partialSig[0][1], input.witnessScript];
+  } else if (input.tapLeafScript?.length && input.tapScriptSig?.length) {
+    const [controlBlock, leafScript] = input.tapLeafScript[0];
+    finalScriptWitness = [
+      input.tapScriptSig[0][1],
+      leafScript.slice(0, -1),
+      btc.TaprootControlBlock.encode(controlBlock),
+    ];
+  } else {
+    throw new Error(`Timelocked input ${inputIndex} is not signed`);
+  }
+
+  transaction.updateInput(inputIndex, { finalScriptWitness }, true);
+};
@@ -2,6 +2,9 @@ import * as btc from '@scure/btc-signer';
 import { Transport } from '../../ledger/types';
 import { Artifact, RareSatsType } from '../../types';
 import { ExtendedDummyUtxo, ExtendedUtxo } from './extendedUtxo';
+import type { MultisigSpendPath } from './multisigAccount';
+import type { PolicyScriptType } from './policy';
+import type { Timelock } from './timelocks';
 
 type ScriptOpArray = Parameters<typeof btc.Script.encode>[0];
 
@@ -12,13 +15,17 @@ export enum ActionType {
   SEND_UTXO = 'sendUtxo',
   SPLIT_UTXO = 'splitUtxo',
   SCRIPT = 'script',
+  TIMELOCK = 'timelock',
 }
 
 export type SendBtcAction = {
   type: ActionType.SEND_BTC;
+  /** A regular or silent payment address */
   toAddress: string;
   amount: bigint;
   combinable: boolean;
+  /** Pay part of the transaction fee out of this amount. These outputs are never combined with others. */
+  subtractFee?: boolean;
 };
 
 export type SendUtxoAction = {
@@ -41,18 +48,39 @@ export type SplitUtxoAction =
       spendable: true;
     };
 
-export type ScriptAction = {
-  type: ActionType.SCRIPT;
-  script: ScriptOpArray | Uint8Array;
+export type ScriptAction =
+  | {
+      type: ActionType.SCRIPT;
+      script: ScriptOpArray | Uint8Array;
+    }
+  | {
+      type: ActionType.SCRIPT;
+      /** A Miniscript policy, e.g. `and(pk(A),older(144))`, which is compiled into the output script */
+      policy: string;
+      scriptType: PolicyScriptType;
+      amount: bigint;
+      /** Taproot policies can also be spent with this key through the key path */
+      internalKey?: string;
+    };
+
+/**
+ * Locks funds to the payment address key until the timelock expires. The payment address tracks the locked output and
+ * spends it like any other UTXO once it matures.
+ */
+export type TimelockAction = {
+  type: ActionType.TIMELOCK;
+  amount: bigint;
+  timelock: Timelock;
 };
 
-export type Action = SendBtcAction | SendUtxoAction | SplitUtxoAction | ScriptAction;
+export type Action = SendBtcAction | SendUtxoAction | SplitUtxoAction | ScriptAction | TimelockAction;
 
 type ActionTypeToActionMap = {
   [ActionType.SEND_BTC]: SendBtcAction;
   [ActionType.SEND_UTXO]: SendUtxoAction;
   [ActionType.SPLIT_UTXO]: SplitUtxoAction;
   [ActionType.SCRIPT]: ScriptAction;
+  [ActionType.TIMELOCK]: TimelockAction;
 };
 
 export type ActionMap = {
@@ -73,11 +101,75 @@ export type TransactionOptions = {
   /** All change from the transaction will go to this address. This is used
    * for things like send max. */
   overrideChangeAddress?: string;
+  /** The strategy used to pick payment UTXOs to cover the outputs and fees. Defaults to largest first. */
+  coinSelectionStrategy?: CoinSelectionStrategy | CoinSelector;
+  /** The fee rate we expect to pay in the future, used to weigh spending inputs now vs later.
+   * Defaults to DEFAULT_LONG_TERM_FEE_RATE. */
+  longTermFeeRate?: number;
+  /** How the fee is split between the outputs of send actions which subtract the fee from their amount.
+   * Defaults to proportional to their amounts. */
+  feeSubtraction?: FeeSubtractionMode;
+  /** The block height or unix time the transaction is locked until. Defaults to the tip height to discourage fee
+   * sniping, and 0 disables the lock. */
+  lockTime?: number;
+  /** The id of an unconfirmed transaction to replace. Its inputs and outputs are kept, and payment inputs are added
+   * to pay the higher fee. */
+  replaceTxid?: string;
+  /** Whether the replacement speeds up the transaction or cancels it by paying its inputs back to the wallet.
+   * Defaults to speeding up. */
+  replaceMode?: RbfMode;
+};
+
+/**
+ * Speeding up keeps the outputs of the original transaction and raises its fee, while cancelling pays all its inputs
+ * back to the wallet
+ */
+export type RbfMode = 'speedUp' | 'cancel';
+
+export type FeeSubtractionMode = 'proportional' | 'equal';
+
+export type CoinSelectionParams = {
+  /** Available payment UTXOs, sorted from smallest to biggest value */
+  utxos: ExtendedUtxo[];
+  /** The value still required to cover the outputs and the fee of the transaction without change */
+  target: bigint;
+  feeRate: number;
+  longTermFeeRate: number;
+  /** The vsize of a payment address input */
+  inputSize: number;
+  /** The fee to add a change output now plus the fee to spend it later */
+  costOfChange: number;
+  /** The fee unconfirmed UTXOs need to bring their unconfirmed ancestors up to the fee rate, by outpoint. Only set when
+   * the effective fee rate is used. */
+  ancestorFees: Record<string, number>;
+};
+
+/** Returns the UTXOs to spend in order of preference. They are added as inputs until the target is covered. */
+export type CoinSelector = (params: CoinSelectionParams) => ExtendedUtxo[] | Promise<ExtendedUtxo[]>;
+
+export interface CoinSelectionStrategy {
+  name: string;
+  select: CoinSelector;
+  /** Gives the excess to the fee instead of adding change when it is worth less than the cost of change, so that
+   * changeless matches stay changeless. */
+  avoidChange?: boolean;
+  /** Keeps adding the UTXOs after the target is covered while spending them now is cheaper than at the long term fee
+   * rate, which consolidates them when fee rates are low. */
+  consolidate?: boolean;
+}
+
+export type CoinSelectionSummary = {
+  strategy: string;
+  /** The cost of the selection compared to an ideal one, in sats. Lower is better and it can be negative when
+   * consolidating at a fee rate below the long term fee rate. */
+  waste: number;
 };
 
 export type CompilationOptions = {
   rbfEnabled?: boolean;
   ledgerTransport?: Transport;
+  /** How inputs of multisig vaults are spent. Defaults to the MuSig2 key path, which needs all cosigners to sign. */
+  multisigSpendPath?: MultisigSpendPath;
 };
 
 export type TransactionSummary = {
@@ -90,6 +182,7 @@ export type TransactionSummary = {
   feeOutput: TransactionFeeOutput;
   dustValue: bigint;
   runeOp?: Artifact;
+  coinSelection?: CoinSelectionSummary;
 };
 
 export type PSBTCompilationOptions = {
@@ -116,9 +209,14 @@ export type IOSatribute = {
 export type TransactionOutput = {
   type: 'address';
   address: string;
+  /** The amount the output receives, after any fee subtraction */
   amount: number;
   inscriptions: IOInscription[];
   satributes: IOSatribute[];
+  /** The part of the fee which was subtracted from the amount of this output */
+  subtractedFee?: number;
+  /** The silent payment address the output pays to. The address is then the taproot address derived for it. */
+  silentPaymentAddress?: string;
 };
 
 export type TransactionPubKeyOutput = {
@@ -148,6 +246,29 @@ export type EnhancedInput = {
 };
 export type EnhancedOutput = TransactionOutput | TransactionPubKeyOutput | TransactionScriptOutput;
 
+export type PsbtRiskSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type PsbtRiskType =
+  | 'inscriptionToFee'
+  | 'rareSatsToFee'
+  | 'inscriptionToPaymentAddress'
+  | 'rareSatsToPaymentAddress'
+  | 'runesBurned'
+  | 'cenotaph'
+  | 'sigHashNone'
+  | 'sigHashSingle'
+  | 'sigHashSingleWithoutOutput'
+  | 'highFeeRate'
+  | 'unknownOutput'
+  | 'ordinalsAddressDrained';
+
+export type PsbtRisk = {
+  type: PsbtRiskType;
+  severity: PsbtRiskSeverity;
+  inputIndex?: number;
+  outputIndex?: number;
+};
+
 export type PsbtSummary = {
   inputs: EnhancedInput[];
   outputs: EnhancedOutput[];
@@ -156,6 +277,7 @@ export type PsbtSummary = {
   hasSigHashSingle: boolean;
   isFinal: boolean;
   runeOp?: Artifact;
+  risks?: PsbtRisk[];
 };
 
 export type InputMetadata = {
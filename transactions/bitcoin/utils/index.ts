@@ -1,4 +1,5 @@
 import { SigHash, Transaction } from '@scure/btc-signer';
+import EsploraProvider from '../../../api/esplora/esploraAPiProvider';
 import { UTXO } from '../../../types';
 import { TransactionContext } from '../context';
 import { ExtendedDummyUtxo, ExtendedUtxo } from '../extendedUtxo';
@@ -37,6 +38,7 @@ export const extractActionMap = (actions: Action[]): ActionMap => {
     [ActionType.SPLIT_UTXO]: [],
     [ActionType.SEND_BTC]: [],
     [ActionType.SCRIPT]: [],
+    [ActionType.TIMELOCK]: [],
   } as ActionMap;
   for (const action of actions) {
     const actionType = action.type;
@@ -132,6 +134,19 @@ export const getTransactionVSize = (
   return estimateVSize(transactionCopy);
 };
 
+/**
+ * Finalizes the inputs which were not finalized while signing, e.g. timelocked inputs with custom scripts
+ */
+export const finalizeTransaction = (transaction: Transaction): void => {
+  for (let i = 0; i < transaction.inputsLength; i++) {
+    const input = transaction.getInput(i);
+
+    if (!input.finalScriptSig && !input.finalScriptWitness) {
+      transaction.finalizeIdx(i);
+    }
+  }
+};
+
 export const extractUsedOutpoints = (transaction: Transaction): Set<string> => {
   const usedOutpoints = new Set<string>();
 
@@ -245,3 +260,45 @@ export const mapInputToEnhancedInput = async (
     walletWillSign,
   };
 };
+
+/**
+ * Gets the size and fee of an unconfirmed transaction and its descendants, which a replacement has to pay for, along
+ * with the ids of the descendants it evicts
+ */
+export const getTransactionChainSizeAndFee = async (esploraProvider: EsploraProvider, txid: string, depth = 1) => {
+  if (depth > 30) {
+    // This should never happen as bitcoins limit is 25. This is a recursion safety check.
+    throw new Error('Too many chained transactions');
+  }
+
+  const transaction = await esploraProvider.getTransaction(txid);
+
+  if (!transaction || transaction.status.confirmed) {
+    throw new Error('Invalid transaction for RBF detected.');
+  }
+
+  const transactionVSize = transaction.weight / 4;
+  let totalVSize = transaction.weight / 4;
+  let fee = transaction.fee;
+  const descendantTxids: string[] = [];
+
+  const outspends = await esploraProvider.getTransactionOutspends(txid);
+
+  for (const outspend of outspends) {
+    if (!outspend.spent) {
+      continue;
+    }
+
+    const descendantTxid = outspend.txid;
+    const {
+      totalVSize: descendantVsize,
+      fee: descendantFee,
+      descendantTxids: nestedDescendantTxids,
+    } = await getTransactionChainSizeAndFee(esploraProvider, descendantTxid, depth + 1);
+    totalVSize += descendantVsize;
+    fee += descendantFee;
+    descendantTxids.push(descendantTxid, ...nestedDescendantTxids);
+  }
+
+  return { transactionVSize, totalVSize, fee, descendantTxids };
+};
@@ -7,6 +7,7 @@
 import * as btc from '@scure/btc-signer';
 import * as P from 'micro-packed';
 import { NetworkType } from '../../../types';
+import { getPolicySatisfaction } from '../policy';
 
 const EMPTY_ARRAY = new Uint8Array();
 const SHA256_LEN_BYTES = 64;
@@ -72,10 +73,58 @@ function getInputType(input: btc.TransactionInput) {
   }
 }
 
+/**
+ * Inputs spending compiled policies carry the size of their satisfaction, as their scripts can't be satisfied
+ * generically. The witness holds the satisfaction followed by the witness script, or the leaf script and control block.
+ */
+function estimatePolicyInputWitnessSize(input: btc.TransactionInput): number | undefined {
+  const satisfaction = getPolicySatisfaction(input);
+
+  if (!satisfaction) {
+    return undefined;
+  }
+
+  let scriptElements: Uint8Array[] = [];
+  if (input.witnessScript) {
+    scriptElements = [input.witnessScript];
+  } else if (input.tapLeafScript?.length) {
+    const [controlBlock, leafScript] = input.tapLeafScript[0];
+    scriptElements = [leafScript.slice(0, -1), btc.TaprootControlBlock.encode(controlBlock)];
+  } else {
+    return undefined;
+  }
+
+  return (
+    btc.CompactSize.encode(BigInt(satisfaction.elements + scriptElements.length)).length +
+    satisfaction.size +
+    scriptElements.reduce((size, element) => size + btc.VarBytes.encode(element).length, 0)
+  );
+}
+
 function estimateInput(input: btc.TransactionInput, opts: Options) {
   let script = EMPTY_ARRAY,
     witness: Uint8Array[] | undefined = undefined;
 
+  // inputs signed by other wallets are final already, so their size is known. Cloned inputs have empty script sigs.
+  if (input.finalScriptSig?.length || input.finalScriptWitness?.length) {
+    return {
+      weight:
+        (32 + 4 + btc.VarBytes.encode(input.finalScriptSig ?? EMPTY_ARRAY).length + 4) * 4 +
+        (input.finalScriptWitness ? btc.RawWitness.encode(input.finalScriptWitness).length : 0),
+      hasWitnesses: !!input.finalScriptWitness,
+    };
+  }
+
+  const policyWitnessSize = estimatePolicyInputWitnessSize(input);
+
+  if (policyWitnessSize !== undefined) {
+    return {
+      // prev txn id, prev vout, empty script sig and sequence, followed by the witness which isn't multiplied
+      weight: (32 + 4 + 1 + 4) * 4 + policyWitnessSize,
+      hasWitnesses: true,
+    };
+  }
+
   const inputType = getInputType(input);
 
   // schnorr sig is always 64 bytes. except for cases when sighash is not default!
@@ -115,6 +164,9 @@ function estimateInput(input: btc.TransactionInput, opts: Options) {
       }
     } else if (input.tapInternalKey && !P.equalBytes(input.tapInternalKey, btc.TAPROOT_UNSPENDABLE_KEY)) {
       witness = [new Uint8Array(SCHNORR_SIG_SIZE)];
+    } else if (!input.tapInternalKey && !input.tapLeafScript) {
+      // key path spend of an output key without internal key, e.g. a received silent payment
+      witness = [new Uint8Array(SCHNORR_SIG_SIZE)];
     } else throw new Error('estimateInput/taproot: unknown input');
   } else {
     const SIG_SIZE = 72; // Maximum size of signatures
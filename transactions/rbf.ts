@@ -1,60 +1,22 @@
-import * as secp256k1 from '@noble/secp256k1';
-import { base64, hex } from '@scure/base';
+import { hex } from '@scure/base';
 import * as btc from '@scure/btc-signer';
-import * as bip39 from 'bip39';
 import EsploraProvider from '../api/esplora/esploraAPiProvider';
-import { signLedgerPSBT } from '../ledger/psbt';
+import { UtxoCache } from '../api/utxoCache';
 import { Transport } from '../ledger/types';
-import { AccountType, BtcTransactionData, NetworkType, RecommendedFeeResponse, UTXO } from '../types';
-import { bip32 } from '../utils/bip32';
-import { getBitcoinDerivationPath, getTaprootDerivationPath } from '../wallet';
-
-// TODO: A lot of the below can be done much more easily with the consolidation logic
-// TODO: so we should refactor this file to use that once merged
-
-const areByteArraysEqual = (a: undefined | Uint8Array, b: undefined | Uint8Array): boolean => {
-  if (!a || !b || a.length !== b.length) {
-    return false;
-  }
-
-  return a.every((v, i) => v === b[i]);
-};
-
-const getTransactionChainSizeAndFee = async (esploraProvider: EsploraProvider, txid: string, depth = 1) => {
-  if (depth > 30) {
-    // This should never happen as bitcoins limit is 25. This is a recursion safety check.
-    throw new Error('Too many chained transactions');
-  }
-
-  const transaction = await esploraProvider.getTransaction(txid);
-
-  if (!transaction || transaction.status.confirmed) {
-    throw new Error('Invalid transaction for RBF detected.');
-  }
-
-  const transactionVSize = transaction.weight / 4;
-  let totalVSize = transaction.weight / 4;
-  let fee = transaction.fee;
-
-  const outspends = await esploraProvider.getTransactionOutspends(txid);
-
-  for (const outspend of outspends) {
-    if (!outspend.spent) {
-      continue;
-    }
-
-    const descendantTxid = outspend.txid;
-    const { totalVSize: descendantVsize, fee: descendantFee } = await getTransactionChainSizeAndFee(
-      esploraProvider,
-      descendantTxid,
-      depth + 1,
-    );
-    totalVSize += descendantVsize;
-    fee += descendantFee;
-  }
-
-  return { transactionVSize, totalVSize, fee };
-};
+import { SeedVault } from '../seedVault';
+import {
+  InsufficientFundsError,
+  type AccountType,
+  type BtcTransactionData,
+  type NetworkType,
+  type RecommendedFeeResponse,
+  type StorageAdapter,
+} from '../types';
+import { bumpFeeWithRbf } from './bitcoin';
+import { TransactionContext } from './bitcoin/context';
+import { createAddressContext } from './bitcoin/contextFactory';
+import { RbfMode } from './bitcoin/types';
+import { getTransactionChainSizeAndFee } from './bitcoin/utils';
 
 const getRbfTransactionSummary = async (esploraProvider: EsploraProvider, txid: string) => {
   const { transactionVSize, totalVSize, fee } = await getTransactionChainSizeAndFee(esploraProvider, txid);
@@ -67,7 +29,12 @@ const getRbfTransactionSummary = async (esploraProvider: EsploraProvider, txid:
   return { currentFee: fee, currentFeeRate, minimumRbfFee, minimumRbfFeeRate };
 };
 
-const isTransactionRbfEnabled = (transaction: BtcTransactionData, wallet: RBFProps) => {
+/**
+ * Checks whether the wallet can replace an unconfirmed transaction which signals RBF. Any of its inputs being from the
+ * wallet is enough, since the replacement can always cancel it. Inputs of other wallets are kept when speeding up if
+ * they were signed with ANYONECANPAY, which bumpFeeWithRbf checks.
+ */
+const isTransactionRbfEnabled = (transaction: BtcTransactionData, wallet: TransactionContext | RBFProps) => {
   if (transaction.confirmed) {
     return false;
   }
@@ -78,27 +45,14 @@ const isTransactionRbfEnabled = (transaction: BtcTransactionData, wallet: RBFPro
     return false;
   }
 
-  const network = wallet.network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK;
-
-  let p2btc: btc.P2Ret;
-  const publicKeyBuff = hex.decode(wallet.btcPublicKey);
-  if (wallet.accountType === 'software') {
-    const p2wpkh = btc.p2wpkh(publicKeyBuff, network);
-    p2btc = btc.p2sh(p2wpkh, network);
-  } else if (wallet.accountType === 'ledger') {
-    p2btc = btc.p2wpkh(publicKeyBuff, network);
-  } else {
-    throw new Error('Unrecognised account type');
-  }
-
-  const publicKeyBuffTr = hex.decode(wallet.ordinalsPublicKey);
-  const schnorrPublicKeyBuff = publicKeyBuffTr.length === 33 ? publicKeyBuffTr.slice(1) : publicKeyBuffTr;
-  const p2tr = btc.p2tr(schnorrPublicKeyBuff, undefined, network);
+  const isWalletAddress = (address: string) =>
+    wallet instanceof TransactionContext
+      ? !!wallet.getAddressContext(address)
+      : address === wallet.btcAddress || address === wallet.ordinalsAddress;
 
-  return transaction.inputs.every((input) => {
-    const witnessUtxoScript = Buffer.from(input.prevout.scriptpubkey, 'hex');
-    return areByteArraysEqual(witnessUtxoScript, p2tr.script) || areByteArraysEqual(witnessUtxoScript, p2btc.script);
-  });
+  return transaction.inputs.some(
+    ({ prevout }) => !!prevout.scriptpubkey_address && isWalletAddress(prevout.scriptpubkey_address),
+  );
 };
 
 export type RBFProps = {
@@ -118,11 +72,7 @@ export type TierFees = {
   feeRate: number;
 };
 
-type CompileOptions = {
-  feeRate: number;
-  ledgerTransport?: Transport;
-  getSeedPhrase: () => string | Promise<string>;
-};
+export type { RbfMode };
 
 export type RbfRecommendedFees = {
   medium?: TierFees;
@@ -131,430 +81,245 @@ export type RbfRecommendedFees = {
   highest?: TierFees;
 };
 
-class RbfTransaction {
-  private baseTx: btc.Transaction;
-
-  private initialInputTotal!: number;
-
-  private initialOutputTotal!: number;
-
-  private transaction!: BtcTransactionData;
-
-  private p2btc!: btc.P2Ret;
-
-  private p2tr!: btc.P2TROut;
-
-  private network!: typeof btc.NETWORK;
-
-  private options!: RBFProps;
-
-  private _paymentUtxos?: UTXO[];
-
-  private _minimumRbfFeeRate?: number;
+export type RbfTransactionOptions = RBFProps & {
+  /** The transaction context of the wallet. One is created from the props if it is not given, which signs with the
+   * seed phrase given to getReplacementTransaction. */
+  context?: TransactionContext;
+};
 
-  constructor(transaction: BtcTransactionData, options: RBFProps) {
-    if (transaction.confirmed) {
-      throw new Error('Transaction is already confirmed');
-    }
-    if (!isTransactionRbfEnabled(transaction, options)) {
-      throw new Error('Not RBF enabled transaction');
-    }
+type CompileOptions = {
+  feeRate: number;
+  mode?: RbfMode;
+  ledgerTransport?: Transport;
+  /** Required to sign for software accounts when no transaction context was given */
+  getSeedPhrase?: () => string | Promise<string>;
+};
 
-    const network = options.network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK;
-
-    let p2btc: btc.P2Ret;
-    const publicKeyBuff = hex.decode(options.btcPublicKey);
-    if (options.accountType === 'software') {
-      const p2wpkh = btc.p2wpkh(publicKeyBuff, network);
-      p2btc = btc.p2sh(p2wpkh, network);
-    } else if (options.accountType === 'ledger') {
-      p2btc = btc.p2wpkh(publicKeyBuff, network);
-    } else {
-      throw new Error('Unrecognised account type');
-    }
+const getRbfFeeSummary = async (
+  context: TransactionContext,
+  txid: string,
+  feeRateRaw: number,
+  mode: RbfMode,
+): Promise<TierFees> => {
+  const feeRate = Math.ceil(feeRateRaw);
 
-    const publicKeyBuffTr = hex.decode(options.ordinalsPublicKey);
-    const schnorrPublicKeyBuff = publicKeyBuffTr.length === 33 ? publicKeyBuffTr.slice(1) : publicKeyBuffTr;
-    const p2tr = btc.p2tr(schnorrPublicKeyBuff, undefined, network);
-
-    const tx = new btc.Transaction({ PSBTVersion: 0, allowUnknownOutputs: true });
-
-    let inputsTotal = 0;
-    let outputsTotal = 0;
-
-    for (const input of transaction.inputs) {
-      const witnessUtxoScript = Buffer.from(input.prevout.scriptpubkey, 'hex');
-
-      tx.addInput({
-        txid: input.txid,
-        index: input.vout,
-        witnessUtxo: {
-          script: witnessUtxoScript,
-          amount: BigInt(input.prevout.value),
-        },
-        sequence: 0xfffffffd,
-      });
-
-      inputsTotal += input.prevout.value;
-
-      if (areByteArraysEqual(witnessUtxoScript, p2tr.script)) {
-        // input from ordinals address
-        tx.updateInput(tx.inputsLength - 1, {
-          tapInternalKey: p2tr.tapInternalKey,
-        });
-      } else if (areByteArraysEqual(witnessUtxoScript, p2btc.script)) {
-        // input from payments address
-        // these are undefined for p2wpkh (ledger) addresses
-        tx.updateInput(tx.inputsLength - 1, {
-          redeemScript: p2btc.redeemScript,
-          witnessScript: p2btc.witnessScript,
-        });
-      } else {
-        throw new Error('Input found that is not from wallet. Cannot proceed with RBF.');
-      }
-    }
+  try {
+    const transaction = await bumpFeeWithRbf(context, txid, feeRate, { replaceMode: mode });
+    const { fee, vsize } = await transaction.getSummary();
 
-    const outputs = transaction.outputs.map((output) => ({
-      value: output.value,
-      address: output.scriptpubkey_address,
-      script: output.scriptpubkey,
-    }));
-
-    // we'll keep the same outputs as the original transaction
-    // and we assume that any change that would have been returned was going to the payments address if the last
-    // output is not the payments address, we'll add it as a normal output, assuming that there was no change
-    while (outputs.length > 1 || (outputs[0] && outputs[0].address !== options.btcAddress)) {
-      const prevOutput = outputs.shift();
-
-      if (!prevOutput) {
-        // this should never happen
-        throw new Error('Something went wrong when processing the outputs of the original transaction');
-      }
-
-      tx.addOutput({ script: prevOutput.script, amount: BigInt(prevOutput.value) });
-      outputsTotal += prevOutput.value;
+    return {
+      fee: Number(fee),
+      feeRate: Math.ceil(Number(fee) / vsize),
+      enoughFunds: true,
+    };
+  } catch (e) {
+    if (!(e instanceof InsufficientFundsError)) {
+      throw e;
     }
 
-    this.options = options;
-    this.baseTx = tx;
-    this.initialInputTotal = inputsTotal;
-    this.initialOutputTotal = outputsTotal;
-    this.transaction = transaction;
-    this.network = network;
-    this.p2btc = p2btc;
-    this.p2tr = p2tr;
+    return {
+      fee: undefined,
+      feeRate,
+      enoughFunds: false,
+    };
   }
+};
 
-  private getMinimumRbfFeeRate = async () => {
-    if (!this._minimumRbfFeeRate) {
-      const { minimumRbfFeeRate } = await getRbfTransactionSummary(this.options.esploraProvider, this.transaction.txid);
-      this._minimumRbfFeeRate = minimumRbfFeeRate;
-    }
-
-    return this._minimumRbfFeeRate;
+const constructRecommendedFees = async (
+  context: TransactionContext,
+  txid: string,
+  mode: RbfMode,
+  lowerName: keyof RbfRecommendedFees,
+  lowerFeeRate: number,
+  higherName: keyof RbfRecommendedFees,
+  higherFeeRate: number,
+): Promise<RbfRecommendedFees> => {
+  const [lowerTx, higherTx] = await Promise.all([
+    getRbfFeeSummary(context, txid, lowerFeeRate, mode),
+    getRbfFeeSummary(context, txid, higherFeeRate, mode),
+  ]);
+  return {
+    [lowerName]: lowerTx,
+    [higherName]: higherTx,
   };
+};
 
-  private getPaymentUtxos = async () => {
-    if (!this._paymentUtxos) {
-      this._paymentUtxos = await this.options.esploraProvider.getUnspentUtxos(this.options.btcAddress);
+/**
+ * Gets the fees of replacing a transaction at two fee rates around the recommended ones, which are raised when they
+ * are below the minimum rate of a replacement. The replacements are built with bumpFeeWithRbf.
+ */
+const getRbfRecommendedFees = async (
+  context: TransactionContext,
+  txid: string,
+  mempoolFees: RecommendedFeeResponse,
+  mode: RbfMode = 'speedUp',
+): Promise<RbfRecommendedFees> => {
+  const { minimumRbfFeeRate } = await getRbfTransactionSummary(context.esploraApiProvider, txid);
+  const { halfHourFee, fastestFee } = mempoolFees;
+
+  // For testnet, medium and high are the same
+  const medium = halfHourFee;
+  const high = Math.max(fastestFee, medium + 1);
+
+  if (minimumRbfFeeRate <= medium) {
+    return constructRecommendedFees(context, txid, mode, 'medium', medium, 'high', high);
+  }
 
-      this._paymentUtxos.sort((a, b) => {
-        const aConfirmed = a.status.confirmed;
-        const bConfirmed = b.status.confirmed;
+  if (minimumRbfFeeRate <= high) {
+    const higher = Math.max(high + 1, Math.ceil(high * 1.2));
+    return constructRecommendedFees(context, txid, mode, 'high', high, 'higher', higher);
+  }
 
-        // put confirmed UTXOs first
-        if (aConfirmed && !bConfirmed) {
-          return -1;
-        } else if (!aConfirmed && bConfirmed) {
-          return 1;
-        }
+  const higher = minimumRbfFeeRate * 1.1;
+  const highest = Math.max(higher + 1, minimumRbfFeeRate * 1.2);
 
-        return b.value - a.value;
-      });
-    }
+  return constructRecommendedFees(context, txid, mode, 'higher', higher, 'highest', highest);
+};
 
-    return [...this._paymentUtxos];
+const createMemoryStorageAdapter = (): StorageAdapter => {
+  const storage = new Map<string, string>();
+
+  return {
+    get: (key) => storage.get(key) ?? null,
+    set: (key, value) => {
+      storage.set(key, value);
+    },
+    remove: (key) => {
+      storage.delete(key);
+    },
   };
+};
 
-  private getBip32Master = async (options: CompileOptions) => {
-    // keep this method short so seed phrase is as short lived as possible
-    const seedPhrase = await options.getSeedPhrase();
-    const seed = await bip39.mnemonicToSeed(seedPhrase);
-    return bip32.fromSeed(seed);
-  };
+const throwVaultNotSupported = (): never => {
+  throw new Error('The seed vault of a replacement only provides the seed phrase to sign it');
+};
+
+/**
+ * Creates a seed vault which reads the seed phrase from getSeedPhrase instead of storing it
+ */
+const createSeedPhraseVault = (getSeedPhrase?: () => string | Promise<string>) => {
+  const seedVault = new SeedVault({
+    secureStorageAdapter: createMemoryStorageAdapter(),
+    commonStorageAdapter: createMemoryStorageAdapter(),
+    cryptoUtilsAdapter: {
+      encrypt: throwVaultNotSupported,
+      decrypt: throwVaultNotSupported,
+      hash: throwVaultNotSupported,
+      generateRandomBytes: throwVaultNotSupported,
+    },
+  });
 
-  private signTxSoftware = async (transaction: btc.Transaction, options?: CompileOptions): Promise<btc.Transaction> => {
-    if (!options?.getSeedPhrase) {
+  seedVault.getSeed = async () => {
+    if (!getSeedPhrase) {
       throw new Error('getSeedPhrase option is required to sign the transaction');
     }
 
-    const tx = btc.Transaction.fromPSBT(transaction.toPSBT(0));
-    const master = await this.getBip32Master(options);
+    return getSeedPhrase();
+  };
 
-    const btcDerivationPath = getBitcoinDerivationPath({
-      index: BigInt(this.options.accountId),
-      network: this.options.network,
-    });
-    const btcChild = master.derivePath(btcDerivationPath);
-    const btcpk = hex.decode(btcChild.privateKey!.toString('hex'));
+  return seedVault;
+};
 
-    const trDerivationPath = getTaprootDerivationPath({
-      index: BigInt(this.options.accountId),
-      network: this.options.network,
-    });
-    const trChild = master.derivePath(trDerivationPath);
-    let trpk = hex.decode(trChild.privateKey!.toString('hex'));
-    if (trpk.length === 33) {
-      trpk = trpk.slice(1);
-    }
+/**
+ * @deprecated Use bumpFeeWithRbf with the transaction context of the wallet to replace transactions, and
+ * getRbfRecommendedFees for their fees. This class wraps them for the props of an account.
+ */
+class RbfTransaction {
+  private transaction: BtcTransactionData;
 
-    for (let i = 0; i < tx.inputsLength; i++) {
-      const input = tx.getInput(i);
+  private options: RbfTransactionOptions;
 
-      if (areByteArraysEqual(input.witnessUtxo?.script, this.p2tr.script)) {
-        tx.signIdx(trpk, i);
-      } else if (areByteArraysEqual(input.witnessUtxo?.script, this.p2btc.script)) {
-        tx.signIdx(btcpk, i);
-      } else {
-        throw new Error(`Cannot sign input at index ${i}`);
-      }
-    }
+  private _context?: TransactionContext;
 
-    return tx;
-  };
+  private _minimumRbfFeeRate?: number;
 
-  private signTxLedger = async (transaction: btc.Transaction, options?: CompileOptions): Promise<btc.Transaction> => {
-    if (!options?.ledgerTransport) {
-      throw new Error('Options are required for non-dummy transactions');
+  constructor(transaction: BtcTransactionData, options: RbfTransactionOptions) {
+    if (transaction.confirmed) {
+      throw new Error('Transaction is already confirmed');
+    }
+    if (!isTransactionRbfEnabled(transaction, options.context ?? options)) {
+      throw new Error('Not RBF enabled transaction');
     }
 
-    const txnPsbt = transaction.toPSBT(0);
-    const signedPsbtBase64 = await signLedgerPSBT({
-      addressIndex: this.options.accountId,
-      finalize: false,
-      nativeSegwitPubKey: this.options.btcPublicKey,
-      esploraProvider: this.options.esploraProvider,
-      network: this.options.network,
-      psbtInputBase64: base64.encode(txnPsbt),
-      taprootPubKey: this.options.ordinalsPublicKey,
-      transport: options.ledgerTransport,
-    });
-
-    const signedTransaction = btc.Transaction.fromPSBT(base64.decode(signedPsbtBase64));
-
-    return signedTransaction;
-  };
+    this.transaction = transaction;
+    this.options = options;
+  }
 
-  private dummySignTransaction = async (transaction: btc.Transaction): Promise<btc.Transaction> => {
-    const dummyPrivateKey = hex.decode('0000000000000000000000000000000000000000000000000000000000000001');
-    const publicKey = secp256k1.getPublicKey(dummyPrivateKey, true);
-    const p2wpkh = btc.p2wpkh(publicKey, this.network);
-    const p2sh = btc.p2sh(p2wpkh, this.network);
-
-    const schnorrPublicKeyBuff = publicKey.length === 33 ? publicKey.slice(1) : publicKey;
-    const p2tr = btc.p2tr(schnorrPublicKeyBuff, undefined, this.network);
-
-    const tx = btc.Transaction.fromPSBT(transaction.toPSBT(0));
-
-    for (let i = 0; i < tx.inputsLength; i++) {
-      const input = tx.getInput(i);
-      if (input.tapInternalKey) {
-        tx.updateInput(i, {
-          witnessUtxo: {
-            script: p2tr.script,
-            amount: input.witnessUtxo!.amount,
-          },
-          tapInternalKey: p2tr.tapInternalKey,
-        });
-      } else if (input.redeemScript) {
-        tx.updateInput(i, {
-          witnessUtxo: {
-            script: p2sh.script,
-            amount: input.witnessUtxo!.amount,
-          },
-          redeemScript: p2sh.redeemScript,
-          witnessScript: p2sh.witnessScript,
-        });
-      } else {
-        tx.updateInput(i, {
-          witnessUtxo: {
-            script: p2wpkh.script,
-            amount: input.witnessUtxo!.amount,
-          },
-        });
-      }
-    }
+  private createContext = (getSeedPhrase?: () => string | Promise<string>) => {
+    const { btcAddress, btcPublicKey, ordinalsAddress, ordinalsPublicKey, accountId, network, accountType } =
+      this.options;
+    const seedVault = createSeedPhraseVault(getSeedPhrase);
+    const utxoCache = new UtxoCache({ cacheStorageController: createMemoryStorageAdapter(), network });
+    const addressProps = {
+      esploraApiProvider: this.options.esploraProvider,
+      network,
+      accountIndex: accountId,
+      seedVault,
+      utxoCache,
+      accountType,
+    };
 
-    tx.sign(dummyPrivateKey);
+    const paymentAddress = createAddressContext({ ...addressProps, address: btcAddress, publicKey: btcPublicKey });
+    const ordinalsAddressContext =
+      btcAddress === ordinalsAddress
+        ? paymentAddress
+        : createAddressContext({ ...addressProps, address: ordinalsAddress, publicKey: ordinalsPublicKey });
 
-    return tx;
+    return new TransactionContext(network, paymentAddress, ordinalsAddressContext);
   };
 
-  private signTx = async (
-    tx: btc.Transaction,
-    isDummy: boolean,
-    options?: CompileOptions,
-  ): Promise<btc.Transaction> => {
-    if (isDummy) {
-      return this.dummySignTransaction(tx);
+  private getContext = () => {
+    if (!this._context) {
+      this._context = this.options.context ?? this.createContext();
     }
 
-    if (this.options.accountType === 'ledger') {
-      return this.signTxLedger(tx, options);
-    }
-
-    return this.signTxSoftware(tx, options);
-  };
-
-  private getTxSize = async (tx: btc.Transaction) => {
-    const txCopy = btc.Transaction.fromPSBT(tx.toPSBT(0));
-    const signedTxCopy = await this.signTx(txCopy, true);
-    signedTxCopy.finalize();
-    return signedTxCopy.vsize;
+    return this._context;
   };
 
-  private compileTransaction = async (desiredFeeRate: number, isDummy: boolean, options?: CompileOptions) => {
-    if (!isDummy && !options) {
-      throw new Error('Options are required for non-dummy transactions');
-    }
-
-    const tx = btc.Transaction.fromPSBT(this.baseTx.toPSBT(0));
-
-    const paymentUtxos = await this.getPaymentUtxos();
-
-    let done = false;
-    let actualFee = 0;
-    let inputsTotal = this.initialInputTotal;
-    let outputsTotal = this.initialOutputTotal;
-    // ensure inputs can cover new fee rate
-    while (!done) {
-      const size = await this.getTxSize(tx);
-
-      const change = inputsTotal - outputsTotal;
-      const newFee = Math.max(size * desiredFeeRate, this.transaction.fees + size);
-      if (newFee > change) {
-        const utxo = paymentUtxos.shift();
-
-        if (!utxo) {
-          throw new Error('Not enough funds');
-        }
-
-        tx.addInput({
-          txid: utxo.txid,
-          index: utxo.vout,
-          witnessUtxo: {
-            script: this.p2btc.script,
-            amount: BigInt(utxo.value),
-          },
-          redeemScript: this.p2btc.redeemScript,
-          witnessScript: this.p2btc.witnessScript,
-          sequence: 0xfffffffd,
-        });
-        inputsTotal += utxo.value;
-      } else {
-        // check if we can add change output
-        const txWithChange = btc.Transaction.fromPSBT(tx.toPSBT(0));
-        actualFee = change;
-        txWithChange.addOutputAddress(this.options.btcAddress, BigInt(change), this.network);
-        const sizeWithChange = await this.getTxSize(txWithChange);
-        const newFeeWithChange = Math.max(sizeWithChange * desiredFeeRate, this.transaction.fees + sizeWithChange);
-
-        if (newFeeWithChange + 1000 < change) {
-          // add change output
-          actualFee = Math.ceil(newFeeWithChange);
-          const actualChange = change - actualFee;
-          tx.addOutputAddress(this.options.btcAddress, BigInt(actualChange), this.network);
-          outputsTotal += actualChange;
-        }
-
-        done = true;
-      }
+  private getMinimumRbfFeeRate = async () => {
+    if (!this._minimumRbfFeeRate) {
+      const { minimumRbfFeeRate } = await getRbfTransactionSummary(this.options.esploraProvider, this.transaction.txid);
+      this._minimumRbfFeeRate = minimumRbfFeeRate;
     }
 
-    const signedTransaction = await this.signTx(tx, isDummy, options);
-    signedTransaction.finalize();
-
-    return {
-      transaction: signedTransaction,
-      fee: actualFee,
-    };
-  };
-
-  private constructRecommendedFees = async (
-    lowerName: keyof RbfRecommendedFees,
-    lowerFeeRate: number,
-    higherName: keyof RbfRecommendedFees,
-    higherFeeRate: number,
-  ): Promise<RbfRecommendedFees> => {
-    const [lowerTx, higherTx] = await Promise.all([
-      this.getRbfFeeSummary(lowerFeeRate),
-      this.getRbfFeeSummary(higherFeeRate),
-    ]);
-    return {
-      [lowerName]: lowerTx,
-      [higherName]: higherTx,
-    };
+    return this._minimumRbfFeeRate;
   };
 
-  getRbfFeeSummary = async (feeRateRaw: number): Promise<TierFees> => {
-    const feeRate = Math.ceil(feeRateRaw);
+  getRbfFeeSummary = async (feeRateRaw: number, mode: RbfMode = 'speedUp'): Promise<TierFees> => {
     const minimumRbfFeeRate = await this.getMinimumRbfFeeRate();
 
-    if (feeRate < minimumRbfFeeRate) {
+    if (Math.ceil(feeRateRaw) < minimumRbfFeeRate) {
       throw new Error('Fee rate is below RBF minimum fee rate');
     }
 
-    try {
-      const tx = await this.compileTransaction(feeRate, true);
-
-      return {
-        fee: tx.fee,
-        feeRate: Math.ceil(tx.fee / tx.transaction.vsize),
-        enoughFunds: true,
-      };
-    } catch (e) {
-      if (!e.message.includes('Not enough funds')) {
-        throw e;
-      }
-
-      return {
-        fee: undefined,
-        feeRate,
-        enoughFunds: false,
-      };
-    }
+    return getRbfFeeSummary(this.getContext(), this.transaction.txid, feeRateRaw, mode);
   };
 
-  getRbfRecommendedFees = async (mempoolFees: RecommendedFeeResponse): Promise<RbfRecommendedFees> => {
-    const minimumRbfFeeRate = await this.getMinimumRbfFeeRate();
-    const { halfHourFee, fastestFee } = mempoolFees;
-
-    // For testnet, medium and high are the same
-    const medium = halfHourFee;
-    const high = Math.max(fastestFee, medium + 1);
-
-    if (minimumRbfFeeRate <= medium) {
-      return this.constructRecommendedFees('medium', medium, 'high', high);
-    }
-
-    if (minimumRbfFeeRate <= high) {
-      const higher = Math.max(high + 1, Math.ceil(high * 1.2));
-      return this.constructRecommendedFees('high', high, 'higher', higher);
-    }
-
-    const higher = minimumRbfFeeRate * 1.1;
-    const highest = Math.max(higher + 1, minimumRbfFeeRate * 1.2);
-
-    return this.constructRecommendedFees('higher', higher, 'highest', highest);
-  };
+  getRbfRecommendedFees = async (
+    mempoolFees: RecommendedFeeResponse,
+    mode: RbfMode = 'speedUp',
+  ): Promise<RbfRecommendedFees> => getRbfRecommendedFees(this.getContext(), this.transaction.txid, mempoolFees, mode);
 
   getReplacementTransaction = async (options: CompileOptions) => {
-    const { transaction, fee } = await this.compileTransaction(options.feeRate, false, options);
+    // the context of the props only gets the seed phrase to sign this replacement
+    const context = this.options.context ?? this.createContext(options.getSeedPhrase);
+    const replacement = await bumpFeeWithRbf(context, this.transaction.txid, Math.ceil(options.feeRate), {
+      replaceMode: options.mode,
+    });
+    const { fee } = await replacement.getSummary();
+    const { hex: transactionHex } = await replacement.getTransactionHexAndId({
+      ledgerTransport: options.ledgerTransport,
+    });
+    const transaction = btc.Transaction.fromRaw(hex.decode(transactionHex), {
+      allowUnknownInputs: true,
+      allowUnknownOutputs: true,
+    });
+
     return {
       transaction,
-      hex: transaction.hex,
-      fee,
-      feeRate: Math.ceil(fee / transaction.vsize),
+      hex: transactionHex,
+      fee: Number(fee),
+      feeRate: Math.ceil(Number(fee) / transaction.vsize),
     };
   };
 }
@@ -563,4 +328,5 @@ export default {
   RbfTransaction,
   isTransactionRbfEnabled,
   getRbfTransactionSummary,
+  getRbfRecommendedFees,
 };
@@ -1,10 +1,18 @@
 import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
 import { BigNumber } from 'bignumber.js';
 import { getRunesClient } from '../api';
 import { DEFAULT_DUST_VALUE } from '../constant';
+import { Etching, Rune } from '../types';
 import { processPromisesBatch } from '../utils/promises';
+import { MAX_DIVISIBILITY, encodeRunestone, runeNameToNumber } from '../utils/runestone';
 import { ActionType, EnhancedTransaction, ExtendedUtxo, TransactionContext, TransactionOptions } from './bitcoin';
+import { P2trAddressContext } from './bitcoin/context';
+import { getPolicyInputFields } from './bitcoin/policy';
+import { RuneCommitmentPayment } from './bitcoin/runeCommitments';
 import { Action } from './bitcoin/types';
+import { areByteArraysEqual } from './bitcoin/utils';
+import { estimateVSize } from './bitcoin/utils/transactionVsizeEstimator';
 
 const getUtxosWithRuneBalance = async (extendedUtxos: ExtendedUtxo[], runeName: string) => {
   const runeUtxosRaw = await processPromisesBatch(extendedUtxos, 20, async (utxo) => {
@@ -93,7 +101,7 @@ export const sendRunes = async (
     throw new Error('Rune not found');
   }
 
-  const transferScript = await runesApi.getEncodedScriptHex({
+  const transferScript = encodeRunestone({
     edicts: [{ id: runeMetadata.id, amount: amountBigNumber, output: BigNumber(1) }],
     pointer: hasChange ? 2 : undefined,
   });
@@ -101,7 +109,7 @@ export const sendRunes = async (
   const actions: Action[] = [
     {
       type: ActionType.SCRIPT,
-      script: hex.decode(transferScript),
+      script: transferScript,
     },
     {
       type: ActionType.SEND_BTC,
@@ -129,17 +137,178 @@ export const sendRunes = async (
   return transaction;
 };
 
-export const recoverRunes = async (
+export type RuneTransfer = {
+  runeName: string;
+  toAddress: string;
+  amount: bigint;
+};
+
+/**
+ * Checks that the runestone of a compiled transaction allocates the runes of all its inputs to outputs, as runes left
+ * without a pointer would go to the first recipient and an invalid runestone burns them
+ */
+const assertRunesAllocated = async (transaction: EnhancedTransaction, sentAmounts: Record<string, BigNumber>) => {
+  const { inputs, runeOp } = await transaction.getSummary();
+
+  if (!runeOp?.Runestone) {
+    throw new Error('The runestone is invalid, so the runes of the inputs would be burned');
+  }
+
+  const inputBalances: Record<string, BigNumber> = {};
+  for (const { extendedUtxo } of inputs) {
+    const balances = await extendedUtxo.getRuneBalances();
+
+    for (const [runeName, amount] of Object.entries(balances ?? {})) {
+      inputBalances[runeName] = BigNumber(inputBalances[runeName] ?? 0).plus(amount);
+    }
+  }
+
+  const hasPointer = runeOp.Runestone.pointer !== undefined && runeOp.Runestone.pointer !== null;
+
+  for (const [runeName, balance] of Object.entries(inputBalances)) {
+    const leftover = balance.minus(sentAmounts[runeName] ?? 0);
+
+    if (leftover.lt(0)) {
+      throw new Error(`Not enough ${runeName} to send`);
+    }
+
+    if (leftover.gt(0) && !hasPointer) {
+      throw new Error(`${leftover.toString()} ${runeName} would be left unallocated`);
+    }
+  }
+};
+
+/**
+ * Sends any number of runes to any number of recipients with a single runestone. Each recipient gets one output with
+ * an edict for each rune sent to them, and the runes left in the inputs go to an output on the ordinals address.
+ */
+export const sendMultipleRunes = async (
   context: TransactionContext,
+  transfers: RuneTransfer[],
   feeRate: number,
   options?: Omit<TransactionOptions, 'forceIncludeOutpointList' | 'allowUnknownOutputs'>,
 ) => {
+  if (transfers.length === 0) {
+    throw new Error('No runes to send');
+  }
+
+  if (transfers.some(({ amount }) => amount <= 0)) {
+    throw new Error('Amount must be positive');
+  }
+
   const runesApi = getRunesClient(context.network);
 
-  const [paymentUtxos, runeScriptHex] = await Promise.all([
-    context.paymentAddress.getUtxos(),
-    runesApi.getEncodedScriptHex({ edicts: [], pointer: 1 }),
-  ]);
+  // the amounts are in the individual coin units of each rune
+  const sentAmounts: Record<string, BigNumber> = {};
+  for (const { runeName, amount } of transfers) {
+    const key = runeName.toUpperCase();
+    sentAmounts[key] = BigNumber(sentAmounts[key] ?? 0).plus(amount.toString());
+  }
+
+  const ordinalsUtxos = await context.ordinalsAddress.getUtxos();
+
+  // get enough utxos of each rune to cover its amount, counting all runes of the selected utxos
+  const totalBalances: Record<string, BigNumber> = {};
+  const selectedOutpoints: string[] = [];
+
+  for (const [runeName, sentAmount] of Object.entries(sentAmounts)) {
+    const runeUtxos = await getUtxosWithRuneBalance(ordinalsUtxos, runeName);
+    runeUtxos.sort((a, b) => b.balance.comparedTo(a.balance));
+
+    for (const { utxo } of runeUtxos) {
+      if (BigNumber(totalBalances[runeName] ?? 0).gte(sentAmount)) {
+        break;
+      }
+
+      if (selectedOutpoints.includes(utxo.outpoint)) {
+        continue;
+      }
+
+      const utxoBundle = await utxo.getBundleData();
+
+      for (const [rune, runeDetails] of utxoBundle?.runes ?? []) {
+        totalBalances[rune] = BigNumber(totalBalances[rune] ?? 0).plus(runeDetails.amount);
+      }
+
+      selectedOutpoints.push(utxo.outpoint);
+    }
+
+    if (BigNumber(totalBalances[runeName] ?? 0).lt(sentAmount)) {
+      throw new Error(`Not enough ${runeName} to send`);
+    }
+  }
+
+  const runeIds: Record<string, string> = {};
+  for (const runeName of Object.keys(sentAmounts)) {
+    const runeMetadata = await runesApi.getRuneInfo(runeName);
+
+    if (!runeMetadata) {
+      throw new Error(`Rune ${runeName} not found`);
+    }
+
+    runeIds[runeName] = runeMetadata.id;
+  }
+
+  // outputs to the same address are grouped, so each recipient gets a single output after the runestone
+  const recipients = [...new Set(transfers.map(({ toAddress }) => toAddress))];
+  const edicts = transfers.map(({ runeName, toAddress, amount }) => ({
+    id: runeIds[runeName.toUpperCase()],
+    amount: BigNumber(amount.toString()),
+    output: BigNumber(recipients.indexOf(toAddress) + 1),
+  }));
+
+  const hasLeftover = Object.entries(totalBalances).some(([runeName, balance]) =>
+    balance.gt(sentAmounts[runeName] ?? 0),
+  );
+  let pointer: number | undefined;
+
+  if (hasLeftover) {
+    // the leftovers join the output of the ordinals address if it is a recipient
+    const ordinalsRecipientIndex = recipients.indexOf(context.ordinalsAddress.address);
+    pointer = ordinalsRecipientIndex === -1 ? recipients.length + 1 : ordinalsRecipientIndex + 1;
+  }
+
+  const actions: Action[] = [
+    {
+      type: ActionType.SCRIPT,
+      script: encodeRunestone({ edicts, pointer }),
+    },
+    ...recipients.map((toAddress) => ({
+      type: ActionType.SEND_BTC as const,
+      toAddress,
+      amount: DEFAULT_DUST_VALUE,
+      combinable: false,
+    })),
+  ];
+
+  if (pointer === recipients.length + 1) {
+    actions.push({
+      type: ActionType.SEND_BTC,
+      toAddress: context.ordinalsAddress.address,
+      amount: DEFAULT_DUST_VALUE,
+      combinable: false,
+    });
+  }
+
+  const transaction = new EnhancedTransaction(context, actions, feeRate, {
+    ...options,
+    forceIncludeOutpointList: selectedOutpoints,
+    allowUnknownOutputs: true,
+  });
+
+  // payment UTXOs added for the fee can hold runes too, so the allocation is checked on the compiled transaction
+  await assertRunesAllocated(transaction, sentAmounts);
+
+  return transaction;
+};
+
+export const recoverRunes = async (
+  context: TransactionContext,
+  feeRate: number,
+  options?: Omit<TransactionOptions, 'forceIncludeOutpointList' | 'allowUnknownOutputs'>,
+) => {
+  const paymentUtxos = await context.paymentAddress.getUtxos();
+  const runeScript = encodeRunestone({ edicts: [], pointer: 1 });
 
   const runeUtxos: ExtendedUtxo[] = [];
 
@@ -160,7 +329,7 @@ export const recoverRunes = async (
     [
       {
         type: ActionType.SCRIPT,
-        script: hex.decode(runeScriptHex),
+        script: runeScript,
       },
       {
         type: ActionType.SEND_BTC,
@@ -179,3 +348,775 @@ export const recoverRunes = async (
 
   return transaction;
 };
+
+export type RuneUtxoOptions = Omit<TransactionOptions, 'forceIncludeOutpointList' | 'allowUnknownOutputs'> & {
+  /** The sats of each output holding runes, the dust value by default */
+  postage?: bigint;
+};
+
+const assertPostageAboveDust = (postage: bigint) => {
+  if (postage < DEFAULT_DUST_VALUE) {
+    throw new Error(`Postage of ${postage} sats is below dust`);
+  }
+};
+
+/**
+ * Gets the ordinals UTXOs holding runes which can be spent without moving inscriptions or rare sats, as those would
+ * end up in the outputs of the runes or in the fee. Unindexed UTXOs are skipped as their contents are unknown.
+ */
+const getMovableRuneUtxos = async (context: TransactionContext, runeName?: string) => {
+  const ordinalsUtxos = await context.ordinalsAddress.getUtxos();
+
+  const runeUtxos: { utxo: ExtendedUtxo; balances: Record<string, BigNumber> }[] = [];
+
+  for (const utxo of ordinalsUtxos) {
+    const balances = await utxo.getRuneBalances();
+
+    if (!balances || !Object.values(balances).some((balance) => balance.gt(0))) {
+      continue;
+    }
+
+    if (runeName && !balances[runeName.toUpperCase()]?.gt(0)) {
+      continue;
+    }
+
+    if ((await utxo.isEmbellished()) !== false) {
+      continue;
+    }
+
+    runeUtxos.push({ utxo, balances });
+  }
+
+  return runeUtxos;
+};
+
+/**
+ * Merges the UTXOs of the ordinals address holding a rune, or all runes, into one output per rune on the ordinals
+ * address. UTXOs with inscriptions or rare sats are left out.
+ */
+export const consolidateRunes = async (
+  context: TransactionContext,
+  feeRate: number,
+  options?: RuneUtxoOptions & {
+    /** The rune to consolidate, all runes by default */
+    runeName?: string;
+  },
+) => {
+  const { runeName, postage = DEFAULT_DUST_VALUE, ...transactionOptions } = options ?? {};
+  assertPostageAboveDust(postage);
+
+  const runeUtxos = await getMovableRuneUtxos(context, runeName);
+
+  if (runeUtxos.length < 2) {
+    throw new Error(`Not enough ${runeName ?? 'rune'} UTXOs to consolidate`);
+  }
+
+  // the other runes of the selected UTXOs get an output of their own too
+  const totalBalances: Record<string, BigNumber> = {};
+  for (const { balances } of runeUtxos) {
+    for (const [rune, balance] of Object.entries(balances)) {
+      totalBalances[rune] = BigNumber(totalBalances[rune] ?? 0).plus(balance);
+    }
+  }
+
+  const runesApi = getRunesClient(context.network);
+  const runeNames = Object.keys(totalBalances).filter((rune) => totalBalances[rune].gt(0));
+
+  // an edict with an amount of 0 sends all the remaining balance of the rune to its output
+  const edicts = await Promise.all(
+    runeNames.map(async (rune, i) => {
+      const runeMetadata = await runesApi.getRuneInfo(rune);
+
+      if (!runeMetadata) {
+        throw new Error(`Rune ${rune} not found`);
+      }
+
+      return { id: runeMetadata.id, amount: BigNumber(0), output: BigNumber(i + 1) };
+    }),
+  );
+
+  const actions: Action[] = [
+    {
+      type: ActionType.SCRIPT,
+      script: encodeRunestone({ edicts }),
+    },
+    ...runeNames.map(() => ({
+      type: ActionType.SEND_BTC as const,
+      toAddress: context.ordinalsAddress.address,
+      amount: postage,
+      combinable: false,
+    })),
+  ];
+
+  const transaction = new EnhancedTransaction(context, actions, feeRate, {
+    ...transactionOptions,
+    forceIncludeOutpointList: runeUtxos.map(({ utxo }) => utxo.outpoint),
+    allowUnknownOutputs: true,
+  });
+
+  await assertRunesAllocated(transaction, totalBalances);
+
+  return transaction;
+};
+
+/**
+ * Splits a rune balance into outputs of the given amounts on the ordinals address, e.g. to list part of it on a
+ * market. What is left of the runes of the spent UTXOs goes to one more output on the ordinals address.
+ */
+export const splitRunes = async (
+  context: TransactionContext,
+  runeName: string,
+  amounts: bigint[],
+  feeRate: number,
+  options?: RuneUtxoOptions,
+) => {
+  const { postage = DEFAULT_DUST_VALUE, ...transactionOptions } = options ?? {};
+  assertPostageAboveDust(postage);
+
+  if (amounts.length === 0) {
+    throw new Error('No amounts to split into');
+  }
+
+  if (amounts.some((amount) => amount <= 0)) {
+    throw new Error('Amount must be positive');
+  }
+
+  const rune = runeName.toUpperCase();
+  const splitAmount = BigNumber(amounts.reduce((total, amount) => total + amount, 0n).toString());
+
+  const runeUtxos = await getMovableRuneUtxos(context, rune);
+  runeUtxos.sort((a, b) => b.balances[rune].comparedTo(a.balances[rune]));
+
+  const totalBalances: Record<string, BigNumber> = {};
+  const selectedOutpoints: string[] = [];
+
+  for (const { utxo, balances } of runeUtxos) {
+    if (BigNumber(totalBalances[rune] ?? 0).gte(splitAmount)) {
+      break;
+    }
+
+    for (const [balanceRune, balance] of Object.entries(balances)) {
+      totalBalances[balanceRune] = BigNumber(totalBalances[balanceRune] ?? 0).plus(balance);
+    }
+
+    selectedOutpoints.push(utxo.outpoint);
+  }
+
+  if (BigNumber(totalBalances[rune] ?? 0).lt(splitAmount)) {
+    throw new Error(`Not enough ${rune} to split`);
+  }
+
+  const runeMetadata = await getRunesClient(context.network).getRuneInfo(rune);
+
+  if (!runeMetadata) {
+    throw new Error(`Rune ${rune} not found`);
+  }
+
+  const hasLeftover =
+    totalBalances[rune].gt(splitAmount) || Object.keys(totalBalances).some((balanceRune) => balanceRune !== rune);
+
+  const actions: Action[] = [
+    {
+      type: ActionType.SCRIPT,
+      script: encodeRunestone({
+        edicts: amounts.map((amount, i) => ({
+          id: runeMetadata.id,
+          amount: BigNumber(amount.toString()),
+          output: BigNumber(i + 1),
+        })),
+        pointer: hasLeftover ? amounts.length + 1 : undefined,
+      }),
+    },
+  ];
+
+  for (let i = 0; i < amounts.length + (hasLeftover ? 1 : 0); i++) {
+    actions.push({
+      type: ActionType.SEND_BTC,
+      toAddress: context.ordinalsAddress.address,
+      amount: postage,
+      combinable: false,
+    });
+  }
+
+  const transaction = new EnhancedTransaction(context, actions, feeRate, {
+    ...transactionOptions,
+    forceIncludeOutpointList: selectedOutpoints,
+    allowUnknownOutputs: true,
+  });
+
+  await assertRunesAllocated(transaction, { [rune]: splitAmount });
+
+  return transaction;
+};
+
+export type RuneEtchingParams = {
+  /** The name of the rune, optionally with spacers, e.g. UNCOMMON•GOODS */
+  spacedRune: string;
+  divisibility?: number;
+  premine?: bigint;
+  symbol?: string;
+  /** The terms of open mints, with the heights and offsets from the etching block they are allowed between */
+  terms?: {
+    amount?: bigint;
+    cap?: bigint;
+    height?: [start?: number, end?: number];
+    offset?: [start?: number, end?: number];
+  };
+  turbo?: boolean;
+  /** The address which receives the premine, the ordinals address by default */
+  destinationAddress?: string;
+};
+
+/**
+ * The steps of an etching. The commitment is broadcast first, and the etching can be revealed once the commitment is
+ * mature, after which it is completed when the reveal confirms.
+ */
+export type RuneEtchingStatus = 'created' | 'committed' | 'mature' | 'revealed' | 'completed';
+
+/**
+ * The progress of an etching, which can be stored to resume it later as it spans at least 6 blocks
+ */
+export type RuneEtchingState = {
+  status: RuneEtchingStatus;
+  rune: string;
+  /** The hex encoded runestone of the reveal, which holds the etching */
+  runestone: string;
+  destinationAddress: string;
+  commitOutpoint?: string;
+  commitBlockHeight?: number;
+  revealTxid?: string;
+  revealBlockHeight?: number;
+};
+
+const parseSpacedRune = (spacedRune: string): { rune: string; spacers: bigint } => {
+  let rune = '';
+  let spacers = 0n;
+
+  for (const character of spacedRune) {
+    if (character !== '•' && character !== '.') {
+      rune += character;
+      continue;
+    }
+
+    // a spacer is a flag after a letter, so there can't be a leading or double spacer
+    const flag = 1n << BigInt(rune.length - 1);
+    if (!rune.length || spacers & flag) {
+      throw new Error(`Invalid spaced rune name: ${spacedRune}`);
+    }
+
+    spacers |= flag;
+  }
+
+  if (spacers >> BigInt(rune.length - 1) > 0n) {
+    throw new Error(`Invalid spaced rune name: ${spacedRune}`);
+  }
+
+  // validates the letters of the name
+  runeNameToNumber(rune);
+
+  return { rune, spacers };
+};
+
+const toBigNullable = (value?: number) => (value !== undefined ? BigNumber(value) : null);
+
+const getEtching = (params: RuneEtchingParams): Etching & { rune: string } => {
+  const { rune, spacers } = parseSpacedRune(params.spacedRune);
+  const { divisibility, premine, symbol, terms, turbo } = params;
+
+  if (
+    divisibility !== undefined &&
+    (!Number.isInteger(divisibility) || divisibility < 0 || divisibility > MAX_DIVISIBILITY)
+  ) {
+    throw new Error(`Invalid divisibility: ${divisibility}`);
+  }
+
+  if (symbol !== undefined && [...symbol].length !== 1) {
+    throw new Error(`Invalid rune symbol: ${symbol}`);
+  }
+
+  if (!premine && !terms) {
+    throw new Error('The rune needs a premine or mint terms');
+  }
+
+  return {
+    rune,
+    spacers: BigNumber(spacers.toString()),
+    divisibility: divisibility !== undefined ? BigNumber(divisibility) : undefined,
+    premine: premine !== undefined ? BigNumber(premine.toString()) : undefined,
+    symbol,
+    terms: terms && {
+      amount: terms.amount !== undefined ? BigNumber(terms.amount.toString()) : undefined,
+      cap: terms.cap !== undefined ? BigNumber(terms.cap.toString()) : undefined,
+      height: [toBigNullable(terms.height?.[0]), toBigNullable(terms.height?.[1])],
+      offset: [toBigNullable(terms.offset?.[0]), toBigNullable(terms.offset?.[1])],
+    },
+    turbo,
+  };
+};
+
+/**
+ * Etches a rune with a commitment to its name, which is revealed by spending the commitment output through its script
+ * path once it is mature. The state can be persisted between steps and passed back to resume the etching.
+ */
+export class RuneEtching {
+  private readonly _context: TransactionContext;
+
+  private readonly _ordinalsAddress: P2trAddressContext;
+
+  private _state: RuneEtchingState;
+
+  constructor(context: TransactionContext, state: RuneEtchingState) {
+    if (!(context.ordinalsAddress instanceof P2trAddressContext)) {
+      throw new Error('Runes can only be etched from a taproot ordinals address');
+    }
+
+    this._context = context;
+    this._ordinalsAddress = context.ordinalsAddress;
+    this._state = { ...state };
+
+    // the commitment is tracked so the reveal can spend it
+    this._ordinalsAddress.addRuneCommitments([state.rune]);
+  }
+
+  static create(context: TransactionContext, params: RuneEtchingParams): RuneEtching {
+    const etching = getEtching(params);
+    // the premine goes to the first output after the runestone, which pays the destination
+    const runestone = encodeRunestone({ edicts: [], etching, pointer: 1 });
+
+    return new RuneEtching(context, {
+      status: 'created',
+      rune: etching.rune,
+      runestone: hex.encode(runestone),
+      destinationAddress: params.destinationAddress ?? context.ordinalsAddress.address,
+    });
+  }
+
+  get state(): RuneEtchingState {
+    return { ...this._state };
+  }
+
+  get commitmentPayment(): RuneCommitmentPayment {
+    return this._ordinalsAddress.getRuneCommitmentPayment(this._state.rune);
+  }
+
+  /**
+   * Returns the transaction which funds the commitment output with enough to pay for the reveal at the reveal fee rate,
+   * which defaults to the fee rate of the commitment
+   */
+  getCommitTransaction(
+    feeRate: number,
+    options?: TransactionOptions & { revealFeeRate?: number },
+  ): EnhancedTransaction {
+    this.assertStatus('created');
+
+    const { revealFeeRate = feeRate, ...transactionOptions } = options ?? {};
+    // the inputs need to exceed the fee for the coin selection to accept a reveal without payment inputs
+    const revealFee = BigInt(Math.ceil(this.estimateRevealVsize() * revealFeeRate)) + 1n;
+
+    return new EnhancedTransaction(
+      this._context,
+      [
+        {
+          type: ActionType.SEND_BTC,
+          toAddress: this.commitmentPayment.address,
+          amount: DEFAULT_DUST_VALUE + revealFee,
+          combinable: false,
+        },
+      ],
+      feeRate,
+      transactionOptions,
+    );
+  }
+
+  async commit(feeRate: number, options?: TransactionOptions & { revealFeeRate?: number }): Promise<RuneEtchingState> {
+    const transaction = this.getCommitTransaction(feeRate, options);
+    const { hex: transactionHex, id } = await transaction.getTransactionHexAndId();
+
+    const signedTransaction = btc.Transaction.fromRaw(hex.decode(transactionHex), { allowUnknownOutputs: true });
+    const { script } = this.commitmentPayment;
+    const vout = Array.from({ length: signedTransaction.outputsLength }).findIndex((_, i) =>
+      areByteArraysEqual(signedTransaction.getOutput(i).script, script),
+    );
+
+    await this._context.esploraApiProvider.sendRawTransaction(transactionHex);
+    this._context.markOutputsUsed(signedTransaction);
+
+    this._state = { ...this._state, status: 'committed', commitOutpoint: `${id}:${vout}` };
+    return this.state;
+  }
+
+  /**
+   * Checks the chain for the progress of the etching, i.e. whether the commitment matured or the reveal confirmed
+   */
+  async refresh(): Promise<RuneEtchingState> {
+    if (this._state.status === 'committed') {
+      const commitmentUtxos = await this._ordinalsAddress.getRuneCommitmentUtxos();
+      const commitmentUtxo = commitmentUtxos.find(
+        ({ extendedUtxo }) => extendedUtxo.outpoint === this._state.commitOutpoint,
+      );
+
+      if (commitmentUtxo) {
+        this._state = {
+          ...this._state,
+          status: commitmentUtxo.mature ? 'mature' : 'committed',
+          commitBlockHeight: commitmentUtxo.extendedUtxo.utxo.status.block_height,
+        };
+      }
+    } else if (this._state.status === 'revealed') {
+      if (!this._state.revealTxid) {
+        throw new Error(`The etching of ${this._state.rune} is revealed, but its reveal transaction is unknown`);
+      }
+
+      const { status } = await this._context.esploraApiProvider.getTransaction(this._state.revealTxid);
+
+      if (status.confirmed) {
+        this._state = { ...this._state, status: 'completed', revealBlockHeight: status.block_height };
+      }
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Returns the reveal, which spends the mature commitment with the runestone of the etching and sends the premine to
+   * the destination. Payment UTXOs are added if the commitment no longer covers the fee.
+   */
+  getRevealTransaction(feeRate: number, options?: Omit<TransactionOptions, 'forceIncludeOutpointList'>) {
+    this.assertStatus('mature');
+
+    const { commitOutpoint } = this._state;
+    if (!commitOutpoint) {
+      throw new Error(`The etching of ${this._state.rune} is mature, but its commitment output is unknown`);
+    }
+
+    return new EnhancedTransaction(
+      this._context,
+      [
+        {
+          type: ActionType.SCRIPT,
+          script: hex.decode(this._state.runestone),
+        },
+        {
+          type: ActionType.SEND_BTC,
+          toAddress: this._state.destinationAddress,
+          amount: DEFAULT_DUST_VALUE,
+          combinable: false,
+        },
+      ],
+      feeRate,
+      {
+        ...options,
+        forceIncludeOutpointList: [commitOutpoint],
+        allowUnknownOutputs: true,
+      },
+    );
+  }
+
+  async reveal(
+    feeRate: number,
+    options?: Omit<TransactionOptions, 'forceIncludeOutpointList'>,
+  ): Promise<RuneEtchingState> {
+    const transaction = this.getRevealTransaction(feeRate, options);
+    const { hex: transactionHex, id } = await transaction.getTransactionHexAndId();
+
+    await this._context.esploraApiProvider.sendRawTransaction(transactionHex);
+    this._context.markOutputsUsed(btc.Transaction.fromRaw(hex.decode(transactionHex), { allowUnknownOutputs: true }));
+
+    this._state = { ...this._state, status: 'revealed', revealTxid: id };
+    return this.state;
+  }
+
+  private assertStatus(status: RuneEtchingStatus): void {
+    if (this._state.status !== status) {
+      throw new Error(`The etching of ${this._state.rune} is ${this._state.status}, expected it to be ${status}`);
+    }
+  }
+
+  private estimateRevealVsize(): number {
+    const payment = this.commitmentPayment;
+    const network = this._context.network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK;
+
+    const transaction = new btc.Transaction({ allowUnknownOutputs: true });
+    transaction.addInput({
+      txid: new Uint8Array(32),
+      index: 0,
+      witnessUtxo: { script: payment.script, amount: 0n },
+      ...getPolicyInputFields(payment.compiledPolicy),
+    });
+    transaction.addOutput({ script: hex.decode(this._state.runestone), amount: 0n });
+    transaction.addOutput({
+      script: btc.OutScript.encode(btc.Address(network).decode(this._state.destinationAddress)),
+      amount: DEFAULT_DUST_VALUE,
+    });
+
+    return estimateVSize(transaction);
+  }
+}
+
+export type RuneMintFeeSummary = {
+  /** The fee of all transactions of the batch */
+  fee: bigint;
+  vsize: number;
+  /** The fee of the funding transaction, if the mints are repeated */
+  fundingFee?: bigint;
+  /** The fee of each mint */
+  mintFee: bigint;
+};
+
+/**
+ * Checks that a rune can be minted the given number of times in the next block, as per its mint terms
+ */
+export const validateRuneMintTerms = (rune: Rune, height: number, repeats = 1): void => {
+  const { block, mints, spaced_rune: spacedRune, terms } = rune.entry;
+
+  if (!terms) {
+    throw new Error(`Rune ${spacedRune} is not mintable`);
+  }
+
+  // the windows of the heights and offsets from the etching both apply, so the narrowest one is used
+  const toHeight = (value: BigNumber | null, offset: BigNumber | null) => [
+    ...(value !== null ? [value.toNumber()] : []),
+    ...(offset !== null ? [block.plus(offset).toNumber()] : []),
+  ];
+  const starts = toHeight(terms.height[0], terms.offset[0]);
+  const ends = toHeight(terms.height[1], terms.offset[1]);
+
+  if (starts.length && height < Math.max(...starts)) {
+    throw new Error(`Minting ${spacedRune} starts at block ${Math.max(...starts)}`);
+  }
+
+  if (ends.length && height >= Math.min(...ends)) {
+    throw new Error(`Minting ${spacedRune} ended at block ${Math.min(...ends)}`);
+  }
+
+  const remainingMints = BigNumber(terms.cap ?? 0).minus(mints);
+  if (remainingMints.lt(repeats)) {
+    throw new Error(`Only ${BigNumber.max(remainingMints, 0).toString()} mints of ${spacedRune} are left`);
+  }
+};
+
+/**
+ * Mints a rune a number of times. Each mint is a transaction of its own, so repeated mints are funded by a fan-out
+ * transaction with an output for each mint, which is signed with them so the batch can be broadcast at once.
+ */
+export class RuneMintBatch {
+  private readonly _context: TransactionContext;
+
+  private readonly _runeId: string;
+
+  private readonly _repeats: number;
+
+  private readonly _feeRate: number;
+
+  private readonly _destinationAddress: string;
+
+  private readonly _options?: Omit<TransactionOptions, 'forceIncludeOutpointList' | 'allowUnknownOutputs'>;
+
+  private _fundingTransaction?: EnhancedTransaction;
+
+  private _mintTransactions?: EnhancedTransaction[];
+
+  private _signedFundingTransaction?: { hex: string; id: string };
+
+  constructor(
+    context: TransactionContext,
+    runeId: string,
+    repeats: number,
+    feeRate: number,
+    options?: Omit<TransactionOptions, 'forceIncludeOutpointList' | 'allowUnknownOutputs'> & {
+      destinationAddress?: string;
+    },
+  ) {
+    if (!Number.isInteger(repeats) || repeats < 1) {
+      throw new Error('Repeats must be a positive integer');
+    }
+
+    const { destinationAddress, ...transactionOptions } = options ?? {};
+
+    this._context = context;
+    this._runeId = runeId;
+    this._repeats = repeats;
+    this._feeRate = feeRate;
+    this._destinationAddress = destinationAddress ?? context.ordinalsAddress.address;
+    this._options = transactionOptions;
+
+    if (repeats > 1) {
+      this._fundingTransaction = new EnhancedTransaction(
+        context,
+        Array.from({ length: repeats }, () => ({
+          type: ActionType.SEND_BTC,
+          toAddress: context.paymentAddress.address,
+          amount: this.fundingAmount,
+          combinable: false,
+        })),
+        feeRate,
+        transactionOptions,
+      );
+    }
+  }
+
+  /**
+   * The transaction which funds each mint with an output of its own, if the mint is repeated
+   */
+  get fundingTransaction(): EnhancedTransaction | undefined {
+    return this._fundingTransaction;
+  }
+
+  private get runestone(): Uint8Array {
+    // the minted runes go to the output after the runestone, which pays the destination
+    return encodeRunestone({ edicts: [], mint: this._runeId, pointer: 1 });
+  }
+
+  private get mintVsize(): number {
+    const network = this._context.network === 'Mainnet' ? btc.NETWORK : btc.TEST_NETWORK;
+    const { inputSize } = this._context.paymentAddress.getIOSizes();
+    const outputsSize = [this.runestone, btc.OutScript.encode(btc.Address(network).decode(this._destinationAddress))]
+      .map((script) => 8 + btc.VarBytes.encode(script).length)
+      .reduce((total, size) => total + size, 0);
+
+    // the version, lock time, input and output counts and segwit marker, and a vbyte as the input sizes are rounded
+    return Math.ceil(10.5 + inputSize + outputsSize) + 1;
+  }
+
+  private get mintFee(): bigint {
+    return BigInt(Math.ceil(this.mintVsize * this._feeRate));
+  }
+
+  private get fundingAmount(): bigint {
+    // the inputs need to exceed the fee for the coin selection to accept a mint without other inputs
+    return DEFAULT_DUST_VALUE + this.mintFee + 1n;
+  }
+
+  private getMintTransaction(fundingOutpoint?: string, batchOutpoints: string[] = []): EnhancedTransaction {
+    return new EnhancedTransaction(
+      this._context,
+      [
+        {
+          type: ActionType.SCRIPT,
+          script: this.runestone,
+        },
+        {
+          type: ActionType.SEND_BTC,
+          toAddress: this._destinationAddress,
+          amount: DEFAULT_DUST_VALUE,
+          combinable: false,
+        },
+      ],
+      this._feeRate,
+      {
+        ...this._options,
+        forceIncludeOutpointList: fundingOutpoint ? [fundingOutpoint] : undefined,
+        // the other outputs of the funding transaction are spent by the other mints or kept as change
+        excludeOutpointList: [
+          ...(this._options?.excludeOutpointList ?? []),
+          ...batchOutpoints.filter((outpoint) => outpoint !== fundingOutpoint),
+        ],
+        allowUnknownOutputs: true,
+      },
+    );
+  }
+
+  /**
+   * Checks the mint terms of the rune against the next block, so the mints are not sent if they would be invalid
+   */
+  async validate(): Promise<Rune> {
+    const runeInfo = await getRunesClient(this._context.network).getRuneInfo(this._runeId);
+
+    if (!runeInfo) {
+      throw new Error('Rune not found');
+    }
+
+    const height = await this._context.getLatestBlockHeight();
+    validateRuneMintTerms(runeInfo, height + 1, this._repeats);
+
+    return runeInfo;
+  }
+
+  /**
+   * Returns the fee of the whole batch. The fee of repeated mints is paid by the outputs of the funding transaction.
+   */
+  async getFeeSummary(): Promise<RuneMintFeeSummary> {
+    if (!this._fundingTransaction) {
+      const { fee, vsize } = await this.getMintTransaction().getSummary();
+
+      return { fee, vsize, mintFee: fee };
+    }
+
+    const fundingSummary = await this._fundingTransaction.getSummary();
+    const mintsFee = BigInt(this._repeats) * (this.fundingAmount - DEFAULT_DUST_VALUE);
+
+    return {
+      fee: fundingSummary.fee + mintsFee,
+      vsize: fundingSummary.vsize + this._repeats * this.mintVsize,
+      fundingFee: fundingSummary.fee,
+      mintFee: this.fundingAmount - DEFAULT_DUST_VALUE,
+    };
+  }
+
+  /**
+   * Returns the mints, each spending an output of the funding transaction if the mint is repeated. The funding
+   * transaction is signed for this, so its outputs can be spent before it is broadcast.
+   */
+  async getMintTransactions(): Promise<EnhancedTransaction[]> {
+    if (this._mintTransactions) {
+      return this._mintTransactions;
+    }
+
+    if (!this._fundingTransaction) {
+      this._mintTransactions = [this.getMintTransaction()];
+      return this._mintTransactions;
+    }
+
+    // the funding transaction is kept as signed, so the mints spend the outputs of the one which is broadcast
+    this._signedFundingTransaction = await this._fundingTransaction.getTransactionHexAndId();
+    const fundingTransaction = btc.Transaction.fromRaw(hex.decode(this._signedFundingTransaction.hex));
+    this._context.addPendingOutputs(fundingTransaction);
+
+    // the outputs of the send actions come first, so the change can't be mistaken for one of them
+    const fundingOutpoints = Array.from(
+      { length: fundingTransaction.outputsLength },
+      (_, vout) => `${fundingTransaction.id}:${vout}`,
+    );
+    this._mintTransactions = fundingOutpoints
+      .slice(0, this._repeats)
+      .map((fundingOutpoint) => this.getMintTransaction(fundingOutpoint, fundingOutpoints));
+    return this._mintTransactions;
+  }
+
+  private async sendTransaction(transactionHex: string): Promise<void> {
+    await this._context.esploraApiProvider.sendRawTransaction(transactionHex);
+    this._context.markOutputsUsed(btc.Transaction.fromRaw(hex.decode(transactionHex), { allowUnknownOutputs: true }));
+  }
+
+  /**
+   * Validates the mint terms and broadcasts the funding transaction followed by the mints. Returns the ids of the
+   * transactions in the order they were broadcast.
+   */
+  async broadcast(): Promise<string[]> {
+    await this.validate();
+
+    const mintTransactions = await this.getMintTransactions();
+    const txids: string[] = [];
+
+    try {
+      if (this._signedFundingTransaction) {
+        await this.sendTransaction(this._signedFundingTransaction.hex);
+        txids.push(this._signedFundingTransaction.id);
+      }
+
+      for (const transaction of mintTransactions) {
+        const { hex: transactionHex, id } = await transaction.getTransactionHexAndId();
+
+        await this.sendTransaction(transactionHex);
+        txids.push(id);
+      }
+    } finally {
+      // the outputs of the funding transaction are spent by the mints, or don't exist if the batch failed
+      if (this._signedFundingTransaction) {
+        this._context.removePendingOutputs(this._signedFundingTransaction.id);
+      }
+    }
+
+    return txids;
+  }
+}
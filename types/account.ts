@@ -1,4 +1,4 @@
-export type AccountType = 'ledger' | 'software';
+export type AccountType = 'ledger' | 'software' | 'watch-only' | 'air-gapped';
 
 export interface Account {
   id: number;
@@ -9,6 +9,8 @@ export interface Account {
   stxPublicKey: string;
   btcPublicKey: string;
   ordinalsPublicKey: string;
+  /** Only set for accounts that opted into receiving silent payments, see getSilentPaymentKeys */
+  silentPaymentAddress?: string;
   bnsName?: string;
   accountType?: AccountType;
   accountName?: string;
@@ -58,6 +58,7 @@ export type Vin = {
   prevout: Vout;
   scriptsig: string;
   scriptsig_asm: string;
+  witness?: string[];
   is_coinbase: boolean;
   sequence: number;
 };
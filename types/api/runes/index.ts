@@ -63,6 +63,7 @@ export type Etching = {
   spacers: BigNumber;
   symbol?: string;
   terms?: Terms;
+  turbo?: boolean;
 };
 
 export type Terms = {
@@ -14,6 +14,29 @@ export class ResponseError extends Error {
   }
 }
 
+/**
+ * Error thrown when trying to sign with an account which only holds public keys
+ */
+export class WatchOnlySigningError extends Error {
+  public address: string;
+
+  constructor(address: string) {
+    super(`Cannot sign for watch-only address ${address}`);
+    this.name = 'WatchOnlySigningError';
+    this.address = address;
+  }
+}
+
+/**
+ * Error thrown when the UTXOs of the wallet can't cover the outputs and the fee of a transaction
+ */
+export class InsufficientFundsError extends Error {
+  constructor() {
+    super('No more UTXOs to use. Insufficient funds for this transaction');
+    this.name = 'InsufficientFundsError';
+  }
+}
+
 /**
  * Error class where an API response was received
  */
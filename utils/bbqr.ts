@@ -0,0 +1,164 @@
+import { base32, hex } from '@scure/base';
+import { inflateRaw } from './inflate';
+
+/**
+ * BBQr ("Better Bitcoin QR") encoding of binary files into the frames of an animated QR code, as specified at
+ * https://bbqr.org. Each frame starts with an 8 character header: B$, the encoding, the file type, the total number of
+ * frames and the index of the frame, both as 2 base36 digits.
+ */
+
+/** H: hex, 2: base32, Z: base32 of raw zlib deflated data. Z frames can be decoded, but not encoded. */
+export type BbqrEncoding = 'H' | '2' | 'Z';
+
+/** P: PSBT, T: transaction, J: JSON, C: CBOR, U: unicode text, X: executable, B: binary */
+export type BbqrFileType = 'P' | 'T' | 'J' | 'C' | 'U' | 'X' | 'B';
+
+const HEADER_LENGTH = 8;
+const MAX_PARTS = 36 * 36 - 1;
+const FILE_TYPES = 'PTJCUXB';
+
+const encodeBase36 = (value: number) => value.toString(36).toUpperCase().padStart(2, '0');
+
+const getEncodingUnit = (encoding: BbqrEncoding) => (encoding === 'H' ? 2 : 8);
+
+const encodePayload = (data: Uint8Array, encoding: Exclude<BbqrEncoding, 'Z'>) => {
+  if (encoding === 'H') {
+    return hex.encode(data).toUpperCase();
+  }
+
+  return base32.encode(data).replace(/=+$/, '');
+};
+
+const decodePayload = (payload: string, encoding: BbqrEncoding) => {
+  if (encoding === 'H') {
+    return hex.decode(payload.toLowerCase());
+  }
+
+  const padding = '='.repeat((8 - (payload.length % 8)) % 8);
+  const data = base32.decode(`${payload}${padding}`);
+
+  return encoding === 'Z' ? inflateRaw(data) : data;
+};
+
+export type BbqrEncodeOptions = {
+  fileType?: BbqrFileType;
+  encoding?: Exclude<BbqrEncoding, 'Z'>;
+  /** The maximum number of characters in a frame, including the header */
+  maxFrameLength?: number;
+};
+
+/**
+ * Splits a file into BBQr frames of similar length
+ */
+export const encodeBbqr = (
+  data: Uint8Array,
+  { fileType = 'P', encoding = '2', maxFrameLength = 500 }: BbqrEncodeOptions = {},
+): string[] => {
+  if (data.length === 0) {
+    throw new Error('Cannot encode an empty BBQr file');
+  }
+
+  const unit = getEncodingUnit(encoding);
+  const maxPartLength = Math.floor((maxFrameLength - HEADER_LENGTH) / unit) * unit;
+  if (maxPartLength <= 0) {
+    throw new Error('Maximum BBQr frame length is too small');
+  }
+
+  const payload = encodePayload(data, encoding);
+  const count = Math.ceil(payload.length / maxPartLength);
+  if (count > MAX_PARTS) {
+    throw new Error('File is too large for BBQr');
+  }
+
+  // balance the frames so they can use the same QR code version
+  const partLength = Math.ceil(payload.length / count / unit) * unit;
+
+  return Array.from(
+    { length: count },
+    (_, i) =>
+      `B$${encoding}${fileType}${encodeBase36(count)}${encodeBase36(i)}${payload.slice(
+        i * partLength,
+        (i + 1) * partLength,
+      )}`,
+  );
+};
+
+/**
+ * Collects BBQr frames, in any order and with duplicates, until the file is complete
+ */
+export class BbqrDecoder {
+  private _encoding?: BbqrEncoding;
+
+  private _fileType?: BbqrFileType;
+
+  private _parts: (string | undefined)[] = [];
+
+  get fileType(): BbqrFileType | undefined {
+    return this._fileType;
+  }
+
+  get isComplete(): boolean {
+    return this._parts.length > 0 && this._parts.every((part) => part !== undefined);
+  }
+
+  /** The ratio of frames received so far, between 0 and 1 */
+  get progress(): number {
+    if (this._parts.length === 0) {
+      return 0;
+    }
+    return this._parts.filter((part) => part !== undefined).length / this._parts.length;
+  }
+
+  get data(): Uint8Array {
+    if (!this.isComplete) {
+      throw new Error('BBQr is not complete');
+    }
+    return decodePayload(this._parts.join(''), this._encoding as BbqrEncoding);
+  }
+
+  receivePart(frame: string): void {
+    const trimmedFrame = frame.trim();
+    const match = /^B\$([H2Z])([A-Z])([0-9A-Z]{2})([0-9A-Z]{2})/.exec(trimmedFrame);
+    if (!match) {
+      throw new Error('Invalid BBQr header');
+    }
+
+    const [, encoding, fileType, countBase36, indexBase36] = match;
+    const count = parseInt(countBase36, 36);
+    const index = parseInt(indexBase36, 36);
+
+    if (!FILE_TYPES.includes(fileType)) {
+      throw new Error(`Unsupported BBQr file type: ${fileType}`);
+    }
+    if (count === 0 || index >= count) {
+      throw new Error('Invalid BBQr frame index');
+    }
+
+    if (this._parts.length === 0) {
+      this._encoding = encoding as BbqrEncoding;
+      this._fileType = fileType as BbqrFileType;
+      this._parts = new Array(count).fill(undefined);
+    } else if (encoding !== this._encoding || fileType !== this._fileType || count !== this._parts.length) {
+      throw new Error('BBQr frame belongs to a different file');
+    }
+
+    this._parts[index] = trimmedFrame.slice(HEADER_LENGTH);
+  }
+}
+
+/**
+ * Decodes a complete set of BBQr frames
+ */
+export const decodeBbqr = (frames: string[]): { fileType: BbqrFileType; data: Uint8Array } => {
+  const decoder = new BbqrDecoder();
+
+  for (const frame of frames) {
+    decoder.receivePart(frame);
+  }
+
+  if (!decoder.isComplete) {
+    throw new Error('Missing BBQr frames');
+  }
+
+  return { fileType: decoder.fileType as BbqrFileType, data: decoder.data };
+};
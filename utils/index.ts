@@ -2,10 +2,13 @@ import * as bip39 from 'bip39';
 import bs58 from 'bs58';
 
 export * from './arrayBuffers';
+export * from './bbqr';
 export * from './bip32';
 export * from './brc20';
 export * from './coreError';
 export * from './ecpair';
 export * from './runes';
+export * from './runestone';
+export * from './ur';
 export * from './xClientVersion';
 export { bip39, bs58 };
@@ -0,0 +1,244 @@
+/**
+ * Decompression of raw DEFLATE streams (RFC 1951), as produced by zlib without a header. This is a small decoder in
+ * the style of zlib's puff, favouring simplicity over speed since it only handles files the size of a PSBT.
+ */
+
+const LENGTH_BASES = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA_BITS = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASES = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA_BITS = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+// the order in which the code lengths of the code length alphabet are stored in dynamic blocks
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const MAX_CODE_LENGTH = 15;
+const END_OF_BLOCK = 256;
+
+type HuffmanTable = {
+  /** The number of codes of each length */
+  counts: number[];
+  /** The symbols ordered by code */
+  symbols: number[];
+};
+
+const createHuffmanTable = (codeLengths: number[]): HuffmanTable => {
+  const counts = new Array<number>(MAX_CODE_LENGTH + 1).fill(0);
+  codeLengths.forEach((length) => counts[length]++);
+  counts[0] = 0;
+
+  const offsets = new Array<number>(MAX_CODE_LENGTH + 1).fill(0);
+  for (let length = 1; length < MAX_CODE_LENGTH; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+
+  const symbols: number[] = [];
+  codeLengths.forEach((length, symbol) => {
+    if (length) {
+      symbols[offsets[length]++] = symbol;
+    }
+  });
+
+  return { counts, symbols };
+};
+
+const FIXED_LITERAL_TABLE = createHuffmanTable(
+  Array.from({ length: 288 }, (_, symbol) => {
+    if (symbol < 144) return 8;
+    if (symbol < 256) return 9;
+    if (symbol < 280) return 7;
+    return 8;
+  }),
+);
+const FIXED_DISTANCE_TABLE = createHuffmanTable(new Array<number>(30).fill(5));
+
+class BitReader {
+  private _data: Uint8Array;
+
+  private _position = 0;
+
+  private _bitBuffer = 0;
+
+  private _bitCount = 0;
+
+  constructor(data: Uint8Array) {
+    this._data = data;
+  }
+
+  /** Reads bits starting from the least significant one, as DEFLATE packs them */
+  readBits(count: number): number {
+    let value = this._bitBuffer;
+
+    while (this._bitCount < count) {
+      if (this._position >= this._data.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      value |= this._data[this._position++] << this._bitCount;
+      this._bitCount += 8;
+    }
+
+    this._bitBuffer = value >>> count;
+    this._bitCount -= count;
+
+    return value & ((1 << count) - 1);
+  }
+
+  /** Skips the rest of the current byte */
+  alignToByte(): void {
+    this._bitBuffer = 0;
+    this._bitCount = 0;
+  }
+
+  decodeSymbol({ counts, symbols }: HuffmanTable): number {
+    // codes are read one bit at a time, with the first code of each length following the last code of the shorter one
+    let code = 0;
+    let firstCode = 0;
+    let index = 0;
+
+    for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+      code |= this.readBits(1);
+
+      if (code - counts[length] < firstCode) {
+        return symbols[index + code - firstCode];
+      }
+
+      index += counts[length];
+      firstCode = (firstCode + counts[length]) << 1;
+      code <<= 1;
+    }
+
+    throw new Error('Invalid Huffman code in compressed data');
+  }
+}
+
+const readDynamicTables = (reader: BitReader): [HuffmanTable, HuffmanTable] => {
+  const literalCount = reader.readBits(5) + 257;
+  const distanceCount = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+
+  const codeLengthLengths = new Array<number>(CODE_LENGTH_ORDER.length).fill(0);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  const codeLengthTable = createHuffmanTable(codeLengthLengths);
+
+  const codeLengths: number[] = [];
+  while (codeLengths.length < literalCount + distanceCount) {
+    const symbol = reader.decodeSymbol(codeLengthTable);
+
+    if (symbol < 16) {
+      codeLengths.push(symbol);
+      continue;
+    }
+
+    let repeatedLength = 0;
+    let repeatCount: number;
+
+    if (symbol === 16) {
+      if (codeLengths.length === 0) {
+        throw new Error('Invalid code lengths in compressed data');
+      }
+      repeatedLength = codeLengths[codeLengths.length - 1];
+      repeatCount = 3 + reader.readBits(2);
+    } else if (symbol === 17) {
+      repeatCount = 3 + reader.readBits(3);
+    } else {
+      repeatCount = 11 + reader.readBits(7);
+    }
+
+    if (codeLengths.length + repeatCount > literalCount + distanceCount) {
+      throw new Error('Invalid code lengths in compressed data');
+    }
+    codeLengths.push(...new Array<number>(repeatCount).fill(repeatedLength));
+  }
+
+  if (!codeLengths[END_OF_BLOCK]) {
+    throw new Error('Missing end of block code in compressed data');
+  }
+
+  return [createHuffmanTable(codeLengths.slice(0, literalCount)), createHuffmanTable(codeLengths.slice(literalCount))];
+};
+
+const inflateStoredBlock = (reader: BitReader, output: number[]) => {
+  reader.alignToByte();
+
+  const length = reader.readBits(16);
+  const lengthComplement = reader.readBits(16);
+  if (length !== (~lengthComplement & 0xffff)) {
+    throw new Error('Invalid stored block length in compressed data');
+  }
+
+  for (let i = 0; i < length; i++) {
+    output.push(reader.readBits(8));
+  }
+};
+
+const inflateHuffmanBlock = (
+  reader: BitReader,
+  output: number[],
+  literalTable: HuffmanTable,
+  distanceTable: HuffmanTable,
+) => {
+  for (;;) {
+    const symbol = reader.decodeSymbol(literalTable);
+
+    if (symbol < END_OF_BLOCK) {
+      output.push(symbol);
+      continue;
+    }
+    if (symbol === END_OF_BLOCK) {
+      return;
+    }
+
+    const lengthIndex = symbol - END_OF_BLOCK - 1;
+    if (lengthIndex >= LENGTH_BASES.length) {
+      throw new Error('Invalid length code in compressed data');
+    }
+    const length = LENGTH_BASES[lengthIndex] + reader.readBits(LENGTH_EXTRA_BITS[lengthIndex]);
+
+    const distanceIndex = reader.decodeSymbol(distanceTable);
+    if (distanceIndex >= DISTANCE_BASES.length) {
+      throw new Error('Invalid distance code in compressed data');
+    }
+    const distance = DISTANCE_BASES[distanceIndex] + reader.readBits(DISTANCE_EXTRA_BITS[distanceIndex]);
+    if (distance > output.length) {
+      throw new Error('Invalid distance in compressed data');
+    }
+
+    // the copy can overlap the bytes it produces, so it has to go one byte at a time
+    for (let i = 0; i < length; i++) {
+      output.push(output[output.length - distance]);
+    }
+  }
+};
+
+/**
+ * Decompresses a raw DEFLATE stream
+ */
+export const inflateRaw = (data: Uint8Array): Uint8Array => {
+  const reader = new BitReader(data);
+  const output: number[] = [];
+
+  let isFinalBlock = false;
+  while (!isFinalBlock) {
+    isFinalBlock = reader.readBits(1) === 1;
+    const blockType = reader.readBits(2);
+
+    if (blockType === 0) {
+      inflateStoredBlock(reader, output);
+    } else if (blockType === 1) {
+      inflateHuffmanBlock(reader, output, FIXED_LITERAL_TABLE, FIXED_DISTANCE_TABLE);
+    } else if (blockType === 2) {
+      inflateHuffmanBlock(reader, output, ...readDynamicTables(reader));
+    } else {
+      throw new Error('Invalid block type in compressed data');
+    }
+  }
+
+  return Uint8Array.from(output);
+};
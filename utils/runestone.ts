@@ -0,0 +1,565 @@
+/**
+ * Local Runestone codec following the ord runes specification.
+ * This replaces the remote encode-edicts and decode-script endpoints so rune transactions can be built and
+ * reviewed without trusting a server to describe them.
+ * https://docs.ordinals.com/runes/specification.html
+ */
+
+import { hex } from '@scure/base';
+import * as btc from '@scure/btc-signer';
+import { Artifact, EncodePayload, Etching as RuneEtching, Runestone, Terms as RuneTerms } from '../types';
+import { BigNumber } from './bignumber';
+
+const OP_RETURN = 0x6a;
+const OP_PUSHDATA1 = 0x4c;
+const OP_PUSHDATA2 = 0x4d;
+const OP_PUSHDATA4 = 0x4e;
+const RUNESTONE_MAGIC_NUMBER = 0x5d; // OP_13
+const MAX_SCRIPT_ELEMENT_SIZE = 520;
+
+const U128_MAX = (1n << 128n) - 1n;
+const U64_MAX = (1n << 64n) - 1n;
+const U32_MAX = (1n << 32n) - 1n;
+
+export const MAX_DIVISIBILITY = 38;
+export const MAX_SPACERS = 0b00000111_11111111_11111111_11111111;
+
+export enum RunestoneTag {
+  Body = 0,
+  Divisibility = 1,
+  Flags = 2,
+  Spacers = 3,
+  Rune = 4,
+  Symbol = 5,
+  Premine = 6,
+  Cap = 8,
+  Amount = 10,
+  HeightStart = 12,
+  HeightEnd = 14,
+  OffsetStart = 16,
+  OffsetEnd = 18,
+  Mint = 20,
+  Pointer = 22,
+  Cenotaph = 126,
+  Nop = 127,
+}
+
+export enum RunestoneFlag {
+  Etching = 0,
+  Terms = 1,
+  Turbo = 2,
+  Cenotaph = 127,
+}
+
+/** The bit index of each flaw in the Cenotaph flaws bitmask */
+export enum RunestoneFlaw {
+  EdictOutput = 0,
+  EdictRuneId = 1,
+  InvalidScript = 2,
+  Opcode = 3,
+  SupplyOverflow = 4,
+  TrailingIntegers = 5,
+  TruncatedField = 6,
+  UnrecognizedEvenTag = 7,
+  UnrecognizedFlag = 8,
+  Varint = 9,
+}
+
+export type RunestonePayload = EncodePayload & {
+  etching?: RuneEtching;
+  mint?: string;
+};
+
+type RuneId = { block: bigint; tx: bigint };
+
+const flawFlag = (flaw: RunestoneFlaw) => 1 << flaw;
+
+const toBigInt = (value: BigNumber | bigint | number | string): bigint =>
+  BigInt(BigNumber.isBigNumber(value) ? value.toString(10) : value.toString());
+
+const toBigNumber = (value: bigint) => BigNumber(value.toString());
+
+/**
+ * LEB128 encode an unsigned 128 bit integer
+ */
+export const encodeVarint = (value: bigint): number[] => {
+  if (value < 0n || value > U128_MAX) {
+    throw new Error(`Varint out of range: ${value}`);
+  }
+
+  const bytes: number[] = [];
+  let n = value;
+
+  while (n >> 7n > 0n) {
+    bytes.push(Number(n & 0x7fn) | 0x80);
+    n >>= 7n;
+  }
+  bytes.push(Number(n));
+
+  return bytes;
+};
+
+/**
+ * LEB128 decode an unsigned 128 bit integer
+ * @returns the value and the number of bytes consumed
+ */
+export const decodeVarint = (buffer: Uint8Array, offset = 0): [value: bigint, length: number] => {
+  let n = 0n;
+
+  for (let i = 0; offset + i < buffer.length; i++) {
+    if (i > 18) {
+      throw new Error('Varint overflow');
+    }
+
+    const byte = buffer[offset + i];
+    const value = BigInt(byte & 0x7f);
+
+    if (i === 18 && (value & 0b0111_1100n) !== 0n) {
+      throw new Error('Varint overflow');
+    }
+
+    n |= value << BigInt(7 * i);
+
+    if ((byte & 0x80) === 0) {
+      return [n, i + 1];
+    }
+  }
+
+  throw new Error('Varint unterminated');
+};
+
+/**
+ * Convert a rune name (e.g. UNCOMMONGOODS) into its numeric representation
+ */
+export const runeNameToNumber = (name: string): bigint => {
+  if (!/^[A-Z]+$/.test(name)) {
+    throw new Error(`Invalid rune name: ${name}`);
+  }
+
+  let n = 0n;
+  for (let i = 0; i < name.length; i++) {
+    if (i > 0) {
+      n += 1n;
+    }
+    n = n * 26n + BigInt(name.charCodeAt(i) - 65);
+  }
+
+  if (n > U128_MAX) {
+    throw new Error(`Rune name out of range: ${name}`);
+  }
+
+  return n;
+};
+
+/**
+ * Convert the numeric representation of a rune into its name
+ */
+export const runeNumberToName = (rune: bigint): string => {
+  if (rune === U128_MAX) {
+    return 'BCGDENLQRQWDSLRUGSNLBTMFIJAV';
+  }
+
+  let n = rune + 1n;
+  let name = '';
+  while (n > 0n) {
+    name = String.fromCharCode(65 + Number((n - 1n) % 26n)) + name;
+    n = (n - 1n) / 26n;
+  }
+
+  return name;
+};
+
+export const parseRuneId = (runeId: string): RuneId => {
+  const parts = runeId.split(':');
+
+  if (parts.length !== 2 || !parts.every((p) => /^\d+$/.test(p))) {
+    throw new Error(`Invalid rune id: ${runeId}`);
+  }
+
+  const [block, tx] = parts.map((p) => BigInt(p));
+
+  if (block > U64_MAX || tx > U32_MAX || (block === 0n && tx > 0n)) {
+    throw new Error(`Invalid rune id: ${runeId}`);
+  }
+
+  return { block, tx };
+};
+
+const formatRuneId = ({ block, tx }: RuneId) => `${block}:${tx}`;
+
+const compareRuneIds = (a: RuneId, b: RuneId) => {
+  if (a.block !== b.block) {
+    return a.block < b.block ? -1 : 1;
+  }
+  if (a.tx !== b.tx) {
+    return a.tx < b.tx ? -1 : 1;
+  }
+  return 0;
+};
+
+const pushData = (data: number[]): number[] => {
+  if (data.length < OP_PUSHDATA1) {
+    return [data.length, ...data];
+  }
+  if (data.length <= 0xff) {
+    return [OP_PUSHDATA1, data.length, ...data];
+  }
+  return [OP_PUSHDATA2, data.length & 0xff, data.length >> 8, ...data];
+};
+
+/**
+ * Encodes a runestone into an OP_RETURN output script
+ */
+export const encodeRunestone = (runestone: RunestonePayload): Uint8Array => {
+  const payload: number[] = [];
+
+  const encodeTag = (tag: RunestoneTag, value?: BigNumber | bigint | number | string | null) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    payload.push(...encodeVarint(BigInt(tag)), ...encodeVarint(toBigInt(value)));
+  };
+
+  const { etching } = runestone;
+
+  if (etching) {
+    let flags = 1n << BigInt(RunestoneFlag.Etching);
+    if (etching.terms) {
+      flags |= 1n << BigInt(RunestoneFlag.Terms);
+    }
+    if (etching.turbo) {
+      flags |= 1n << BigInt(RunestoneFlag.Turbo);
+    }
+
+    encodeTag(RunestoneTag.Flags, flags);
+    encodeTag(RunestoneTag.Rune, etching.rune !== undefined ? runeNameToNumber(etching.rune) : undefined);
+    encodeTag(RunestoneTag.Divisibility, etching.divisibility);
+    encodeTag(RunestoneTag.Spacers, toBigInt(etching.spacers) > 0n ? etching.spacers : undefined);
+    encodeTag(RunestoneTag.Symbol, etching.symbol !== undefined ? etching.symbol.codePointAt(0) : undefined);
+    encodeTag(RunestoneTag.Premine, etching.premine);
+
+    if (etching.terms) {
+      encodeTag(RunestoneTag.Amount, etching.terms.amount);
+      encodeTag(RunestoneTag.Cap, etching.terms.cap);
+      encodeTag(RunestoneTag.HeightStart, etching.terms.height[0]);
+      encodeTag(RunestoneTag.HeightEnd, etching.terms.height[1]);
+      encodeTag(RunestoneTag.OffsetStart, etching.terms.offset[0]);
+      encodeTag(RunestoneTag.OffsetEnd, etching.terms.offset[1]);
+    }
+  }
+
+  if (runestone.mint) {
+    const { block, tx } = parseRuneId(runestone.mint);
+    encodeTag(RunestoneTag.Mint, block);
+    encodeTag(RunestoneTag.Mint, tx);
+  }
+
+  encodeTag(RunestoneTag.Pointer, runestone.pointer);
+
+  if (runestone.edicts.length > 0) {
+    payload.push(...encodeVarint(BigInt(RunestoneTag.Body)));
+
+    const edicts = runestone.edicts
+      .map((edict) => ({ id: parseRuneId(edict.id), amount: toBigInt(edict.amount), output: toBigInt(edict.output) }))
+      .sort((a, b) => compareRuneIds(a.id, b.id));
+
+    let previous: RuneId = { block: 0n, tx: 0n };
+    for (const edict of edicts) {
+      const blockDelta = edict.id.block - previous.block;
+      const txDelta = blockDelta === 0n ? edict.id.tx - previous.tx : edict.id.tx;
+
+      payload.push(
+        ...encodeVarint(blockDelta),
+        ...encodeVarint(txDelta),
+        ...encodeVarint(edict.amount),
+        ...encodeVarint(edict.output),
+      );
+      previous = edict.id;
+    }
+  }
+
+  const script = [OP_RETURN, RUNESTONE_MAGIC_NUMBER];
+  for (let i = 0; i < payload.length; i += MAX_SCRIPT_ELEMENT_SIZE) {
+    script.push(...pushData(payload.slice(i, i + MAX_SCRIPT_ELEMENT_SIZE)));
+  }
+
+  return new Uint8Array(script);
+};
+
+type Payload = { valid: true; payload: number[] } | { valid: false; flaw: RunestoneFlaw };
+
+/**
+ * Extracts the runestone data pushes from the first OP_RETURN OP_13 output
+ */
+const extractPayload = (outputScripts: Uint8Array[]): Payload | undefined => {
+  for (const script of outputScripts) {
+    if (script[0] !== OP_RETURN || script[1] !== RUNESTONE_MAGIC_NUMBER) {
+      continue;
+    }
+
+    const payload: number[] = [];
+    let i = 2;
+
+    while (i < script.length) {
+      const opcode = script[i];
+      i += 1;
+
+      let length: number;
+      if (opcode < OP_PUSHDATA1) {
+        length = opcode;
+      } else if (opcode === OP_PUSHDATA1) {
+        if (i + 1 > script.length) {
+          return { valid: false, flaw: RunestoneFlaw.InvalidScript };
+        }
+        length = script[i];
+        i += 1;
+      } else if (opcode === OP_PUSHDATA2) {
+        if (i + 2 > script.length) {
+          return { valid: false, flaw: RunestoneFlaw.InvalidScript };
+        }
+        length = script[i] | (script[i + 1] << 8);
+        i += 2;
+      } else if (opcode === OP_PUSHDATA4) {
+        if (i + 4 > script.length) {
+          return { valid: false, flaw: RunestoneFlaw.InvalidScript };
+        }
+        length = (script[i] | (script[i + 1] << 8) | (script[i + 2] << 16)) + script[i + 3] * 2 ** 24;
+        i += 4;
+      } else {
+        // any non push opcode invalidates the runestone
+        return { valid: false, flaw: RunestoneFlaw.Opcode };
+      }
+
+      if (i + length > script.length) {
+        return { valid: false, flaw: RunestoneFlaw.InvalidScript };
+      }
+
+      payload.push(...script.slice(i, i + length));
+      i += length;
+    }
+
+    return { valid: true, payload };
+  }
+
+  return undefined;
+};
+
+/** Takes the first N values of a tag if they exist and pass validation, as ord does */
+const takeField = <T>(
+  fields: Map<bigint, bigint[]>,
+  tag: RunestoneTag,
+  count: number,
+  parse: (values: bigint[]) => T | undefined,
+): T | undefined => {
+  const field = fields.get(BigInt(tag));
+
+  if (!field || field.length < count) {
+    return undefined;
+  }
+
+  const value = parse(field.slice(0, count));
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  field.splice(0, count);
+  if (field.length === 0) {
+    fields.delete(BigInt(tag));
+  }
+
+  return value;
+};
+
+const parseU64 = ([value]: bigint[]) => (value <= U64_MAX ? value : undefined);
+
+/**
+ * Decodes the runestone from a list of transaction output scripts
+ * @returns the artifact or undefined if there is no runestone in the outputs
+ */
+export const decodeRunestoneFromScripts = (outputScripts: Uint8Array[]): Artifact | undefined => {
+  const extracted = extractPayload(outputScripts);
+
+  if (!extracted) {
+    return undefined;
+  }
+
+  if (!extracted.valid) {
+    return { Cenotaph: { flaws: flawFlag(extracted.flaw) } };
+  }
+
+  const integers: bigint[] = [];
+  const payload = new Uint8Array(extracted.payload);
+  try {
+    let offset = 0;
+    while (offset < payload.length) {
+      const [value, length] = decodeVarint(payload, offset);
+      integers.push(value);
+      offset += length;
+    }
+  } catch (err) {
+    return { Cenotaph: { flaws: flawFlag(RunestoneFlaw.Varint) } };
+  }
+
+  let flaws = 0;
+  const edicts: Runestone['edicts'] = [];
+  const fields = new Map<bigint, bigint[]>();
+
+  for (let i = 0; i < integers.length; i += 2) {
+    const tag = integers[i];
+
+    if (tag === BigInt(RunestoneTag.Body)) {
+      let id: RuneId = { block: 0n, tx: 0n };
+
+      for (let j = i + 1; j < integers.length; j += 4) {
+        if (j + 4 > integers.length) {
+          flaws |= flawFlag(RunestoneFlaw.TrailingIntegers);
+          break;
+        }
+
+        const [blockDelta, txDelta, amount, output] = integers.slice(j, j + 4);
+
+        const block = id.block + blockDelta;
+        const tx = blockDelta === 0n ? id.tx + txDelta : txDelta;
+
+        if (blockDelta > U64_MAX || block > U64_MAX || txDelta > U32_MAX || tx > U32_MAX || (block === 0n && tx > 0n)) {
+          flaws |= flawFlag(RunestoneFlaw.EdictRuneId);
+          break;
+        }
+
+        // an output equal to the number of outputs splits the amount between all non OP_RETURN outputs
+        if (output > BigInt(outputScripts.length)) {
+          flaws |= flawFlag(RunestoneFlaw.EdictOutput);
+          break;
+        }
+
+        id = { block, tx };
+        edicts.push({ id: formatRuneId(id), amount: toBigNumber(amount), output: toBigNumber(output) });
+      }
+
+      break;
+    }
+
+    if (i + 1 >= integers.length) {
+      flaws |= flawFlag(RunestoneFlaw.TruncatedField);
+      break;
+    }
+
+    const values = fields.get(tag) ?? [];
+    values.push(integers[i + 1]);
+    fields.set(tag, values);
+  }
+
+  let flags = takeField(fields, RunestoneTag.Flags, 1, ([value]) => value) ?? 0n;
+
+  const takeFlag = (flag: RunestoneFlag) => {
+    const mask = 1n << BigInt(flag);
+    const isSet = (flags & mask) !== 0n;
+    flags &= ~mask;
+    return isSet;
+  };
+
+  let etching: RuneEtching | undefined;
+
+  if (takeFlag(RunestoneFlag.Etching)) {
+    const divisibility = takeField(fields, RunestoneTag.Divisibility, 1, ([value]) =>
+      value <= BigInt(MAX_DIVISIBILITY) ? value : undefined,
+    );
+    const premine = takeField(fields, RunestoneTag.Premine, 1, ([value]) => value);
+    const rune = takeField(fields, RunestoneTag.Rune, 1, ([value]) => value);
+    const spacers = takeField(fields, RunestoneTag.Spacers, 1, ([value]) =>
+      value <= BigInt(MAX_SPACERS) ? value : undefined,
+    );
+    const symbol = takeField(fields, RunestoneTag.Symbol, 1, ([value]) =>
+      value <= 0x10ffffn && (value < 0xd800n || value > 0xdfffn) ? String.fromCodePoint(Number(value)) : undefined,
+    );
+
+    let terms: RuneTerms | undefined;
+    let cap: bigint | undefined;
+    let amount: bigint | undefined;
+    if (takeFlag(RunestoneFlag.Terms)) {
+      cap = takeField(fields, RunestoneTag.Cap, 1, ([value]) => value);
+      const heightStart = takeField(fields, RunestoneTag.HeightStart, 1, parseU64);
+      const heightEnd = takeField(fields, RunestoneTag.HeightEnd, 1, parseU64);
+      amount = takeField(fields, RunestoneTag.Amount, 1, ([value]) => value);
+      const offsetStart = takeField(fields, RunestoneTag.OffsetStart, 1, parseU64);
+      const offsetEnd = takeField(fields, RunestoneTag.OffsetEnd, 1, parseU64);
+
+      terms = {
+        amount: amount !== undefined ? toBigNumber(amount) : undefined,
+        cap: cap !== undefined ? toBigNumber(cap) : undefined,
+        height: [
+          heightStart !== undefined ? toBigNumber(heightStart) : null,
+          heightEnd !== undefined ? toBigNumber(heightEnd) : null,
+        ],
+        offset: [
+          offsetStart !== undefined ? toBigNumber(offsetStart) : null,
+          offsetEnd !== undefined ? toBigNumber(offsetEnd) : null,
+        ],
+      };
+    }
+
+    const turbo = takeFlag(RunestoneFlag.Turbo);
+
+    // the total supply of the rune must fit in a u128
+    if ((premine ?? 0n) + (cap ?? 0n) * (amount ?? 0n) > U128_MAX) {
+      flaws |= flawFlag(RunestoneFlaw.SupplyOverflow);
+    }
+
+    etching = {
+      divisibility: divisibility !== undefined ? toBigNumber(divisibility) : undefined,
+      premine: premine !== undefined ? toBigNumber(premine) : undefined,
+      rune: rune !== undefined ? runeNumberToName(rune) : undefined,
+      spacers: toBigNumber(spacers ?? 0n),
+      symbol,
+      terms,
+      turbo,
+    };
+  }
+
+  const mint = takeField(fields, RunestoneTag.Mint, 2, ([block, tx]) =>
+    block <= U64_MAX && tx <= U32_MAX && !(block === 0n && tx > 0n) ? formatRuneId({ block, tx }) : undefined,
+  );
+
+  const pointer = takeField(fields, RunestoneTag.Pointer, 1, ([value]) =>
+    value < BigInt(outputScripts.length) ? value : undefined,
+  );
+
+  if (flags !== 0n) {
+    flaws |= flawFlag(RunestoneFlaw.UnrecognizedFlag);
+  }
+
+  if ([...fields.keys()].some((tag) => tag % 2n === 0n)) {
+    flaws |= flawFlag(RunestoneFlaw.UnrecognizedEvenTag);
+  }
+
+  if (flaws !== 0) {
+    return {
+      Cenotaph: {
+        flaws,
+        etching: etching?.rune !== undefined ? toBigNumber(runeNameToNumber(etching.rune)) : undefined,
+        mint,
+      },
+    };
+  }
+
+  return {
+    Runestone: {
+      edicts,
+      etching,
+      mint: mint ?? null,
+      pointer: pointer !== undefined ? toBigNumber(pointer) : null,
+    },
+  };
+};
+
+/**
+ * Decodes the runestone of a raw transaction
+ * @param transactionHex - The raw transaction, signed or unsigned
+ * @returns the artifact or undefined if the transaction has no runestone
+ */
+export const decodeRunestone = (transactionHex: string): Artifact | undefined => {
+  const { outputs } = btc.RawTx.decode(hex.decode(transactionHex));
+
+  return decodeRunestoneFromScripts(outputs.map((output) => output.script));
+};
@@ -0,0 +1,609 @@
+import { crypto } from 'bitcoinjs-lib';
+
+/**
+ * Uniform Resources (BCR-2020-005) encoded as minimal bytewords (BCR-2020-012), including the fountain codes used
+ * to split large payloads such as PSBTs into the frames of an animated QR code.
+ */
+
+// prettier-ignore
+const BYTEWORDS = [
+  'able', 'acid', 'also', 'apex', 'aqua', 'arch', 'atom', 'aunt', 'away', 'axis', 'back', 'bald', 'barn', 'belt',
+  'beta', 'bias', 'blue', 'body', 'brag', 'brew', 'bulb', 'buzz', 'calm', 'cash', 'cats', 'chef', 'city', 'claw',
+  'code', 'cola', 'cook', 'cost', 'crux', 'curl', 'cusp', 'cyan', 'dark', 'data', 'days', 'deli', 'dice', 'diet',
+  'door', 'down', 'draw', 'drop', 'drum', 'dull', 'duty', 'each', 'easy', 'echo', 'edge', 'epic', 'even', 'exam',
+  'exit', 'eyes', 'fact', 'fair', 'fern', 'figs', 'film', 'fish', 'fizz', 'flap', 'flew', 'flux', 'foxy', 'free',
+  'frog', 'fuel', 'fund', 'gala', 'game', 'gear', 'gems', 'gift', 'girl', 'glow', 'good', 'gray', 'grim', 'guru',
+  'gush', 'gyro', 'half', 'hang', 'hard', 'hawk', 'heat', 'help', 'high', 'hill', 'holy', 'hope', 'horn', 'huts',
+  'iced', 'idea', 'idle', 'inch', 'inky', 'into', 'iris', 'iron', 'item', 'jade', 'jazz', 'join', 'jolt', 'jowl',
+  'judo', 'jugs', 'jump', 'junk', 'jury', 'keep', 'keno', 'kept', 'keys', 'kick', 'kiln', 'king', 'kite', 'kiwi',
+  'knob', 'lamb', 'lava', 'lazy', 'leaf', 'legs', 'liar', 'limp', 'lion', 'list', 'logo', 'loud', 'love', 'luau',
+  'luck', 'lung', 'main', 'many', 'math', 'maze', 'memo', 'menu', 'meow', 'mild', 'mint', 'miss', 'monk', 'nail',
+  'navy', 'need', 'news', 'next', 'noon', 'note', 'numb', 'obey', 'oboe', 'omit', 'onyx', 'open', 'oval', 'owls',
+  'paid', 'part', 'peck', 'play', 'plus', 'poem', 'pool', 'pose', 'puff', 'puma', 'purr', 'quad', 'quiz', 'race',
+  'ramp', 'real', 'redo', 'rich', 'road', 'rock', 'roof', 'ruby', 'ruin', 'runs', 'rust', 'safe', 'saga', 'scar',
+  'sets', 'silk', 'skew', 'slot', 'soap', 'solo', 'song', 'stub', 'surf', 'swan', 'taco', 'task', 'taxi', 'tent',
+  'tied', 'time', 'tiny', 'toil', 'tomb', 'toys', 'trip', 'tuna', 'twin', 'ugly', 'undo', 'unit', 'urge', 'user',
+  'vast', 'very', 'veto', 'vial', 'vibe', 'view', 'visa', 'void', 'vows', 'wall', 'wand', 'warm', 'wasp', 'wave',
+  'waxy', 'webs', 'what', 'when', 'whiz', 'wolf', 'work', 'yank', 'yawn', 'yell', 'yoga', 'yurt', 'zaps', 'zero',
+  'zest', 'zinc', 'zone', 'zoom',
+];
+
+const MINIMAL_BYTEWORDS = BYTEWORDS.map((word) => `${word[0]}${word[3]}`);
+const MINIMAL_BYTEWORD_INDEXES = new Map(MINIMAL_BYTEWORDS.map((word, i) => [word, i]));
+
+const MIN_FRAGMENT_LENGTH = 10;
+
+let crcTable: number[] | undefined;
+
+/**
+ * CRC-32 (ISO-HDLC) as used for the bytewords and fountain code checksums
+ */
+export const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      return c >>> 0;
+    });
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const uint32ToBytes = (value: number) =>
+  new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+
+const concatBytes = (...arrays: Uint8Array[]) => {
+  const result = new Uint8Array(arrays.reduce((length, array) => length + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+};
+
+export const encodeBytewords = (data: Uint8Array): string => {
+  const withChecksum = concatBytes(data, uint32ToBytes(crc32(data)));
+
+  return Array.from(withChecksum, (byte) => MINIMAL_BYTEWORDS[byte]).join('');
+};
+
+export const decodeBytewords = (bytewords: string): Uint8Array => {
+  const lowerCaseBytewords = bytewords.toLowerCase();
+
+  if (lowerCaseBytewords.length % 2 !== 0 || lowerCaseBytewords.length < 10) {
+    throw new Error('Invalid bytewords length');
+  }
+
+  const bytes = new Uint8Array(lowerCaseBytewords.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = MINIMAL_BYTEWORD_INDEXES.get(lowerCaseBytewords.slice(i * 2, i * 2 + 2));
+    if (byte === undefined) {
+      throw new Error('Invalid byteword');
+    }
+    bytes[i] = byte;
+  }
+
+  const data = bytes.slice(0, -4);
+  const checksum = bytes.slice(-4);
+  if (uint32ToBytes(crc32(data)).some((byte, i) => byte !== checksum[i])) {
+    throw new Error('Invalid bytewords checksum');
+  }
+
+  return data;
+};
+
+/*
+ * The minimal subset of CBOR (RFC 8949) needed for UR parts and byte string payloads
+ */
+
+const CBOR_UNSIGNED_INT = 0;
+const CBOR_BYTE_STRING = 2;
+const CBOR_ARRAY = 4;
+
+const encodeCborHeader = (majorType: number, value: number): Uint8Array => {
+  const type = majorType << 5;
+
+  if (value < 24) {
+    return new Uint8Array([type | value]);
+  }
+  if (value < 0x100) {
+    return new Uint8Array([type | 24, value]);
+  }
+  if (value < 0x10000) {
+    return new Uint8Array([type | 25, value >> 8, value & 0xff]);
+  }
+  if (value <= 0xffffffff) {
+    return concatBytes(new Uint8Array([type | 26]), uint32ToBytes(value));
+  }
+
+  throw new Error('CBOR value too large');
+};
+
+export const encodeCborBytes = (data: Uint8Array): Uint8Array =>
+  concatBytes(encodeCborHeader(CBOR_BYTE_STRING, data.length), data);
+
+class CborReader {
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  get isAtEnd() {
+    return this.offset === this.data.length;
+  }
+
+  private readByte() {
+    if (this.offset >= this.data.length) {
+      throw new Error('Unexpected end of CBOR data');
+    }
+    return this.data[this.offset++];
+  }
+
+  readHeader(expectedMajorType: number): number {
+    const initialByte = this.readByte();
+    const majorType = initialByte >> 5;
+    const additionalInfo = initialByte & 0x1f;
+
+    if (majorType !== expectedMajorType) {
+      throw new Error(`Unexpected CBOR major type ${majorType}`);
+    }
+
+    if (additionalInfo < 24) {
+      return additionalInfo;
+    }
+
+    const byteLengths: Record<number, number> = { 24: 1, 25: 2, 26: 4 };
+    const length = byteLengths[additionalInfo];
+    if (!length) {
+      throw new Error('Unsupported CBOR length');
+    }
+
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = value * 0x100 + this.readByte();
+    }
+    return value;
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readHeader(CBOR_BYTE_STRING);
+
+    if (this.offset + length > this.data.length) {
+      throw new Error('Unexpected end of CBOR data');
+    }
+
+    const bytes = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+}
+
+export const decodeCborBytes = (cbor: Uint8Array): Uint8Array => {
+  const reader = new CborReader(cbor);
+  const data = reader.readBytes();
+
+  if (!reader.isAtEnd) {
+    throw new Error('Unexpected trailing CBOR data');
+  }
+
+  return data;
+};
+
+/*
+ * Fountain codes
+ */
+
+const UINT64_MASK = (1n << 64n) - 1n;
+
+const rotateLeft = (value: bigint, bits: bigint) => ((value << bits) | (value >> (64n - bits))) & UINT64_MASK;
+
+/**
+ * The xoshiro256** PRNG, seeded with the SHA-256 digest of the seed as specified for UR fountain codes
+ */
+export class Xoshiro256 {
+  private state: bigint[];
+
+  constructor(seed: Uint8Array | string) {
+    const digest = crypto.sha256(Buffer.from(seed));
+
+    this.state = [0, 1, 2, 3].map((i) => {
+      let value = 0n;
+      for (let n = 0; n < 8; n++) {
+        value = (value << 8n) | BigInt(digest[i * 8 + n]);
+      }
+      return value;
+    });
+  }
+
+  next(): bigint {
+    const [s0, s1, s2, s3] = this.state;
+
+    const result = (rotateLeft((s1 * 5n) & UINT64_MASK, 7n) * 9n) & UINT64_MASK;
+    const t = (s1 << 17n) & UINT64_MASK;
+
+    const newS2 = s2 ^ s0;
+    const newS3 = s3 ^ s1;
+    const newS1 = s1 ^ newS2;
+    const newS0 = s0 ^ newS3;
+
+    this.state = [newS0, newS1, newS2 ^ t, rotateLeft(newS3, 45n)];
+
+    return result;
+  }
+
+  nextDouble(): number {
+    return Number(this.next()) / 2 ** 64;
+  }
+
+  nextInt(low: number, high: number): number {
+    return Math.floor(this.nextDouble() * (high - low + 1)) + low;
+  }
+}
+
+/**
+ * Samples indexes from a discrete distribution using Vose's alias method
+ */
+const createRandomSampler = (probabilities: number[]) => {
+  const count = probabilities.length;
+  const total = probabilities.reduce((sum, p) => sum + p, 0);
+  const scaled = probabilities.map((p) => (p * count) / total);
+
+  const probs = new Array<number>(count).fill(0);
+  const aliases = new Array<number>(count).fill(0);
+  const small: number[] = [];
+  const large: number[] = [];
+
+  for (let i = count - 1; i >= 0; i--) {
+    if (scaled[i] < 1) {
+      small.push(i);
+    } else {
+      large.push(i);
+    }
+  }
+
+  while (small.length > 0 && large.length > 0) {
+    const a = small.pop() as number;
+    const g = large.pop() as number;
+    probs[a] = scaled[a];
+    aliases[a] = g;
+    scaled[g] += scaled[a] - 1;
+
+    if (scaled[g] < 1) {
+      small.push(g);
+    } else {
+      large.push(g);
+    }
+  }
+
+  for (const i of [...large, ...small]) {
+    probs[i] = 1;
+  }
+
+  return (rng: Xoshiro256) => {
+    const r1 = rng.nextDouble();
+    const r2 = rng.nextDouble();
+    const i = Math.floor(count * r1);
+
+    return r2 < probs[i] ? i : aliases[i];
+  };
+};
+
+const shuffle = <T>(items: T[], rng: Xoshiro256): T[] => {
+  const remaining = [...items];
+  const result: T[] = [];
+
+  while (remaining.length > 0) {
+    const index = rng.nextInt(0, remaining.length - 1);
+    result.push(...remaining.splice(index, 1));
+  }
+
+  return result;
+};
+
+/**
+ * Gets the indexes of the fragments which are XORed together in a part. The first seqLength parts are the plain
+ * fragments, after which the fragments are mixed pseudo-randomly.
+ */
+export const chooseFragments = (seqNum: number, seqLength: number, checksum: number): number[] => {
+  if (seqNum <= seqLength) {
+    return [seqNum - 1];
+  }
+
+  const rng = new Xoshiro256(concatBytes(uint32ToBytes(seqNum), uint32ToBytes(checksum)));
+
+  const degreeSampler = createRandomSampler(Array.from({ length: seqLength }, (_, i) => 1 / (i + 1)));
+  const degree = degreeSampler(rng) + 1;
+
+  const indexes = Array.from({ length: seqLength }, (_, i) => i);
+  return shuffle(indexes, rng).slice(0, degree);
+};
+
+const getFragmentLength = (messageLength: number, maxFragmentLength: number) => {
+  if (messageLength <= maxFragmentLength) {
+    return messageLength;
+  }
+
+  const maxFragmentCount = Math.max(1, Math.floor(messageLength / MIN_FRAGMENT_LENGTH));
+  let fragmentLength = messageLength;
+  for (let fragmentCount = 1; fragmentCount <= maxFragmentCount; fragmentCount++) {
+    fragmentLength = Math.ceil(messageLength / fragmentCount);
+    if (fragmentLength <= maxFragmentLength) {
+      break;
+    }
+  }
+
+  return fragmentLength;
+};
+
+const xorInto = (target: Uint8Array, source: Uint8Array) => {
+  for (let i = 0; i < target.length; i++) {
+    target[i] ^= source[i];
+  }
+};
+
+type UrPart = {
+  seqNum: number;
+  seqLength: number;
+  messageLength: number;
+  checksum: number;
+  data: Uint8Array;
+};
+
+const encodeUrPart = ({ seqNum, seqLength, messageLength, checksum, data }: UrPart) =>
+  concatBytes(
+    encodeCborHeader(CBOR_ARRAY, 5),
+    encodeCborHeader(CBOR_UNSIGNED_INT, seqNum),
+    encodeCborHeader(CBOR_UNSIGNED_INT, seqLength),
+    encodeCborHeader(CBOR_UNSIGNED_INT, messageLength),
+    encodeCborHeader(CBOR_UNSIGNED_INT, checksum),
+    encodeCborBytes(data),
+  );
+
+const decodeUrPart = (cbor: Uint8Array): UrPart => {
+  const reader = new CborReader(cbor);
+
+  if (reader.readHeader(CBOR_ARRAY) !== 5) {
+    throw new Error('Invalid UR part');
+  }
+
+  const part = {
+    seqNum: reader.readHeader(CBOR_UNSIGNED_INT),
+    seqLength: reader.readHeader(CBOR_UNSIGNED_INT),
+    messageLength: reader.readHeader(CBOR_UNSIGNED_INT),
+    checksum: reader.readHeader(CBOR_UNSIGNED_INT),
+    data: reader.readBytes(),
+  };
+
+  if (!reader.isAtEnd || part.seqNum < 1 || part.seqLength < 1) {
+    throw new Error('Invalid UR part');
+  }
+
+  return part;
+};
+
+export type UrEncodeOptions = {
+  /** The maximum length in bytes of each fragment of the message */
+  maxFragmentLength?: number;
+  /** The number of mixed parts to add after the plain fragments, to speed up scanning of looping animations */
+  extraParts?: number;
+};
+
+/**
+ * Encodes a CBOR message as UR strings. Messages which fit into one fragment are encoded as a single part.
+ */
+export const encodeUr = (
+  type: string,
+  message: Uint8Array,
+  { maxFragmentLength = 200, extraParts = 0 }: UrEncodeOptions = {},
+): string[] => {
+  if (!/^[a-z0-9-]+$/.test(type)) {
+    throw new Error(`Invalid UR type: ${type}`);
+  }
+  if (message.length === 0) {
+    throw new Error('Cannot encode an empty UR message');
+  }
+
+  const fragmentLength = getFragmentLength(message.length, maxFragmentLength);
+  const seqLength = Math.ceil(message.length / fragmentLength);
+
+  if (seqLength === 1) {
+    return [`ur:${type}/${encodeBytewords(message)}`];
+  }
+
+  const paddedMessage = new Uint8Array(seqLength * fragmentLength);
+  paddedMessage.set(message);
+  const fragments = Array.from({ length: seqLength }, (_, i) =>
+    paddedMessage.slice(i * fragmentLength, (i + 1) * fragmentLength),
+  );
+  const checksum = crc32(message);
+
+  return Array.from({ length: seqLength + extraParts }, (_, i) => {
+    const seqNum = i + 1;
+    const data = new Uint8Array(fragmentLength);
+    for (const index of chooseFragments(seqNum, seqLength, checksum)) {
+      xorInto(data, fragments[index]);
+    }
+
+    const part = encodeUrPart({ seqNum, seqLength, messageLength: message.length, checksum, data });
+    return `ur:${type}/${seqNum}-${seqLength}/${encodeBytewords(part)}`;
+  });
+};
+
+type MixedPart = { indexes: number[]; data: Uint8Array };
+
+/**
+ * Collects the parts of a UR, in any order and with duplicates, until the message can be reconstructed
+ */
+export class UrDecoder {
+  private _type?: string;
+
+  private _message?: Uint8Array;
+
+  private _expected?: Omit<UrPart, 'seqNum' | 'data'> & { fragmentLength: number };
+
+  private _fragments = new Map<number, Uint8Array>();
+
+  private _mixedParts = new Map<string, MixedPart>();
+
+  get type(): string | undefined {
+    return this._type;
+  }
+
+  get isComplete(): boolean {
+    return this._message !== undefined;
+  }
+
+  /** The ratio of fragments recovered so far, between 0 and 1 */
+  get progress(): number {
+    if (this._message) {
+      return 1;
+    }
+    return this._expected ? this._fragments.size / this._expected.seqLength : 0;
+  }
+
+  get message(): Uint8Array {
+    if (!this._message) {
+      throw new Error('UR is not complete');
+    }
+    return this._message;
+  }
+
+  receivePart(ur: string): void {
+    const match = /^ur:([a-z0-9-]+)\/(?:(\d+)-(\d+)\/)?([a-z]+)$/.exec(ur.trim().toLowerCase());
+    if (!match) {
+      throw new Error('Invalid UR');
+    }
+
+    const [, type, seqNum, seqLength, bytewords] = match;
+
+    if (this._type && this._type !== type) {
+      throw new Error(`Unexpected UR type ${type}, expected ${this._type}`);
+    }
+    this._type = type;
+
+    if (this._message) {
+      return;
+    }
+
+    const data = decodeBytewords(bytewords);
+
+    if (seqNum === undefined) {
+      this._message = data;
+      return;
+    }
+
+    const part = decodeUrPart(data);
+    if (part.seqNum !== +seqNum || part.seqLength !== +seqLength) {
+      throw new Error('UR sequence does not match its part');
+    }
+
+    this.receiveFountainPart(part);
+  }
+
+  private receiveFountainPart(part: UrPart) {
+    if (!this._expected) {
+      this._expected = {
+        seqLength: part.seqLength,
+        messageLength: part.messageLength,
+        checksum: part.checksum,
+        fragmentLength: part.data.length,
+      };
+    } else if (
+      this._expected.seqLength !== part.seqLength ||
+      this._expected.messageLength !== part.messageLength ||
+      this._expected.checksum !== part.checksum ||
+      this._expected.fragmentLength !== part.data.length
+    ) {
+      throw new Error('UR part belongs to a different message');
+    }
+
+    const queue: MixedPart[] = [
+      { indexes: chooseFragments(part.seqNum, part.seqLength, part.checksum), data: part.data },
+    ];
+
+    while (queue.length > 0) {
+      const mixedPart = this.reducePart(queue.shift() as MixedPart);
+
+      if (mixedPart.indexes.length === 1) {
+        const [index] = mixedPart.indexes;
+        if (this._fragments.has(index)) {
+          continue;
+        }
+
+        this._fragments.set(index, mixedPart.data);
+
+        // the new fragment may reduce mixed parts we already have
+        for (const [key, otherPart] of this._mixedParts) {
+          if (otherPart.indexes.includes(index)) {
+            this._mixedParts.delete(key);
+            queue.push(otherPart);
+          }
+        }
+      } else if (mixedPart.indexes.length > 1) {
+        this._mixedParts.set(mixedPart.indexes.join(','), mixedPart);
+      }
+    }
+
+    if (this._fragments.size === this._expected.seqLength) {
+      this.assembleMessage();
+    }
+  }
+
+  private reducePart({ indexes, data }: MixedPart): MixedPart {
+    const reducedData = new Uint8Array(data);
+    const reducedIndexes = indexes.filter((index) => {
+      const fragment = this._fragments.get(index);
+      if (fragment) {
+        xorInto(reducedData, fragment);
+        return false;
+      }
+      return true;
+    });
+
+    return { indexes: reducedIndexes.sort((a, b) => a - b), data: reducedData };
+  }
+
+  private assembleMessage() {
+    if (!this._expected) {
+      throw new Error('Cannot assemble a UR message before receiving any part');
+    }
+
+    const { seqLength, messageLength, checksum, fragmentLength } = this._expected;
+
+    const paddedMessage = new Uint8Array(seqLength * fragmentLength);
+    for (const [index, fragment] of this._fragments) {
+      paddedMessage.set(fragment, index * fragmentLength);
+    }
+
+    const message = paddedMessage.slice(0, messageLength);
+    if (crc32(message) !== checksum) {
+      throw new Error('Invalid UR message checksum');
+    }
+
+    this._message = message;
+  }
+}
+
+/**
+ * Decodes a complete set of UR parts, returning the UR type and its CBOR message
+ */
+export const decodeUr = (parts: string[]): { type: string; message: Uint8Array } => {
+  const decoder = new UrDecoder();
+
+  for (const part of parts) {
+    decoder.receivePart(part);
+  }
+
+  if (!decoder.isComplete) {
+    throw new Error('Missing UR parts');
+  }
+
+  return { type: decoder.type as string, message: decoder.message };
+};
@@ -18,7 +18,9 @@ import { networks, payments } from 'bitcoinjs-lib';
 import { c32addressDecode } from 'c32check';
 import crypto from 'crypto';
 import {
+  BTC_MULTISIG_PATH_PURPOSE,
   BTC_SEGWIT_PATH_PURPOSE,
+  BTC_SILENT_PAYMENT_PATH_PURPOSE,
   BTC_TAPROOT_PATH_PURPOSE,
   BTC_WRAPPED_SEGWIT_PATH_PURPOSE,
   ENTROPY_BYTES,
@@ -206,6 +208,30 @@ export function getTaprootDerivationPath({
     : `${BTC_TAPROOT_PATH_PURPOSE}1'/${accountIndex}'/0/${index.toString()}`;
 }
 
+/**
+ * BIP-352 derives a single scan and spend key per account, so the index is used as the account level of the path
+ */
+export function getSilentPaymentDerivationPath({
+  index,
+  network,
+  key,
+}: {
+  index: bigint | number;
+  network: NetworkType;
+  key: 'scan' | 'spend';
+}) {
+  const coinType = network === 'Mainnet' ? '0' : '1';
+  return `${BTC_SILENT_PAYMENT_PATH_PURPOSE}${coinType}'/${index.toString()}'/${key === 'scan' ? '1' : '0'}'/0`;
+}
+
+/**
+ * BIP-87 derives the cosigner keys of multisig accounts, which are shared with the other cosigners
+ */
+export function getMultisigDerivationPath({ index, network }: { index: bigint | number; network: NetworkType }) {
+  const coinType = network === 'Mainnet' ? '0' : '1';
+  return `${BTC_MULTISIG_PATH_PURPOSE}${coinType}'/${index.toString()}'/0/0`;
+}
+
 export async function getBtcPrivateKey({
   seedPhrase,
   index,